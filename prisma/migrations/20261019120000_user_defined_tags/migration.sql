@@ -0,0 +1,76 @@
+/*
+  Replaces the fixed "TaskTag" enum with per-user "Tag" rows. Every tag value
+  a user has on any task becomes one of that user's tags, and the tasks are
+  linked to it, before the old column and enum are dropped.
+*/
+-- CreateTable
+CREATE TABLE "Tag" (
+    "id" TEXT NOT NULL,
+    "name" TEXT NOT NULL,
+    "color" TEXT NOT NULL,
+    "icon" TEXT,
+    "userId" TEXT NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "Tag_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "_TagToTask" (
+    "A" TEXT NOT NULL,
+    "B" TEXT NOT NULL
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "Tag_userId_name_key" ON "Tag"("userId", "name");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "_TagToTask_AB_unique" ON "_TagToTask"("A", "B");
+
+-- CreateIndex
+CREATE INDEX "_TagToTask_B_index" ON "_TagToTask"("B");
+
+-- AddForeignKey
+ALTER TABLE "Tag" ADD CONSTRAINT "Tag_userId_fkey" FOREIGN KEY ("userId") REFERENCES "User"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "_TagToTask" ADD CONSTRAINT "_TagToTask_A_fkey" FOREIGN KEY ("A") REFERENCES "Tag"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "_TagToTask" ADD CONSTRAINT "_TagToTask_B_fkey" FOREIGN KEY ("B") REFERENCES "Task"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- MigrateData
+INSERT INTO "Tag" ("id", "name", "color", "userId", "updatedAt")
+SELECT
+    gen_random_uuid()::text,
+    "used"."name",
+    CASE "used"."name"
+        WHEN 'Work' THEN '#3b82f6'
+        WHEN 'Personal' THEN '#8b5cf6'
+        WHEN 'Urgent' THEN '#ef4444'
+        WHEN 'Important' THEN '#f97316'
+        WHEN 'Project' THEN '#14b8a6'
+        WHEN 'Meeting' THEN '#eab308'
+        WHEN 'Health' THEN '#22c55e'
+        WHEN 'Finance' THEN '#22c55e'
+        WHEN 'Learning' THEN '#ec4899'
+        ELSE '#6b7280'
+    END,
+    "used"."userId",
+    CURRENT_TIMESTAMP
+FROM (
+    SELECT DISTINCT "userId", unnest("tags")::text AS "name" FROM "Task"
+) AS "used";
+
+INSERT INTO "_TagToTask" ("A", "B")
+SELECT DISTINCT "Tag"."id", "Task"."id"
+FROM "Task"
+CROSS JOIN LATERAL unnest("Task"."tags") AS "value"
+JOIN "Tag" ON "Tag"."userId" = "Task"."userId" AND "Tag"."name" = "value"::text;
+
+-- AlterTable
+ALTER TABLE "Task" DROP COLUMN "tags";
+
+-- DropEnum
+DROP TYPE "TaskTag";
@@ -0,0 +1,2 @@
+-- AlterTable
+ALTER TABLE "User" ADD COLUMN "dailyCapacityMinutes" INTEGER NOT NULL DEFAULT 480;
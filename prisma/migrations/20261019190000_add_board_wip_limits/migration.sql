@@ -0,0 +1,2 @@
+-- AlterTable
+ALTER TABLE "User" ADD COLUMN "boardWipLimits" JSONB NOT NULL DEFAULT '{}';
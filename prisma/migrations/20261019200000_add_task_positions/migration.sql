@@ -0,0 +1,22 @@
+-- AlterTable
+ALTER TABLE "Task" ADD COLUMN "position" TEXT COLLATE "C";
+
+-- Backfill keys in the previous default order (newest first): "c000", "c001", ...
+WITH "ranked" AS (
+  SELECT "id", (ROW_NUMBER() OVER (PARTITION BY "userId" ORDER BY "createdAt" DESC, "id" DESC) - 1)::int AS "n"
+  FROM "Task"
+), "digits" AS (
+  SELECT '0123456789ABCDEFGHIJKLMNOPQRSTUVWXYZabcdefghijklmnopqrstuvwxyz' AS "d"
+)
+UPDATE "Task"
+SET "position" = 'c'
+  || substr("d", "n" / 3844 + 1, 1)
+  || substr("d", ("n" / 62) % 62 + 1, 1)
+  || substr("d", "n" % 62 + 1, 1)
+FROM "ranked", "digits"
+WHERE "Task"."id" = "ranked"."id";
+
+ALTER TABLE "Task" ALTER COLUMN "position" SET NOT NULL;
+
+-- CreateIndex
+CREATE INDEX "Task_userId_position_idx" ON "Task"("userId", "position");
@@ -0,0 +1,2 @@
+-- AlterTable
+ALTER TABLE "User" ADD COLUMN "weekStartsOn" INTEGER NOT NULL DEFAULT 1;
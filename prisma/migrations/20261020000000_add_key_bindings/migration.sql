@@ -0,0 +1,2 @@
+-- AlterTable
+ALTER TABLE "User" ADD COLUMN "keyBindings" JSONB NOT NULL DEFAULT '{}';
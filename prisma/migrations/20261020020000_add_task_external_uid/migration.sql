@@ -0,0 +1,5 @@
+-- AlterTable
+ALTER TABLE "Task" ADD COLUMN "externalUid" TEXT;
+
+-- CreateIndex
+CREATE UNIQUE INDEX "Task_userId_externalUid_key" ON "Task"("userId", "externalUid");
@@ -0,0 +1,8 @@
+-- AlterTable
+ALTER TABLE "Task" ADD COLUMN "previousOccurrenceId" TEXT;
+
+-- CreateIndex
+CREATE INDEX "Task_previousOccurrenceId_idx" ON "Task"("previousOccurrenceId");
+
+-- AddForeignKey
+ALTER TABLE "Task" ADD CONSTRAINT "Task_previousOccurrenceId_fkey" FOREIGN KEY ("previousOccurrenceId") REFERENCES "Task"("id") ON DELETE SET NULL ON UPDATE CASCADE;
@@ -0,0 +1,7 @@
+-- AlterTable
+ALTER TABLE "Task" ADD COLUMN "hasDueTime" BOOLEAN NOT NULL DEFAULT false;
+
+-- Existing due dates were whole days when saved at UTC midnight; anything
+-- else was saved with a time
+UPDATE "Task" SET "hasDueTime" = true
+WHERE "dueDate" IS NOT NULL AND "dueDate" <> date_trunc('day', "dueDate");
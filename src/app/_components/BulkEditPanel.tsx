@@ -0,0 +1,140 @@
+"use client";
+import React, { useState } from "react";
+import { XMarkIcon } from "@heroicons/react/24/outline";
+import { TASK_PRIORITIES, TASK_STATUSES } from "../lib/taskConstants";
+import { TagSummary } from "../lib/tagValidation";
+
+// Body of an "update" operation for POST /api/tasks/bulk
+export interface BulkUpdate {
+  status?: string;
+  priority?: string | null;
+  // Tag ids
+  addTags?: string[];
+  removeTags?: string[];
+  shiftDueDateDays?: number;
+}
+
+const NO_CHANGE = "";
+const CLEAR_PRIORITY = "__clear__";
+
+const toggleValue = (values: string[], value: string) =>
+  values.includes(value)
+    ? values.filter((item) => item !== value)
+    : [...values, value];
+
+const BulkEditPanel: React.FC<{
+  count: number;
+  tags: TagSummary[];
+  onApply: (update: BulkUpdate) => void;
+  onClose: () => void;
+}> = ({ count, tags, onApply, onClose }) => {
+  const [status, setStatus] = useState(NO_CHANGE);
+  const [priority, setPriority] = useState(NO_CHANGE);
+  const [addTags, setAddTags] = useState<string[]>([]);
+  const [removeTags, setRemoveTags] = useState<string[]>([]);
+  const [shiftDays, setShiftDays] = useState("");
+
+  const update: BulkUpdate = {};
+  if (status !== NO_CHANGE) update.status = status;
+  if (priority !== NO_CHANGE)
+    update.priority = priority === CLEAR_PRIORITY ? null : priority;
+  if (addTags.length) update.addTags = addTags;
+  if (removeTags.length) update.removeTags = removeTags;
+  if (shiftDays && parseInt(shiftDays, 10) !== 0)
+    update.shiftDueDateDays = parseInt(shiftDays, 10);
+
+  const hasChanges = Object.keys(update).length > 0;
+
+  return (
+    <div className="mb-4 p-4 bg-white shadow-md rounded-lg space-y-3">
+      <div className="flex justify-between items-center">
+        <h3 className="font-semibold">Edit {count} selected task(s)</h3>
+        <button onClick={onClose} className="text-gray-400 hover:text-gray-600">
+          <XMarkIcon className="h-5 w-5" />
+        </button>
+      </div>
+      <div className="grid grid-cols-1 sm:grid-cols-3 gap-3 text-sm">
+        <label className="flex flex-col">
+          <span className="text-xs font-medium text-gray-500 mb-1">Status</span>
+          <select
+            value={status}
+            onChange={(e) => setStatus(e.target.value)}
+            className="p-1 border rounded"
+          >
+            <option value={NO_CHANGE}>No change</option>
+            {TASK_STATUSES.map((value) => (
+              <option key={value} value={value}>
+                {value}
+              </option>
+            ))}
+          </select>
+        </label>
+        <label className="flex flex-col">
+          <span className="text-xs font-medium text-gray-500 mb-1">
+            Priority
+          </span>
+          <select
+            value={priority}
+            onChange={(e) => setPriority(e.target.value)}
+            className="p-1 border rounded"
+          >
+            <option value={NO_CHANGE}>No change</option>
+            <option value={CLEAR_PRIORITY}>Not set</option>
+            {TASK_PRIORITIES.map((value) => (
+              <option key={value} value={value}>
+                {value}
+              </option>
+            ))}
+          </select>
+        </label>
+        <label className="flex flex-col">
+          <span className="text-xs font-medium text-gray-500 mb-1">
+            Shift due date (days)
+          </span>
+          <input
+            type="number"
+            value={shiftDays}
+            onChange={(e) => setShiftDays(e.target.value)}
+            placeholder="e.g. 7 or -2"
+            className="p-1 border rounded"
+          />
+        </label>
+      </div>
+      {[
+        { label: "Add tags", values: addTags, setValues: setAddTags },
+        { label: "Remove tags", values: removeTags, setValues: setRemoveTags },
+      ].map(({ label, values, setValues }) => (
+        <div key={label} className="flex flex-wrap items-center gap-2">
+          <span className="text-xs font-medium text-gray-500 w-24">
+            {label}
+          </span>
+          {tags.map((tag) => (
+            <button
+              key={tag.id}
+              type="button"
+              onClick={() => setValues(toggleValue(values, tag.id))}
+              className={`px-2 py-0.5 rounded-full text-xs font-medium ${
+                values.includes(tag.id)
+                  ? "bg-blue-500 text-white"
+                  : "bg-gray-200 text-gray-700 hover:bg-gray-300"
+              }`}
+            >
+              {tag.name}
+            </button>
+          ))}
+        </div>
+      ))}
+      <div className="flex justify-end">
+        <button
+          onClick={() => onApply(update)}
+          disabled={!hasChanges}
+          className="px-4 py-2 bg-blue-500 text-white rounded hover:bg-blue-600 disabled:opacity-50"
+        >
+          Apply
+        </button>
+      </div>
+    </div>
+  );
+};
+
+export default BulkEditPanel;
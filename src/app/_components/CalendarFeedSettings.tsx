@@ -0,0 +1,171 @@
+"use client";
+import React, { useEffect, useState } from "react";
+import { ClipboardDocumentIcon } from "@heroicons/react/24/outline";
+import { FeedEntryType, calendarFeedPath } from "../lib/calendarFeed";
+
+// Settings section for the iCalendar subscription feed of dated tasks. The
+// URL holds a secret token; resetting or revoking it cuts off old links.
+const CalendarFeedSettings: React.FC<{
+  onMessage: (message: string, type: "success" | "error") => void;
+}> = ({ onMessage }) => {
+  // undefined until loaded, null when the user has no feed
+  const [token, setToken] = useState<string | null | undefined>(undefined);
+  const [entryType, setEntryType] = useState<FeedEntryType>("event");
+  const [isSaving, setIsSaving] = useState(false);
+
+  useEffect(() => {
+    const fetchFeed = async () => {
+      try {
+        const response = await fetch("/api/user/calendar-feed");
+        if (response.ok) {
+          const data = await response.json();
+          setToken(data.token);
+        } else {
+          console.error("Failed to fetch calendar feed");
+        }
+      } catch (error) {
+        console.error("Error fetching calendar feed:", error);
+      }
+    };
+
+    fetchFeed();
+  }, []);
+
+  const updateFeed = async (method: "POST" | "DELETE") => {
+    setIsSaving(true);
+    try {
+      const response = await fetch("/api/user/calendar-feed", { method });
+      const data = await response.json();
+      if (response.ok) {
+        setToken(data.token);
+        onMessage(
+          method === "POST" ? "Feed URL created" : "Feed URL revoked",
+          "success"
+        );
+      } else {
+        onMessage(data.error || "Failed to update calendar feed", "error");
+      }
+    } catch (error) {
+      console.error("Error updating calendar feed:", error);
+      onMessage("Error updating calendar feed", "error");
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const resetFeed = () => {
+    if (
+      !window.confirm(
+        "Create a new feed URL? Calendars subscribed to the current one stop updating."
+      )
+    ) {
+      return;
+    }
+    updateFeed("POST");
+  };
+
+  const revokeFeed = () => {
+    if (
+      !window.confirm(
+        "Revoke the feed URL? Calendars subscribed to it stop updating."
+      )
+    ) {
+      return;
+    }
+    updateFeed("DELETE");
+  };
+
+  const feedUrl = token
+    ? `${window.location.origin}${calendarFeedPath(token, entryType)}`
+    : "";
+
+  const copyUrl = async () => {
+    try {
+      await navigator.clipboard.writeText(feedUrl);
+      onMessage("Feed URL copied", "success");
+    } catch (error) {
+      console.error("Error copying feed URL:", error);
+      onMessage("Couldn't copy the URL; select and copy it instead", "error");
+    }
+  };
+
+  if (token === undefined) return null;
+
+  return (
+    <div className="bg-white shadow-md rounded-lg p-6 mt-8">
+      <h2 className="text-xl font-semibold mb-4 text-gray-800">
+        Calendar Feed
+      </h2>
+      <p className="text-sm text-gray-600 mb-4">
+        Subscribe to this URL in Google Calendar, Apple Calendar or Outlook to
+        see tasks with a due date there. Anyone with the URL can read those
+        tasks, so keep it private.
+      </p>
+
+      {token === null ? (
+        <button
+          onClick={() => updateFeed("POST")}
+          disabled={isSaving}
+          className="px-4 py-2 rounded-md text-sm font-medium text-white bg-black hover:bg-gray-700 disabled:opacity-50"
+        >
+          Create feed URL
+        </button>
+      ) : (
+        <>
+          <div className="mb-4">
+            <label
+              htmlFor="calendarFeedType"
+              className="block text-sm font-medium text-gray-700 mb-1"
+            >
+              Show tasks as
+            </label>
+            <select
+              id="calendarFeedType"
+              value={entryType}
+              onChange={(e) => setEntryType(e.target.value as FeedEntryType)}
+              className="px-3 py-2 border border-gray-300 rounded-md shadow-sm focus:outline-none focus:ring-2 focus:ring-indigo-500 focus:border-indigo-500"
+            >
+              <option value="event">Events (all calendar apps)</option>
+              <option value="todo">To-dos (apps that support them)</option>
+            </select>
+          </div>
+          <div className="flex gap-2 mb-4">
+            <input
+              type="text"
+              readOnly
+              value={feedUrl}
+              onFocus={(e) => e.target.select()}
+              aria-label="Feed URL"
+              className="flex-1 min-w-0 px-3 py-2 border border-gray-300 rounded-md text-sm text-gray-700 bg-gray-50"
+            />
+            <button
+              onClick={copyUrl}
+              className="p-2 rounded-md text-gray-700 bg-gray-200 hover:bg-gray-300"
+              title="Copy URL"
+            >
+              <ClipboardDocumentIcon className="w-5 h-5" />
+            </button>
+          </div>
+          <div className="flex gap-2">
+            <button
+              onClick={resetFeed}
+              disabled={isSaving}
+              className="px-4 py-2 rounded-md text-sm font-medium text-gray-700 bg-gray-200 hover:bg-gray-300 disabled:opacity-50"
+            >
+              Reset URL
+            </button>
+            <button
+              onClick={revokeFeed}
+              disabled={isSaving}
+              className="px-4 py-2 rounded-md text-sm font-medium text-red-600 bg-red-50 hover:bg-red-100 disabled:opacity-50"
+            >
+              Revoke
+            </button>
+          </div>
+        </>
+      )}
+    </div>
+  );
+};
+
+export default CalendarFeedSettings;
@@ -0,0 +1,261 @@
+"use client";
+import React, { useCallback, useEffect, useState } from "react";
+import { toast } from "react-toastify";
+import { Bars2Icon, PlusIcon, TrashIcon } from "@heroicons/react/24/outline";
+import { CHECKLIST_TEXT_MAX_LENGTH } from "../lib/taskValidation";
+
+interface ChecklistItem {
+  id: string;
+  text: string;
+  completed: boolean;
+  position: number;
+}
+
+const ChecklistEditor: React.FC<{ taskId: string }> = ({ taskId }) => {
+  const [items, setItems] = useState<ChecklistItem[]>([]);
+  const [newItemText, setNewItemText] = useState("");
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [editingText, setEditingText] = useState("");
+  const [draggedId, setDraggedId] = useState<string | null>(null);
+  // Order before the current drag started, restored if saving it fails
+  const [orderBeforeDrag, setOrderBeforeDrag] = useState<ChecklistItem[]>([]);
+
+  const fetchItems = useCallback(async () => {
+    try {
+      const response = await fetch(`/api/tasks/${taskId}/items`);
+      if (response.ok) {
+        setItems(await response.json());
+      } else {
+        console.error("Failed to fetch checklist items");
+      }
+    } catch (error) {
+      console.error("Error fetching checklist items:", error);
+    }
+  }, [taskId]);
+
+  useEffect(() => {
+    fetchItems();
+  }, [fetchItems]);
+
+  const addItem = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!newItemText.trim()) return;
+
+    try {
+      const response = await fetch(`/api/tasks/${taskId}/items`, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ text: newItemText }),
+      });
+      if (response.ok) {
+        const item = await response.json();
+        setItems((prevItems) => [...prevItems, item]);
+        setNewItemText("");
+      } else {
+        const errorData = await response.json();
+        toast.error(errorData.error || "Failed to add item");
+      }
+    } catch (error) {
+      console.error("Error adding checklist item:", error);
+      toast.error("Error adding item");
+    }
+  };
+
+  const updateItem = async (
+    itemId: string,
+    changes: Partial<Pick<ChecklistItem, "text" | "completed">>
+  ) => {
+    const previousItems = items;
+    setItems((prevItems) =>
+      prevItems.map((item) =>
+        item.id === itemId ? { ...item, ...changes } : item
+      )
+    );
+
+    try {
+      const response = await fetch(`/api/tasks/${taskId}/items/${itemId}`, {
+        method: "PATCH",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify(changes),
+      });
+      if (!response.ok) {
+        const errorData = await response.json();
+        throw new Error(errorData.error || "Failed to update item");
+      }
+    } catch (error) {
+      console.error("Error updating checklist item:", error);
+      setItems(previousItems);
+      toast.error(
+        error instanceof Error ? error.message : "Failed to update item"
+      );
+    }
+  };
+
+  const deleteItem = async (itemId: string) => {
+    const previousItems = items;
+    setItems((prevItems) => prevItems.filter((item) => item.id !== itemId));
+
+    try {
+      const response = await fetch(`/api/tasks/${taskId}/items/${itemId}`, {
+        method: "DELETE",
+      });
+      if (!response.ok) {
+        throw new Error("Failed to delete item");
+      }
+    } catch (error) {
+      console.error("Error deleting checklist item:", error);
+      setItems(previousItems);
+      toast.error("Failed to delete item");
+    }
+  };
+
+  const saveEdit = () => {
+    const item = items.find((item) => item.id === editingId);
+    if (item && editingText.trim() && editingText.trim() !== item.text) {
+      updateItem(item.id, { text: editingText });
+    }
+    setEditingId(null);
+  };
+
+  const handleDragStart = (itemId: string) => {
+    setDraggedId(itemId);
+    setOrderBeforeDrag(items);
+  };
+
+  // Moves the dragged item into the hovered slot as the pointer passes over
+  const handleDragOver = (e: React.DragEvent, overId: string) => {
+    e.preventDefault();
+    if (!draggedId || draggedId === overId) return;
+
+    setItems((prevItems) => {
+      const from = prevItems.findIndex((item) => item.id === draggedId);
+      const to = prevItems.findIndex((item) => item.id === overId);
+      const reordered = [...prevItems];
+      const [moved] = reordered.splice(from, 1);
+      reordered.splice(to, 0, moved);
+      return reordered;
+    });
+  };
+
+  const handleDragEnd = async () => {
+    setDraggedId(null);
+    const itemIds = items.map((item) => item.id);
+    if (itemIds.join() === orderBeforeDrag.map((item) => item.id).join()) {
+      return;
+    }
+
+    try {
+      const response = await fetch(`/api/tasks/${taskId}/items`, {
+        method: "PUT",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ itemIds }),
+      });
+      if (!response.ok) {
+        throw new Error("Failed to reorder items");
+      }
+    } catch (error) {
+      console.error("Error reordering checklist items:", error);
+      setItems(orderBeforeDrag);
+      toast.error("Failed to save the new order");
+    }
+  };
+
+  const completedCount = items.filter((item) => item.completed).length;
+
+  return (
+    <div className="mt-6">
+      <div className="flex items-center justify-between mb-2">
+        <h2 className="text-lg font-semibold text-gray-800">Checklist</h2>
+        {items.length > 0 && (
+          <span className="text-sm text-gray-500">
+            {completedCount}/{items.length}
+          </span>
+        )}
+      </div>
+      {items.length > 0 && (
+        <div className="w-full h-1.5 bg-gray-200 rounded-full mb-3">
+          <div
+            className="h-1.5 bg-green-500 rounded-full transition-all duration-200"
+            style={{ width: `${(completedCount / items.length) * 100}%` }}
+          />
+        </div>
+      )}
+      <ul className="space-y-1">
+        {items.map((item) => (
+          <li
+            key={item.id}
+            draggable={editingId !== item.id}
+            onDragStart={() => handleDragStart(item.id)}
+            onDragOver={(e) => handleDragOver(e, item.id)}
+            onDragEnd={handleDragEnd}
+            className={`flex items-center group px-2 py-1 rounded hover:bg-gray-50 ${
+              draggedId === item.id ? "opacity-50" : ""
+            }`}
+          >
+            <Bars2Icon
+              className="w-4 h-4 text-gray-300 mr-2 cursor-grab"
+              title="Drag to reorder"
+            />
+            <input
+              type="checkbox"
+              checked={item.completed}
+              onChange={() =>
+                updateItem(item.id, { completed: !item.completed })
+              }
+              className="w-4 h-4 rounded border-gray-300 text-blue-600 focus:ring-blue-500 mr-2"
+            />
+            {editingId === item.id ? (
+              <input
+                type="text"
+                value={editingText}
+                autoFocus
+                maxLength={CHECKLIST_TEXT_MAX_LENGTH}
+                onChange={(e) => setEditingText(e.target.value)}
+                onBlur={saveEdit}
+                onKeyDown={(e) => {
+                  if (e.key === "Enter") saveEdit();
+                  if (e.key === "Escape") setEditingId(null);
+                }}
+                className="flex-grow p-1 border rounded text-sm"
+              />
+            ) : (
+              <span
+                onClick={() => {
+                  setEditingId(item.id);
+                  setEditingText(item.text);
+                }}
+                className={`flex-grow text-sm cursor-text ${
+                  item.completed
+                    ? "line-through text-gray-400"
+                    : "text-gray-700"
+                }`}
+              >
+                {item.text}
+              </span>
+            )}
+            <button
+              onClick={() => deleteItem(item.id)}
+              className="p-1 text-gray-400 hover:text-red-500 opacity-0 group-hover:opacity-100 transition-opacity duration-200"
+              title="Delete item"
+            >
+              <TrashIcon className="w-4 h-4" />
+            </button>
+          </li>
+        ))}
+      </ul>
+      <form onSubmit={addItem} className="flex items-center mt-2">
+        <PlusIcon className="w-4 h-4 text-gray-400 mx-2" />
+        <input
+          type="text"
+          value={newItemText}
+          onChange={(e) => setNewItemText(e.target.value)}
+          maxLength={CHECKLIST_TEXT_MAX_LENGTH}
+          placeholder="Add an item"
+          className="flex-grow p-1 border-b border-gray-200 text-sm focus:outline-none focus:border-blue-500"
+        />
+      </form>
+    </div>
+  );
+};
+
+export default ChecklistEditor;
@@ -0,0 +1,284 @@
+"use client";
+import React, { useEffect, useRef, useState } from "react";
+import { usePathname, useRouter } from "next/navigation";
+import { MagnifyingGlassIcon } from "@heroicons/react/24/outline";
+import ShortcutsHelp, { KeyCap } from "./ShortcutsHelp";
+import useKeyBindings from "./useKeyBindings";
+import { SearchResult } from "../lib/searchHighlight";
+import { VIEW_MODES } from "../lib/savedViewValidation";
+import { TASK_SORT_KEYS, TaskSortKey } from "../lib/taskConstants";
+import {
+  eventToKey,
+  isTypingTarget,
+  runTaskListCommand,
+} from "../lib/shortcuts";
+
+interface Command {
+  id: string;
+  label: string;
+  group: string;
+  run: () => void;
+}
+
+const SORT_LABELS: Record<TaskSortKey, string> = {
+  dueDate: "Due Date",
+  priority: "Priority",
+  createdAt: "Created",
+  updatedAt: "Last Modified",
+  title: "Title",
+  status: "Status",
+};
+
+const PAGES = [
+  { href: "/tasks", label: "All Tasks" },
+  { href: "/calendar", label: "Calendar" },
+  { href: "/planning", label: "Planning" },
+  { href: "/trash", label: "Trash" },
+  { href: "/settings", label: "Settings" },
+];
+
+// Commands for the task list, sent to it as events
+const TASK_LIST_COMMANDS: Omit<Command, "group">[] = [
+  ...VIEW_MODES.map((mode) => ({
+    id: `view-${mode}`,
+    label: `Switch to ${mode} view`,
+    run: () => runTaskListCommand({ type: "viewMode", mode }),
+  })),
+  ...TASK_SORT_KEYS.map((sort) => ({
+    id: `sort-${sort}`,
+    label: `Sort by ${SORT_LABELS[sort]}`,
+    run: () => runTaskListCommand({ type: "sort", sort }),
+  })),
+  {
+    id: "sort-manual",
+    label: "Sort by manual order",
+    run: () => runTaskListCommand({ type: "sort", sort: null }),
+  },
+  {
+    id: "select-all",
+    label: "Select all tasks",
+    run: () => runTaskListCommand({ type: "selection", action: "selectAll" }),
+  },
+  {
+    id: "complete-selected",
+    label: "Complete selected tasks",
+    run: () => runTaskListCommand({ type: "selection", action: "complete" }),
+  },
+  {
+    id: "edit-selected",
+    label: "Edit selected tasks",
+    run: () => runTaskListCommand({ type: "selection", action: "edit" }),
+  },
+  {
+    id: "delete-selected",
+    label: "Delete selected tasks",
+    run: () => runTaskListCommand({ type: "selection", action: "delete" }),
+  },
+  {
+    id: "clear-selection",
+    label: "Clear selection",
+    run: () => runTaskListCommand({ type: "selection", action: "clear" }),
+  },
+];
+
+// Ctrl/Cmd+K palette to jump to a task or page and run task list commands,
+// plus the global shortcut help. Keys come from the user's bindings.
+const CommandPalette: React.FC = () => {
+  const [isOpen, setIsOpen] = useState(false);
+  const [isHelpOpen, setIsHelpOpen] = useState(false);
+  const [query, setQuery] = useState("");
+  const [results, setResults] = useState<SearchResult[]>([]);
+  const [activeIndex, setActiveIndex] = useState(0);
+  const requestId = useRef(0);
+  const bindings = useKeyBindings();
+  const pathname = usePathname();
+  const router = useRouter();
+
+  useEffect(() => {
+    const handleKeyDown = (e: KeyboardEvent) => {
+      const key = eventToKey(e);
+      if (key === bindings.openPalette) {
+        e.preventDefault();
+        setIsOpen((open) => !open);
+      } else if (key === bindings.showHelp && !isTypingTarget(e.target)) {
+        e.preventDefault();
+        setIsHelpOpen(true);
+      }
+    };
+    window.addEventListener("keydown", handleKeyDown);
+    return () => window.removeEventListener("keydown", handleKeyDown);
+  }, [bindings.openPalette, bindings.showHelp]);
+
+  // Matching tasks, debounced like the sidebar search
+  useEffect(() => {
+    if (!isOpen || !query.trim()) {
+      setResults([]);
+      return;
+    }
+
+    const timer = setTimeout(async () => {
+      const id = ++requestId.current;
+      try {
+        const response = await fetch(
+          `/api/search?q=${encodeURIComponent(query)}&limit=5`
+        );
+        if (!response.ok) {
+          console.error("Failed to search tasks");
+          return;
+        }
+        const data = await response.json();
+        if (id !== requestId.current) return;
+        setResults(data.results);
+      } catch (error) {
+        console.error("Error searching tasks:", error);
+      }
+    }, 200);
+    return () => clearTimeout(timer);
+  }, [query, isOpen]);
+
+  const close = () => {
+    setIsOpen(false);
+    setQuery("");
+    setActiveIndex(0);
+  };
+
+  const search = query.trim().toLowerCase();
+  const commands: Command[] = [
+    ...results.map((result) => ({
+      id: `task-${result.id}`,
+      label: result.title,
+      group: "Tasks",
+      run: () => router.push(`/task/${result.id}`),
+    })),
+    ...[
+      { id: "new-task", label: "New task", run: () => router.push("/new") },
+      ...PAGES.map(({ href, label }) => ({
+        id: `page-${href}`,
+        label: `Go to ${label}`,
+        run: () => router.push(href),
+      })),
+      {
+        id: "shortcuts",
+        label: "Show keyboard shortcuts",
+        run: () => setIsHelpOpen(true),
+      },
+    ]
+      .filter((command) => command.label.toLowerCase().includes(search))
+      .map((command) => ({ ...command, group: "General" })),
+    // Only the task list page can act on these
+    ...(pathname === "/tasks" ? TASK_LIST_COMMANDS : [])
+      .filter((command) => command.label.toLowerCase().includes(search))
+      .map((command) => ({ ...command, group: "Task list" })),
+  ];
+
+  const runCommand = (command: Command) => {
+    close();
+    command.run();
+  };
+
+  const handleKeyDown = (e: React.KeyboardEvent<HTMLInputElement>) => {
+    if (e.key === "ArrowDown" && commands.length > 0) {
+      e.preventDefault();
+      setActiveIndex((activeIndex + 1) % commands.length);
+    } else if (e.key === "ArrowUp" && commands.length > 0) {
+      e.preventDefault();
+      setActiveIndex((activeIndex - 1 + commands.length) % commands.length);
+    } else if (e.key === "Enter" && commands[activeIndex]) {
+      e.preventDefault();
+      runCommand(commands[activeIndex]);
+    } else if (e.key === "Escape") {
+      e.preventDefault();
+      close();
+    }
+  };
+
+  return (
+    <>
+      {isOpen && (
+        <div
+          className="fixed inset-0 bg-black bg-opacity-50 flex items-start justify-center pt-[15vh] z-50"
+          onClick={close}
+        >
+          <div
+            role="dialog"
+            aria-modal="true"
+            aria-label="Command palette"
+            className="bg-white rounded-lg shadow-xl max-w-lg w-full mx-4 overflow-hidden"
+            onClick={(e) => e.stopPropagation()}
+          >
+            <div className="relative border-b border-gray-200">
+              <MagnifyingGlassIcon className="w-5 h-5 text-gray-400 absolute left-3 top-1/2 -translate-y-1/2" />
+              <input
+                type="text"
+                autoFocus
+                value={query}
+                onChange={(e) => {
+                  setQuery(e.target.value);
+                  setActiveIndex(0);
+                }}
+                onKeyDown={handleKeyDown}
+                placeholder="Search tasks or type a command"
+                role="combobox"
+                aria-expanded
+                aria-controls="command-palette-results"
+                aria-activedescendant={
+                  commands[activeIndex]
+                    ? `command-${commands[activeIndex].id}`
+                    : undefined
+                }
+                className="w-full pl-10 pr-3 py-3 text-sm focus:outline-none"
+              />
+            </div>
+            <ul
+              id="command-palette-results"
+              role="listbox"
+              className="max-h-80 overflow-y-auto py-1"
+            >
+              {commands.length === 0 ? (
+                <li className="px-4 py-2 text-sm text-gray-500">No matches</li>
+              ) : (
+                commands.map((command, index) => (
+                  <React.Fragment key={command.id}>
+                    {(index === 0 ||
+                      commands[index - 1].group !== command.group) && (
+                      <li
+                        role="presentation"
+                        className="px-4 pt-2 pb-1 text-xs font-semibold uppercase text-gray-500"
+                      >
+                        {command.group}
+                      </li>
+                    )}
+                    <li
+                      id={`command-${command.id}`}
+                      role="option"
+                      aria-selected={index === activeIndex}
+                      onClick={() => runCommand(command)}
+                      onMouseEnter={() => setActiveIndex(index)}
+                      className={`px-4 py-2 text-sm text-gray-800 truncate cursor-pointer ${
+                        index === activeIndex ? "bg-orange-50" : ""
+                      }`}
+                    >
+                      {command.label}
+                    </li>
+                  </React.Fragment>
+                ))
+              )}
+            </ul>
+            <div className="flex items-center justify-end gap-1 px-4 py-2 border-t border-gray-200 text-xs text-gray-500">
+              <KeyCap keyName={bindings.showHelp} />
+              <span>for all shortcuts</span>
+            </div>
+          </div>
+        </div>
+      )}
+      {isHelpOpen && (
+        <ShortcutsHelp
+          bindings={bindings}
+          onClose={() => setIsHelpOpen(false)}
+        />
+      )}
+    </>
+  );
+};
+
+export default CommandPalette;
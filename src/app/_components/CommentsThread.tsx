@@ -0,0 +1,236 @@
+"use client";
+import React, { useCallback, useEffect, useState } from "react";
+import { toast } from "react-toastify";
+import { formatDistanceToNow } from "date-fns";
+import { PencilIcon, TrashIcon } from "@heroicons/react/24/outline";
+import Markdown from "./Markdown";
+import { COMMENT_MAX_LENGTH } from "../lib/taskValidation";
+
+interface Comment {
+  id: string;
+  body: string;
+  createdAt: string;
+  updatedAt: string;
+  edited: boolean;
+  author: { id: string; name: string };
+  isAuthor: boolean;
+}
+
+const CommentsThread: React.FC<{ taskId: string }> = ({ taskId }) => {
+  const [comments, setComments] = useState<Comment[]>([]);
+  const [newComment, setNewComment] = useState("");
+  const [isPosting, setIsPosting] = useState(false);
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [editingBody, setEditingBody] = useState("");
+
+  const fetchComments = useCallback(async () => {
+    try {
+      const response = await fetch(`/api/tasks/${taskId}/comments`);
+      if (response.ok) {
+        setComments(await response.json());
+      } else {
+        console.error("Failed to fetch comments");
+      }
+    } catch (error) {
+      console.error("Error fetching comments:", error);
+    }
+  }, [taskId]);
+
+  useEffect(() => {
+    fetchComments();
+  }, [fetchComments]);
+
+  const addComment = async (e?: React.FormEvent) => {
+    e?.preventDefault();
+    if (!newComment.trim() || isPosting) return;
+
+    setIsPosting(true);
+    try {
+      const response = await fetch(`/api/tasks/${taskId}/comments`, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ body: newComment }),
+      });
+      if (response.ok) {
+        const comment = await response.json();
+        setComments((prevComments) => [...prevComments, comment]);
+        setNewComment("");
+      } else {
+        const errorData = await response.json();
+        toast.error(errorData.error || "Failed to add comment");
+      }
+    } catch (error) {
+      console.error("Error adding comment:", error);
+      toast.error("Error adding comment");
+    } finally {
+      setIsPosting(false);
+    }
+  };
+
+  const saveEdit = async () => {
+    const commentId = editingId;
+    if (!commentId || !editingBody.trim()) return;
+
+    try {
+      const response = await fetch(
+        `/api/tasks/${taskId}/comments/${commentId}`,
+        {
+          method: "PATCH",
+          headers: { "Content-Type": "application/json" },
+          body: JSON.stringify({ body: editingBody }),
+        }
+      );
+      if (response.ok) {
+        const updatedComment = await response.json();
+        setComments((prevComments) =>
+          prevComments.map((comment) =>
+            comment.id === commentId ? updatedComment : comment
+          )
+        );
+        setEditingId(null);
+      } else {
+        const errorData = await response.json();
+        toast.error(errorData.error || "Failed to update comment");
+      }
+    } catch (error) {
+      console.error("Error updating comment:", error);
+      toast.error("Error updating comment");
+    }
+  };
+
+  const deleteComment = async (commentId: string) => {
+    if (!window.confirm("Delete this comment?")) return;
+
+    const previousComments = comments;
+    setComments((prevComments) =>
+      prevComments.filter((comment) => comment.id !== commentId)
+    );
+
+    try {
+      const response = await fetch(
+        `/api/tasks/${taskId}/comments/${commentId}`,
+        { method: "DELETE" }
+      );
+      if (!response.ok) {
+        throw new Error("Failed to delete comment");
+      }
+    } catch (error) {
+      console.error("Error deleting comment:", error);
+      setComments(previousComments);
+      toast.error("Failed to delete comment");
+    }
+  };
+
+  // Ctrl/Cmd+Enter submits, like most comment boxes
+  const submitOnModEnter =
+    (submit: () => void) => (e: React.KeyboardEvent<HTMLTextAreaElement>) => {
+      if (e.key === "Enter" && (e.ctrlKey || e.metaKey)) {
+        e.preventDefault();
+        submit();
+      }
+    };
+
+  return (
+    <div className="mt-6">
+      <h2 className="text-lg font-semibold text-gray-800 mb-2">Comments</h2>
+      {comments.length > 0 && (
+        <ol className="relative border-l border-gray-200 ml-2 mb-4">
+          {comments.map((comment) => (
+            <li key={comment.id} className="mb-4 ml-4 group">
+              <span className="absolute -left-1.5 mt-1.5 w-3 h-3 rounded-full bg-gray-300 border-2 border-white" />
+              <div className="flex items-center text-xs text-gray-500 mb-1">
+                <span className="font-medium text-gray-700 mr-2">
+                  {comment.author.name}
+                </span>
+                <time
+                  dateTime={comment.createdAt}
+                  title={new Date(comment.createdAt).toLocaleString()}
+                >
+                  {formatDistanceToNow(new Date(comment.createdAt), {
+                    addSuffix: true,
+                  })}
+                </time>
+                {comment.edited && <span className="ml-1">(edited)</span>}
+                {comment.isAuthor && editingId !== comment.id && (
+                  <span className="ml-auto flex opacity-0 group-hover:opacity-100 transition-opacity duration-200">
+                    <button
+                      onClick={() => {
+                        setEditingId(comment.id);
+                        setEditingBody(comment.body);
+                      }}
+                      className="p-1 text-gray-400 hover:text-gray-600"
+                      title="Edit comment"
+                    >
+                      <PencilIcon className="w-4 h-4" />
+                    </button>
+                    <button
+                      onClick={() => deleteComment(comment.id)}
+                      className="p-1 text-gray-400 hover:text-red-500"
+                      title="Delete comment"
+                    >
+                      <TrashIcon className="w-4 h-4" />
+                    </button>
+                  </span>
+                )}
+              </div>
+              {editingId === comment.id ? (
+                <div>
+                  <textarea
+                    value={editingBody}
+                    autoFocus
+                    rows={3}
+                    maxLength={COMMENT_MAX_LENGTH}
+                    onChange={(e) => setEditingBody(e.target.value)}
+                    onKeyDown={submitOnModEnter(saveEdit)}
+                    className="w-full p-2 border rounded text-sm"
+                  />
+                  <div className="flex justify-end gap-2 mt-1">
+                    <button
+                      onClick={() => setEditingId(null)}
+                      className="px-3 py-1 text-sm bg-gray-200 rounded hover:bg-gray-300"
+                    >
+                      Cancel
+                    </button>
+                    <button
+                      onClick={saveEdit}
+                      className="px-3 py-1 text-sm bg-blue-500 text-white rounded hover:bg-blue-600"
+                    >
+                      Save
+                    </button>
+                  </div>
+                </div>
+              ) : (
+                <div className="text-sm text-gray-700">
+                  <Markdown>{comment.body}</Markdown>
+                </div>
+              )}
+            </li>
+          ))}
+        </ol>
+      )}
+      <form onSubmit={addComment}>
+        <textarea
+          value={newComment}
+          rows={2}
+          maxLength={COMMENT_MAX_LENGTH}
+          onChange={(e) => setNewComment(e.target.value)}
+          onKeyDown={submitOnModEnter(addComment)}
+          placeholder="Add a comment"
+          className="w-full p-2 border rounded text-sm"
+        />
+        <div className="flex items-center justify-between mt-1">
+          <span className="text-xs text-gray-400">Markdown supported</span>
+          <button
+            type="submit"
+            disabled={!newComment.trim() || isPosting}
+            className="px-3 py-1 text-sm bg-blue-500 text-white rounded hover:bg-blue-600 disabled:opacity-50"
+          >
+            Comment
+          </button>
+        </div>
+      </form>
+    </div>
+  );
+};
+
+export default CommentsThread;
@@ -0,0 +1,221 @@
+"use client";
+import React, { useCallback, useEffect, useState } from "react";
+import Link from "next/link";
+import { toast } from "react-toastify";
+import { LinkIcon, XMarkIcon } from "@heroicons/react/24/outline";
+
+interface TaskSummary {
+  id: string;
+  title: string;
+  status: string;
+}
+
+const SEARCH_DELAY_MS = 300;
+
+const statusDot = (status: string) =>
+  status === "Completed"
+    ? "bg-green-500"
+    : status === "In Progress"
+    ? "bg-yellow-500"
+    : "bg-gray-400";
+
+const DependenciesEditor: React.FC<{
+  taskId: string;
+  onBlockedChange?: (blocked: boolean) => void;
+}> = ({ taskId, onBlockedChange }) => {
+  const [prerequisites, setPrerequisites] = useState<TaskSummary[]>([]);
+  const [dependents, setDependents] = useState<TaskSummary[]>([]);
+  const [search, setSearch] = useState("");
+  const [results, setResults] = useState<TaskSummary[]>([]);
+
+  const fetchDependencies = useCallback(async () => {
+    try {
+      const response = await fetch(`/api/tasks/${taskId}/dependencies`);
+      if (response.ok) {
+        const data = await response.json();
+        setPrerequisites(data.prerequisites);
+        setDependents(data.dependents);
+      } else {
+        console.error("Failed to fetch dependencies");
+      }
+    } catch (error) {
+      console.error("Error fetching dependencies:", error);
+    }
+  }, [taskId]);
+
+  useEffect(() => {
+    fetchDependencies();
+  }, [fetchDependencies]);
+
+  useEffect(() => {
+    onBlockedChange?.(
+      prerequisites.some((prerequisite) => prerequisite.status !== "Completed")
+    );
+  }, [prerequisites, onBlockedChange]);
+
+  // Searches the user's tasks for candidates while they type
+  useEffect(() => {
+    const query = search.trim();
+    if (!query) {
+      setResults([]);
+      return;
+    }
+
+    const timeout = setTimeout(async () => {
+      try {
+        const params = new URLSearchParams({ q: query, limit: "8" });
+        const response = await fetch(`/api/tasks?${params}`);
+        if (response.ok) {
+          const data = await response.json();
+          setResults(data.tasks);
+        }
+      } catch (error) {
+        console.error("Error searching tasks:", error);
+      }
+    }, SEARCH_DELAY_MS);
+
+    return () => clearTimeout(timeout);
+  }, [search]);
+
+  const addPrerequisite = async (prerequisiteId: string) => {
+    try {
+      const response = await fetch(`/api/tasks/${taskId}/dependencies`, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ prerequisiteId }),
+      });
+      if (response.ok) {
+        const prerequisite = await response.json();
+        setPrerequisites((prev) => [...prev, prerequisite]);
+        setSearch("");
+      } else {
+        const errorData = await response.json();
+        toast.error(errorData.error || "Failed to link tasks");
+      }
+    } catch (error) {
+      console.error("Error linking tasks:", error);
+      toast.error("Error linking tasks");
+    }
+  };
+
+  const removePrerequisite = async (prerequisiteId: string) => {
+    const previous = prerequisites;
+    setPrerequisites((prev) =>
+      prev.filter((prerequisite) => prerequisite.id !== prerequisiteId)
+    );
+
+    try {
+      const response = await fetch(
+        `/api/tasks/${taskId}/dependencies/${prerequisiteId}`,
+        { method: "DELETE" }
+      );
+      if (!response.ok) {
+        throw new Error("Failed to unlink tasks");
+      }
+    } catch (error) {
+      console.error("Error unlinking tasks:", error);
+      setPrerequisites(previous);
+      toast.error("Failed to unlink tasks");
+    }
+  };
+
+  const linkedIds = new Set([taskId, ...prerequisites.map((task) => task.id)]);
+  const candidates = results.filter((task) => !linkedIds.has(task.id));
+
+  return (
+    <div className="mt-6">
+      <h2 className="text-lg font-semibold text-gray-800 mb-2">Dependencies</h2>
+
+      <p className="text-sm text-gray-600 mb-1">Blocked by</p>
+      {prerequisites.length === 0 ? (
+        <p className="text-sm text-gray-400 mb-2">No prerequisites</p>
+      ) : (
+        <ul className="space-y-1 mb-2">
+          {prerequisites.map((prerequisite) => (
+            <li
+              key={prerequisite.id}
+              className="flex items-center group px-2 py-1 rounded hover:bg-gray-50"
+            >
+              <span
+                className={`w-2 h-2 rounded-full mr-2 ${statusDot(
+                  prerequisite.status
+                )}`}
+                title={prerequisite.status}
+              />
+              <Link
+                href={`/task/${prerequisite.id}`}
+                className={`flex-grow text-sm hover:underline ${
+                  prerequisite.status === "Completed"
+                    ? "line-through text-gray-400"
+                    : "text-gray-700"
+                }`}
+              >
+                {prerequisite.title}
+              </Link>
+              <button
+                onClick={() => removePrerequisite(prerequisite.id)}
+                className="p-1 text-gray-400 hover:text-red-500 opacity-0 group-hover:opacity-100 transition-opacity duration-200"
+                title="Remove prerequisite"
+              >
+                <XMarkIcon className="w-4 h-4" />
+              </button>
+            </li>
+          ))}
+        </ul>
+      )}
+
+      <div className="relative">
+        <div className="flex items-center">
+          <LinkIcon className="w-4 h-4 text-gray-400 mx-2" />
+          <input
+            type="text"
+            value={search}
+            onChange={(e) => setSearch(e.target.value)}
+            placeholder="Add a prerequisite task"
+            className="flex-grow p-1 border-b border-gray-200 text-sm focus:outline-none focus:border-blue-500"
+          />
+        </div>
+        {candidates.length > 0 && (
+          <ul className="absolute z-10 left-8 right-0 mt-1 bg-white border rounded shadow-lg max-h-60 overflow-y-auto">
+            {candidates.map((candidate) => (
+              <li key={candidate.id}>
+                <button
+                  onClick={() => addPrerequisite(candidate.id)}
+                  className="w-full text-left px-3 py-2 text-sm text-gray-700 hover:bg-gray-100"
+                >
+                  {candidate.title}
+                </button>
+              </li>
+            ))}
+          </ul>
+        )}
+      </div>
+
+      {dependents.length > 0 && (
+        <>
+          <p className="text-sm text-gray-600 mt-4 mb-1">Blocks</p>
+          <ul className="space-y-1">
+            {dependents.map((dependent) => (
+              <li key={dependent.id} className="flex items-center px-2 py-1">
+                <span
+                  className={`w-2 h-2 rounded-full mr-2 ${statusDot(
+                    dependent.status
+                  )}`}
+                  title={dependent.status}
+                />
+                <Link
+                  href={`/task/${dependent.id}`}
+                  className="text-sm text-gray-700 hover:underline"
+                >
+                  {dependent.title}
+                </Link>
+              </li>
+            ))}
+          </ul>
+        </>
+      )}
+    </div>
+  );
+};
+
+export default DependenciesEditor;
@@ -0,0 +1,46 @@
+"use client";
+import React from "react";
+import FieldError from "./FieldError";
+import { formatEstimate, parseEstimate } from "../lib/estimates";
+
+// Text input for a duration like "1h30m". The text is sent as-is and parsed
+// on the server; this only previews how it will be read.
+const EstimateInput: React.FC<{
+  id: string;
+  value: string;
+  onChange: (value: string) => void;
+  error?: string;
+  placeholder?: string;
+  className?: string;
+}> = ({
+  id,
+  value,
+  onChange,
+  error,
+  placeholder = "e.g. 1h30m",
+  className,
+}) => {
+  const minutes = value.trim() ? parseEstimate(value) : null;
+  const hint =
+    value.trim() && minutes === null
+      ? "Use a format like 1h30m, 2h or 45m"
+      : undefined;
+
+  return (
+    <div>
+      <input
+        type="text"
+        id={id}
+        value={value}
+        onChange={(e) => onChange(e.target.value)}
+        // Normalize "90" or "1.5h" to "1h30m" once the user is done typing
+        onBlur={() => minutes !== null && onChange(formatEstimate(minutes))}
+        placeholder={placeholder}
+        className={className}
+      />
+      <FieldError message={hint ?? error} />
+    </div>
+  );
+};
+
+export default EstimateInput;
@@ -0,0 +1,6 @@
+// Inline validation message shown under a form input. basis-full keeps it on
+// its own line when the input sits in a flex row.
+export default function FieldError({ message }: { message?: string }) {
+  if (!message) return null;
+  return <p className="mt-1 basis-full text-xs text-red-600">{message}</p>;
+}
@@ -0,0 +1,174 @@
+"use client";
+import React, { useEffect, useState } from "react";
+import { KeyCap } from "./ShortcutsHelp";
+import { UserPreferences } from "../lib/preferencesValidation";
+import {
+  KeyBindings,
+  SHORTCUTS,
+  SHORTCUT_ACTIONS,
+  ShortcutAction,
+  eventToKey,
+  notifyKeyBindingsChanged,
+  resolveKeyBindings,
+} from "../lib/shortcuts";
+
+// Settings section for remapping shortcuts. "Change" records the next key
+// pressed; Escape cancels.
+const KeyboardShortcutsSettings: React.FC<{
+  onMessage: (message: string, type: "success" | "error") => void;
+}> = ({ onMessage }) => {
+  const [bindings, setBindings] = useState<KeyBindings | null>(null);
+  const [recording, setRecording] = useState<ShortcutAction | null>(null);
+  const [isSaving, setIsSaving] = useState(false);
+
+  useEffect(() => {
+    const fetchBindings = async () => {
+      try {
+        const response = await fetch("/api/user/preferences");
+        if (response.ok) {
+          const data: UserPreferences = await response.json();
+          setBindings(data.keyBindings);
+        } else {
+          console.error("Failed to fetch preferences");
+        }
+      } catch (error) {
+        console.error("Error fetching preferences:", error);
+      }
+    };
+
+    fetchBindings();
+  }, []);
+
+  useEffect(() => {
+    if (!recording) return;
+
+    // Captured before the palette and list shortcuts see the key
+    const handleKeyDown = (e: KeyboardEvent) => {
+      e.preventDefault();
+      e.stopPropagation();
+      if (e.key === "Escape") {
+        setRecording(null);
+        return;
+      }
+      const key = eventToKey(e);
+      if (!key) return;
+      setBindings((current) => ({ ...current, [recording]: key }));
+      setRecording(null);
+    };
+    window.addEventListener("keydown", handleKeyDown, true);
+    return () => window.removeEventListener("keydown", handleKeyDown, true);
+  }, [recording]);
+
+  const resetBinding = (action: ShortcutAction) => {
+    if (!bindings) return;
+    const { [action]: _removed, ...rest } = bindings;
+    setBindings(rest);
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!bindings) return;
+
+    setIsSaving(true);
+    try {
+      const response = await fetch("/api/user/preferences", {
+        method: "PATCH",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ keyBindings: bindings }),
+      });
+      if (response.ok) {
+        const data: UserPreferences = await response.json();
+        setBindings(data.keyBindings);
+        notifyKeyBindingsChanged(data.keyBindings);
+        onMessage("Shortcuts saved", "success");
+      } else {
+        const errorData = await response.json();
+        onMessage(errorData.error || "Failed to save shortcuts", "error");
+      }
+    } catch (error) {
+      console.error("Error saving shortcuts:", error);
+      onMessage("Error saving shortcuts", "error");
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const resolved = bindings ? resolveKeyBindings(bindings) : null;
+
+  return (
+    <div className="bg-white shadow-md rounded-lg p-6 mt-8">
+      <h2 className="text-xl font-semibold mb-4 text-gray-800">
+        Keyboard Shortcuts
+      </h2>
+      {bindings && resolved && (
+        <form onSubmit={handleSubmit} className="space-y-4">
+          <ul className="divide-y divide-gray-100">
+            {SHORTCUT_ACTIONS.map((action) => (
+              <li
+                key={action}
+                className="flex items-center justify-between gap-4 py-2"
+              >
+                <div>
+                  <p className="text-sm text-gray-700">
+                    {SHORTCUTS[action].label}
+                  </p>
+                  <p className="text-xs text-gray-500">
+                    {SHORTCUTS[action].scope}
+                  </p>
+                </div>
+                <div className="flex items-center gap-2">
+                  {recording === action ? (
+                    <span className="text-xs text-orange-600">
+                      Press a key...
+                    </span>
+                  ) : (
+                    <KeyCap keyName={resolved[action]} />
+                  )}
+                  <button
+                    type="button"
+                    onClick={() =>
+                      setRecording(recording === action ? null : action)
+                    }
+                    className="px-2 py-1 text-xs text-gray-700 bg-gray-200 rounded hover:bg-gray-300"
+                  >
+                    {recording === action ? "Cancel" : "Change"}
+                  </button>
+                  {bindings[action] !== undefined && (
+                    <button
+                      type="button"
+                      onClick={() => resetBinding(action)}
+                      className="px-2 py-1 text-xs text-gray-500 hover:text-gray-700"
+                      title={`Back to ${SHORTCUTS[action].defaultKey}`}
+                    >
+                      Reset
+                    </button>
+                  )}
+                </div>
+              </li>
+            ))}
+          </ul>
+          <div className="flex items-center gap-2">
+            <button
+              type="submit"
+              disabled={isSaving}
+              className="px-4 py-2 rounded-md text-sm font-medium text-white bg-black hover:bg-gray-700 disabled:opacity-50"
+            >
+              {isSaving ? "Saving..." : "Save Shortcuts"}
+            </button>
+            {Object.keys(bindings).length > 0 && (
+              <button
+                type="button"
+                onClick={() => setBindings({})}
+                className="px-4 py-2 rounded-md text-sm font-medium text-gray-700 bg-gray-200 hover:bg-gray-300"
+              >
+                Restore Defaults
+              </button>
+            )}
+          </div>
+        </form>
+      )}
+    </div>
+  );
+};
+
+export default KeyboardShortcutsSettings;
@@ -0,0 +1,20 @@
+import React from "react";
+import ReactMarkdown from "react-markdown";
+
+// Renders user-written markdown. Raw HTML is not rendered, so the text can't
+// inject markup; links open in a new tab.
+const Markdown: React.FC<{ children: string }> = ({ children }) => (
+  <div className="markdown">
+    <ReactMarkdown
+      components={{
+        a: ({ node, ...props }) => (
+          <a {...props} target="_blank" rel="noopener noreferrer" />
+        ),
+      }}
+    >
+      {children}
+    </ReactMarkdown>
+  </div>
+);
+
+export default Markdown;
@@ -0,0 +1,173 @@
+"use client";
+import React, { useEffect, useState } from "react";
+import EstimateInput from "./EstimateInput";
+import { formatEstimate } from "../lib/estimates";
+import {
+  TRASH_RETENTION_MAX_DAYS,
+  TRASH_RETENTION_MIN_DAYS,
+  UserPreferences,
+} from "../lib/preferencesValidation";
+
+const WEEKDAY_NAMES = [
+  "Sunday",
+  "Monday",
+  "Tuesday",
+  "Wednesday",
+  "Thursday",
+  "Friday",
+  "Saturday",
+];
+
+// Settings section for the per-user preferences in /api/user/preferences
+const PreferencesSettings: React.FC<{
+  onMessage: (message: string, type: "success" | "error") => void;
+}> = ({ onMessage }) => {
+  const [preferences, setPreferences] = useState<UserPreferences | null>(null);
+  const [isSaving, setIsSaving] = useState(false);
+  // Edited as text like "8h"; the API parses it
+  const [capacityText, setCapacityText] = useState("");
+
+  useEffect(() => {
+    const fetchPreferences = async () => {
+      try {
+        const response = await fetch("/api/user/preferences");
+        if (response.ok) {
+          const data: UserPreferences = await response.json();
+          setPreferences(data);
+          setCapacityText(formatEstimate(data.dailyCapacityMinutes));
+        } else {
+          console.error("Failed to fetch preferences");
+        }
+      } catch (error) {
+        console.error("Error fetching preferences:", error);
+      }
+    };
+
+    fetchPreferences();
+  }, []);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!preferences) return;
+
+    setIsSaving(true);
+    try {
+      const response = await fetch("/api/user/preferences", {
+        method: "PATCH",
+        headers: { "Content-Type": "application/json" },
+        // Only this form's fields; board limits and shortcuts save elsewhere
+        body: JSON.stringify({
+          trashRetentionDays: preferences.trashRetentionDays,
+          dailyCapacityMinutes: capacityText,
+          weekStartsOn: preferences.weekStartsOn,
+        }),
+      });
+      if (response.ok) {
+        const data: UserPreferences = await response.json();
+        setPreferences(data);
+        setCapacityText(formatEstimate(data.dailyCapacityMinutes));
+        onMessage("Preferences saved", "success");
+      } else {
+        const errorData = await response.json();
+        onMessage(errorData.error || "Failed to save preferences", "error");
+      }
+    } catch (error) {
+      console.error("Error saving preferences:", error);
+      onMessage("Error saving preferences", "error");
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <div className="bg-white shadow-md rounded-lg p-6 mt-8">
+      <h2 className="text-xl font-semibold mb-4 text-gray-800">Preferences</h2>
+      {preferences && (
+        <form onSubmit={handleSubmit} className="space-y-4">
+          <div>
+            <label
+              htmlFor="trashRetentionDays"
+              className="block text-sm font-medium text-gray-700 mb-1"
+            >
+              Keep deleted tasks in the trash for
+            </label>
+            <div className="flex items-center gap-2">
+              <input
+                type="number"
+                id="trashRetentionDays"
+                min={TRASH_RETENTION_MIN_DAYS}
+                max={TRASH_RETENTION_MAX_DAYS}
+                value={preferences.trashRetentionDays}
+                onChange={(e) =>
+                  setPreferences({
+                    ...preferences,
+                    trashRetentionDays: Number(e.target.value),
+                  })
+                }
+                className="w-24 px-3 py-2 border border-gray-300 rounded-md shadow-sm focus:outline-none focus:ring-2 focus:ring-indigo-500 focus:border-indigo-500"
+              />
+              <span className="text-sm text-gray-600">days</span>
+            </div>
+          </div>
+          <div>
+            <label
+              htmlFor="dailyCapacity"
+              className="block text-sm font-medium text-gray-700 mb-1"
+            >
+              Daily capacity
+            </label>
+            <EstimateInput
+              id="dailyCapacity"
+              value={capacityText}
+              onChange={setCapacityText}
+              placeholder="e.g. 8h"
+              className="w-24 px-3 py-2 border border-gray-300 rounded-md shadow-sm focus:outline-none focus:ring-2 focus:ring-indigo-500 focus:border-indigo-500"
+            />
+            <p className="mt-1 text-xs text-gray-500">
+              Estimated work you plan per day. Days above it are flagged on the
+              Planning page.
+            </p>
+          </div>
+          <div>
+            <label
+              htmlFor="weekStartsOn"
+              className="block text-sm font-medium text-gray-700 mb-1"
+            >
+              Week starts on
+            </label>
+            <select
+              id="weekStartsOn"
+              value={preferences.weekStartsOn}
+              onChange={(e) =>
+                setPreferences({
+                  ...preferences,
+                  weekStartsOn: Number(e.target.value),
+                })
+              }
+              className="px-3 py-2 border border-gray-300 rounded-md shadow-sm focus:outline-none focus:ring-2 focus:ring-indigo-500 focus:border-indigo-500"
+            >
+              {WEEKDAY_NAMES.map((name, day) => (
+                <option key={name} value={day}>
+                  {name}
+                </option>
+              ))}
+            </select>
+            <p className="mt-1 text-xs text-gray-500">
+              Used by the calendar and by dates like &quot;next week&quot; in
+              quick add.
+            </p>
+          </div>
+          <button
+            type="submit"
+            disabled={isSaving}
+            className="px-4 py-2 rounded-md text-sm font-medium text-white bg-black hover:bg-gray-700 disabled:opacity-50"
+          >
+            {isSaving ? "Saving..." : "Save Preferences"}
+          </button>
+        </form>
+      )}
+    </div>
+  );
+};
+
+export default PreferencesSettings;
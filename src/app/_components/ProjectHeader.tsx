@@ -0,0 +1,175 @@
+"use client";
+import React, { useState } from "react";
+import { useRouter } from "next/navigation";
+import {
+  ArchiveBoxIcon,
+  ArchiveBoxXMarkIcon,
+  PencilIcon,
+  TrashIcon,
+} from "@heroicons/react/24/outline";
+import FieldError from "./FieldError";
+import {
+  PROJECT_COLORS,
+  PROJECT_DESCRIPTION_MAX_LENGTH,
+  PROJECT_NAME_MAX_LENGTH,
+  ProjectSummary,
+} from "../lib/projectValidation";
+
+// Description and edit/archive/delete actions above a project's task list
+const ProjectHeader: React.FC<{ project: ProjectSummary }> = ({ project }) => {
+  const router = useRouter();
+  const [isEditing, setIsEditing] = useState(false);
+  const [name, setName] = useState(project.name);
+  const [description, setDescription] = useState(project.description ?? "");
+  const [color, setColor] = useState(project.color);
+  const [error, setError] = useState<string>();
+
+  const updateProject = async (changes: Partial<ProjectSummary>) => {
+    setError(undefined);
+    try {
+      const response = await fetch(`/api/projects/${project.id}`, {
+        method: "PATCH",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify(changes),
+      });
+      if (response.ok) {
+        setIsEditing(false);
+        router.refresh();
+      } else {
+        const errorData = await response.json();
+        setError(errorData.error || "Failed to update project");
+      }
+    } catch (error) {
+      console.error("Error updating project:", error);
+      setError("Error updating project");
+    }
+  };
+
+  const deleteProject = async () => {
+    if (
+      !window.confirm(
+        `Delete "${project.name}"? Its tasks will be kept without a project.`
+      )
+    ) {
+      return;
+    }
+
+    try {
+      const response = await fetch(`/api/projects/${project.id}`, {
+        method: "DELETE",
+      });
+      if (response.ok) {
+        router.push("/tasks");
+        router.refresh();
+      } else {
+        const errorData = await response.json();
+        setError(errorData.error || "Failed to delete project");
+      }
+    } catch (error) {
+      console.error("Error deleting project:", error);
+      setError("Error deleting project");
+    }
+  };
+
+  if (isEditing) {
+    return (
+      <div className="container mx-auto px-4 mb-4">
+        <div className="p-4 bg-white shadow-sm rounded-lg space-y-3">
+          <input
+            type="text"
+            value={name}
+            maxLength={PROJECT_NAME_MAX_LENGTH}
+            onChange={(e) => setName(e.target.value)}
+            className="w-full p-2 border rounded"
+          />
+          <textarea
+            value={description}
+            maxLength={PROJECT_DESCRIPTION_MAX_LENGTH}
+            onChange={(e) => setDescription(e.target.value)}
+            placeholder="Description"
+            rows={2}
+            className="w-full p-2 border rounded text-sm"
+          />
+          <div className="flex items-center gap-1">
+            {PROJECT_COLORS.map((option) => (
+              <button
+                key={option}
+                type="button"
+                onClick={() => setColor(option)}
+                className={`w-5 h-5 rounded-full ${
+                  color === option ? "ring-2 ring-offset-1 ring-gray-400" : ""
+                }`}
+                style={{ backgroundColor: option }}
+                title={option}
+              />
+            ))}
+          </div>
+          <FieldError message={error} />
+          <div className="flex justify-end gap-2">
+            <button
+              onClick={() => setIsEditing(false)}
+              className="px-4 py-2 bg-gray-200 rounded hover:bg-gray-300 text-sm"
+            >
+              Cancel
+            </button>
+            <button
+              onClick={() =>
+                updateProject({ name, description: description || null, color })
+              }
+              className="px-4 py-2 bg-blue-500 text-white rounded hover:bg-blue-600 text-sm"
+            >
+              Save
+            </button>
+          </div>
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="container mx-auto px-4 mb-2">
+      <div className="flex items-start gap-2">
+        <span
+          className="w-3 h-3 mt-1.5 rounded-full flex-shrink-0"
+          style={{ backgroundColor: project.color }}
+        />
+        <p className="flex-grow text-sm text-gray-600 whitespace-pre-wrap">
+          {project.archived && (
+            <span className="inline-block mr-2 px-2 py-0.5 rounded-full text-xs font-medium bg-gray-200 text-gray-700">
+              Archived
+            </span>
+          )}
+          {project.description}
+        </p>
+        <button
+          onClick={() => setIsEditing(true)}
+          className="p-1 text-gray-400 hover:text-gray-600"
+          title="Edit project"
+        >
+          <PencilIcon className="w-5 h-5" />
+        </button>
+        <button
+          onClick={() => updateProject({ archived: !project.archived })}
+          className="p-1 text-gray-400 hover:text-gray-600"
+          title={project.archived ? "Unarchive project" : "Archive project"}
+        >
+          {project.archived ? (
+            <ArchiveBoxXMarkIcon className="w-5 h-5" />
+          ) : (
+            <ArchiveBoxIcon className="w-5 h-5" />
+          )}
+        </button>
+        <button
+          onClick={deleteProject}
+          className="p-1 text-gray-400 hover:text-red-500"
+          title="Delete project"
+        >
+          <TrashIcon className="w-5 h-5" />
+        </button>
+      </div>
+      <FieldError message={error} />
+    </div>
+  );
+};
+
+export default ProjectHeader;
@@ -0,0 +1,59 @@
+"use client";
+import React, { useEffect, useState } from "react";
+import FieldError from "./FieldError";
+import { ProjectSummary } from "../lib/projectValidation";
+
+// Select for the project a task belongs to. Archived projects are hidden
+// unless the task is already in one.
+const ProjectPicker: React.FC<{
+  value: string | null;
+  onChange: (projectId: string | null) => void;
+  error?: string;
+  id?: string;
+  className?: string;
+}> = ({ value, onChange, error, id, className }) => {
+  const [projects, setProjects] = useState<ProjectSummary[]>([]);
+
+  useEffect(() => {
+    const fetchProjects = async () => {
+      try {
+        const response = await fetch("/api/projects?archived=true");
+        if (response.ok) {
+          setProjects(await response.json());
+        } else {
+          console.error("Failed to fetch projects");
+        }
+      } catch (error) {
+        console.error("Error fetching projects:", error);
+      }
+    };
+
+    fetchProjects();
+  }, []);
+
+  const options = projects.filter(
+    (project) => !project.archived || project.id === value
+  );
+
+  return (
+    <>
+      <select
+        id={id}
+        value={value ?? ""}
+        onChange={(e) => onChange(e.target.value || null)}
+        className={className}
+      >
+        <option value="">No project</option>
+        {options.map((project) => (
+          <option key={project.id} value={project.id}>
+            {project.name}
+            {project.archived ? " (archived)" : ""}
+          </option>
+        ))}
+      </select>
+      <FieldError message={error} />
+    </>
+  );
+};
+
+export default ProjectPicker;
@@ -0,0 +1,239 @@
+"use client";
+import React, { useEffect, useState } from "react";
+import { format } from "date-fns";
+import {
+  CalendarDaysIcon,
+  ClockIcon,
+  FlagIcon,
+  SparklesIcon,
+  TagIcon,
+} from "@heroicons/react/24/outline";
+import { formatEstimate } from "../lib/estimates";
+import { parseQuickAdd } from "../lib/quickAdd";
+import {
+  DEFAULT_WEEK_STARTS_ON,
+  UserPreferences,
+} from "../lib/preferencesValidation";
+import { TagSummary } from "../lib/tagValidation";
+
+const PreviewChip: React.FC<{
+  icon: React.ElementType;
+  children: React.ReactNode;
+}> = ({ icon: Icon, children }) => (
+  <span className="inline-flex items-center gap-1 px-2 py-0.5 text-xs rounded-full bg-gray-100 text-gray-700">
+    <Icon className="w-3.5 h-3.5" />
+    {children}
+  </span>
+);
+
+// One-line task entry: "Pay rent tomorrow 5pm #Finance !high ~30m". Shows what
+// will be saved as you type; tags that don't exist yet are created on submit.
+const QuickAdd: React.FC<{
+  projectId: string | null;
+  onCreated: () => void;
+  onMessage: (message: string, type: "success" | "error") => void;
+}> = ({ projectId, onCreated, onMessage }) => {
+  const [text, setText] = useState("");
+  const [tags, setTags] = useState<TagSummary[]>([]);
+  const [weekStartsOn, setWeekStartsOn] = useState(DEFAULT_WEEK_STARTS_ON);
+  const [isSaving, setIsSaving] = useState(false);
+
+  useEffect(() => {
+    const fetchTags = async () => {
+      try {
+        const response = await fetch("/api/tags");
+        if (response.ok) {
+          setTags(await response.json());
+        } else {
+          console.error("Failed to fetch tags");
+        }
+      } catch (error) {
+        console.error("Error fetching tags:", error);
+      }
+    };
+
+    const fetchPreferences = async () => {
+      try {
+        const response = await fetch("/api/user/preferences");
+        if (response.ok) {
+          const data: UserPreferences = await response.json();
+          setWeekStartsOn(data.weekStartsOn);
+        } else {
+          console.error("Failed to fetch preferences");
+        }
+      } catch (error) {
+        console.error("Error fetching preferences:", error);
+      }
+    };
+
+    fetchTags();
+    fetchPreferences();
+  }, []);
+
+  const parsed = parseQuickAdd(text, { weekStartsOn });
+  const findTag = (name: string) =>
+    tags.find((tag) => tag.name.toLowerCase() === name.toLowerCase());
+
+  // Looks up each #tag by name, creating the ones the user doesn't have
+  const resolveTagIds = async () => {
+    const ids: string[] = [];
+    for (const name of parsed.tags) {
+      const existing = findTag(name);
+      if (existing) {
+        ids.push(existing.id);
+        continue;
+      }
+      const response = await fetch("/api/tags", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ name }),
+      });
+      if (!response.ok) {
+        const errorData = await response.json();
+        throw new Error(errorData.error || `Failed to create tag "${name}"`);
+      }
+      const tag: TagSummary = await response.json();
+      setTags((current) => [...current, tag]);
+      ids.push(tag.id);
+    }
+    return ids;
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!parsed.title) {
+      onMessage("Task title is required", "error");
+      return;
+    }
+
+    setIsSaving(true);
+    try {
+      const tagIds = await resolveTagIds();
+      // A typed time is local time; send it as an instant. Dates alone stay
+      // yyyy-mm-dd, stored as the UTC day.
+      const dueDate =
+        parsed.dueDate && parsed.dueTime
+          ? new Date(`${parsed.dueDate}T${parsed.dueTime}:00`).toISOString()
+          : parsed.dueDate;
+
+      const response = await fetch("/api/tasks", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({
+          title: parsed.title,
+          dueDate,
+          priority: parsed.priority,
+          status: "Not Started",
+          estimatedTime: parsed.estimatedTime,
+          tags: tagIds,
+          projectId,
+        }),
+      });
+
+      if (response.ok) {
+        setText("");
+        onMessage("Task added successfully!", "success");
+        onCreated();
+      } else {
+        const errorData = await response.json();
+        onMessage(errorData.message || "Failed to add task", "error");
+      }
+    } catch (error) {
+      console.error("Error adding task:", error);
+      onMessage(
+        error instanceof Error ? error.message : "Error adding task",
+        "error"
+      );
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const hasPreview = text.trim() !== "";
+
+  return (
+    <div className="bg-white shadow-md rounded p-4 sm:p-6 mb-8">
+      <h2 className="text-xl font-semibold mb-4">Quick Add</h2>
+      <form onSubmit={handleSubmit} className="flex flex-col sm:flex-row gap-2">
+        <input
+          type="text"
+          value={text}
+          onChange={(e) => setText(e.target.value)}
+          placeholder="Pay rent tomorrow 5pm #Finance !high ~30m"
+          aria-label="Quick add task"
+          aria-describedby="quick-add-preview"
+          className="flex-1 px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-1 focus:ring-blue-500"
+        />
+        <button
+          type="submit"
+          disabled={isSaving || !parsed.title}
+          className="px-6 py-2 bg-black hover:bg-gray-800 text-white font-bold rounded-md disabled:opacity-50 transition-colors duration-200"
+        >
+          {isSaving ? "Adding..." : "Add"}
+        </button>
+      </form>
+      <div
+        id="quick-add-preview"
+        aria-live="polite"
+        className="mt-3 flex flex-wrap items-center gap-2 text-sm"
+      >
+        {hasPreview ? (
+          <>
+            <span
+              className={`font-medium ${
+                parsed.title ? "text-gray-800" : "text-red-600"
+              }`}
+            >
+              {parsed.title || "No title yet"}
+            </span>
+            {parsed.dueDate && (
+              <PreviewChip icon={CalendarDaysIcon}>
+                {format(
+                  new Date(`${parsed.dueDate}T${parsed.dueTime ?? "00:00"}:00`),
+                  parsed.dueTime ? "EEE, MMM d, h:mm a" : "EEE, MMM d"
+                )}
+              </PreviewChip>
+            )}
+            {parsed.priority && (
+              <PreviewChip icon={FlagIcon}>{parsed.priority}</PreviewChip>
+            )}
+            {parsed.estimatedTime !== null && (
+              <PreviewChip icon={ClockIcon}>
+                {formatEstimate(parsed.estimatedTime)}
+              </PreviewChip>
+            )}
+            {parsed.tags.map((name) => {
+              const tag = findTag(name);
+              return (
+                <PreviewChip key={name} icon={TagIcon}>
+                  {tag ? (
+                    <>
+                      <span
+                        className="w-2 h-2 rounded-full"
+                        style={{ backgroundColor: tag.color }}
+                      />
+                      {tag.name}
+                    </>
+                  ) : (
+                    <>
+                      {name}
+                      <span className="text-gray-400">(new)</span>
+                    </>
+                  )}
+                </PreviewChip>
+              );
+            })}
+          </>
+        ) : (
+          <span className="flex items-center gap-1 text-xs text-gray-500">
+            <SparklesIcon className="w-4 h-4" />
+            Dates like &quot;next Friday&quot; or &quot;in 3 days&quot;, times,
+            #tags, !high/!medium/!low and ~estimates are picked up as you type.
+          </span>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default QuickAdd;
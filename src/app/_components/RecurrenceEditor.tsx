@@ -0,0 +1,233 @@
+"use client";
+import React from "react";
+import FieldError from "./FieldError";
+import {
+  RecurrenceRule,
+  RecurrenceType,
+  WEEKDAY_NAMES,
+  WEEK_ORDINALS,
+  previewOccurrences,
+} from "../lib/recurrence";
+
+const PREVIEW_COUNT = 5;
+
+const TYPE_LABELS: Record<RecurrenceType, string> = {
+  daily: "Daily",
+  weekly: "Weekly",
+  monthlyByDay: "Monthly on a day",
+  monthlyByWeekday: "Monthly on a weekday",
+  afterCompletion: "After completion",
+};
+
+// Due dates come from <input type="date"> and are stored as UTC midnight
+const toStartDate = (dueDate: string) => {
+  if (dueDate) {
+    const date = new Date(dueDate);
+    if (!isNaN(date.getTime())) return date;
+  }
+  const today = new Date();
+  return new Date(
+    Date.UTC(today.getFullYear(), today.getMonth(), today.getDate())
+  );
+};
+
+const defaultRule = (type: RecurrenceType, start: Date): RecurrenceRule => {
+  switch (type) {
+    case "daily":
+      return { type, interval: 1 };
+    case "weekly":
+      return { type, interval: 1, weekdays: [start.getUTCDay()] };
+    case "monthlyByDay":
+      return { type, interval: 1, day: start.getUTCDate() };
+    case "monthlyByWeekday":
+      return {
+        type,
+        interval: 1,
+        week: Math.min(Math.ceil(start.getUTCDate() / 7), 5),
+        weekday: start.getUTCDay(),
+      };
+    case "afterCompletion":
+      return { type, days: 7 };
+  }
+};
+
+const formatPreviewDate = (date: Date) =>
+  date.toLocaleDateString(undefined, {
+    timeZone: "UTC",
+    weekday: "short",
+    month: "short",
+    day: "numeric",
+    year: "numeric",
+  });
+
+const RecurrenceEditor: React.FC<{
+  value: RecurrenceRule | null;
+  onChange: (rule: RecurrenceRule | null) => void;
+  dueDate: string;
+  error?: string;
+}> = ({ value, onChange, dueDate, error }) => {
+  const start = toStartDate(dueDate);
+  const inputClass = "p-1 border rounded text-sm";
+
+  const unit =
+    value?.type === "daily"
+      ? "day(s)"
+      : value?.type === "weekly"
+      ? "week(s)"
+      : "month(s)";
+
+  return (
+    <div className="space-y-2">
+      <select
+        value={value?.type ?? ""}
+        onChange={(e) =>
+          onChange(
+            e.target.value
+              ? defaultRule(e.target.value as RecurrenceType, start)
+              : null
+          )
+        }
+        className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-1 focus:ring-blue-500"
+      >
+        <option value="">Does not repeat</option>
+        {(Object.keys(TYPE_LABELS) as RecurrenceType[]).map((type) => (
+          <option key={type} value={type}>
+            {TYPE_LABELS[type]}
+          </option>
+        ))}
+      </select>
+
+      {value && value.type !== "afterCompletion" && (
+        <div className="flex items-center gap-2 text-sm text-gray-600">
+          Every
+          <input
+            type="number"
+            min={1}
+            value={value.interval}
+            onChange={(e) =>
+              onChange({
+                ...value,
+                interval: Math.max(parseInt(e.target.value, 10) || 1, 1),
+              })
+            }
+            className={`${inputClass} w-16`}
+          />
+          {unit}
+        </div>
+      )}
+
+      {value?.type === "weekly" && (
+        <div className="flex gap-1">
+          {WEEKDAY_NAMES.map((name, day) => (
+            <button
+              key={name}
+              type="button"
+              title={name}
+              onClick={() =>
+                onChange({
+                  ...value,
+                  weekdays: value.weekdays.includes(day)
+                    ? value.weekdays.filter((weekday) => weekday !== day)
+                    : [...value.weekdays, day].sort((a, b) => a - b),
+                })
+              }
+              className={`w-8 h-8 rounded-full text-xs font-medium ${
+                value.weekdays.includes(day)
+                  ? "bg-blue-500 text-white"
+                  : "bg-gray-200 text-gray-700 hover:bg-gray-300"
+              }`}
+            >
+              {name[0]}
+            </button>
+          ))}
+        </div>
+      )}
+
+      {value?.type === "monthlyByDay" && (
+        <div className="flex items-center gap-2 text-sm text-gray-600">
+          On day
+          <input
+            type="number"
+            min={1}
+            max={31}
+            value={value.day}
+            onChange={(e) =>
+              onChange({
+                ...value,
+                day: Math.min(
+                  Math.max(parseInt(e.target.value, 10) || 1, 1),
+                  31
+                ),
+              })
+            }
+            className={`${inputClass} w-16`}
+          />
+        </div>
+      )}
+
+      {value?.type === "monthlyByWeekday" && (
+        <div className="flex items-center gap-2 text-sm text-gray-600">
+          On the
+          <select
+            value={value.week}
+            onChange={(e) =>
+              onChange({ ...value, week: parseInt(e.target.value, 10) })
+            }
+            className={inputClass}
+          >
+            {WEEK_ORDINALS.map((ordinal, index) => (
+              <option key={ordinal} value={index + 1}>
+                {ordinal}
+              </option>
+            ))}
+          </select>
+          <select
+            value={value.weekday}
+            onChange={(e) =>
+              onChange({ ...value, weekday: parseInt(e.target.value, 10) })
+            }
+            className={inputClass}
+          >
+            {WEEKDAY_NAMES.map((name, day) => (
+              <option key={name} value={day}>
+                {name}
+              </option>
+            ))}
+          </select>
+        </div>
+      )}
+
+      {value?.type === "afterCompletion" && (
+        <div className="flex items-center gap-2 text-sm text-gray-600">
+          <input
+            type="number"
+            min={1}
+            value={value.days}
+            onChange={(e) =>
+              onChange({
+                ...value,
+                days: Math.max(parseInt(e.target.value, 10) || 1, 1),
+              })
+            }
+            className={`${inputClass} w-16`}
+          />
+          day(s) after completion
+        </div>
+      )}
+
+      {value && (value.type !== "weekly" || value.weekdays.length > 0) && (
+        <div className="text-xs text-gray-500">
+          <span className="font-medium">Next dates: </span>
+          {previewOccurrences(value, start, PREVIEW_COUNT)
+            .map(formatPreviewDate)
+            .join(" · ")}
+          {value.type === "afterCompletion" &&
+            " (if each is completed on its due date)"}
+        </div>
+      )}
+      <FieldError message={error} />
+    </div>
+  );
+};
+
+export default RecurrenceEditor;
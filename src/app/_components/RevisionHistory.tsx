@@ -0,0 +1,233 @@
+"use client";
+import React, { useCallback, useEffect, useState } from "react";
+import { toast } from "react-toastify";
+import { formatDistanceToNow } from "date-fns";
+import { ArrowUturnLeftIcon } from "@heroicons/react/24/outline";
+import { RecurrenceRule, describeRecurrence } from "../lib/recurrence";
+import { displayDueDate } from "../lib/planning";
+import { DATE_ONLY_PATTERN } from "../lib/taskValidation";
+import {
+  RevisionChanges,
+  SNAPSHOT_FIELDS,
+  SNAPSHOT_FIELD_LABELS,
+  SnapshotField,
+  TaskSnapshot,
+  diffWords,
+} from "../lib/revisionDiff";
+
+interface Revision {
+  id: string;
+  changes: RevisionChanges;
+  restoredFromId: string | null;
+  createdAt: string;
+  author: { id: string; name: string };
+}
+
+const formatValue = (field: SnapshotField, value: unknown): string => {
+  if (value === null || value === undefined || value === "") return "None";
+  switch (field) {
+    case "dueDate":
+      // Snapshots store a whole-day due date as yyyy-mm-dd
+      return displayDueDate(
+        value as string,
+        !DATE_ONLY_PATTERN.test(value as string)
+      ).toLocaleDateString();
+    case "estimatedTime":
+      return `${value} min`;
+    case "recurrence":
+      return describeRecurrence(value as RecurrenceRule);
+    case "project":
+      return (value as TaskSnapshot["project"])?.name ?? "None";
+    case "tags": {
+      const tags = value as TaskSnapshot["tags"];
+      return tags.length > 0 ? tags.map((tag) => tag.name).join(", ") : "None";
+    }
+    default:
+      return String(value);
+  }
+};
+
+const TextDiff: React.FC<{ from: unknown; to: unknown }> = ({ from, to }) => (
+  <span className="whitespace-pre-wrap">
+    {diffWords(String(from ?? ""), String(to ?? "")).map((part, index) =>
+      part.type === "same" ? (
+        <span key={index}>{part.text}</span>
+      ) : part.type === "removed" ? (
+        <del key={index} className="bg-red-100 text-red-700">
+          {part.text}
+        </del>
+      ) : (
+        <ins key={index} className="bg-green-100 text-green-700 no-underline">
+          {part.text}
+        </ins>
+      )
+    )}
+  </span>
+);
+
+// Timeline of edits to a task with per-field diffs. Any version can be
+// restored; restoring is recorded as a revision of its own.
+const RevisionHistory: React.FC<{
+  taskId: string;
+  // Refetches whenever the task is saved
+  updatedAt: string;
+  onRestored: () => void;
+}> = ({ taskId, updatedAt, onRestored }) => {
+  const [revisions, setRevisions] = useState<Revision[]>([]);
+  const [isOpen, setIsOpen] = useState(false);
+  const [restoringId, setRestoringId] = useState<string | null>(null);
+
+  const fetchRevisions = useCallback(async () => {
+    try {
+      const response = await fetch(`/api/tasks/${taskId}/revisions`);
+      if (response.ok) {
+        setRevisions(await response.json());
+      } else {
+        console.error("Failed to fetch revisions");
+      }
+    } catch (error) {
+      console.error("Error fetching revisions:", error);
+    }
+  }, [taskId]);
+
+  useEffect(() => {
+    fetchRevisions();
+  }, [fetchRevisions, updatedAt]);
+
+  const restore = async (revision: Revision, state: "before" | "after") => {
+    if (
+      !window.confirm(
+        state === "before"
+          ? "Restore the task as it was before this change?"
+          : "Restore the task to this version?"
+      )
+    ) {
+      return;
+    }
+
+    setRestoringId(revision.id);
+    try {
+      const response = await fetch(
+        `/api/tasks/${taskId}/revisions/${revision.id}/restore`,
+        {
+          method: "POST",
+          headers: { "Content-Type": "application/json" },
+          body: JSON.stringify({ state }),
+        }
+      );
+      if (response.ok) {
+        const restoredTask = await response.json();
+        onRestored();
+        toast.info(
+          restoredTask.nextOccurrence?.dueDate
+            ? `Version restored. Next occurrence scheduled for ${displayDueDate(
+                restoredTask.nextOccurrence.dueDate,
+                restoredTask.nextOccurrence.hasDueTime
+              ).toLocaleDateString()}`
+            : "Version restored"
+        );
+      } else {
+        const errorData = await response.json();
+        toast.error(errorData.error || "Failed to restore version");
+      }
+    } catch (error) {
+      console.error("Error restoring version:", error);
+      toast.error("Error restoring version");
+    } finally {
+      setRestoringId(null);
+    }
+  };
+
+  if (revisions.length === 0) return null;
+
+  const oldestId = revisions[revisions.length - 1].id;
+
+  return (
+    <div className="mt-6">
+      <button
+        onClick={() => setIsOpen(!isOpen)}
+        className="text-lg font-semibold text-gray-800 mb-2"
+      >
+        History ({revisions.length}) {isOpen ? "▾" : "▸"}
+      </button>
+      {isOpen && (
+        <ol className="relative border-l border-gray-200 ml-2">
+          {revisions.map((revision, index) => (
+            <li key={revision.id} className="mb-4 ml-4 group">
+              <span className="absolute -left-1.5 mt-1.5 w-3 h-3 rounded-full bg-gray-300 border-2 border-white" />
+              <div className="flex items-center text-xs text-gray-500 mb-1">
+                <span className="font-medium text-gray-700 mr-2">
+                  {revision.author.name}
+                </span>
+                <time
+                  dateTime={revision.createdAt}
+                  title={new Date(revision.createdAt).toLocaleString()}
+                >
+                  {formatDistanceToNow(new Date(revision.createdAt), {
+                    addSuffix: true,
+                  })}
+                </time>
+                {revision.restoredFromId && (
+                  <span className="ml-1">(restored an earlier version)</span>
+                )}
+                <span className="ml-auto flex gap-2 opacity-0 group-hover:opacity-100 transition-opacity duration-200">
+                  {revision.id === oldestId && (
+                    <button
+                      onClick={() => restore(revision, "before")}
+                      disabled={restoringId !== null}
+                      className="flex items-center text-gray-500 hover:text-gray-700 disabled:opacity-50"
+                    >
+                      <ArrowUturnLeftIcon className="w-3 h-3 mr-1" />
+                      Restore original
+                    </button>
+                  )}
+                  {index > 0 && (
+                    <button
+                      onClick={() => restore(revision, "after")}
+                      disabled={restoringId !== null}
+                      className="flex items-center text-gray-500 hover:text-gray-700 disabled:opacity-50"
+                    >
+                      <ArrowUturnLeftIcon className="w-3 h-3 mr-1" />
+                      Restore this version
+                    </button>
+                  )}
+                </span>
+              </div>
+              <dl className="text-sm text-gray-700 space-y-1">
+                {SNAPSHOT_FIELDS.filter((field) => revision.changes[field]).map(
+                  (field) => {
+                    const { from, to } = revision.changes[field]!;
+                    return (
+                      <div key={field} className="flex gap-2">
+                        <dt className="w-28 flex-shrink-0 text-gray-500">
+                          {SNAPSHOT_FIELD_LABELS[field]}
+                        </dt>
+                        <dd className="min-w-0 break-words">
+                          {field === "title" || field === "description" ? (
+                            <TextDiff from={from} to={to} />
+                          ) : (
+                            <>
+                              <del className="text-red-700">
+                                {formatValue(field, from)}
+                              </del>
+                              {" → "}
+                              <span className="text-green-700">
+                                {formatValue(field, to)}
+                              </span>
+                            </>
+                          )}
+                        </dd>
+                      </div>
+                    );
+                  }
+                )}
+              </dl>
+            </li>
+          ))}
+        </ol>
+      )}
+    </div>
+  );
+};
+
+export default RevisionHistory;
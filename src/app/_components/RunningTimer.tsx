@@ -0,0 +1,85 @@
+"use client";
+import React, { useCallback, useEffect, useState } from "react";
+import Link from "next/link";
+import { StopIcon } from "@heroicons/react/24/outline";
+import {
+  TIMER_CHANGED_EVENT,
+  TimeEntrySummary,
+  entryDuration,
+  formatClock,
+  notifyTimerChanged,
+} from "../lib/timeTracking";
+
+// The user's running timer, shown in the sidebar on every page
+const RunningTimer: React.FC = () => {
+  const [entry, setEntry] = useState<TimeEntrySummary | null>(null);
+  const [now, setNow] = useState(Date.now());
+
+  const fetchTimer = useCallback(async () => {
+    try {
+      const response = await fetch("/api/timer");
+      if (response.ok) {
+        const data = await response.json();
+        setEntry(data.entry);
+      } else {
+        console.error("Failed to fetch timer");
+      }
+    } catch (error) {
+      console.error("Error fetching timer:", error);
+    }
+  }, []);
+
+  useEffect(() => {
+    fetchTimer();
+    window.addEventListener(TIMER_CHANGED_EVENT, fetchTimer);
+    return () => window.removeEventListener(TIMER_CHANGED_EVENT, fetchTimer);
+  }, [fetchTimer]);
+
+  useEffect(() => {
+    if (!entry) return;
+    setNow(Date.now());
+    const timer = setInterval(() => setNow(Date.now()), 1000);
+    return () => clearInterval(timer);
+  }, [entry]);
+
+  const stopTimer = async () => {
+    try {
+      const response = await fetch("/api/timer/stop", { method: "POST" });
+      if (response.ok || response.status === 404) {
+        setEntry(null);
+        notifyTimerChanged();
+      } else {
+        console.error("Failed to stop timer");
+      }
+    } catch (error) {
+      console.error("Error stopping timer:", error);
+    }
+  };
+
+  if (!entry) return null;
+
+  return (
+    <div className="flex items-center mt-4 px-2 py-2 rounded bg-orange-50 border border-orange-200">
+      <span className="w-2 h-2 mr-2 rounded-full bg-red-500 animate-pulse flex-shrink-0" />
+      <Link
+        href={`/task/${entry.task.id}`}
+        className="flex-grow min-w-0 text-sm text-gray-800 hover:underline"
+        title={entry.task.title}
+      >
+        <span className="block truncate">{entry.task.title}</span>
+        <span className="block font-mono text-xs text-gray-600">
+          {formatClock(entryDuration(entry, now))}
+        </span>
+      </Link>
+      <button
+        onClick={stopTimer}
+        className="p-1 text-orange-600 hover:text-orange-800"
+        title="Stop timer"
+      >
+        <StopIcon className="w-5 h-5" />
+      </button>
+    </div>
+  );
+};
+
+export default RunningTimer;
@@ -0,0 +1,97 @@
+"use client";
+import React, { useEffect } from "react";
+import Link from "next/link";
+import { XMarkIcon } from "@heroicons/react/24/outline";
+import {
+  SHORTCUTS,
+  SHORTCUT_ACTIONS,
+  ShortcutAction,
+  formatKey,
+  isMacPlatform,
+} from "../lib/shortcuts";
+
+const SCOPES = ["Everywhere", "Task list"] as const;
+
+export const KeyCap: React.FC<{ keyName: string }> = ({ keyName }) => (
+  <kbd className="inline-block min-w-[1.5rem] px-1.5 py-0.5 text-xs text-center font-mono text-gray-700 bg-gray-100 border border-gray-300 rounded">
+    {formatKey(keyName, isMacPlatform())}
+  </kbd>
+);
+
+// Overlay listing every shortcut with the user's current keys
+const ShortcutsHelp: React.FC<{
+  bindings: Record<ShortcutAction, string>;
+  onClose: () => void;
+}> = ({ bindings, onClose }) => {
+  useEffect(() => {
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (e.key === "Escape") onClose();
+    };
+    window.addEventListener("keydown", handleKeyDown);
+    return () => window.removeEventListener("keydown", handleKeyDown);
+  }, [onClose]);
+
+  return (
+    <div
+      className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50"
+      onClick={onClose}
+    >
+      <div
+        role="dialog"
+        aria-modal="true"
+        aria-labelledby="shortcuts-help-title"
+        className="bg-white p-6 rounded-lg shadow-xl max-w-md w-full mx-4"
+        onClick={(e) => e.stopPropagation()}
+      >
+        <div className="flex justify-between items-center mb-4">
+          <h3 id="shortcuts-help-title" className="text-lg font-semibold">
+            Keyboard Shortcuts
+          </h3>
+          <button
+            onClick={onClose}
+            className="text-gray-400 hover:text-gray-600"
+            title="Close"
+          >
+            <XMarkIcon className="h-6 w-6" />
+          </button>
+        </div>
+        {SCOPES.map((scope) => (
+          <div key={scope} className="mb-4">
+            <h4 className="text-xs font-semibold uppercase text-gray-500 mb-2">
+              {scope}
+            </h4>
+            <ul className="space-y-1.5">
+              {SHORTCUT_ACTIONS.filter(
+                (action) => SHORTCUTS[action].scope === scope
+              ).map((action) => (
+                <li
+                  key={action}
+                  className="flex items-center justify-between text-sm"
+                >
+                  <span className="text-gray-700">
+                    {SHORTCUTS[action].label}
+                  </span>
+                  <KeyCap keyName={bindings[action]} />
+                </li>
+              ))}
+            </ul>
+          </div>
+        ))}
+        <p className="text-xs text-gray-500">
+          Edit, complete and delete also work on a task&apos;s page. Change the
+          keys in{" "}
+          <Link
+            href="/settings"
+            onClick={onClose}
+            className="text-orange-600 hover:underline"
+          >
+            Settings
+          </Link>
+          .
+        </p>
+      </div>
+    </div>
+  );
+};
+
+export default ShortcutsHelp;
@@ -6,6 +6,14 @@ import { Menu } from "@headlessui/react";
 import { usePathname, useRouter } from "next/navigation";
 import Hamburger from "hamburger-react";
 import { appVersion } from "../config/version";
+import CommandPalette from "./CommandPalette";
+import RunningTimer from "./RunningTimer";
+import SidebarSearch from "./SidebarSearch";
+import { PROJECT_COLORS, ProjectSummary } from "../lib/projectValidation";
+import {
+  SAVED_VIEWS_CHANGED_EVENT,
+  SavedViewSummary,
+} from "../lib/savedViewValidation";
 
 import {
   PlusIcon,
@@ -16,6 +24,10 @@ import {
   CogIcon,
   ArrowLeftEndOnRectangleIcon,
   ChevronDownIcon,
+  TrashIcon,
+  ChartBarIcon,
+  CalendarDaysIcon,
+  BookmarkIcon,
 } from "@heroicons/react/24/outline";
 
 interface Task {
@@ -27,15 +39,26 @@ interface SidebarLayoutProps {
   children: ReactNode;
   tasks: Task[];
   activeTaskId?: string;
+  activeProjectId?: string;
+  activeViewId?: string;
   isAddTaskPage?: boolean;
 }
 
+interface SidebarProject extends ProjectSummary {
+  taskCount: number;
+}
+
 export default function SidebarLayout({
   children,
   tasks,
   activeTaskId,
+  activeProjectId,
+  activeViewId,
 }: SidebarLayoutProps) {
   const [taskCount, setTaskCount] = useState<number | null>(null);
+  const [projects, setProjects] = useState<SidebarProject[]>([]);
+  const [savedViews, setSavedViews] = useState<SavedViewSummary[]>([]);
+  const [newProjectName, setNewProjectName] = useState<string | null>(null);
   const { data: session, status } = useSession();
   const router = useRouter();
   const pathname = usePathname();
@@ -56,9 +79,44 @@ export default function SidebarLayout({
       }
     }
 
+    async function fetchProjects() {
+      try {
+        const response = await fetch("/api/projects");
+        if (response.ok) {
+          setProjects(await response.json());
+        } else {
+          console.error("Failed to fetch projects");
+        }
+      } catch (error) {
+        console.error("Error fetching projects:", error);
+      }
+    }
+
     if (status === "authenticated") {
       fetchTaskCount();
+      fetchProjects();
+    }
+  }, [status]);
+
+  useEffect(() => {
+    async function fetchSavedViews() {
+      try {
+        const response = await fetch("/api/views");
+        if (response.ok) {
+          setSavedViews(await response.json());
+        } else {
+          console.error("Failed to fetch saved views");
+        }
+      } catch (error) {
+        console.error("Error fetching saved views:", error);
+      }
     }
+
+    if (status !== "authenticated") return;
+    fetchSavedViews();
+    window.addEventListener(SAVED_VIEWS_CHANGED_EVENT, fetchSavedViews);
+    return () =>
+      window.removeEventListener(SAVED_VIEWS_CHANGED_EVENT, fetchSavedViews);
   }, [status]);
 
   // Close sidebar when route changes (mobile)
@@ -70,7 +128,41 @@ export default function SidebarLayout({
   const hasMoreTasks = tasks.length > 7;
 
   const isAddTaskPage = pathname === "/new";
-  const isTasksPage = pathname === "/tasks";
+  const isTasksPage =
+    pathname === "/tasks" && !activeProjectId && !activeViewId;
+  const isTrashPage = pathname === "/trash";
+  const isPlanningPage = pathname === "/planning";
+  const isCalendarPage = pathname === "/calendar";
+
+  const createProject = async () => {
+    const name = newProjectName?.trim();
+    setNewProjectName(null);
+    if (!name) return;
+
+    try {
+      const response = await fetch("/api/projects", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({
+          name,
+          color: PROJECT_COLORS[projects.length % PROJECT_COLORS.length],
+        }),
+      });
+      if (response.ok) {
+        const project = await response.json();
+        setProjects((prevProjects) =>
+          [...prevProjects, { ...project, taskCount: 0 }].sort((a, b) =>
+            a.name.localeCompare(b.name)
+          )
+        );
+        router.push(`/tasks?project=${project.id}`);
+      } else {
+        console.error("Failed to create project");
+      }
+    } catch (error) {
+      console.error("Error creating project:", error);
+    }
+  };
 
   const handleSignOut = async () => {
     const data = await signOut({ redirect: false, callbackUrl: "/" });
@@ -105,6 +197,7 @@ export default function SidebarLayout({
       >
         <div className="p-4 mt-14 lg:mt-0">
           <h2 className="text-xl font-semibold">taskEzy</h2>
+          {status === "authenticated" && <SidebarSearch />}
           <Link
             href="/new"
             className={`flex items-center mt-4 ${
@@ -132,6 +225,124 @@ export default function SidebarLayout({
               </span>
             )}
           </Link>
+          <Link
+            href="/calendar"
+            className={`flex items-center mt-2 ${
+              isCalendarPage
+                ? "bg-orange-100 text-orange-600"
+                : "text-orange-600 hover:bg-gray-100"
+            } px-2 py-1 rounded`}
+          >
+            <CalendarDaysIcon className="mr-2" width={20} height={20} />
+            Calendar
+          </Link>
+          <Link
+            href="/planning"
+            className={`flex items-center mt-2 ${
+              isPlanningPage
+                ? "bg-orange-100 text-orange-600"
+                : "text-orange-600 hover:bg-gray-100"
+            } px-2 py-1 rounded`}
+          >
+            <ChartBarIcon className="mr-2" width={20} height={20} />
+            Planning
+          </Link>
+          <Link
+            href="/trash"
+            className={`flex items-center mt-2 ${
+              isTrashPage
+                ? "bg-orange-100 text-orange-600"
+                : "text-orange-600 hover:bg-gray-100"
+            } px-2 py-1 rounded`}
+          >
+            <TrashIcon className="mr-2" width={20} height={20} />
+            Trash
+          </Link>
+          {status === "authenticated" && <RunningTimer />}
+        </div>
+        {savedViews.length > 0 && (
+          <div className="px-4 mt-4">
+            <h3 className="text-sm font-medium text-gray-500 uppercase tracking-wider">
+              Views
+            </h3>
+            <ul className="mt-2 max-h-40 overflow-y-auto">
+              {savedViews.map((view) => (
+                <li key={view.id}>
+                  <Link
+                    href={`/tasks?view=${view.id}`}
+                    className={`flex items-center px-2 py-1 rounded text-sm ${
+                      view.id === activeViewId
+                        ? "bg-orange-100 text-orange-600"
+                        : "text-gray-700 hover:bg-gray-100"
+                    }`}
+                  >
+                    <BookmarkIcon className="w-4 h-4 mr-2 flex-shrink-0" />
+                    <span className="truncate">{view.name}</span>
+                  </Link>
+                </li>
+              ))}
+            </ul>
+          </div>
+        )}
+        <div className="px-4 mt-4">
+          <div className="flex items-center justify-between">
+            <h3 className="text-sm font-medium text-gray-500 uppercase tracking-wider">
+              Projects
+            </h3>
+            <button
+              onClick={() => setNewProjectName("")}
+              className="p-1 text-gray-400 hover:text-gray-600"
+              title="New project"
+            >
+              <PlusIcon className="w-4 h-4" />
+            </button>
+          </div>
+          <ul className="mt-2 max-h-48 overflow-y-auto">
+            {projects.map((project) => (
+              <li key={project.id}>
+                <Link
+                  href={`/tasks?project=${project.id}`}
+                  className={`flex items-center px-2 py-1 rounded text-sm ${
+                    project.id === activeProjectId
+                      ? "bg-orange-100 text-orange-600"
+                      : "text-gray-700 hover:bg-gray-100"
+                  }`}
+                >
+                  <span
+                    className="w-2.5 h-2.5 rounded-full mr-2 flex-shrink-0"
+                    style={{ backgroundColor: project.color }}
+                  />
+                  <span className="truncate">{project.name}</span>
+                  <span className="ml-auto text-xs text-gray-500">
+                    {project.taskCount}
+                  </span>
+                </Link>
+              </li>
+            ))}
+            {newProjectName !== null && (
+              <li>
+                <form
+                  onSubmit={(e) => {
+                    e.preventDefault();
+                    createProject();
+                  }}
+                >
+                  <input
+                    type="text"
+                    value={newProjectName}
+                    autoFocus
+                    onChange={(e) => setNewProjectName(e.target.value)}
+                    onBlur={() => setNewProjectName(null)}
+                    onKeyDown={(e) => {
+                      if (e.key === "Escape") setNewProjectName(null);
+                    }}
+                    placeholder="Project name"
+                    className="w-full px-2 py-1 border rounded text-sm"
+                  />
+                </form>
+              </li>
+            )}
+          </ul>
         </div>
         <nav className="mt-8 flex-grow flex flex-col min-h-0">
           <h3 className="px-4 text-sm font-medium text-gray-500 uppercase tracking-wider">
@@ -228,6 +439,8 @@ export default function SidebarLayout({
       <div className="flex-1 p-8 overflow-auto lg:ml-0 ml-0 pt-20 lg:pt-8">
         {children}
       </div>
+
+      {status === "authenticated" && <CommandPalette />}
     </div>
   );
 }
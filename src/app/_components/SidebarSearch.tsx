@@ -0,0 +1,149 @@
+"use client";
+import React, { useEffect, useRef, useState } from "react";
+import { useRouter } from "next/navigation";
+import { MagnifyingGlassIcon } from "@heroicons/react/24/outline";
+import { SearchResult, splitHighlights } from "../lib/searchHighlight";
+
+const Highlighted: React.FC<{ text: string }> = ({ text }) => (
+  <>
+    {splitHighlights(text).map((part, index) =>
+      part.match ? (
+        <mark key={index} className="bg-yellow-200 text-inherit rounded-sm">
+          {part.text}
+        </mark>
+      ) : (
+        <span key={index}>{part.text}</span>
+      )
+    )}
+  </>
+);
+
+// Search box with results as you type. Arrow keys move through the results,
+// Enter opens the highlighted task and Escape closes the list.
+const SidebarSearch: React.FC = () => {
+  const [query, setQuery] = useState("");
+  const [results, setResults] = useState<SearchResult[]>([]);
+  const [activeIndex, setActiveIndex] = useState(0);
+  const [isOpen, setIsOpen] = useState(false);
+  const requestId = useRef(0);
+  const router = useRouter();
+
+  // Debounced so typing a word doesn't fire a request per key
+  useEffect(() => {
+    if (!query.trim()) {
+      setResults([]);
+      return;
+    }
+
+    const timer = setTimeout(async () => {
+      const id = ++requestId.current;
+      try {
+        const response = await fetch(
+          `/api/search?q=${encodeURIComponent(query)}`
+        );
+        if (!response.ok) {
+          console.error("Failed to search tasks");
+          return;
+        }
+        const data = await response.json();
+        // Ignore responses for text that has since changed
+        if (id !== requestId.current) return;
+        setResults(data.results);
+        setActiveIndex(0);
+      } catch (error) {
+        console.error("Error searching tasks:", error);
+      }
+    }, 200);
+    return () => clearTimeout(timer);
+  }, [query]);
+
+  const openResult = (result: SearchResult) => {
+    setIsOpen(false);
+    setQuery("");
+    router.push(`/task/${result.id}`);
+  };
+
+  const handleKeyDown = (e: React.KeyboardEvent<HTMLInputElement>) => {
+    if (e.key === "ArrowDown" && results.length > 0) {
+      e.preventDefault();
+      setIsOpen(true);
+      setActiveIndex((activeIndex + 1) % results.length);
+    } else if (e.key === "ArrowUp" && results.length > 0) {
+      e.preventDefault();
+      setActiveIndex((activeIndex - 1 + results.length) % results.length);
+    } else if (e.key === "Enter" && results[activeIndex]) {
+      e.preventDefault();
+      openResult(results[activeIndex]);
+    } else if (e.key === "Escape") {
+      setIsOpen(false);
+      e.currentTarget.blur();
+    }
+  };
+
+  const showResults = isOpen && query.trim() !== "";
+
+  return (
+    <div className="relative mt-4">
+      <MagnifyingGlassIcon className="w-4 h-4 text-gray-400 absolute left-2.5 top-1/2 -translate-y-1/2" />
+      <input
+        type="search"
+        value={query}
+        onChange={(e) => {
+          setQuery(e.target.value);
+          setIsOpen(true);
+        }}
+        onFocus={() => setIsOpen(true)}
+        // Let a click on a result land before the list closes
+        onBlur={() => setTimeout(() => setIsOpen(false), 150)}
+        onKeyDown={handleKeyDown}
+        placeholder="Search tasks"
+        role="combobox"
+        aria-expanded={showResults}
+        aria-controls="sidebar-search-results"
+        aria-activedescendant={
+          showResults && results[activeIndex]
+            ? `search-result-${results[activeIndex].id}`
+            : undefined
+        }
+        className="w-full pl-8 pr-2 py-1.5 border border-gray-300 rounded text-sm focus:outline-none focus:ring-1 focus:ring-orange-500"
+      />
+      {showResults && (
+        <ul
+          id="sidebar-search-results"
+          role="listbox"
+          className="absolute left-0 right-0 mt-1 max-h-80 overflow-y-auto bg-white rounded shadow-lg ring-1 ring-black ring-opacity-5 z-50"
+        >
+          {results.length === 0 ? (
+            <li className="px-3 py-2 text-sm text-gray-500">No matches</li>
+          ) : (
+            results.map((result, index) => (
+              <li
+                key={result.id}
+                id={`search-result-${result.id}`}
+                role="option"
+                aria-selected={index === activeIndex}
+                onMouseDown={(e) => e.preventDefault()}
+                onClick={() => openResult(result)}
+                onMouseEnter={() => setActiveIndex(index)}
+                className={`px-3 py-2 cursor-pointer ${
+                  index === activeIndex ? "bg-orange-50" : ""
+                }`}
+              >
+                <p className="text-sm text-gray-800 truncate">
+                  <Highlighted text={result.titleHighlight} />
+                </p>
+                {result.snippet && (
+                  <p className="text-xs text-gray-500 line-clamp-2">
+                    <Highlighted text={result.snippet} />
+                  </p>
+                )}
+              </li>
+            ))
+          )}
+        </ul>
+      )}
+    </div>
+  );
+};
+
+export default SidebarSearch;
@@ -0,0 +1,19 @@
+import React from "react";
+import { TagSummary } from "../lib/tagValidation";
+
+// A tag rendered in its own color; children go after the name (e.g. a remove button)
+const TagBadge: React.FC<{
+  tag: Pick<TagSummary, "name" | "color" | "icon">;
+  children?: React.ReactNode;
+}> = ({ tag, children }) => (
+  <span
+    className="inline-flex items-center px-2 py-0.5 rounded-full text-xs font-medium"
+    style={{ backgroundColor: `${tag.color}26`, color: tag.color }}
+  >
+    {tag.icon && <span className="mr-1">{tag.icon}</span>}
+    {tag.name}
+    {children}
+  </span>
+);
+
+export default TagBadge;
@@ -0,0 +1,230 @@
+"use client";
+import React, { useCallback, useEffect, useState } from "react";
+import { TrashIcon } from "@heroicons/react/24/outline";
+import TagBadge from "./TagBadge";
+import {
+  TAG_COLORS,
+  TAG_ICON_MAX_LENGTH,
+  TAG_NAME_MAX_LENGTH,
+  TagSummary,
+} from "../lib/tagValidation";
+
+interface ManagedTag extends TagSummary {
+  taskCount: number;
+}
+
+// Settings section for renaming, recoloring, merging and deleting tags
+const TagManager: React.FC<{
+  onMessage: (message: string, type: "success" | "error") => void;
+}> = ({ onMessage }) => {
+  const [tags, setTags] = useState<ManagedTag[]>([]);
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [editingName, setEditingName] = useState("");
+
+  const fetchTags = useCallback(async () => {
+    try {
+      const response = await fetch("/api/tags");
+      if (response.ok) {
+        setTags(await response.json());
+      } else {
+        console.error("Failed to fetch tags");
+      }
+    } catch (error) {
+      console.error("Error fetching tags:", error);
+    }
+  }, []);
+
+  useEffect(() => {
+    fetchTags();
+  }, [fetchTags]);
+
+  const updateTag = async (
+    tagId: string,
+    changes: Partial<Pick<TagSummary, "name" | "color" | "icon">>
+  ) => {
+    try {
+      const response = await fetch(`/api/tags/${tagId}`, {
+        method: "PATCH",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify(changes),
+      });
+      if (response.ok) {
+        const updatedTag = await response.json();
+        setTags((prevTags) =>
+          prevTags.map((tag) =>
+            tag.id === tagId ? { ...tag, ...updatedTag } : tag
+          )
+        );
+      } else {
+        const errorData = await response.json();
+        onMessage(errorData.error || "Failed to update tag", "error");
+      }
+    } catch (error) {
+      console.error("Error updating tag:", error);
+      onMessage("Error updating tag", "error");
+    }
+  };
+
+  const saveName = () => {
+    const tag = tags.find((tag) => tag.id === editingId);
+    if (tag && editingName.trim() && editingName.trim() !== tag.name) {
+      updateTag(tag.id, { name: editingName });
+    }
+    setEditingId(null);
+  };
+
+  const mergeTag = async (source: ManagedTag, targetId: string) => {
+    const target = tags.find((tag) => tag.id === targetId);
+    if (
+      !target ||
+      !window.confirm(
+        `Merge "${source.name}" into "${target.name}"? "${source.name}" will be deleted.`
+      )
+    ) {
+      return;
+    }
+
+    try {
+      const response = await fetch(`/api/tags/${source.id}/merge`, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ targetId }),
+      });
+      if (response.ok) {
+        onMessage(`Merged "${source.name}" into "${target.name}"`, "success");
+        fetchTags();
+      } else {
+        const errorData = await response.json();
+        onMessage(errorData.error || "Failed to merge tags", "error");
+      }
+    } catch (error) {
+      console.error("Error merging tags:", error);
+      onMessage("Error merging tags", "error");
+    }
+  };
+
+  const deleteTag = async (tag: ManagedTag) => {
+    if (
+      !window.confirm(
+        `Delete "${tag.name}"? It will be removed from ${tag.taskCount} task(s).`
+      )
+    ) {
+      return;
+    }
+
+    try {
+      const response = await fetch(`/api/tags/${tag.id}`, {
+        method: "DELETE",
+      });
+      if (response.ok) {
+        setTags((prevTags) => prevTags.filter(({ id }) => id !== tag.id));
+      } else {
+        const errorData = await response.json();
+        onMessage(errorData.error || "Failed to delete tag", "error");
+      }
+    } catch (error) {
+      console.error("Error deleting tag:", error);
+      onMessage("Error deleting tag", "error");
+    }
+  };
+
+  return (
+    <div className="bg-white shadow-md rounded-lg p-6 mt-8">
+      <h2 className="text-xl font-semibold mb-4 text-gray-800">Tags</h2>
+      {tags.length === 0 ? (
+        <p className="text-sm text-gray-500">
+          No tags yet. Create them from the tag picker when adding a task.
+        </p>
+      ) : (
+        <ul className="divide-y">
+          {tags.map((tag) => (
+            <li key={tag.id} className="py-3 space-y-2">
+              <div className="flex items-center gap-2">
+                {editingId === tag.id ? (
+                  <input
+                    type="text"
+                    value={editingName}
+                    autoFocus
+                    maxLength={TAG_NAME_MAX_LENGTH}
+                    onChange={(e) => setEditingName(e.target.value)}
+                    onBlur={saveName}
+                    onKeyDown={(e) => {
+                      if (e.key === "Enter") saveName();
+                      if (e.key === "Escape") setEditingId(null);
+                    }}
+                    className="p-1 border rounded text-sm"
+                  />
+                ) : (
+                  <button
+                    onClick={() => {
+                      setEditingId(tag.id);
+                      setEditingName(tag.name);
+                    }}
+                    title="Rename"
+                  >
+                    <TagBadge tag={tag} />
+                  </button>
+                )}
+                <span className="text-xs text-gray-500 flex-grow">
+                  {tag.taskCount} task(s)
+                </span>
+                <select
+                  value=""
+                  onChange={(e) => mergeTag(tag, e.target.value)}
+                  className="p-1 border rounded text-xs"
+                  disabled={tags.length < 2}
+                >
+                  <option value="">Merge into…</option>
+                  {tags
+                    .filter((other) => other.id !== tag.id)
+                    .map((other) => (
+                      <option key={other.id} value={other.id}>
+                        {other.name}
+                      </option>
+                    ))}
+                </select>
+                <button
+                  onClick={() => deleteTag(tag)}
+                  className="p-1 text-gray-400 hover:text-red-500"
+                  title="Delete tag"
+                >
+                  <TrashIcon className="w-4 h-4" />
+                </button>
+              </div>
+              <div className="flex items-center gap-1">
+                {TAG_COLORS.map((color) => (
+                  <button
+                    key={color}
+                    onClick={() => updateTag(tag.id, { color })}
+                    className={`w-5 h-5 rounded-full ${
+                      tag.color === color
+                        ? "ring-2 ring-offset-1 ring-gray-400"
+                        : ""
+                    }`}
+                    style={{ backgroundColor: color }}
+                    title={color}
+                  />
+                ))}
+                <input
+                  type="text"
+                  defaultValue={tag.icon ?? ""}
+                  maxLength={TAG_ICON_MAX_LENGTH}
+                  onBlur={(e) => {
+                    if (e.target.value.trim() !== (tag.icon ?? "")) {
+                      updateTag(tag.id, { icon: e.target.value || null });
+                    }
+                  }}
+                  placeholder="Icon"
+                  title="Icon (e.g. an emoji)"
+                  className="ml-2 w-16 p-1 border rounded text-xs"
+                />
+              </div>
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+};
+
+export default TagManager;
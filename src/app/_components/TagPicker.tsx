@@ -0,0 +1,176 @@
+"use client";
+import React, { useEffect, useState } from "react";
+import { PlusIcon, XMarkIcon } from "@heroicons/react/24/outline";
+import FieldError from "./FieldError";
+import TagBadge from "./TagBadge";
+import {
+  TAG_COLORS,
+  TAG_NAME_MAX_LENGTH,
+  TagSummary,
+} from "../lib/tagValidation";
+
+// Multi-select over the user's tags. Typing a name that doesn't exist yet
+// offers to create it on the spot.
+const TagPicker: React.FC<{
+  value: TagSummary[];
+  onChange: (tags: TagSummary[]) => void;
+  error?: string;
+}> = ({ value, onChange, error }) => {
+  const [tags, setTags] = useState<TagSummary[]>([]);
+  const [query, setQuery] = useState("");
+  const [isOpen, setIsOpen] = useState(false);
+  const [isCreating, setIsCreating] = useState(false);
+  const [createError, setCreateError] = useState<string>();
+
+  useEffect(() => {
+    const fetchTags = async () => {
+      try {
+        const response = await fetch("/api/tags");
+        if (response.ok) {
+          setTags(await response.json());
+        } else {
+          console.error("Failed to fetch tags");
+        }
+      } catch (error) {
+        console.error("Error fetching tags:", error);
+      }
+    };
+
+    fetchTags();
+  }, []);
+
+  const name = query.trim();
+  const selectedIds = new Set(value.map((tag) => tag.id));
+  const suggestions = tags.filter(
+    (tag) =>
+      !selectedIds.has(tag.id) &&
+      tag.name.toLowerCase().includes(name.toLowerCase())
+  );
+  const canCreate =
+    name !== "" &&
+    !tags.some((tag) => tag.name.toLowerCase() === name.toLowerCase());
+
+  const selectTag = (tag: TagSummary) => {
+    onChange([...value, tag]);
+    setQuery("");
+    setCreateError(undefined);
+  };
+
+  const createTag = async () => {
+    setIsCreating(true);
+    setCreateError(undefined);
+    try {
+      const response = await fetch("/api/tags", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({
+          name,
+          color: TAG_COLORS[tags.length % TAG_COLORS.length],
+        }),
+      });
+      if (response.ok) {
+        const tag = await response.json();
+        setTags((prevTags) =>
+          [...prevTags, tag].sort((a, b) => a.name.localeCompare(b.name))
+        );
+        selectTag(tag);
+      } else {
+        const errorData = await response.json();
+        setCreateError(errorData.error || "Failed to create tag");
+      }
+    } catch (error) {
+      console.error("Error creating tag:", error);
+      setCreateError("Error creating tag");
+    } finally {
+      setIsCreating(false);
+    }
+  };
+
+  const handleKeyDown = (e: React.KeyboardEvent<HTMLInputElement>) => {
+    if (e.key === "Enter") {
+      e.preventDefault();
+      // An exact name match wins, then the first suggestion, then creating
+      const exact = suggestions.find(
+        (tag) => tag.name.toLowerCase() === name.toLowerCase()
+      );
+      if (suggestions.length > 0) {
+        selectTag(exact ?? suggestions[0]);
+      } else if (canCreate && !isCreating) {
+        createTag();
+      }
+    } else if (e.key === "Backspace" && query === "" && value.length > 0) {
+      onChange(value.slice(0, -1));
+    } else if (e.key === "Escape") {
+      setIsOpen(false);
+    }
+  };
+
+  return (
+    <div className="relative">
+      <div className="flex flex-wrap items-center gap-1 w-full px-2 py-1.5 border border-gray-300 rounded-md focus-within:ring-1 focus-within:ring-blue-500">
+        {value.map((tag) => (
+          <TagBadge key={tag.id} tag={tag}>
+            <button
+              type="button"
+              onClick={() =>
+                onChange(value.filter((selected) => selected.id !== tag.id))
+              }
+              className="ml-1 hover:opacity-70"
+              title={`Remove ${tag.name}`}
+            >
+              <XMarkIcon className="w-3 h-3" />
+            </button>
+          </TagBadge>
+        ))}
+        <input
+          type="text"
+          value={query}
+          maxLength={TAG_NAME_MAX_LENGTH}
+          onChange={(e) => {
+            setQuery(e.target.value);
+            setIsOpen(true);
+          }}
+          onFocus={() => setIsOpen(true)}
+          onBlur={() => setIsOpen(false)}
+          onKeyDown={handleKeyDown}
+          placeholder={value.length === 0 ? "Add tags" : ""}
+          className="flex-grow min-w-[6rem] p-0.5 text-sm focus:outline-none"
+        />
+      </div>
+      {isOpen && (suggestions.length > 0 || canCreate) && (
+        <ul className="absolute z-10 left-0 right-0 mt-1 bg-white border rounded shadow-lg max-h-60 overflow-y-auto">
+          {suggestions.map((tag) => (
+            <li key={tag.id}>
+              <button
+                type="button"
+                // Keep focus in the input so the list stays open
+                onMouseDown={(e) => e.preventDefault()}
+                onClick={() => selectTag(tag)}
+                className="w-full text-left px-3 py-2 hover:bg-gray-100"
+              >
+                <TagBadge tag={tag} />
+              </button>
+            </li>
+          ))}
+          {canCreate && (
+            <li>
+              <button
+                type="button"
+                onMouseDown={(e) => e.preventDefault()}
+                onClick={createTag}
+                disabled={isCreating}
+                className="flex items-center w-full text-left px-3 py-2 text-sm text-gray-700 hover:bg-gray-100 disabled:opacity-50"
+              >
+                <PlusIcon className="w-4 h-4 mr-1" />
+                Create &ldquo;{name}&rdquo;
+              </button>
+            </li>
+          )}
+        </ul>
+      )}
+      <FieldError message={createError ?? error} />
+    </div>
+  );
+};
+
+export default TagPicker;
@@ -0,0 +1,207 @@
+"use client";
+import React, { useState } from "react";
+import Link from "next/link";
+import { format } from "date-fns";
+import {
+  CalendarIcon,
+  ClockIcon,
+  FlagIcon,
+  LockClosedIcon,
+} from "@heroicons/react/24/outline";
+import TagBadge from "./TagBadge";
+import { TASK_STATUSES, TaskStatus } from "../lib/taskConstants";
+import { TagSummary } from "../lib/tagValidation";
+import { WIP_LIMIT_MAX, WipLimits } from "../lib/preferencesValidation";
+import { formatEstimate } from "../lib/estimates";
+import { displayDueDate } from "../lib/planning";
+
+export interface BoardTask {
+  id: string;
+  title: string;
+  status: string;
+  priority: string | null;
+  dueDate: string | null;
+  hasDueTime: boolean;
+  estimatedTime: number | null;
+  tags: TagSummary[];
+  blockedBy?: { id: string; title: string }[];
+}
+
+const COLUMN_STYLES: Record<TaskStatus, string> = {
+  "Not Started": "border-gray-300",
+  "In Progress": "border-yellow-400",
+  Completed: "border-green-400",
+};
+
+// Kanban view of the task list with one column per status. Dropping a card on
+// another column calls onMove; the list owns the update and its rollback.
+const TaskBoard: React.FC<{
+  tasks: BoardTask[];
+  wipLimits: WipLimits;
+  onMove: (taskId: string, status: TaskStatus) => void;
+  onWipLimitChange: (status: TaskStatus, limit: number | null) => void;
+}> = ({ tasks, wipLimits, onMove, onWipLimitChange }) => {
+  const [draggingId, setDraggingId] = useState<string | null>(null);
+  const [dropTarget, setDropTarget] = useState<TaskStatus | null>(null);
+
+  const editWipLimit = (status: TaskStatus) => {
+    const input = window.prompt(
+      `Work-in-progress limit for "${status}" (leave empty for none)`,
+      wipLimits[status]?.toString() ?? ""
+    );
+    if (input === null) return;
+    if (!input.trim()) {
+      onWipLimitChange(status, null);
+      return;
+    }
+
+    const limit = Number(input);
+    if (!Number.isInteger(limit) || limit < 1 || limit > WIP_LIMIT_MAX) {
+      window.alert(`Enter a whole number between 1 and ${WIP_LIMIT_MAX}`);
+      return;
+    }
+    onWipLimitChange(status, limit);
+  };
+
+  return (
+    <div className="grid grid-cols-1 md:grid-cols-3 gap-4 items-start">
+      {TASK_STATUSES.map((status) => {
+        const columnTasks = tasks.filter((task) => task.status === status);
+        const estimate = columnTasks.reduce(
+          (total, task) => total + (task.estimatedTime ?? 0),
+          0
+        );
+        const limit = wipLimits[status];
+        const isOverLimit = limit !== undefined && columnTasks.length > limit;
+        const isAtLimit = limit !== undefined && columnTasks.length >= limit;
+
+        return (
+          <section
+            key={status}
+            onDragOver={(e) => {
+              if (!draggingId) return;
+              e.preventDefault();
+              setDropTarget(status);
+            }}
+            onDragLeave={(e) => {
+              // Ignore leaving into one of the column's own cards
+              if (!e.currentTarget.contains(e.relatedTarget as Node)) {
+                setDropTarget(null);
+              }
+            }}
+            onDrop={(e) => {
+              e.preventDefault();
+              const taskId = e.dataTransfer.getData("text/plain");
+              setDropTarget(null);
+              setDraggingId(null);
+              if (taskId) onMove(taskId, status);
+            }}
+            className={`bg-gray-50 rounded-lg border-t-4 ${
+              COLUMN_STYLES[status]
+            } p-3 min-h-[12rem] transition-colors duration-200 ${
+              dropTarget === status
+                ? isAtLimit
+                  ? "bg-red-50"
+                  : "bg-blue-50"
+                : ""
+            }`}
+          >
+            <header className="flex items-center justify-between mb-3">
+              <h2 className="font-semibold text-gray-800">
+                {status}
+                <span
+                  className={`ml-2 px-2 py-0.5 rounded-full text-xs ${
+                    isOverLimit
+                      ? "bg-red-100 text-red-700"
+                      : "bg-gray-200 text-gray-700"
+                  }`}
+                >
+                  {columnTasks.length}
+                  {limit !== undefined && ` / ${limit}`}
+                </span>
+              </h2>
+              <div className="flex items-center gap-2 text-xs text-gray-500">
+                {estimate > 0 && (
+                  <span className="flex items-center" title="Total estimate">
+                    <ClockIcon className="w-3.5 h-3.5 mr-0.5" />
+                    {formatEstimate(estimate)}
+                  </span>
+                )}
+                <button
+                  onClick={() => editWipLimit(status)}
+                  className="hover:text-gray-700 underline decoration-dotted"
+                  title="Set a work-in-progress limit"
+                >
+                  {limit !== undefined ? "WIP" : "Set WIP"}
+                </button>
+              </div>
+            </header>
+
+            <ul className="space-y-2">
+              {columnTasks.map((task) => (
+                <li
+                  key={task.id}
+                  draggable
+                  onDragStart={(e) => {
+                    e.dataTransfer.setData("text/plain", task.id);
+                    e.dataTransfer.effectAllowed = "move";
+                    setDraggingId(task.id);
+                  }}
+                  onDragEnd={() => {
+                    setDraggingId(null);
+                    setDropTarget(null);
+                  }}
+                  className={`bg-white shadow-sm rounded p-3 cursor-grab active:cursor-grabbing ${
+                    draggingId === task.id ? "opacity-50" : ""
+                  }`}
+                >
+                  <Link
+                    href={`/task/${task.id}`}
+                    className="flex items-center text-sm font-medium text-gray-900 hover:underline"
+                    draggable={false}
+                  >
+                    {task.title}
+                    {task.blockedBy && task.blockedBy.length > 0 && (
+                      <LockClosedIcon
+                        className="w-3.5 h-3.5 ml-1 text-orange-600 flex-shrink-0"
+                        title="Blocked"
+                      />
+                    )}
+                  </Link>
+                  <div className="flex flex-wrap items-center gap-x-3 gap-y-1 mt-2 text-xs text-gray-500">
+                    {task.dueDate && (
+                      <span className="flex items-center">
+                        <CalendarIcon className="w-3.5 h-3.5 mr-0.5" />
+                        {format(
+                          displayDueDate(task.dueDate, task.hasDueTime),
+                          "MMM dd"
+                        )}
+                      </span>
+                    )}
+                    {task.priority && (
+                      <span className="flex items-center">
+                        <FlagIcon className="w-3.5 h-3.5 mr-0.5" />
+                        {task.priority}
+                      </span>
+                    )}
+                    {task.estimatedTime !== null && (
+                      <span className="flex items-center">
+                        <ClockIcon className="w-3.5 h-3.5 mr-0.5" />
+                        {formatEstimate(task.estimatedTime)}
+                      </span>
+                    )}
+                    {task.tags.map((tag) => (
+                      <TagBadge key={tag.id} tag={tag} />
+                    ))}
+                  </div>
+                </li>
+              ))}
+            </ul>
+          </section>
+        );
+      })}
+    </div>
+  );
+};
+
+export default TaskBoard;
@@ -0,0 +1,303 @@
+"use client";
+import React, { useState } from "react";
+import {
+  FunnelIcon,
+  MagnifyingGlassIcon,
+  XMarkIcon,
+} from "@heroicons/react/24/outline";
+import { TASK_PRIORITIES, TASK_STATUSES } from "../lib/taskConstants";
+import { TagSummary } from "../lib/tagValidation";
+import {
+  DUE_WINDOW_PRESETS,
+  RelativeDueWindow,
+  describeDueWindow,
+} from "../lib/savedViewValidation";
+
+export interface TaskFilterState {
+  q: string;
+  status: string[];
+  priority: string[];
+  // Tag ids
+  tags: string[];
+  tagMode: "any" | "all";
+  dueFrom: string;
+  dueTo: string;
+  // Replaces dueFrom/dueTo with dates counted from today when set
+  dueWithin: RelativeDueWindow | null;
+  createdFrom: string;
+  createdTo: string;
+  updatedFrom: string;
+  updatedTo: string;
+}
+
+export const emptyFilters: TaskFilterState = {
+  q: "",
+  status: [],
+  priority: [],
+  tags: [],
+  tagMode: "any",
+  dueFrom: "",
+  dueTo: "",
+  dueWithin: null,
+  createdFrom: "",
+  createdTo: "",
+  updatedFrom: "",
+  updatedTo: "",
+};
+
+export const hasActiveFilters = (filters: TaskFilterState) =>
+  filters.q.trim() !== "" ||
+  filters.status.length > 0 ||
+  filters.priority.length > 0 ||
+  filters.tags.length > 0 ||
+  filters.dueWithin !== null ||
+  [
+    filters.dueFrom,
+    filters.dueTo,
+    filters.createdFrom,
+    filters.createdTo,
+    filters.updatedFrom,
+    filters.updatedTo,
+  ].some(Boolean);
+
+const toggleValue = (values: string[], value: string) =>
+  values.includes(value)
+    ? values.filter((item) => item !== value)
+    : [...values, value];
+
+const FilterChip: React.FC<{
+  label: string;
+  active: boolean;
+  onClick: () => void;
+}> = ({ label, active, onClick }) => (
+  <button
+    type="button"
+    onClick={onClick}
+    className={`px-3 py-1 rounded-full text-xs font-medium ${
+      active
+        ? "bg-blue-500 text-white"
+        : "bg-gray-200 text-gray-700 hover:bg-gray-300"
+    }`}
+  >
+    {label}
+  </button>
+);
+
+const DateRange: React.FC<{
+  label: string;
+  from: string;
+  to: string;
+  onChange: (from: string, to: string) => void;
+}> = ({ label, from, to, onChange }) => (
+  <div>
+    <span className="block text-xs font-medium text-gray-500 mb-1">
+      {label}
+    </span>
+    <div className="flex items-center gap-1">
+      <input
+        type="date"
+        value={from}
+        max={to || undefined}
+        onChange={(e) => onChange(e.target.value, to)}
+        className="p-1 border rounded text-xs"
+      />
+      <span className="text-gray-400 text-xs">to</span>
+      <input
+        type="date"
+        value={to}
+        min={from || undefined}
+        onChange={(e) => onChange(from, e.target.value)}
+        className="p-1 border rounded text-xs"
+      />
+    </div>
+  </div>
+);
+
+const sameWindow = (a: RelativeDueWindow, b: RelativeDueWindow) =>
+  a.fromDays === b.fromDays && a.toDays === b.toDays;
+
+// Fixed due dates, or a window relative to today such as "Next 7 days"
+const DueFilter: React.FC<{
+  filters: TaskFilterState;
+  onChange: (changes: Partial<TaskFilterState>) => void;
+}> = ({ filters, onChange }) => {
+  const { dueWithin } = filters;
+  const presetIndex = dueWithin
+    ? DUE_WINDOW_PRESETS.findIndex(({ window }) =>
+        sameWindow(window, dueWithin)
+      )
+    : -1;
+
+  return (
+    <div>
+      <DateRange
+        label="Due"
+        from={filters.dueFrom}
+        to={filters.dueTo}
+        onChange={(dueFrom, dueTo) =>
+          onChange({ dueFrom, dueTo, dueWithin: null })
+        }
+      />
+      <select
+        value={dueWithin ? String(presetIndex) : ""}
+        onChange={(e) =>
+          onChange({
+            dueFrom: "",
+            dueTo: "",
+            dueWithin:
+              e.target.value === ""
+                ? null
+                : DUE_WINDOW_PRESETS[Number(e.target.value)]?.window ??
+                  dueWithin,
+          })
+        }
+        className="mt-1 p-1 border rounded text-xs"
+        title="Due dates relative to today"
+      >
+        <option value="">Fixed dates</option>
+        {DUE_WINDOW_PRESETS.map((preset, index) => (
+          <option key={preset.label} value={index}>
+            {preset.label}
+          </option>
+        ))}
+        {dueWithin && presetIndex === -1 && (
+          <option value="-1">{describeDueWindow(dueWithin)}</option>
+        )}
+      </select>
+    </div>
+  );
+};
+
+const TaskFilters: React.FC<{
+  filters: TaskFilterState;
+  onChange: (filters: TaskFilterState) => void;
+  tags: TagSummary[];
+}> = ({ filters, onChange, tags }) => {
+  const [isOpen, setIsOpen] = useState(false);
+  const active = hasActiveFilters(filters);
+
+  const update = (changes: Partial<TaskFilterState>) =>
+    onChange({ ...filters, ...changes });
+
+  return (
+    <div className="mb-6">
+      <div className="flex items-center gap-2">
+        <div className="relative flex-grow max-w-md">
+          <MagnifyingGlassIcon className="w-4 h-4 text-gray-400 absolute left-3 top-1/2 -translate-y-1/2" />
+          <input
+            type="text"
+            value={filters.q}
+            onChange={(e) => update({ q: e.target.value })}
+            placeholder="Search tasks"
+            className="w-full pl-9 pr-3 py-1.5 border border-gray-300 rounded-full text-sm focus:outline-none focus:ring-1 focus:ring-blue-500"
+          />
+        </div>
+        <button
+          type="button"
+          onClick={() => setIsOpen(!isOpen)}
+          className={`flex items-center px-3 py-1.5 rounded-full text-sm font-medium ${
+            isOpen || active
+              ? "bg-blue-100 text-blue-700"
+              : "bg-gray-200 text-gray-700 hover:bg-gray-300"
+          }`}
+        >
+          <FunnelIcon className="w-4 h-4 mr-1" />
+          Filters
+        </button>
+        {active && (
+          <button
+            type="button"
+            onClick={() => onChange(emptyFilters)}
+            className="flex items-center text-sm text-gray-500 hover:text-gray-700"
+          >
+            <XMarkIcon className="w-4 h-4 mr-1" />
+            Clear
+          </button>
+        )}
+      </div>
+
+      {isOpen && (
+        <div className="mt-3 p-4 bg-white shadow-sm rounded-lg space-y-3">
+          <div className="flex flex-wrap items-center gap-2">
+            <span className="text-xs font-medium text-gray-500 w-16">
+              Status
+            </span>
+            {TASK_STATUSES.map((status) => (
+              <FilterChip
+                key={status}
+                label={status}
+                active={filters.status.includes(status)}
+                onClick={() =>
+                  update({ status: toggleValue(filters.status, status) })
+                }
+              />
+            ))}
+          </div>
+          <div className="flex flex-wrap items-center gap-2">
+            <span className="text-xs font-medium text-gray-500 w-16">
+              Priority
+            </span>
+            {TASK_PRIORITIES.map((priority) => (
+              <FilterChip
+                key={priority}
+                label={priority}
+                active={filters.priority.includes(priority)}
+                onClick={() =>
+                  update({ priority: toggleValue(filters.priority, priority) })
+                }
+              />
+            ))}
+          </div>
+          <div className="flex flex-wrap items-center gap-2">
+            <span className="text-xs font-medium text-gray-500 w-16">Tags</span>
+            {tags.length === 0 && (
+              <span className="text-xs text-gray-400">No tags yet</span>
+            )}
+            {tags.map((tag) => (
+              <FilterChip
+                key={tag.id}
+                label={tag.name}
+                active={filters.tags.includes(tag.id)}
+                onClick={() =>
+                  update({ tags: toggleValue(filters.tags, tag.id) })
+                }
+              />
+            ))}
+            <select
+              value={filters.tagMode}
+              onChange={(e) =>
+                update({ tagMode: e.target.value as "any" | "all" })
+              }
+              className="p-1 border rounded text-xs"
+              title="Tag matching"
+            >
+              <option value="any">Match any</option>
+              <option value="all">Match all</option>
+            </select>
+          </div>
+          <div className="flex flex-wrap gap-4">
+            <DueFilter filters={filters} onChange={update} />
+            <DateRange
+              label="Created"
+              from={filters.createdFrom}
+              to={filters.createdTo}
+              onChange={(createdFrom, createdTo) =>
+                update({ createdFrom, createdTo })
+              }
+            />
+            <DateRange
+              label="Last Modified"
+              from={filters.updatedFrom}
+              to={filters.updatedTo}
+              onChange={(updatedFrom, updatedTo) =>
+                update({ updatedFrom, updatedTo })
+              }
+            />
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default TaskFilters;
@@ -0,0 +1,276 @@
+"use client";
+import React, { useRef, useState } from "react";
+import {
+  ArrowDownTrayIcon,
+  ArrowUpTrayIcon,
+  CheckCircleIcon,
+  ExclamationCircleIcon,
+  MinusCircleIcon,
+} from "@heroicons/react/24/outline";
+import { formatEstimate } from "../lib/estimates";
+import {
+  FORMAT_LABELS,
+  ImportFormat,
+  ImportSummary,
+  TRANSFER_FORMATS,
+  importErrorReport,
+  importFormatForFile,
+} from "../lib/taskTransferFormats";
+
+const downloadFile = (filename: string, content: string, type: string) => {
+  const url = URL.createObjectURL(new Blob([content], { type }));
+  const link = document.createElement("a");
+  link.href = url;
+  link.download = filename;
+  link.click();
+  URL.revokeObjectURL(url);
+};
+
+// Settings section for downloading all tasks and importing a file. Imports
+// are previewed with a dry run first; rejected rows can be downloaded as a
+// CSV report to fix and import again.
+const TaskImportExport: React.FC<{
+  onMessage: (message: string, type: "success" | "error") => void;
+}> = ({ onMessage }) => {
+  const [file, setFile] = useState<{
+    name: string;
+    format: ImportFormat;
+    content: string;
+  } | null>(null);
+  const [summary, setSummary] = useState<ImportSummary | null>(null);
+  const [isImporting, setIsImporting] = useState(false);
+  const fileInput = useRef<HTMLInputElement>(null);
+
+  const runImport = async (
+    upload: NonNullable<typeof file>,
+    dryRun: boolean
+  ) => {
+    setIsImporting(true);
+    try {
+      const response = await fetch(
+        `/api/tasks/import${dryRun ? "?dryRun=true" : ""}`,
+        {
+          method: "POST",
+          headers: { "Content-Type": "application/json" },
+          body: JSON.stringify({
+            format: upload.format,
+            content: upload.content,
+          }),
+        }
+      );
+      const data = await response.json();
+      if (!response.ok) {
+        onMessage(data.message || "Failed to read the file", "error");
+        return;
+      }
+      setSummary(data);
+      if (!dryRun) {
+        onMessage(`Imported ${data.created} task(s)`, "success");
+      }
+    } catch (error) {
+      console.error("Error importing tasks:", error);
+      onMessage("Error importing tasks", "error");
+    } finally {
+      setIsImporting(false);
+    }
+  };
+
+  const handleFileChange = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const selected = e.target.files?.[0];
+    if (!selected) return;
+    const upload = {
+      name: selected.name,
+      format: importFormatForFile(selected.name),
+      content: await selected.text(),
+    };
+    setFile(upload);
+    setSummary(null);
+    runImport(upload, true);
+  };
+
+  const reset = () => {
+    setFile(null);
+    setSummary(null);
+    if (fileInput.current) fileInput.current.value = "";
+  };
+
+  const rejected =
+    summary?.rows.filter((row) => row.task === null && !row.duplicate) ?? [];
+  const skipped = summary?.rows.filter((row) => row.duplicate).length ?? 0;
+  const accepted = (summary?.rows.length ?? 0) - rejected.length - skipped;
+  const isDone = summary !== null && summary.created > 0;
+
+  return (
+    <div className="bg-white shadow-md rounded-lg p-6 mt-8">
+      <h2 className="text-xl font-semibold mb-4 text-gray-800">
+        Import &amp; Export
+      </h2>
+
+      <div className="mb-6">
+        <h3 className="text-sm font-medium text-gray-700 mb-2">Export</h3>
+        <div className="flex gap-2">
+          {TRANSFER_FORMATS.map((format) => (
+            <a
+              key={format}
+              href={`/api/tasks/export?format=${format}`}
+              download
+              className="flex items-center px-3 py-2 rounded-md text-sm text-gray-700 bg-gray-200 hover:bg-gray-300"
+            >
+              <ArrowDownTrayIcon className="w-4 h-4 mr-1" />
+              {FORMAT_LABELS[format]}
+            </a>
+          ))}
+        </div>
+        <p className="mt-1 text-xs text-gray-500">
+          Exports all your tasks. To export some of them, filter the task list
+          and use its export links.
+        </p>
+      </div>
+
+      <div>
+        <h3 className="text-sm font-medium text-gray-700 mb-2">Import</h3>
+        <label className="inline-flex items-center px-3 py-2 rounded-md text-sm text-gray-700 bg-gray-200 hover:bg-gray-300 cursor-pointer">
+          <ArrowUpTrayIcon className="w-4 h-4 mr-1" />
+          Choose a file
+          <input
+            ref={fileInput}
+            type="file"
+            accept=".csv,.json,.txt,.md,.ics,text/csv,application/json,text/plain,text/markdown,text/calendar"
+            onChange={handleFileChange}
+            className="sr-only"
+          />
+        </label>
+        <p className="mt-1 text-xs text-gray-500">
+          CSV and JSON files need a title column and can have description,
+          dueDate, priority, status, tags (separated by ;) and estimatedTime.
+          todo.txt (.txt) and Markdown checklists (.md) are read like the
+          exports above, which can be imported as is. Events and to-dos in an
+          .ics file are imported too; importing the same file again skips the
+          ones already imported.
+        </p>
+
+        {file && summary && (
+          <div className="mt-4">
+            <p className="text-sm text-gray-700 mb-2">
+              <span className="font-medium">{file.name}</span>:{" "}
+              {isDone
+                ? `${summary.created} task(s) imported`
+                : `${accepted} task(s) ready to import`}
+              {skipped > 0 && `, ${skipped} already imported`}
+              {rejected.length > 0 && `, ${rejected.length} row(s) rejected`}
+            </p>
+            {summary.ignoredColumns.length > 0 && (
+              <p className="text-xs text-gray-500 mb-2">
+                Ignored columns: {summary.ignoredColumns.join(", ")}
+              </p>
+            )}
+            <div className="max-h-80 overflow-y-auto border border-gray-200 rounded">
+              <table className="w-full text-sm">
+                <thead className="bg-gray-50 text-xs text-gray-500 text-left sticky top-0">
+                  <tr>
+                    <th className="px-3 py-2">Row</th>
+                    <th className="px-3 py-2">Task</th>
+                    <th className="px-3 py-2">Details</th>
+                  </tr>
+                </thead>
+                <tbody className="divide-y divide-gray-100">
+                  {summary.rows.map((row) => (
+                    <tr key={row.row}>
+                      <td className="px-3 py-2 text-gray-500 align-top">
+                        {row.row}
+                      </td>
+                      <td className="px-3 py-2 align-top">
+                        <span className="flex items-center gap-1">
+                          {row.task ? (
+                            <CheckCircleIcon className="w-4 h-4 text-green-500 flex-shrink-0" />
+                          ) : row.duplicate ? (
+                            <MinusCircleIcon className="w-4 h-4 text-gray-400 flex-shrink-0" />
+                          ) : (
+                            <ExclamationCircleIcon className="w-4 h-4 text-red-500 flex-shrink-0" />
+                          )}
+                          {row.title || (
+                            <span className="text-gray-400">No title</span>
+                          )}
+                        </span>
+                      </td>
+                      <td className="px-3 py-2 text-xs align-top">
+                        {row.task ? (
+                          <span className="text-gray-600">
+                            {[
+                              row.task.status,
+                              row.task.priority,
+                              row.task.dueDate &&
+                                `due ${row.task.dueDate.slice(0, 10)}`,
+                              row.task.estimatedTime !== null &&
+                                formatEstimate(row.task.estimatedTime),
+                              ...row.task.tags.map((tag) =>
+                                row.task?.newTags.includes(tag)
+                                  ? `#${tag} (new)`
+                                  : `#${tag}`
+                              ),
+                            ]
+                              .filter(Boolean)
+                              .join(" · ")}
+                            {row.warnings.map((warning) => (
+                              <span
+                                key={warning}
+                                className="block text-yellow-700"
+                              >
+                                {warning}
+                              </span>
+                            ))}
+                          </span>
+                        ) : row.duplicate ? (
+                          <span className="text-gray-500">
+                            Already imported; skipped
+                          </span>
+                        ) : (
+                          <span className="text-red-600">
+                            {row.errors.join("; ")}
+                          </span>
+                        )}
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+            <div className="flex flex-wrap gap-2 mt-4">
+              {!isDone && (
+                <button
+                  onClick={() => runImport(file, false)}
+                  disabled={isImporting || accepted === 0}
+                  className="px-4 py-2 rounded-md text-sm font-medium text-white bg-black hover:bg-gray-700 disabled:opacity-50"
+                >
+                  {isImporting ? "Importing..." : `Import ${accepted} task(s)`}
+                </button>
+              )}
+              {rejected.length > 0 && (
+                <button
+                  onClick={() =>
+                    downloadFile(
+                      "import-errors.csv",
+                      importErrorReport(rejected),
+                      "text/csv"
+                    )
+                  }
+                  className="px-4 py-2 rounded-md text-sm font-medium text-gray-700 bg-gray-200 hover:bg-gray-300"
+                >
+                  Download error report
+                </button>
+              )}
+              <button
+                onClick={reset}
+                className="px-4 py-2 rounded-md text-sm font-medium text-gray-700 bg-gray-200 hover:bg-gray-300"
+              >
+                {isDone ? "Done" : "Cancel"}
+              </button>
+            </div>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default TaskImportExport;
@@ -1,5 +1,5 @@
 "use client";
-import React, { useState, useEffect } from "react";
+import React, { useState, useEffect, useRef, useCallback } from "react";
 import { PulseLoader } from "react-spinners";
 import { format } from "date-fns";
 import {
@@ -9,29 +9,87 @@ import {
   TrashIcon,
   XMarkIcon,
   PencilIcon,
+  PencilSquareIcon,
   ClipboardDocumentListIcon,
   CheckIcon,
   CheckCircleIcon,
   ClipboardDocumentIcon,
+  BarsArrowDownIcon,
+  BarsArrowUpIcon,
+  ListBulletIcon,
+  ArrowPathRoundedSquareIcon,
+  LockClosedIcon,
+  QueueListIcon,
+  Squares2X2Icon,
+  ViewColumnsIcon,
+  BookmarkIcon,
+  ArrowDownTrayIcon,
 } from "@heroicons/react/24/outline";
 import Link from "next/link";
+import { useRouter } from "next/navigation";
+import BulkEditPanel, { BulkUpdate } from "./BulkEditPanel";
+import TagBadge from "./TagBadge";
+import TaskBoard from "./TaskBoard";
+import useKeyBindings from "./useKeyBindings";
+import TaskFilters, {
+  TaskFilterState,
+  emptyFilters,
+  hasActiveFilters,
+} from "./TaskFilters";
+import {
+  DEFAULT_SORT_ORDER,
+  SortOrder,
+  TaskSortKey,
+  TaskStatus,
+} from "../lib/taskConstants";
+import { TagSummary } from "../lib/tagValidation";
+import { displayDueDate } from "../lib/planning";
+import { ProjectSummary } from "../lib/projectValidation";
+import { WipLimits } from "../lib/preferencesValidation";
+import {
+  SavedViewInput,
+  SavedViewSummary,
+  ViewMode,
+  appendFilterParams,
+  notifySavedViewsChanged,
+} from "../lib/savedViewValidation";
+import {
+  TASK_LIST_COMMAND_EVENT,
+  TaskListCommand,
+  eventToKey,
+  isTypingTarget,
+} from "../lib/shortcuts";
+import {
+  FORMAT_LABELS,
+  TRANSFER_FORMATS,
+  TransferFormat,
+} from "../lib/taskTransferFormats";
 
 interface Task {
   id: string;
   title: string;
   dueDate: string | null;
+  hasDueTime: boolean;
   priority: "Low" | "Medium" | "High" | null;
   createdAt: string;
   updatedAt: string;
   description: string | null;
   completed: boolean;
   status: string;
-  tags: any[]; // Replace 'any' with your TaskTag type if available
+  tags: TagSummary[];
   estimatedTime: number | null;
+  checklist?: { total: number; completed: number };
+  recurrence?: unknown;
+  blockedBy?: { id: string; title: string }[];
 }
 
 interface TasksComponentProps {
   initialTasks: Task[];
+  initialNextCursor?: string | null;
+  // Scopes the list to one project
+  project?: ProjectSummary | null;
+  // Opens the list with a saved view's filters, sort and view mode
+  savedView?: SavedViewSummary | null;
 }
 
 interface Toast {
@@ -39,13 +97,19 @@ interface Toast {
   type: "success" | "error";
 }
 
-type SortOption =
-  | "dueDate"
-  | "priority"
-  | "createdAt"
-  | "updatedAt"
-  | "title"
-  | "status";
+type SortOption = TaskSortKey;
+
+const VIEW_MODES: { mode: ViewMode; label: string; icon: React.ReactNode }[] = [
+  { mode: "list", label: "List", icon: <QueueListIcon className="w-5 h-5" /> },
+  { mode: "grid", label: "Grid", icon: <Squares2X2Icon className="w-5 h-5" /> },
+  {
+    mode: "board",
+    label: "Board",
+    icon: <ViewColumnsIcon className="w-5 h-5" />,
+  },
+];
+
+const PAGE_SIZE = 30;
 
 // Helper function for status styling
 const getStatusStyle = (status: string) => {
@@ -81,71 +145,202 @@ const SortChip: React.FC<{
   </button>
 );
 
-const TasksComponent: React.FC<TasksComponentProps> = ({ initialTasks }) => {
+const TasksComponent: React.FC<TasksComponentProps> = ({
+  initialTasks,
+  initialNextCursor = null,
+  project = null,
+  savedView = null,
+}) => {
+  const initialFilters = savedView
+    ? { ...emptyFilters, ...savedView.filters }
+    : emptyFilters;
   const [tasks, setTasks] = useState<Task[]>(initialTasks);
   const [loading, setLoading] = useState(true);
-  const [viewMode, setViewMode] = useState<"grid" | "list">("list");
+  const [hasLoaded, setHasLoaded] = useState(false);
+  const [loadingMore, setLoadingMore] = useState(false);
+  const [nextCursor, setNextCursor] = useState<string | null>(
+    initialNextCursor
+  );
+  const [viewMode, setViewMode] = useState<ViewMode>(
+    savedView?.viewMode ?? "list"
+  );
+  const [wipLimits, setWipLimits] = useState<WipLimits>({});
+  const [draggingId, setDraggingId] = useState<string | null>(null);
+  const [dragOverId, setDragOverId] = useState<string | null>(null);
   const [selectedTasks, setSelectedTasks] = useState<string[]>([]);
   const [isDeleteModalOpen, setIsDeleteModalOpen] = useState(false);
   const [tasksToDelete, setTasksToDelete] = useState<string[]>([]);
+  const [isBulkEditOpen, setIsBulkEditOpen] = useState(false);
   const [toast, setToast] = useState<Toast | null>(null);
-  const [currentSort, setCurrentSort] = useState<SortOption | null>(null);
-  const [originalOrder, setOriginalOrder] = useState<Task[]>([]);
+  const [currentSort, setCurrentSort] = useState<SortOption | null>(
+    savedView?.sort ?? null
+  );
+  const [sortOrder, setSortOrder] = useState<SortOrder>(
+    savedView?.order ?? "desc"
+  );
+  const [filters, setFilters] = useState<TaskFilterState>(initialFilters);
+  const [appliedFilters, setAppliedFilters] =
+    useState<TaskFilterState>(initialFilters);
+  const [tags, setTags] = useState<TagSummary[]>([]);
+  // The task j/k move through and the other shortcuts act on
+  const [activeTaskId, setActiveTaskId] = useState<string | null>(null);
+  const bindings = useKeyBindings();
+  const projectId = project?.id;
+  const newTaskHref = projectId ? `/new?project=${projectId}` : "/new";
+  const requestId = useRef(0);
+  const loadMoreRef = useRef<HTMLDivElement>(null);
+  const router = useRouter();
 
   useEffect(() => {
-    fetchTasks();
+    const fetchTags = async () => {
+      try {
+        const response = await fetch("/api/tags");
+        if (response.ok) {
+          setTags(await response.json());
+        } else {
+          console.error("Failed to fetch tags");
+        }
+      } catch (error) {
+        console.error("Error fetching tags:", error);
+      }
+    };
+
+    fetchTags();
   }, []);
 
+  // Debounce filter changes so typing a query doesn't fire a request per key
   useEffect(() => {
-    if (currentSort) {
-      sortTasks(currentSort);
-    } else {
-      setTasks([...originalOrder]);
-    }
-  }, [currentSort, originalOrder]);
+    const timer = setTimeout(() => setAppliedFilters(filters), 300);
+    return () => clearTimeout(timer);
+  }, [filters]);
 
-  useEffect(() => {
-    if (toast) {
-      const timer = setTimeout(() => setToast(null), 3000);
-      return () => clearTimeout(timer);
-    }
-  }, [toast]);
+  const buildQuery = useCallback(
+    (cursor?: string) => {
+      const params = appendFilterParams(new URLSearchParams(), appliedFilters);
+      if (projectId) params.set("project", projectId);
+      if (currentSort) {
+        params.set("sort", currentSort);
+        params.set("order", sortOrder);
+      }
+      params.set("limit", String(PAGE_SIZE));
+      if (cursor) params.set("cursor", cursor);
+      return params.toString();
+    },
+    [appliedFilters, currentSort, sortOrder, projectId]
+  );
 
-  const shuffleArray = (array: Task[]) => {
-    return array
-      .map((task) => ({ ...task, sortKey: Math.random() }))
-      .sort((a, b) => a.sortKey - b.sortKey)
-      .map(({ sortKey, ...task }) => task);
+  // Downloads the tasks the current filters match, not just the loaded page
+  const exportHref = (format: TransferFormat) => {
+    const params = appendFilterParams(new URLSearchParams(), appliedFilters);
+    if (projectId) params.set("project", projectId);
+    params.set("format", format);
+    return `/api/tasks/export?${params.toString()}`;
   };
 
-  const fetchTasks = async () => {
+  const fetchTasks = useCallback(async () => {
+    const id = ++requestId.current;
     try {
       setLoading(true);
-      const response = await fetch("/api/tasks");
+      const response = await fetch(`/api/tasks?${buildQuery()}`);
       if (!response.ok) {
         throw new Error("Failed to fetch tasks");
       }
       const data = await response.json();
-      // Shuffle tasks before setting them in state
-      const shuffledTasks = shuffleArray(data);
-      setTasks(shuffledTasks);
-      setOriginalOrder(shuffledTasks);
+      // Ignore responses for filters that have since changed
+      if (id !== requestId.current) return;
+      setTasks(data.tasks);
+      setNextCursor(data.nextCursor);
     } catch (error) {
       console.error("Error fetching tasks:", error);
-      showToast("Failed to fetch tasks", "error");
+      setToast({ message: "Failed to fetch tasks", type: "error" });
     } finally {
-      setLoading(false);
+      if (id === requestId.current) {
+        setLoading(false);
+        setHasLoaded(true);
+      }
     }
-  };
+  }, [buildQuery]);
+
+  const fetchMoreTasks = useCallback(async () => {
+    if (!nextCursor || loadingMore) return;
+    const id = requestId.current;
+    try {
+      setLoadingMore(true);
+      const response = await fetch(`/api/tasks?${buildQuery(nextCursor)}`);
+      if (!response.ok) {
+        throw new Error("Failed to fetch more tasks");
+      }
+      const data = await response.json();
+      if (id !== requestId.current) return;
+      setTasks((prevTasks) => [...prevTasks, ...data.tasks]);
+      setNextCursor(data.nextCursor);
+    } catch (error) {
+      console.error("Error fetching more tasks:", error);
+      setToast({ message: "Failed to load more tasks", type: "error" });
+    } finally {
+      setLoadingMore(false);
+    }
+  }, [buildQuery, nextCursor, loadingMore]);
+
+  useEffect(() => {
+    fetchTasks();
+  }, [fetchTasks]);
+
+  // Load the next page when the end of the list scrolls into view
+  useEffect(() => {
+    const sentinel = loadMoreRef.current;
+    if (!sentinel || !nextCursor) return;
+
+    const observer = new IntersectionObserver(
+      (entries) => {
+        if (entries[0].isIntersecting) {
+          fetchMoreTasks();
+        }
+      },
+      { rootMargin: "200px" }
+    );
+    observer.observe(sentinel);
+    return () => observer.disconnect();
+  }, [fetchMoreTasks, nextCursor]);
+
+  useEffect(() => {
+    if (toast) {
+      const timer = setTimeout(() => setToast(null), 3000);
+      return () => clearTimeout(timer);
+    }
+  }, [toast]);
 
   const isValidDate = (dateString: string) => {
     const date = new Date(dateString);
     return !isNaN(date.getTime());
   };
 
-  const toggleViewMode = () => {
-    setViewMode(viewMode === "grid" ? "list" : "grid");
-  };
+  // The board shows per-column counts, so it needs every page loaded
+  useEffect(() => {
+    if (viewMode === "board" && nextCursor && !loading && !loadingMore) {
+      fetchMoreTasks();
+    }
+  }, [viewMode, nextCursor, loading, loadingMore, fetchMoreTasks]);
+
+  useEffect(() => {
+    if (viewMode !== "board") return;
+
+    const fetchWipLimits = async () => {
+      try {
+        const response = await fetch("/api/user/preferences");
+        if (response.ok) {
+          const data = await response.json();
+          setWipLimits(data.boardWipLimits);
+        } else {
+          console.error("Failed to fetch preferences");
+        }
+      } catch (error) {
+        console.error("Error fetching preferences:", error);
+      }
+    };
+
+    fetchWipLimits();
+  }, [viewMode]);
 
   const toggleTaskSelection = (taskId: string) => {
     setSelectedTasks((prevSelected) =>
@@ -161,12 +356,123 @@ const TasksComponent: React.FC<TasksComponentProps> = ({ initialTasks }) => {
 
   const cancelSelection = () => {
     setSelectedTasks([]);
+    setIsBulkEditOpen(false);
   };
 
   const showToast = (message: string, type: "success" | "error") => {
     setToast({ message, type });
   };
 
+  const moveTask = async (taskId: string, status: TaskStatus) => {
+    const task = tasks.find((item) => item.id === taskId);
+    if (!task || task.status === status) return;
+
+    const limit = wipLimits[status];
+    const columnCount = tasks.filter((item) => item.status === status).length;
+    if (limit !== undefined && columnCount >= limit) {
+      showToast(`"${status}" is at its limit of ${limit} task(s)`, "error");
+      return;
+    }
+
+    const setStatus = (value: string) =>
+      setTasks((prevTasks) =>
+        prevTasks.map((item) =>
+          item.id === taskId
+            ? { ...item, status: value, completed: value === "Completed" }
+            : item
+        )
+      );
+
+    // Move the card right away and put it back if the update fails
+    setStatus(status);
+    try {
+      const response = await fetch(`/api/tasks/${taskId}`, {
+        method: "PUT",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ status }),
+      });
+      if (!response.ok) {
+        const errorData = await response.json();
+        setStatus(task.status);
+        showToast(errorData.error || "Failed to update task", "error");
+        return;
+      }
+      const data = await response.json();
+      // Completing a recurring task adds its next occurrence to the list
+      if (data.nextOccurrence) {
+        fetchTasks();
+      }
+    } catch (error) {
+      console.error("Error updating task:", error);
+      setStatus(task.status);
+      showToast("Failed to update task", "error");
+    }
+  };
+
+  // Moves a task to where another one is in the manual order. The server only
+  // needs the task it now follows; it works out a position between the two.
+  const reorderTask = async (taskId: string, targetId: string) => {
+    const from = tasks.findIndex((task) => task.id === taskId);
+    const to = tasks.findIndex((task) => task.id === targetId);
+    if (from === -1 || to === -1 || from === to) return;
+
+    const previousTasks = tasks;
+    const reordered = [...tasks];
+    const [moved] = reordered.splice(from, 1);
+    reordered.splice(to, 0, moved);
+    setTasks(reordered);
+
+    try {
+      const response = await fetch(`/api/tasks/${taskId}/position`, {
+        method: "PUT",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ afterId: reordered[to - 1]?.id ?? null }),
+      });
+      if (!response.ok) {
+        const errorData = await response.json();
+        setTasks(previousTasks);
+        showToast(errorData.error || "Failed to move task", "error");
+      }
+    } catch (error) {
+      console.error("Error moving task:", error);
+      setTasks(previousTasks);
+      showToast("Failed to move task", "error");
+    }
+  };
+
+  const endDrag = () => {
+    setDraggingId(null);
+    setDragOverId(null);
+  };
+
+  const updateWipLimit = async (status: TaskStatus, limit: number | null) => {
+    const previousLimits = wipLimits;
+    const nextLimits = { ...wipLimits };
+    if (limit === null) {
+      delete nextLimits[status];
+    } else {
+      nextLimits[status] = limit;
+    }
+
+    setWipLimits(nextLimits);
+    try {
+      const response = await fetch("/api/user/preferences", {
+        method: "PATCH",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ boardWipLimits: nextLimits }),
+      });
+      if (!response.ok) {
+        const errorData = await response.json();
+        setWipLimits(previousLimits);
+        showToast(errorData.error || "Failed to save limit", "error");
+      }
+    } catch (error) {
+      console.error("Error saving limit:", error);
+      setWipLimits(previousLimits);
+      showToast("Failed to save limit", "error");
+    }
+  };
+
   const openDeleteModal = () => {
     setTasksToDelete(selectedTasks);
     setIsDeleteModalOpen(true);
@@ -177,30 +483,43 @@ const TasksComponent: React.FC<TasksComponentProps> = ({ initialTasks }) => {
     setTasksToDelete([]);
   };
 
+  const runBulkOperation = async (
+    ids: string[],
+    operation: { type: "delete" } | ({ type: "update" } & BulkUpdate)
+  ) => {
+    const response = await fetch("/api/tasks/bulk", {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify({ ids, operation }),
+    });
+    if (!response.ok) {
+      const errorData = await response.json();
+      throw new Error(errorData.message || "Bulk operation failed");
+    }
+    const data: { results: { id: string; result: string; error?: string }[] } =
+      await response.json();
+    return data.results;
+  };
+
   const deleteSelectedTasks = async () => {
-    let successCount = 0;
-    let errorCount = 0;
+    try {
+      const results = await runBulkOperation(tasksToDelete, {
+        type: "delete",
+      });
+      const successCount = results.filter(
+        (item) => item.result === "deleted"
+      ).length;
+      const errorCount = results.length - successCount;
 
-    for (const taskId of tasksToDelete) {
-      try {
-        const response = await fetch(`/api/tasks/${taskId}`, {
-          method: "DELETE",
-        });
-        if (!response.ok) {
-          throw new Error(`Failed to delete task ${taskId}`);
-        }
-        successCount++;
-      } catch (error) {
-        console.error(`Error deleting task ${taskId}:`, error);
-        errorCount++;
+      if (successCount > 0) {
+        showToast(`Moved ${successCount} task(s) to the trash`, "success");
       }
-    }
-
-    if (successCount > 0) {
-      showToast(`Successfully deleted ${successCount} task(s)`, "success");
-    }
-    if (errorCount > 0) {
-      showToast(`Failed to delete ${errorCount} task(s)`, "error");
+      if (errorCount > 0) {
+        showToast(`Failed to delete ${errorCount} task(s)`, "error");
+      }
+    } catch (error) {
+      console.error("Error deleting tasks:", error);
+      showToast(`Failed to delete ${tasksToDelete.length} task(s)`, "error");
     }
 
     fetchTasks();
@@ -208,55 +527,131 @@ const TasksComponent: React.FC<TasksComponentProps> = ({ initialTasks }) => {
     closeDeleteModal();
   };
 
-  const sortTasks = (option: SortOption) => {
-    const sortedTasks = [...tasks].sort((a, b) => {
-      switch (option) {
-        case "dueDate":
-          if (!a.dueDate && !b.dueDate) return 0;
-          if (!a.dueDate) return 1;
-          if (!b.dueDate) return -1;
-          // Sort from newest to oldest due date (descending order)
-          return new Date(b.dueDate).getTime() - new Date(a.dueDate).getTime();
-        case "priority":
-          const priorityOrder = { High: 3, Medium: 2, Low: 1, null: 0 };
-          return (
-            (priorityOrder[b.priority as keyof typeof priorityOrder] || 0) -
-            (priorityOrder[a.priority as keyof typeof priorityOrder] || 0)
-          );
-        case "createdAt":
-          return (
-            new Date(b.createdAt).getTime() - new Date(a.createdAt).getTime()
-          );
-        case "updatedAt":
-          return (
-            new Date(b.updatedAt).getTime() - new Date(a.updatedAt).getTime()
-          );
-        case "status":
-          const statusOrder = {
-            Completed: 3,
-            "In Progress": 2,
-            "Not Started": 1,
-          };
-          return (
-            (statusOrder[b.status as keyof typeof statusOrder] || 0) -
-            (statusOrder[a.status as keyof typeof statusOrder] || 0)
-          );
-        case "title":
-          return a.title.localeCompare(b.title);
-        default:
-          return 0;
+  const applyBulkEdit = async (update: BulkUpdate) => {
+    try {
+      const results = await runBulkOperation(selectedTasks, {
+        type: "update",
+        ...update,
+      });
+      const updatedCount = results.filter(
+        (item) => item.result === "updated"
+      ).length;
+      const invalid = results.filter((item) => item.result === "invalid");
+      // Such as a due date shifted into an earlier month
+      if (invalid.length > 0) {
+        showToast(
+          `Updated ${updatedCount} task(s); left ${invalid.length} unchanged: ${invalid[0].error}`,
+          "error"
+        );
+      } else {
+        showToast(`Updated ${updatedCount} task(s)`, "success");
       }
-    });
-    setTasks(sortedTasks);
+      setIsBulkEditOpen(false);
+      setSelectedTasks([]);
+      fetchTasks();
+    } catch (error) {
+      console.error("Error updating tasks:", error);
+      showToast(
+        error instanceof Error ? error.message : "Failed to update tasks",
+        "error"
+      );
+    }
+  };
+
+  // The list's current setup, in the shape saved views store it
+  const currentViewSettings = (): Omit<SavedViewInput, "name"> => ({
+    filters: {
+      q: filters.q,
+      status: filters.status,
+      priority: filters.priority,
+      tags: filters.tags,
+      tagMode: filters.tagMode,
+      dueFrom: filters.dueFrom,
+      dueTo: filters.dueTo,
+      dueWithin: filters.dueWithin,
+    },
+    sort: currentSort,
+    order: sortOrder,
+    viewMode,
+  });
+
+  const saveView = async () => {
+    const name = window.prompt("Name this view")?.trim();
+    if (!name) return;
+
+    try {
+      const response = await fetch("/api/views", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ name, ...currentViewSettings() }),
+      });
+      if (response.ok) {
+        const view = await response.json();
+        notifySavedViewsChanged();
+        router.push(`/tasks?view=${view.id}`);
+      } else {
+        const errorData = await response.json();
+        showToast(errorData.error || "Failed to save view", "error");
+      }
+    } catch (error) {
+      console.error("Error saving view:", error);
+      showToast("Failed to save view", "error");
+    }
+  };
+
+  const updateView = async () => {
+    if (!savedView) return;
+
+    try {
+      const response = await fetch(`/api/views/${savedView.id}`, {
+        method: "PATCH",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify(currentViewSettings()),
+      });
+      if (response.ok) {
+        showToast(`Updated "${savedView.name}"`, "success");
+      } else {
+        const errorData = await response.json();
+        showToast(errorData.error || "Failed to update view", "error");
+      }
+    } catch (error) {
+      console.error("Error updating view:", error);
+      showToast("Failed to update view", "error");
+    }
+  };
+
+  const deleteView = async () => {
+    if (
+      !savedView ||
+      !window.confirm(`Delete the view "${savedView.name}"? Tasks are kept.`)
+    ) {
+      return;
+    }
+
+    try {
+      const response = await fetch(`/api/views/${savedView.id}`, {
+        method: "DELETE",
+      });
+      if (response.ok) {
+        notifySavedViewsChanged();
+        router.push("/tasks");
+      } else {
+        const errorData = await response.json();
+        showToast(errorData.error || "Failed to delete view", "error");
+      }
+    } catch (error) {
+      console.error("Error deleting view:", error);
+      showToast("Failed to delete view", "error");
+    }
   };
 
   const handleSortClick = (option: SortOption) => {
     if (currentSort === option) {
-      // When unselecting a sort option, restore original order
+      // When unselecting a sort option, restore the default order
       setCurrentSort(null);
     } else {
       setCurrentSort(option);
-      sortTasks(option);
+      setSortOrder(DEFAULT_SORT_ORDER[option]);
     }
   };
 
@@ -265,7 +660,85 @@ const TasksComponent: React.FC<TasksComponentProps> = ({ initialTasks }) => {
     setIsDeleteModalOpen(true);
   };
 
-  if (loading) {
+  const moveActiveTask = (step: 1 | -1) => {
+    if (tasks.length === 0) return;
+    const index = tasks.findIndex((task) => task.id === activeTaskId);
+    const nextIndex =
+      index === -1 ? 0 : Math.min(Math.max(index + step, 0), tasks.length - 1);
+    const taskId = tasks[nextIndex].id;
+    setActiveTaskId(taskId);
+    document
+      .getElementById(`task-card-${taskId}`)
+      ?.scrollIntoView({ block: "nearest" });
+  };
+
+  // Single-key shortcuts for the list and grid; the board is mouse-driven.
+  // Re-registered each render so the handler sees the current list.
+  useEffect(() => {
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (
+        viewMode === "board" ||
+        isDeleteModalOpen ||
+        e.defaultPrevented ||
+        isTypingTarget(e.target)
+      ) {
+        return;
+      }
+      const key = eventToKey(e);
+      const activeTask = tasks.find((task) => task.id === activeTaskId);
+
+      if (key === bindings.nextTask) {
+        moveActiveTask(1);
+      } else if (key === bindings.previousTask) {
+        moveActiveTask(-1);
+      } else if (activeTask && key === bindings.toggleSelect) {
+        toggleTaskSelection(activeTask.id);
+      } else if (activeTask && key === bindings.editTask) {
+        router.push(`/task/${activeTask.id}?edit=1`);
+      } else if (activeTask && key === bindings.completeTask) {
+        moveTask(activeTask.id, "Completed");
+      } else if (activeTask && key === bindings.deleteTask) {
+        handleDeleteTask(activeTask.id);
+      } else {
+        return;
+      }
+      e.preventDefault();
+    };
+
+    window.addEventListener("keydown", handleKeyDown);
+    return () => window.removeEventListener("keydown", handleKeyDown);
+  });
+
+  // Commands from the palette
+  useEffect(() => {
+    const handleCommand = (event: Event) => {
+      const command = (event as CustomEvent<TaskListCommand>).detail;
+      if (command.type === "viewMode") {
+        setViewMode(command.mode);
+      } else if (command.type === "sort") {
+        setCurrentSort(command.sort);
+        if (command.sort) setSortOrder(DEFAULT_SORT_ORDER[command.sort]);
+      } else if (command.action === "selectAll") {
+        selectAllTasks();
+      } else if (command.action === "clear") {
+        cancelSelection();
+      } else if (selectedTasks.length === 0) {
+        showToast("Select some tasks first", "error");
+      } else if (command.action === "complete") {
+        applyBulkEdit({ status: "Completed" });
+      } else if (command.action === "edit") {
+        setIsBulkEditOpen(true);
+      } else {
+        openDeleteModal();
+      }
+    };
+
+    window.addEventListener(TASK_LIST_COMMAND_EVENT, handleCommand);
+    return () =>
+      window.removeEventListener(TASK_LIST_COMMAND_EVENT, handleCommand);
+  });
+
+  if (loading && !hasLoaded) {
     return (
       <div className="flex items-center justify-center h-64">
         <div className="text-gray-600 text-lg flex items-center gap-3">
@@ -278,13 +751,54 @@ const TasksComponent: React.FC<TasksComponentProps> = ({ initialTasks }) => {
 
   return (
     <div className="container mx-auto px-4 py-2">
-      {tasks.length > 0 ? (
+      {tasks.length > 0 || hasActiveFilters(filters) ? (
         <>
           <div className="flex flex-col sm:flex-row justify-between items-start sm:items-center mb-6 space-y-4 sm:space-y-0">
-            <h1 className="text-2xl sm:text-3xl font-bold">All Tasks</h1>
+            <h1 className="text-2xl sm:text-3xl font-bold">
+              {savedView?.name ?? project?.name ?? "All Tasks"}
+            </h1>
             <div className="flex items-center space-x-2">
+              {savedView && (
+                <>
+                  <button
+                    onClick={updateView}
+                    className="px-3 py-1.5 text-sm bg-gray-200 text-gray-700 rounded-full hover:bg-gray-300"
+                    title="Save the current filters, sort and view to this view"
+                  >
+                    Update view
+                  </button>
+                  <button
+                    onClick={deleteView}
+                    className="p-2 text-gray-400 hover:text-red-500"
+                    title="Delete view"
+                  >
+                    <TrashIcon className="w-5 h-5" />
+                  </button>
+                </>
+              )}
+              <button
+                onClick={saveView}
+                className="p-2 bg-gray-100 text-gray-500 rounded-full hover:bg-gray-200 hover:text-gray-700"
+                title="Save as a new view"
+              >
+                <BookmarkIcon className="w-5 h-5" />
+              </button>
+              <div className="flex items-center p-1 bg-gray-100 rounded-full text-xs text-gray-500">
+                <ArrowDownTrayIcon className="w-4 h-4 mx-1" />
+                {TRANSFER_FORMATS.map((format) => (
+                  <a
+                    key={format}
+                    href={exportHref(format)}
+                    download
+                    className="px-2 py-1 rounded-full hover:bg-white hover:text-gray-800"
+                    title={`Export these tasks as ${FORMAT_LABELS[format]}`}
+                  >
+                    {FORMAT_LABELS[format]}
+                  </a>
+                ))}
+              </div>
               <Link
-                href="/new"
+                href={newTaskHref}
                 className="group flex items-center px-4 py-2 bg-gray-50 text-gray-600 text-sm font-medium rounded-full hover:bg-gray-100 transition-all duration-200 shadow-sm hover:shadow-md ring-2 ring-gray-200 hover:ring-gray-300"
               >
                 <svg
@@ -303,45 +817,22 @@ const TasksComponent: React.FC<TasksComponentProps> = ({ initialTasks }) => {
                 </svg>
                 <span className="group-hover:text-gray-800">New Task</span>
               </Link>{" "}
-              <button
-                onClick={toggleViewMode}
-                className="p-2 bg-gray-100 rounded-full hover:bg-gray-200 transition-colors duration-200"
-                title={`Switch to ${
-                  viewMode === "grid" ? "list" : "grid"
-                } view`}
-              >
-                {viewMode === "grid" ? (
-                  <svg
-                    className="w-6 h-6 text-gray-500"
-                    fill="none"
-                    stroke="currentColor"
-                    viewBox="0 0 24 24"
-                    xmlns="http://www.w3.org/2000/svg"
-                  >
-                    <path
-                      strokeLinecap="round"
-                      strokeLinejoin="round"
-                      strokeWidth={2}
-                      d="M4 6h16M4 10h16M4 14h16M4 18h16"
-                    />
-                  </svg>
-                ) : (
-                  <svg
-                    className="w-6 h-6 text-gray-500"
-                    fill="none"
-                    stroke="currentColor"
-                    viewBox="0 0 24 24"
-                    xmlns="http://www.w3.org/2000/svg"
+              <div className="flex p-1 bg-gray-100 rounded-full">
+                {VIEW_MODES.map(({ mode, label, icon }) => (
+                  <button
+                    key={mode}
+                    onClick={() => setViewMode(mode)}
+                    className={`p-1.5 rounded-full transition-colors duration-200 ${
+                      viewMode === mode
+                        ? "bg-white text-gray-800 shadow-sm"
+                        : "text-gray-500 hover:text-gray-700"
+                    }`}
+                    title={`${label} view`}
                   >
-                    <path
-                      strokeLinecap="round"
-                      strokeLinejoin="round"
-                      strokeWidth={2}
-                      d="M4 6a2 2 0 012-2h2a2 2 0 012 2v2a2 2 0 01-2 2H6a2 2 0 01-2-2V6zM14 6a2 2 0 012-2h2a2 2 0 012 2v2a2 2 0 01-2 2h-2a2 2 0 01-2-2V6zM4 16a2 2 0 012-2h2a2 2 0 012 2v2a2 2 0 01-2 2H6a2 2 0 01-2-2v-2zM14 16a2 2 0 012-2h2a2 2 0 012 2v2a2 2 0 01-2 2h-2a2 2 0 01-2-2v-2z"
-                    />
-                  </svg>
-                )}
-              </button>
+                    {icon}
+                  </button>
+                ))}
+              </div>
             </div>
           </div>
 
@@ -388,8 +879,35 @@ const TasksComponent: React.FC<TasksComponentProps> = ({ initialTasks }) => {
               currentSort={currentSort}
               onClick={handleSortClick}
             />
+            {currentSort && (
+              <button
+                onClick={() =>
+                  setSortOrder(sortOrder === "asc" ? "desc" : "asc")
+                }
+                className="flex items-center px-3 py-1 rounded-full text-sm font-medium bg-gray-200 text-gray-700 hover:bg-gray-300"
+                title={`Sort ${
+                  sortOrder === "asc" ? "descending" : "ascending"
+                }`}
+              >
+                {sortOrder === "asc" ? (
+                  <BarsArrowUpIcon className="w-4 h-4" />
+                ) : (
+                  <BarsArrowDownIcon className="w-4 h-4" />
+                )}
+                <span className="ml-1">
+                  {sortOrder === "asc" ? "Ascending" : "Descending"}
+                </span>
+              </button>
+            )}
+            {!currentSort && viewMode !== "board" && (
+              <span className="self-center text-xs text-gray-500">
+                Drag tasks to reorder them
+              </span>
+            )}
           </div>
 
+          <TaskFilters filters={filters} onChange={setFilters} tags={tags} />
+
           {selectedTasks.length > 0 && (
             <div className="mb-4 flex flex-wrap items-center gap-2">
               <div className="flex items-center">
@@ -408,6 +926,13 @@ const TasksComponent: React.FC<TasksComponentProps> = ({ initialTasks }) => {
               >
                 Cancel
               </button>
+              <button
+                onClick={() => setIsBulkEditOpen(!isBulkEditOpen)}
+                className="p-2 bg-blue-500 text-white rounded hover:bg-blue-600 transition-colors duration-200"
+                title="Edit selected tasks"
+              >
+                <PencilSquareIcon className="w-5 h-5" />
+              </button>
               <button
                 onClick={openDeleteModal}
                 className="p-2 bg-red-500 text-white rounded hover:bg-red-600 transition-colors duration-200"
@@ -418,123 +943,235 @@ const TasksComponent: React.FC<TasksComponentProps> = ({ initialTasks }) => {
             </div>
           )}
 
-          <div
-            className={`grid gap-4 ${
-              viewMode === "grid"
-                ? "grid-cols-1 sm:grid-cols-2 md:grid-cols-3"
-                : "grid-cols-1"
-            }`}
-          >
-            {tasks.map((task) => (
-              <div
-                key={task.id}
-                className={`bg-white shadow-md rounded-lg overflow-hidden p-4 transition-colors duration-200 ${
-                  viewMode === "grid" ? "flex flex-col" : "flex items-center"
-                } relative group ${
-                  selectedTasks.includes(task.id)
-                    ? "bg-blue-100 border-2 border-blue-500"
-                    : "hover:bg-gray-100"
-                }`}
-              >
+          {selectedTasks.length > 0 && isBulkEditOpen && (
+            <BulkEditPanel
+              count={selectedTasks.length}
+              tags={tags}
+              onApply={applyBulkEdit}
+              onClose={() => setIsBulkEditOpen(false)}
+            />
+          )}
+
+          {viewMode === "board" ? (
+            <TaskBoard
+              tasks={tasks}
+              wipLimits={wipLimits}
+              onMove={moveTask}
+              onWipLimitChange={updateWipLimit}
+            />
+          ) : (
+            <div
+              className={`grid gap-4 ${
+                viewMode === "grid"
+                  ? "grid-cols-1 sm:grid-cols-2 md:grid-cols-3"
+                  : "grid-cols-1"
+              }`}
+            >
+              {tasks.map((task) => (
                 <div
-                  className={`absolute top-2 right-2 flex items-center space-x-2 ${
-                    selectedTasks.length > 0 || selectedTasks.includes(task.id)
-                      ? "opacity-100"
-                      : "opacity-0 group-hover:opacity-100"
-                  } transition-opacity duration-200`}
+                  key={task.id}
+                  id={`task-card-${task.id}`}
+                  // Drag to reorder while the manual order is shown
+                  draggable={!currentSort}
+                  onDragStart={(e) => {
+                    e.dataTransfer.effectAllowed = "move";
+                    setDraggingId(task.id);
+                  }}
+                  onDragOver={(e) => {
+                    if (!draggingId || draggingId === task.id) return;
+                    e.preventDefault();
+                    setDragOverId(task.id);
+                  }}
+                  onDrop={(e) => {
+                    e.preventDefault();
+                    if (draggingId) reorderTask(draggingId, task.id);
+                    endDrag();
+                  }}
+                  onDragEnd={endDrag}
+                  className={`bg-white shadow-md rounded-lg overflow-hidden p-4 transition-colors duration-200 ${
+                    viewMode === "grid" ? "flex flex-col" : "flex items-center"
+                  } relative group ${
+                    selectedTasks.includes(task.id)
+                      ? "bg-blue-100 border-2 border-blue-500"
+                      : "hover:bg-gray-100"
+                  } ${draggingId === task.id ? "opacity-50" : ""} ${
+                    dragOverId === task.id ? "ring-2 ring-blue-300" : ""
+                  } ${
+                    activeTaskId === task.id ? "ring-2 ring-orange-400" : ""
+                  }`}
                 >
-                  <input
-                    type="checkbox"
-                    checked={selectedTasks.includes(task.id)}
-                    onChange={() => toggleTaskSelection(task.id)}
-                    className="w-5 h-5 rounded border-gray-300 text-blue-600 focus:ring-blue-500"
-                  />
-                  {selectedTasks.length === 0 && (
-                    <button
-                      onClick={() => handleDeleteTask(task.id)}
-                      className="p-1 bg-red-500 text-white rounded hover:bg-red-600"
-                    >
-                      <TrashIcon className="w-4 h-4" />
-                    </button>
-                  )}
-                </div>
-                <Link href={`/task/${task.id}`} className="flex-grow">
-                  <div className="text-sm font-medium text-gray-900 mb-2">
-                    {task.title}
-                  </div>
                   <div
-                    className={`flex ${
-                      viewMode === "grid"
-                        ? "flex-col space-y-2"
-                        : "flex-wrap items-center"
-                    } text-gray-500 text-xs`}
+                    className={`absolute top-2 right-2 flex items-center space-x-2 ${
+                      selectedTasks.length > 0 ||
+                      selectedTasks.includes(task.id)
+                        ? "opacity-100"
+                        : "opacity-0 group-hover:opacity-100"
+                    } transition-opacity duration-200`}
                   >
-                    <div
-                      className={`flex items-center ${
-                        viewMode === "list" ? "mr-4" : ""
-                      }`}
-                    >
-                      <CalendarIcon className="w-4 h-4 mr-1" />
-                      <span>
-                        Due Date:{" "}
-                        {task.dueDate
-                          ? format(new Date(task.dueDate), "MMM dd, yyyy")
-                          : "No due date"}
-                      </span>
-                    </div>
-                    <div
-                      className={`flex items-center ${
-                        viewMode === "list" ? "mr-4" : ""
-                      }`}
-                    >
-                      <FlagIcon className="w-4 h-4 mr-1" />
-                      <span>Priority: {task.priority ?? "No priority"}</span>
-                    </div>
-                    <div
-                      className={`flex items-center ${
-                        viewMode === "list" ? "mr-4" : ""
-                      }`}
-                    >
-                      <ClockIcon className="w-4 h-4 mr-1" />
-                      <span>
-                        Created:{" "}
-                        {isValidDate(task.createdAt)
-                          ? format(new Date(task.createdAt), "MMM dd, yyyy")
-                          : "Invalid date"}
-                      </span>
+                    <input
+                      type="checkbox"
+                      checked={selectedTasks.includes(task.id)}
+                      onChange={() => toggleTaskSelection(task.id)}
+                      className="w-5 h-5 rounded border-gray-300 text-blue-600 focus:ring-blue-500"
+                    />
+                    {selectedTasks.length === 0 && (
+                      <button
+                        onClick={() => handleDeleteTask(task.id)}
+                        className="p-1 bg-red-500 text-white rounded hover:bg-red-600"
+                      >
+                        <TrashIcon className="w-4 h-4" />
+                      </button>
+                    )}
+                  </div>
+                  <Link href={`/task/${task.id}`} className="flex-grow">
+                    <div className="flex items-center text-sm font-medium text-gray-900 mb-2">
+                      {task.title}
+                      {Boolean(task.recurrence) && (
+                        <ArrowPathRoundedSquareIcon
+                          className="w-4 h-4 ml-1 text-gray-400"
+                          title="Recurring task"
+                        />
+                      )}
+                      {task.blockedBy && task.blockedBy.length > 0 && (
+                        <span className="inline-flex items-center ml-2 px-2 py-0.5 rounded-full text-xs font-medium bg-orange-100 text-orange-800">
+                          <LockClosedIcon className="w-3 h-3 mr-1" />
+                          Blocked
+                        </span>
+                      )}
                     </div>
                     <div
-                      className={`flex items-center ${
-                        viewMode === "list" ? "mr-4" : ""
-                      }`}
+                      className={`flex ${
+                        viewMode === "grid"
+                          ? "flex-col space-y-2"
+                          : "flex-wrap items-center"
+                      } text-gray-500 text-xs`}
                     >
-                      <PencilIcon className="w-4 h-4 mr-1" />
-                      <span>
-                        Last Modified:{" "}
-                        {isValidDate(task.updatedAt)
-                          ? format(new Date(task.updatedAt), "MMM dd, yyyy")
-                          : "Invalid date"}
-                      </span>
+                      <div
+                        className={`flex items-center ${
+                          viewMode === "list" ? "mr-4" : ""
+                        }`}
+                      >
+                        <CalendarIcon className="w-4 h-4 mr-1" />
+                        <span>
+                          Due Date:{" "}
+                          {task.dueDate
+                            ? format(
+                                displayDueDate(task.dueDate, task.hasDueTime),
+                                "MMM dd, yyyy"
+                              )
+                            : "No due date"}
+                        </span>
+                      </div>
+                      <div
+                        className={`flex items-center ${
+                          viewMode === "list" ? "mr-4" : ""
+                        }`}
+                      >
+                        <FlagIcon className="w-4 h-4 mr-1" />
+                        <span>Priority: {task.priority ?? "No priority"}</span>
+                      </div>
+                      <div
+                        className={`flex items-center ${
+                          viewMode === "list" ? "mr-4" : ""
+                        }`}
+                      >
+                        <ClockIcon className="w-4 h-4 mr-1" />
+                        <span>
+                          Created:{" "}
+                          {isValidDate(task.createdAt)
+                            ? format(new Date(task.createdAt), "MMM dd, yyyy")
+                            : "Invalid date"}
+                        </span>
+                      </div>
+                      <div
+                        className={`flex items-center ${
+                          viewMode === "list" ? "mr-4" : ""
+                        }`}
+                      >
+                        <PencilIcon className="w-4 h-4 mr-1" />
+                        <span>
+                          Last Modified:{" "}
+                          {isValidDate(task.updatedAt)
+                            ? format(new Date(task.updatedAt), "MMM dd, yyyy")
+                            : "Invalid date"}
+                        </span>
+                      </div>
+                      <div
+                        className={`flex items-center ${
+                          viewMode === "list" ? "mr-4" : ""
+                        }`}
+                      >
+                        <CheckCircleIcon className="w-4 h-4 mr-1" />
+                        <div
+                          className={`inline-flex items-center ${getStatusStyle(
+                            task.status
+                          )} px-2 py-1 rounded-full text-xs font-medium`}
+                        >
+                          {task.status}
+                        </div>
+                      </div>
+                      {task.checklist && task.checklist.total > 0 && (
+                        <div
+                          className={`flex items-center ${
+                            viewMode === "list" ? "mr-4" : ""
+                          }`}
+                        >
+                          <ListBulletIcon className="w-4 h-4 mr-1" />
+                          <span
+                            className={
+                              task.checklist.completed === task.checklist.total
+                                ? "text-green-600"
+                                : ""
+                            }
+                          >
+                            {task.checklist.completed}/{task.checklist.total}
+                          </span>
+                        </div>
+                      )}
+                      {task.tags.length > 0 && (
+                        <div className="flex flex-wrap items-center gap-1">
+                          {task.tags.map((tag) => (
+                            <TagBadge key={tag.id} tag={tag} />
+                          ))}
+                        </div>
+                      )}
                     </div>
+                  </Link>
+                  {task.blockedBy && task.blockedBy.length > 0 && (
                     <div
-                      className={`flex items-center ${
-                        viewMode === "list" ? "mr-4" : ""
+                      className={`flex flex-wrap items-center gap-1 text-xs text-gray-500 ${
+                        viewMode === "grid" ? "mt-2" : "ml-4 mr-16"
                       }`}
                     >
-                      <CheckCircleIcon className="w-4 h-4 mr-1" />
-                      <div
-                        className={`inline-flex items-center ${getStatusStyle(
-                          task.status
-                        )} px-2 py-1 rounded-full text-xs font-medium`}
-                      >
-                        {task.status}
-                      </div>
+                      Waiting on
+                      {task.blockedBy.map((prerequisite) => (
+                        <Link
+                          key={prerequisite.id}
+                          href={`/task/${prerequisite.id}`}
+                          className="px-2 py-0.5 rounded bg-gray-100 text-gray-700 hover:bg-gray-200 truncate max-w-[12rem]"
+                        >
+                          {prerequisite.title}
+                        </Link>
+                      ))}
                     </div>
-                  </div>
-                </Link>
-              </div>
-            ))}
-          </div>
+                  )}
+                </div>
+              ))}
+            </div>
+          )}
+
+          {tasks.length === 0 && !loading && (
+            <p className="text-center text-gray-500 py-12">
+              No tasks match your filters.
+            </p>
+          )}
+
+          <div ref={loadMoreRef} className="h-1" />
+          {(loadingMore || (loading && hasLoaded)) && (
+            <div className="flex justify-center py-4">
+              <PulseLoader color="#4B5563" size={6} speedMultiplier={0.8} />
+            </div>
+          )}
         </>
       ) : (
         <div className="flex flex-col items-center justify-center min-h-[60vh] px-4">
@@ -543,7 +1180,7 @@ const TasksComponent: React.FC<TasksComponentProps> = ({ initialTasks }) => {
             No tasks yet! Let's get started!
           </p>
           <Link
-            href="/new"
+            href={newTaskHref}
             className="inline-flex items-center px-5 py-2.5 bg-black text-white text-sm font-medium rounded-full hover:bg-gray-800 transition-all duration-200"
           >
             <svg
@@ -579,8 +1216,8 @@ const TasksComponent: React.FC<TasksComponentProps> = ({ initialTasks }) => {
               </button>
             </div>
             <p className="mb-4">
-              Are you sure you want to delete {tasksToDelete.length} selected
-              task(s)? This action cannot be undone.
+              Move {tasksToDelete.length} selected task(s) to the trash? You can
+              restore them from the Trash page until they are purged.
             </p>
             <div className="flex justify-end space-x-2">
               <button
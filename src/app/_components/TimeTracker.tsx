@@ -0,0 +1,308 @@
+"use client";
+import React, { useCallback, useEffect, useState } from "react";
+import { toast } from "react-toastify";
+import { format } from "date-fns";
+import {
+  PlayIcon,
+  PlusIcon,
+  StopIcon,
+  TrashIcon,
+} from "@heroicons/react/24/outline";
+import {
+  MINUTE_MS,
+  TIMER_CHANGED_EVENT,
+  TIME_ENTRY_NOTE_MAX_LENGTH,
+  TimeEntrySummary,
+  entryDuration,
+  formatClock,
+  formatDuration,
+  notifyTimerChanged,
+} from "../lib/timeTracking";
+
+// Start/stop timer, tracked total against the estimate and the entry log
+const TimeTracker: React.FC<{
+  taskId: string;
+  // Minutes
+  estimatedTime: number | null;
+}> = ({ taskId, estimatedTime }) => {
+  const [entries, setEntries] = useState<TimeEntrySummary[]>([]);
+  const [now, setNow] = useState(Date.now());
+  const [isAdding, setIsAdding] = useState(false);
+  const [manualEntry, setManualEntry] = useState({
+    startedAt: "",
+    endedAt: "",
+    note: "",
+  });
+
+  const fetchEntries = useCallback(async () => {
+    try {
+      const response = await fetch(`/api/tasks/${taskId}/time-entries`);
+      if (response.ok) {
+        setEntries(await response.json());
+      } else {
+        console.error("Failed to fetch time entries");
+      }
+    } catch (error) {
+      console.error("Error fetching time entries:", error);
+    }
+  }, [taskId]);
+
+  useEffect(() => {
+    fetchEntries();
+    // The sidebar can stop this task's timer too
+    window.addEventListener(TIMER_CHANGED_EVENT, fetchEntries);
+    return () => window.removeEventListener(TIMER_CHANGED_EVENT, fetchEntries);
+  }, [fetchEntries]);
+
+  const running = entries.find((entry) => entry.endedAt === null);
+
+  useEffect(() => {
+    if (!running) return;
+    setNow(Date.now());
+    const timer = setInterval(() => setNow(Date.now()), 1000);
+    return () => clearInterval(timer);
+  }, [running]);
+
+  const totalMs = entries.reduce(
+    (total, entry) => total + entryDuration(entry, now),
+    0
+  );
+  const estimateMs = estimatedTime ? estimatedTime * MINUTE_MS : null;
+
+  const startTimer = async () => {
+    try {
+      const response = await fetch(`/api/tasks/${taskId}/timer`, {
+        method: "POST",
+      });
+      if (response.ok) {
+        notifyTimerChanged();
+      } else {
+        const errorData = await response.json();
+        toast.error(errorData.error || "Failed to start timer");
+      }
+    } catch (error) {
+      console.error("Error starting timer:", error);
+      toast.error("Error starting timer");
+    }
+  };
+
+  const stopTimer = async () => {
+    try {
+      const response = await fetch("/api/timer/stop", { method: "POST" });
+      if (response.ok) {
+        notifyTimerChanged();
+      } else {
+        const errorData = await response.json();
+        toast.error(errorData.error || "Failed to stop timer");
+      }
+    } catch (error) {
+      console.error("Error stopping timer:", error);
+      toast.error("Error stopping timer");
+    }
+  };
+
+  const addEntry = async (e: React.FormEvent) => {
+    e.preventDefault();
+    try {
+      const response = await fetch(`/api/tasks/${taskId}/time-entries`, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({
+          // datetime-local values are local time; send them as instants
+          startedAt: manualEntry.startedAt
+            ? new Date(manualEntry.startedAt).toISOString()
+            : null,
+          endedAt: manualEntry.endedAt
+            ? new Date(manualEntry.endedAt).toISOString()
+            : null,
+          note: manualEntry.note,
+        }),
+      });
+      if (response.ok) {
+        setIsAdding(false);
+        setManualEntry({ startedAt: "", endedAt: "", note: "" });
+        fetchEntries();
+      } else {
+        const errorData = await response.json();
+        toast.error(errorData.error || "Failed to add time entry");
+      }
+    } catch (error) {
+      console.error("Error adding time entry:", error);
+      toast.error("Error adding time entry");
+    }
+  };
+
+  const deleteEntry = async (entryId: string) => {
+    if (!window.confirm("Delete this time entry?")) return;
+
+    try {
+      const response = await fetch(
+        `/api/tasks/${taskId}/time-entries/${entryId}`,
+        { method: "DELETE" }
+      );
+      if (response.ok) {
+        setEntries((prevEntries) =>
+          prevEntries.filter((entry) => entry.id !== entryId)
+        );
+        if (running?.id === entryId) notifyTimerChanged();
+      } else {
+        const errorData = await response.json();
+        toast.error(errorData.error || "Failed to delete time entry");
+      }
+    } catch (error) {
+      console.error("Error deleting time entry:", error);
+      toast.error("Error deleting time entry");
+    }
+  };
+
+  return (
+    <div className="mt-6">
+      <div className="flex items-center justify-between mb-2">
+        <h2 className="text-lg font-semibold text-gray-800">Time</h2>
+        <div className="flex gap-2">
+          <button
+            onClick={() => setIsAdding(!isAdding)}
+            className="flex items-center px-3 py-1 text-sm bg-gray-200 rounded hover:bg-gray-300"
+          >
+            <PlusIcon className="w-4 h-4 mr-1" />
+            Log time
+          </button>
+          {running ? (
+            <button
+              onClick={stopTimer}
+              className="flex items-center px-3 py-1 text-sm bg-red-500 text-white rounded hover:bg-red-600"
+            >
+              <StopIcon className="w-4 h-4 mr-1" />
+              Stop {formatClock(entryDuration(running, now))}
+            </button>
+          ) : (
+            <button
+              onClick={startTimer}
+              className="flex items-center px-3 py-1 text-sm bg-blue-500 text-white rounded hover:bg-blue-600"
+            >
+              <PlayIcon className="w-4 h-4 mr-1" />
+              Start timer
+            </button>
+          )}
+        </div>
+      </div>
+
+      <p className="text-sm text-gray-600">
+        Tracked {formatDuration(totalMs)}
+        {estimateMs !== null && (
+          <>
+            {" "}
+            of {formatDuration(estimateMs)} estimated
+            {totalMs > estimateMs && (
+              <span className="ml-1 text-red-600">
+                ({formatDuration(totalMs - estimateMs)} over)
+              </span>
+            )}
+          </>
+        )}
+      </p>
+      {estimateMs !== null && (
+        <div className="mt-1 h-1.5 bg-gray-200 rounded-full overflow-hidden">
+          <div
+            className={`h-full ${
+              totalMs > estimateMs ? "bg-red-500" : "bg-blue-500"
+            }`}
+            style={{
+              width: `${Math.min(100, (totalMs / estimateMs) * 100)}%`,
+            }}
+          />
+        </div>
+      )}
+
+      {isAdding && (
+        <form
+          onSubmit={addEntry}
+          className="mt-3 p-3 bg-gray-50 rounded space-y-2 text-sm"
+        >
+          <div className="flex flex-wrap gap-2">
+            <label className="flex flex-col">
+              <span className="text-xs text-gray-500">Start</span>
+              <input
+                type="datetime-local"
+                value={manualEntry.startedAt}
+                onChange={(e) =>
+                  setManualEntry({ ...manualEntry, startedAt: e.target.value })
+                }
+                className="p-1 border rounded"
+                required
+              />
+            </label>
+            <label className="flex flex-col">
+              <span className="text-xs text-gray-500">End</span>
+              <input
+                type="datetime-local"
+                value={manualEntry.endedAt}
+                onChange={(e) =>
+                  setManualEntry({ ...manualEntry, endedAt: e.target.value })
+                }
+                className="p-1 border rounded"
+                required
+              />
+            </label>
+          </div>
+          <input
+            type="text"
+            value={manualEntry.note}
+            maxLength={TIME_ENTRY_NOTE_MAX_LENGTH}
+            onChange={(e) =>
+              setManualEntry({ ...manualEntry, note: e.target.value })
+            }
+            placeholder="Note (optional)"
+            className="w-full p-1 border rounded"
+          />
+          <div className="flex justify-end gap-2">
+            <button
+              type="button"
+              onClick={() => setIsAdding(false)}
+              className="px-3 py-1 bg-gray-200 rounded hover:bg-gray-300"
+            >
+              Cancel
+            </button>
+            <button
+              type="submit"
+              className="px-3 py-1 bg-blue-500 text-white rounded hover:bg-blue-600"
+            >
+              Add entry
+            </button>
+          </div>
+        </form>
+      )}
+
+      {entries.length > 0 && (
+        <ul className="mt-3 divide-y text-sm">
+          {entries.map((entry) => (
+            <li key={entry.id} className="flex items-center gap-3 py-1.5 group">
+              <span className="w-40 flex-shrink-0 text-gray-500">
+                {format(new Date(entry.startedAt), "MMM d, HH:mm")}
+                {entry.endedAt &&
+                  ` – ${format(new Date(entry.endedAt), "HH:mm")}`}
+              </span>
+              <span className="w-20 flex-shrink-0 font-mono text-gray-700">
+                {entry.endedAt
+                  ? formatDuration(entryDuration(entry))
+                  : "running"}
+              </span>
+              <span className="flex-grow min-w-0 truncate text-gray-600">
+                {entry.note}
+              </span>
+              <button
+                onClick={() => deleteEntry(entry.id)}
+                className="p-1 text-gray-400 hover:text-red-500 opacity-0 group-hover:opacity-100 transition-opacity duration-200"
+                title="Delete entry"
+              >
+                <TrashIcon className="w-4 h-4" />
+              </button>
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+};
+
+export default TimeTracker;
@@ -0,0 +1,55 @@
+"use client";
+import { useEffect, useState } from "react";
+import {
+  KEY_BINDINGS_CHANGED_EVENT,
+  KeyBindings,
+  ShortcutAction,
+  resolveKeyBindings,
+} from "../lib/shortcuts";
+import { UserPreferences } from "../lib/preferencesValidation";
+
+// Shared by every component that listens for shortcuts, so a page fetches
+// the user's bindings once
+let bindingsRequest: Promise<KeyBindings> | null = null;
+
+const fetchKeyBindings = async (): Promise<KeyBindings> => {
+  try {
+    const response = await fetch("/api/user/preferences");
+    if (response.ok) {
+      const data: UserPreferences = await response.json();
+      return data.keyBindings;
+    }
+    console.error("Failed to fetch key bindings");
+  } catch (error) {
+    console.error("Error fetching key bindings:", error);
+  }
+  // Fall back to the defaults and try again next time
+  bindingsRequest = null;
+  return {};
+};
+
+// The user's key for each shortcut, with defaults filled in
+export default function useKeyBindings(): Record<ShortcutAction, string> {
+  const [bindings, setBindings] = useState<KeyBindings>({});
+
+  useEffect(() => {
+    let active = true;
+    bindingsRequest ??= fetchKeyBindings();
+    bindingsRequest.then((data) => {
+      if (active) setBindings(data);
+    });
+
+    const handleChange = (event: Event) => {
+      const updated = (event as CustomEvent<KeyBindings>).detail;
+      bindingsRequest = Promise.resolve(updated);
+      setBindings(updated);
+    };
+    window.addEventListener(KEY_BINDINGS_CHANGED_EVENT, handleChange);
+    return () => {
+      active = false;
+      window.removeEventListener(KEY_BINDINGS_CHANGED_EVENT, handleChange);
+    };
+  }, []);
+
+  return resolveKeyBindings(bindings);
+}
@@ -0,0 +1,80 @@
+import { NextRequest, NextResponse } from "next/server";
+import { Prisma } from "@prisma/client";
+import prisma from "../../../lib/prisma";
+import { ownedTaskWhere } from "../../../lib/auth";
+import {
+  FEED_ENTRY_TYPES,
+  FEED_MAX_TASKS,
+  FeedEntryType,
+  FeedTask,
+  buildCalendarFeed,
+} from "../../../lib/calendarFeed";
+
+const feedTaskSelect = {
+  id: true,
+  title: true,
+  description: true,
+  dueDate: true,
+  hasDueTime: true,
+  priority: true,
+  status: true,
+  estimatedTime: true,
+  createdAt: true,
+  updatedAt: true,
+  tags: { select: { name: true }, orderBy: { name: "asc" } },
+} satisfies Prisma.TaskSelect;
+
+// The user's dated tasks as an iCalendar feed, for calendar apps to
+// subscribe to. There is no session here: the secret token in the path
+// (/api/calendar/{token}.ics) identifies the user.
+export async function GET(
+  request: NextRequest,
+  { params }: { params: { token: string } }
+) {
+  const token = params.token.replace(/\.ics$/, "");
+  const type = (request.nextUrl.searchParams.get("type") ||
+    "event") as FeedEntryType;
+
+  if (!FEED_ENTRY_TYPES.includes(type)) {
+    return NextResponse.json(
+      { error: `type must be one of ${FEED_ENTRY_TYPES.join(", ")}` },
+      { status: 400 }
+    );
+  }
+
+  try {
+    const user = token
+      ? await prisma.user.findUnique({
+          where: { calendarFeedToken: token },
+          select: { id: true },
+        })
+      : null;
+    if (!user) {
+      return NextResponse.json({ error: "Feed not found" }, { status: 404 });
+    }
+
+    const tasks = await prisma.task.findMany({
+      where: ownedTaskWhere(user.id, { dueDate: { not: null } }),
+      select: feedTaskSelect,
+      orderBy: { dueDate: "desc" },
+      take: FEED_MAX_TASKS,
+    });
+
+    return new NextResponse(
+      buildCalendarFeed(tasks as FeedTask[], type, request.nextUrl.origin),
+      {
+        headers: {
+          "Content-Type": "text/calendar; charset=utf-8",
+          "Content-Disposition": 'inline; filename="tasks.ics"',
+          "Cache-Control": "private, no-store",
+        },
+      }
+    );
+  } catch (error) {
+    console.error("Error building calendar feed:", error);
+    return NextResponse.json(
+      { error: "Failed to build calendar feed" },
+      { status: 500 }
+    );
+  }
+}
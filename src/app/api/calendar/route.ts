@@ -0,0 +1,82 @@
+import { NextRequest, NextResponse } from "next/server";
+import prisma from "../../lib/prisma";
+import { getSessionUser, ownedTaskWhere } from "../../lib/auth";
+import { projectSelect } from "../../lib/projects";
+import { addDays } from "../../lib/planning";
+import { CALENDAR_MAX_DAYS } from "../../lib/calendar";
+
+// Caps the tray of undated tasks; the most recently created are shown
+const UNDATED_LIMIT = 100;
+
+const calendarTaskSelect = {
+  id: true,
+  title: true,
+  dueDate: true,
+  hasDueTime: true,
+  priority: true,
+  status: true,
+  estimatedTime: true,
+  project: { select: projectSelect },
+};
+
+// Tasks due over ?from=yyyy-mm-dd&days=n, plus open tasks without a due date.
+// The range is a day wider on each side, since a task due at a time can fall
+// on a neighbouring day in the user's time zone; the page groups by its days.
+export async function GET(request: NextRequest) {
+  const user = await getSessionUser();
+
+  if (!user) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+  }
+
+  const params = request.nextUrl.searchParams;
+  const from = params.get("from") ?? "";
+  const days = Number(params.get("days") ?? 42);
+
+  if (
+    !/^\d{4}-\d{2}-\d{2}$/.test(from) ||
+    isNaN(new Date(from).getTime()) ||
+    !Number.isInteger(days) ||
+    days < 1 ||
+    days > CALENDAR_MAX_DAYS
+  ) {
+    return NextResponse.json(
+      {
+        error: `from must be a yyyy-mm-dd date and days a number from 1 to ${CALENDAR_MAX_DAYS}`,
+      },
+      { status: 400 }
+    );
+  }
+
+  try {
+    const [tasks, undated] = await Promise.all([
+      prisma.task.findMany({
+        where: ownedTaskWhere(user.id, {
+          dueDate: {
+            gte: new Date(addDays(from, -1)),
+            lt: new Date(addDays(from, days + 1)),
+          },
+        }),
+        select: calendarTaskSelect,
+        orderBy: [{ dueDate: "asc" }, { createdAt: "asc" }],
+      }),
+      prisma.task.findMany({
+        where: ownedTaskWhere(user.id, {
+          dueDate: null,
+          status: { not: "Completed" },
+        }),
+        select: calendarTaskSelect,
+        orderBy: { createdAt: "desc" },
+        take: UNDATED_LIMIT,
+      }),
+    ]);
+
+    return NextResponse.json({ tasks, undated });
+  } catch (error) {
+    console.error("Error fetching calendar:", error);
+    return NextResponse.json(
+      { error: "Failed to load calendar" },
+      { status: 500 }
+    );
+  }
+}
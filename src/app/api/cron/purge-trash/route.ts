@@ -0,0 +1,23 @@
+import { NextRequest, NextResponse } from "next/server";
+import { purgeExpiredTrash } from "../../../lib/trash";
+
+// Scheduled job that purges expired trash for every user. Call it daily from
+// a scheduler with `Authorization: Bearer $CRON_SECRET`.
+export async function GET(request: NextRequest) {
+  const secret = process.env.CRON_SECRET;
+
+  if (!secret || request.headers.get("authorization") !== `Bearer ${secret}`) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+  }
+
+  try {
+    const purged = await purgeExpiredTrash();
+    return NextResponse.json({ purged });
+  } catch (error) {
+    console.error("Error purging trash:", error);
+    return NextResponse.json(
+      { error: "Failed to purge trash" },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,104 @@
+import { NextRequest, NextResponse } from "next/server";
+import prisma from "../../lib/prisma";
+import { getSessionUser, ownedTaskWhere } from "../../lib/auth";
+import {
+  PLANNING_MAX_DAYS,
+  addDays,
+  buildPlan,
+  dueDateKey,
+  isTimeZone,
+  suggestMoves,
+} from "../../lib/planning";
+
+// Open tasks' estimates per due date over ?from=yyyy-mm-dd&days=n (default:
+// two weeks from today), with overloaded days flagged and suggested moves.
+// Days are in ?timeZone= (default UTC), the browser's zone.
+export async function GET(request: NextRequest) {
+  const user = await getSessionUser();
+
+  if (!user) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+  }
+
+  const params = request.nextUrl.searchParams;
+  const timeZone = params.get("timeZone") ?? "UTC";
+
+  if (!isTimeZone(timeZone)) {
+    return NextResponse.json(
+      { error: "timeZone must be an IANA time zone" },
+      { status: 400 }
+    );
+  }
+
+  const today = dueDateKey(new Date(), true, timeZone);
+  const from = params.get("from") ?? today;
+  const days = Number(params.get("days") ?? 14);
+
+  if (
+    !/^\d{4}-\d{2}-\d{2}$/.test(from) ||
+    isNaN(new Date(from).getTime()) ||
+    !Number.isInteger(days) ||
+    days < 1 ||
+    days > PLANNING_MAX_DAYS
+  ) {
+    return NextResponse.json(
+      {
+        error: `from must be a yyyy-mm-dd date and days a number from 1 to ${PLANNING_MAX_DAYS}`,
+      },
+      { status: 400 }
+    );
+  }
+
+  try {
+    const [{ dailyCapacityMinutes }, tasks] = await Promise.all([
+      prisma.user.findUniqueOrThrow({
+        where: { id: user.id },
+        select: { dailyCapacityMinutes: true },
+      }),
+      prisma.task.findMany({
+        where: ownedTaskWhere(user.id, {
+          status: { not: "Completed" },
+          // A day wider on each side for times that fall on another day
+          // in the user's zone; buildPlan drops what's outside the range
+          dueDate: {
+            gte: new Date(addDays(from, -1)),
+            lt: new Date(addDays(from, days + 1)),
+          },
+        }),
+        select: {
+          id: true,
+          title: true,
+          dueDate: true,
+          hasDueTime: true,
+          priority: true,
+          status: true,
+          estimatedTime: true,
+        },
+        orderBy: [{ dueDate: "asc" }, { createdAt: "asc" }],
+      }),
+    ]);
+
+    const plan = buildPlan(
+      tasks.map((task) => ({
+        ...task,
+        dueDate: task.dueDate!.toISOString(),
+      })),
+      from,
+      days,
+      dailyCapacityMinutes,
+      timeZone
+    );
+
+    return NextResponse.json({
+      capacity: dailyCapacityMinutes,
+      days: plan,
+      suggestions: suggestMoves(plan, dailyCapacityMinutes, today),
+    });
+  } catch (error) {
+    console.error("Error building plan:", error);
+    return NextResponse.json(
+      { error: "Failed to load planning" },
+      { status: 500 }
+    );
+  }
+}
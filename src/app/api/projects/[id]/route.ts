@@ -0,0 +1,105 @@
+import { NextRequest, NextResponse } from "next/server";
+import prisma from "../../../lib/prisma";
+import { findOwnedProject, getSessionUser } from "../../../lib/auth";
+import { validateProjectInput } from "../../../lib/projectValidation";
+import { projectSelect } from "../../../lib/projects";
+
+export async function GET(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  const user = await getSessionUser();
+
+  if (!user) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+  }
+
+  try {
+    const project = await prisma.project.findFirst({
+      where: { id: params.id, userId: user.id },
+      select: projectSelect,
+    });
+
+    if (!project) {
+      return NextResponse.json({ error: "Project not found" }, { status: 404 });
+    }
+
+    return NextResponse.json(project);
+  } catch (error) {
+    console.error("Error fetching project:", error);
+    return NextResponse.json(
+      { error: "Failed to fetch project" },
+      { status: 500 }
+    );
+  }
+}
+
+// Edits a project; also used to archive and unarchive it
+export async function PATCH(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  const user = await getSessionUser();
+
+  if (!user) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+  }
+
+  const validation = validateProjectInput(await request.json(), true);
+
+  if (validation.error !== null) {
+    return NextResponse.json({ error: validation.error }, { status: 400 });
+  }
+
+  try {
+    const project = await findOwnedProject(user.id, params.id);
+
+    if (!project) {
+      return NextResponse.json({ error: "Project not found" }, { status: 404 });
+    }
+
+    const updatedProject = await prisma.project.update({
+      where: { id: project.id },
+      data: validation.data,
+      select: projectSelect,
+    });
+
+    return NextResponse.json(updatedProject);
+  } catch (error) {
+    console.error("Error updating project:", error);
+    return NextResponse.json(
+      { error: "Failed to update project" },
+      { status: 500 }
+    );
+  }
+}
+
+// Deletes a project. Its tasks are kept and simply leave the project.
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  const user = await getSessionUser();
+
+  if (!user) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+  }
+
+  try {
+    const { count } = await prisma.project.deleteMany({
+      where: { id: params.id, userId: user.id },
+    });
+
+    if (count === 0) {
+      return NextResponse.json({ error: "Project not found" }, { status: 404 });
+    }
+
+    return NextResponse.json({ message: "Project deleted successfully" });
+  } catch (error) {
+    console.error("Error deleting project:", error);
+    return NextResponse.json(
+      { error: "Failed to delete project" },
+      { status: 500 }
+    );
+  }
+}
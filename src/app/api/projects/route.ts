@@ -0,0 +1,77 @@
+import { NextRequest, NextResponse } from "next/server";
+import prisma from "../../lib/prisma";
+import { getSessionUser } from "../../lib/auth";
+import {
+  ProjectInput,
+  validateProjectInput,
+} from "../../lib/projectValidation";
+import { countTasksByProject, projectSelect } from "../../lib/projects";
+
+// Lists the user's projects with their task counts. Archived projects are
+// only included with ?archived=true.
+export async function GET(request: NextRequest) {
+  const user = await getSessionUser();
+
+  if (!user) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+  }
+
+  const includeArchived =
+    request.nextUrl.searchParams.get("archived") === "true";
+
+  try {
+    const [projects, counts] = await Promise.all([
+      prisma.project.findMany({
+        where: {
+          userId: user.id,
+          archived: includeArchived ? undefined : false,
+        },
+        select: projectSelect,
+        orderBy: { name: "asc" },
+      }),
+      countTasksByProject(user.id),
+    ]);
+
+    return NextResponse.json(
+      projects.map((project) => ({
+        ...project,
+        taskCount: counts.get(project.id) ?? 0,
+      }))
+    );
+  } catch (error) {
+    console.error("Error fetching projects:", error);
+    return NextResponse.json(
+      { error: "Failed to fetch projects" },
+      { status: 500 }
+    );
+  }
+}
+
+export async function POST(request: NextRequest) {
+  const user = await getSessionUser();
+
+  if (!user) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+  }
+
+  const validation = validateProjectInput(await request.json());
+
+  if (validation.error !== null) {
+    return NextResponse.json({ error: validation.error }, { status: 400 });
+  }
+
+  try {
+    const project = await prisma.project.create({
+      data: { ...(validation.data as ProjectInput), userId: user.id },
+      select: projectSelect,
+    });
+
+    return NextResponse.json(project, { status: 201 });
+  } catch (error) {
+    console.error("Error creating project:", error);
+    return NextResponse.json(
+      { error: "Failed to create project" },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,36 @@
+import { NextRequest, NextResponse } from "next/server";
+import { getSessionUser } from "../../lib/auth";
+import { SEARCH_MAX_RESULTS, searchTasks } from "../../lib/search";
+
+// Full-text search over task titles and descriptions: ?q=text&limit=n.
+// Results are ranked, with matches highlighted in the title and a snippet.
+export async function GET(request: NextRequest) {
+  const user = await getSessionUser();
+
+  if (!user) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+  }
+
+  const params = request.nextUrl.searchParams;
+  const q = params.get("q")?.trim() ?? "";
+  const limit = Number(params.get("limit") ?? SEARCH_MAX_RESULTS);
+
+  if (!Number.isInteger(limit) || limit < 1 || limit > SEARCH_MAX_RESULTS) {
+    return NextResponse.json(
+      { error: `limit must be a number from 1 to ${SEARCH_MAX_RESULTS}` },
+      { status: 400 }
+    );
+  }
+
+  try {
+    const results = q ? await searchTasks(user.id, q, limit) : [];
+
+    return NextResponse.json({ results });
+  } catch (error) {
+    console.error("Error searching tasks:", error);
+    return NextResponse.json(
+      { error: "Failed to search tasks" },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,66 @@
+import { NextRequest, NextResponse } from "next/server";
+import prisma from "../../../../lib/prisma";
+import { findOwnedTag, getSessionUser } from "../../../../lib/auth";
+import { tagSelect } from "../../../../lib/tags";
+
+// Merges this tag into `targetId`: its tasks get the target tag and this tag
+// is deleted
+export async function POST(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  const user = await getSessionUser();
+
+  if (!user) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+  }
+
+  const { targetId } = await request.json();
+
+  if (typeof targetId !== "string" || !targetId) {
+    return NextResponse.json(
+      { error: "targetId must be a tag id" },
+      { status: 400 }
+    );
+  }
+
+  if (targetId === params.id) {
+    return NextResponse.json(
+      { error: "A tag cannot be merged into itself" },
+      { status: 400 }
+    );
+  }
+
+  try {
+    const [source, target] = await Promise.all([
+      findOwnedTag(user.id, params.id),
+      findOwnedTag(user.id, targetId),
+    ]);
+
+    if (!source || !target) {
+      return NextResponse.json({ error: "Tag not found" }, { status: 404 });
+    }
+
+    const mergedTag = await prisma.$transaction(async (tx) => {
+      const tasks = await tx.task.findMany({
+        where: { userId: user.id, tags: { some: { id: source.id } } },
+        select: { id: true },
+      });
+      const tag = await tx.tag.update({
+        where: { id: target.id },
+        data: { tasks: { connect: tasks } },
+        select: tagSelect,
+      });
+      await tx.tag.delete({ where: { id: source.id } });
+      return tag;
+    });
+
+    return NextResponse.json(mergedTag);
+  } catch (error) {
+    console.error("Error merging tags:", error);
+    return NextResponse.json(
+      { error: "Failed to merge tags" },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,81 @@
+import { NextRequest, NextResponse } from "next/server";
+import prisma from "../../../lib/prisma";
+import { findOwnedTag, getSessionUser } from "../../../lib/auth";
+import { validateTagInput } from "../../../lib/tagValidation";
+import { isDuplicateTagName, tagSelect } from "../../../lib/tags";
+
+// Renames a tag or changes its color or icon
+export async function PATCH(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  const user = await getSessionUser();
+
+  if (!user) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+  }
+
+  const validation = validateTagInput(await request.json(), true);
+
+  if (validation.error !== null) {
+    return NextResponse.json({ error: validation.error }, { status: 400 });
+  }
+
+  try {
+    const tag = await findOwnedTag(user.id, params.id);
+
+    if (!tag) {
+      return NextResponse.json({ error: "Tag not found" }, { status: 404 });
+    }
+
+    const updatedTag = await prisma.tag.update({
+      where: { id: tag.id },
+      data: validation.data,
+      select: tagSelect,
+    });
+
+    return NextResponse.json(updatedTag);
+  } catch (error) {
+    if (isDuplicateTagName(error)) {
+      return NextResponse.json(
+        { error: "A tag with this name already exists" },
+        { status: 409 }
+      );
+    }
+    console.error("Error updating tag:", error);
+    return NextResponse.json(
+      { error: "Failed to update tag" },
+      { status: 500 }
+    );
+  }
+}
+
+// Deletes a tag and removes it from every task that had it
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  const user = await getSessionUser();
+
+  if (!user) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+  }
+
+  try {
+    const { count } = await prisma.tag.deleteMany({
+      where: { id: params.id, userId: user.id },
+    });
+
+    if (count === 0) {
+      return NextResponse.json({ error: "Tag not found" }, { status: 404 });
+    }
+
+    return NextResponse.json({ message: "Tag deleted successfully" });
+  } catch (error) {
+    console.error("Error deleting tag:", error);
+    return NextResponse.json(
+      { error: "Failed to delete tag" },
+      { status: 500 }
+    );
+  }
+}
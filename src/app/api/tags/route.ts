@@ -0,0 +1,70 @@
+import { NextRequest, NextResponse } from "next/server";
+import prisma from "../../lib/prisma";
+import { getSessionUser } from "../../lib/auth";
+import { TagInput, validateTagInput } from "../../lib/tagValidation";
+import { isDuplicateTagName, tagSelect } from "../../lib/tags";
+
+// Lists the user's tags with how many tasks use each
+export async function GET() {
+  const user = await getSessionUser();
+
+  if (!user) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+  }
+
+  try {
+    const tags = await prisma.tag.findMany({
+      where: { userId: user.id },
+      select: {
+        ...tagSelect,
+        _count: { select: { tasks: { where: { deletedAt: null } } } },
+      },
+      orderBy: { name: "asc" },
+    });
+
+    return NextResponse.json(
+      tags.map(({ _count, ...tag }) => ({ ...tag, taskCount: _count.tasks }))
+    );
+  } catch (error) {
+    console.error("Error fetching tags:", error);
+    return NextResponse.json(
+      { error: "Failed to fetch tags" },
+      { status: 500 }
+    );
+  }
+}
+
+export async function POST(request: NextRequest) {
+  const user = await getSessionUser();
+
+  if (!user) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+  }
+
+  const validation = validateTagInput(await request.json());
+
+  if (validation.error !== null) {
+    return NextResponse.json({ error: validation.error }, { status: 400 });
+  }
+
+  try {
+    const tag = await prisma.tag.create({
+      data: { ...(validation.data as TagInput), userId: user.id },
+      select: tagSelect,
+    });
+
+    return NextResponse.json(tag, { status: 201 });
+  } catch (error) {
+    if (isDuplicateTagName(error)) {
+      return NextResponse.json(
+        { error: "A tag with this name already exists" },
+        { status: 409 }
+      );
+    }
+    console.error("Error creating tag:", error);
+    return NextResponse.json(
+      { error: "Failed to create tag" },
+      { status: 500 }
+    );
+  }
+}
@@ -1,25 +1,16 @@
 import { NextResponse } from "next/server";
-import { getServerSession } from "next-auth/next";
-import { authOptions } from "../auth/[...nextauth]/route";
 import prisma from "../../lib/prisma";
+import { getSessionUser, ownedTaskWhere } from "../../lib/auth";
 
 export async function GET() {
-  const session = await getServerSession(authOptions);
-  if (!session || !session.user?.email) {
+  const user = await getSessionUser();
+  if (!user) {
     return NextResponse.json({ count: 0 }, { status: 401 });
   }
 
   try {
-    const user = await prisma.user.findUnique({
-      where: { email: session.user.email },
-    });
-
-    if (!user) {
-      return NextResponse.json({ count: 0 }, { status: 404 });
-    }
-
     const count = await prisma.task.count({
-      where: { userId: user.id },
+      where: ownedTaskWhere(user.id),
     });
 
     return NextResponse.json({ count });
@@ -0,0 +1,89 @@
+import { NextRequest, NextResponse } from "next/server";
+import prisma from "../../../../../lib/prisma";
+import { findOwnedTask, getSessionUser } from "../../../../../lib/auth";
+import { validateCommentBody } from "../../../../../lib/taskValidation";
+import { commentSelect, toCommentResponse } from "../../../../../lib/comments";
+
+// Only the author can edit or delete a comment
+export async function PATCH(
+  request: NextRequest,
+  { params }: { params: { id: string; commentId: string } }
+) {
+  const user = await getSessionUser();
+
+  if (!user) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+  }
+
+  const { body } = await request.json();
+
+  const bodyError = validateCommentBody(body);
+  if (bodyError) {
+    return NextResponse.json({ error: bodyError }, { status: 400 });
+  }
+
+  try {
+    const task = await findOwnedTask(user.id, params.id);
+
+    if (!task) {
+      return NextResponse.json({ error: "Task not found" }, { status: 404 });
+    }
+
+    const comment = await prisma.comment.findFirst({
+      where: { id: params.commentId, taskId: task.id, userId: user.id },
+    });
+
+    if (!comment) {
+      return NextResponse.json({ error: "Comment not found" }, { status: 404 });
+    }
+
+    const updatedComment = await prisma.comment.update({
+      where: { id: comment.id },
+      data: { body: body.trim() },
+      select: commentSelect,
+    });
+
+    return NextResponse.json(toCommentResponse(updatedComment, user.id));
+  } catch (error) {
+    console.error("Error updating comment:", error);
+    return NextResponse.json(
+      { error: "Failed to update comment" },
+      { status: 500 }
+    );
+  }
+}
+
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: { id: string; commentId: string } }
+) {
+  const user = await getSessionUser();
+
+  if (!user) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+  }
+
+  try {
+    const task = await findOwnedTask(user.id, params.id);
+
+    if (!task) {
+      return NextResponse.json({ error: "Task not found" }, { status: 404 });
+    }
+
+    const { count } = await prisma.comment.deleteMany({
+      where: { id: params.commentId, taskId: task.id, userId: user.id },
+    });
+
+    if (count === 0) {
+      return NextResponse.json({ error: "Comment not found" }, { status: 404 });
+    }
+
+    return NextResponse.json({ message: "Comment deleted successfully" });
+  } catch (error) {
+    console.error("Error deleting comment:", error);
+    return NextResponse.json(
+      { error: "Failed to delete comment" },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,82 @@
+import { NextRequest, NextResponse } from "next/server";
+import prisma from "../../../../lib/prisma";
+import { findOwnedTask, getSessionUser } from "../../../../lib/auth";
+import { validateCommentBody } from "../../../../lib/taskValidation";
+import { commentSelect, toCommentResponse } from "../../../../lib/comments";
+
+// Lists the task's comments, oldest first
+export async function GET(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  const user = await getSessionUser();
+
+  if (!user) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+  }
+
+  try {
+    const task = await findOwnedTask(user.id, params.id);
+
+    if (!task) {
+      return NextResponse.json({ error: "Task not found" }, { status: 404 });
+    }
+
+    const comments = await prisma.comment.findMany({
+      where: { taskId: task.id },
+      select: commentSelect,
+      orderBy: { createdAt: "asc" },
+    });
+
+    return NextResponse.json(
+      comments.map((comment) => toCommentResponse(comment, user.id))
+    );
+  } catch (error) {
+    console.error("Error fetching comments:", error);
+    return NextResponse.json(
+      { error: "Failed to fetch comments" },
+      { status: 500 }
+    );
+  }
+}
+
+export async function POST(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  const user = await getSessionUser();
+
+  if (!user) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+  }
+
+  const { body } = await request.json();
+
+  const bodyError = validateCommentBody(body);
+  if (bodyError) {
+    return NextResponse.json({ error: bodyError }, { status: 400 });
+  }
+
+  try {
+    const task = await findOwnedTask(user.id, params.id);
+
+    if (!task) {
+      return NextResponse.json({ error: "Task not found" }, { status: 404 });
+    }
+
+    const comment = await prisma.comment.create({
+      data: { body: body.trim(), taskId: task.id, userId: user.id },
+      select: commentSelect,
+    });
+
+    return NextResponse.json(toCommentResponse(comment, user.id), {
+      status: 201,
+    });
+  } catch (error) {
+    console.error("Error creating comment:", error);
+    return NextResponse.json(
+      { error: "Failed to create comment" },
+      { status: 500 }
+    );
+  }
+}
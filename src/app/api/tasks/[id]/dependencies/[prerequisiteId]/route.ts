@@ -0,0 +1,41 @@
+import { NextRequest, NextResponse } from "next/server";
+import prisma from "../../../../../lib/prisma";
+import { findOwnedTask, getSessionUser } from "../../../../../lib/auth";
+
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: { id: string; prerequisiteId: string } }
+) {
+  const user = await getSessionUser();
+
+  if (!user) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+  }
+
+  try {
+    const task = await findOwnedTask(user.id, params.id);
+
+    if (!task) {
+      return NextResponse.json({ error: "Task not found" }, { status: 404 });
+    }
+
+    const { count } = await prisma.taskDependency.deleteMany({
+      where: { taskId: task.id, prerequisiteId: params.prerequisiteId },
+    });
+
+    if (count === 0) {
+      return NextResponse.json(
+        { error: "Dependency not found" },
+        { status: 404 }
+      );
+    }
+
+    return NextResponse.json({ message: "Tasks unlinked successfully" });
+  } catch (error) {
+    console.error("Error unlinking tasks:", error);
+    return NextResponse.json(
+      { error: "Failed to unlink tasks" },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,131 @@
+import { NextRequest, NextResponse } from "next/server";
+import prisma from "../../../../lib/prisma";
+import { findOwnedTask, getSessionUser } from "../../../../lib/auth";
+import { wouldCreateCycle } from "../../../../lib/taskDependencies";
+
+const summarySelect = { id: true, title: true, status: true };
+
+// Lists the tasks this task waits on and the tasks waiting on it
+export async function GET(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  const user = await getSessionUser();
+
+  if (!user) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+  }
+
+  try {
+    const task = await findOwnedTask(user.id, params.id);
+
+    if (!task) {
+      return NextResponse.json({ error: "Task not found" }, { status: 404 });
+    }
+
+    const [prerequisites, dependents] = await Promise.all([
+      prisma.taskDependency.findMany({
+        where: { taskId: task.id, prerequisite: { deletedAt: null } },
+        select: { prerequisite: { select: summarySelect } },
+        orderBy: { createdAt: "asc" },
+      }),
+      prisma.taskDependency.findMany({
+        where: { prerequisiteId: task.id, task: { deletedAt: null } },
+        select: { task: { select: summarySelect } },
+        orderBy: { createdAt: "asc" },
+      }),
+    ]);
+
+    return NextResponse.json({
+      prerequisites: prerequisites.map((dependency) => dependency.prerequisite),
+      dependents: dependents.map((dependency) => dependency.task),
+    });
+  } catch (error) {
+    console.error("Error fetching task dependencies:", error);
+    return NextResponse.json(
+      { error: "Failed to fetch task dependencies" },
+      { status: 500 }
+    );
+  }
+}
+
+// Makes another of the user's tasks a prerequisite of this one
+export async function POST(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  const user = await getSessionUser();
+
+  if (!user) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+  }
+
+  const { prerequisiteId } = await request.json();
+
+  if (typeof prerequisiteId !== "string" || !prerequisiteId) {
+    return NextResponse.json(
+      { error: "prerequisiteId must be a task id" },
+      { status: 400 }
+    );
+  }
+
+  try {
+    const [task, prerequisite] = await Promise.all([
+      findOwnedTask(user.id, params.id),
+      findOwnedTask(user.id, prerequisiteId),
+    ]);
+
+    if (!task || !prerequisite) {
+      return NextResponse.json({ error: "Task not found" }, { status: 404 });
+    }
+
+    if (task.id === prerequisite.id) {
+      return NextResponse.json(
+        { error: "A task cannot depend on itself" },
+        { status: 400 }
+      );
+    }
+
+    const existing = await prisma.taskDependency.findUnique({
+      where: {
+        taskId_prerequisiteId: {
+          taskId: task.id,
+          prerequisiteId: prerequisite.id,
+        },
+      },
+    });
+
+    if (existing) {
+      return NextResponse.json(
+        { error: "Tasks are already linked" },
+        { status: 409 }
+      );
+    }
+
+    if (await wouldCreateCycle(task.id, prerequisite.id)) {
+      return NextResponse.json(
+        { error: "Linking these tasks would create a dependency cycle" },
+        { status: 409 }
+      );
+    }
+
+    await prisma.taskDependency.create({
+      data: { taskId: task.id, prerequisiteId: prerequisite.id },
+    });
+
+    return NextResponse.json(
+      {
+        id: prerequisite.id,
+        title: prerequisite.title,
+        status: prerequisite.status,
+      },
+      { status: 201 }
+    );
+  } catch (error) {
+    console.error("Error linking tasks:", error);
+    return NextResponse.json(
+      { error: "Failed to link tasks" },
+      { status: 500 }
+    );
+  }
+}
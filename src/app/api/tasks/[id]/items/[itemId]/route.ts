@@ -0,0 +1,101 @@
+import { NextRequest, NextResponse } from "next/server";
+import { Prisma } from "@prisma/client";
+import prisma from "../../../../../lib/prisma";
+import { findOwnedTask, getSessionUser } from "../../../../../lib/auth";
+import { validateChecklistText } from "../../../../../lib/taskValidation";
+
+export async function PATCH(
+  request: NextRequest,
+  { params }: { params: { id: string; itemId: string } }
+) {
+  const user = await getSessionUser();
+
+  if (!user) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+  }
+
+  const { text, completed } = await request.json();
+  const data: Prisma.ChecklistItemUpdateInput = {};
+
+  if (text !== undefined) {
+    const textError = validateChecklistText(text);
+    if (textError) {
+      return NextResponse.json({ error: textError }, { status: 400 });
+    }
+    data.text = text.trim();
+  }
+
+  if (completed !== undefined) {
+    if (typeof completed !== "boolean") {
+      return NextResponse.json(
+        { error: "completed must be true or false" },
+        { status: 400 }
+      );
+    }
+    data.completed = completed;
+  }
+
+  try {
+    const task = await findOwnedTask(user.id, params.id);
+
+    if (!task) {
+      return NextResponse.json({ error: "Task not found" }, { status: 404 });
+    }
+
+    const item = await prisma.checklistItem.findFirst({
+      where: { id: params.itemId, taskId: task.id },
+    });
+
+    if (!item) {
+      return NextResponse.json({ error: "Item not found" }, { status: 404 });
+    }
+
+    const updatedItem = await prisma.checklistItem.update({
+      where: { id: item.id },
+      data,
+    });
+
+    return NextResponse.json(updatedItem);
+  } catch (error) {
+    console.error("Error updating checklist item:", error);
+    return NextResponse.json(
+      { error: "Failed to update checklist item" },
+      { status: 500 }
+    );
+  }
+}
+
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: { id: string; itemId: string } }
+) {
+  const user = await getSessionUser();
+
+  if (!user) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+  }
+
+  try {
+    const task = await findOwnedTask(user.id, params.id);
+
+    if (!task) {
+      return NextResponse.json({ error: "Task not found" }, { status: 404 });
+    }
+
+    const { count } = await prisma.checklistItem.deleteMany({
+      where: { id: params.itemId, taskId: task.id },
+    });
+
+    if (count === 0) {
+      return NextResponse.json({ error: "Item not found" }, { status: 404 });
+    }
+
+    return NextResponse.json({ message: "Item deleted successfully" });
+  } catch (error) {
+    console.error("Error deleting checklist item:", error);
+    return NextResponse.json(
+      { error: "Failed to delete checklist item" },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,149 @@
+import { NextRequest, NextResponse } from "next/server";
+import prisma from "../../../../lib/prisma";
+import { findOwnedTask, getSessionUser } from "../../../../lib/auth";
+import { validateChecklistText } from "../../../../lib/taskValidation";
+
+export async function GET(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  const user = await getSessionUser();
+
+  if (!user) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+  }
+
+  try {
+    const task = await findOwnedTask(user.id, params.id);
+
+    if (!task) {
+      return NextResponse.json({ error: "Task not found" }, { status: 404 });
+    }
+
+    const items = await prisma.checklistItem.findMany({
+      where: { taskId: task.id },
+      orderBy: { position: "asc" },
+    });
+
+    return NextResponse.json(items);
+  } catch (error) {
+    console.error("Error fetching checklist items:", error);
+    return NextResponse.json(
+      { error: "Failed to fetch checklist items" },
+      { status: 500 }
+    );
+  }
+}
+
+// Adds an item to the end of the checklist
+export async function POST(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  const user = await getSessionUser();
+
+  if (!user) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+  }
+
+  const { text } = await request.json();
+
+  const textError = validateChecklistText(text);
+  if (textError) {
+    return NextResponse.json({ error: textError }, { status: 400 });
+  }
+
+  try {
+    const task = await findOwnedTask(user.id, params.id);
+
+    if (!task) {
+      return NextResponse.json({ error: "Task not found" }, { status: 404 });
+    }
+
+    const last = await prisma.checklistItem.findFirst({
+      where: { taskId: task.id },
+      orderBy: { position: "desc" },
+    });
+
+    const item = await prisma.checklistItem.create({
+      data: {
+        text: text.trim(),
+        position: last ? last.position + 1 : 0,
+        task: { connect: { id: task.id } },
+      },
+    });
+
+    return NextResponse.json(item, { status: 201 });
+  } catch (error) {
+    console.error("Error creating checklist item:", error);
+    return NextResponse.json(
+      { error: "Failed to create checklist item" },
+      { status: 500 }
+    );
+  }
+}
+
+// Reorders the checklist. The body lists every item id in its new order.
+export async function PUT(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  const user = await getSessionUser();
+
+  if (!user) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+  }
+
+  const { itemIds } = await request.json();
+
+  if (
+    !Array.isArray(itemIds) ||
+    !itemIds.every((id) => typeof id === "string")
+  ) {
+    return NextResponse.json(
+      { error: "itemIds must be an array of item ids" },
+      { status: 400 }
+    );
+  }
+
+  try {
+    const task = await findOwnedTask(user.id, params.id);
+
+    if (!task) {
+      return NextResponse.json({ error: "Task not found" }, { status: 404 });
+    }
+
+    const existing = await prisma.checklistItem.findMany({
+      where: { taskId: task.id },
+      select: { id: true },
+    });
+    const existingIds = new Set(existing.map((item) => item.id));
+
+    if (
+      itemIds.length !== existingIds.size ||
+      !itemIds.every((id: string) => existingIds.has(id))
+    ) {
+      return NextResponse.json(
+        { error: "itemIds must contain each checklist item exactly once" },
+        { status: 400 }
+      );
+    }
+
+    const items = await prisma.$transaction([
+      ...itemIds.map((id: string, position: number) =>
+        prisma.checklistItem.update({
+          where: { id, taskId: task.id },
+          data: { position },
+        })
+      ),
+    ]);
+
+    return NextResponse.json(items);
+  } catch (error) {
+    console.error("Error reordering checklist items:", error);
+    return NextResponse.json(
+      { error: "Failed to reorder checklist items" },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,67 @@
+import { NextRequest, NextResponse } from "next/server";
+import prisma from "../../../../lib/prisma";
+import { findOwnedTask, getSessionUser } from "../../../../lib/auth";
+import { positionAfter } from "../../../../lib/taskPositions";
+
+// Moves the task in the manual order to directly after `afterId`, or to the
+// top when afterId is null. Only this task's position is rewritten.
+export async function PUT(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  const user = await getSessionUser();
+
+  if (!user) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+  }
+
+  const body = await request.json().catch(() => null);
+  const afterId = body?.afterId;
+
+  if (afterId !== null && typeof afterId !== "string") {
+    return NextResponse.json(
+      { error: "afterId must be a task id or null" },
+      { status: 400 }
+    );
+  }
+  if (afterId === params.id) {
+    return NextResponse.json(
+      { error: "A task cannot be placed after itself" },
+      { status: 400 }
+    );
+  }
+
+  try {
+    const task = await findOwnedTask(user.id, params.id);
+
+    if (!task) {
+      return NextResponse.json({ error: "Task not found" }, { status: 404 });
+    }
+
+    const previousTask = afterId ? await findOwnedTask(user.id, afterId) : null;
+
+    if (afterId && !previousTask) {
+      return NextResponse.json(
+        { error: "Task to place after not found" },
+        { status: 404 }
+      );
+    }
+
+    const position = await positionAfter(
+      prisma,
+      user.id,
+      previousTask?.position ?? null,
+      task.id
+    );
+    const updatedTask = await prisma.task.update({
+      where: { id: task.id },
+      data: { position },
+      select: { id: true, position: true },
+    });
+
+    return NextResponse.json(updatedTask);
+  } catch (error) {
+    console.error("Error moving task:", error);
+    return NextResponse.json({ error: "Failed to move task" }, { status: 500 });
+  }
+}
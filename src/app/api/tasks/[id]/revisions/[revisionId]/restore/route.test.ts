@@ -0,0 +1,197 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { NextRequest } from "next/server";
+import { Row, db, session } from "@/test/fakePrisma";
+import { TaskSnapshot } from "@/app/lib/revisionDiff";
+
+vi.mock("@/app/lib/prisma", async () => ({
+  default: (await import("@/test/fakePrisma")).prisma,
+}));
+vi.mock("@/app/api/auth/[...nextauth]/route", () => ({ authOptions: {} }));
+vi.mock("next-auth/next", async () => {
+  const { session } = await import("@/test/fakePrisma");
+  return { getServerSession: async () => ({ user: { id: session.userId } }) };
+});
+
+import { POST } from "./route";
+
+const NOW = new Date("2026-10-19T12:00:00.000Z");
+const DAILY = { type: "daily", interval: 1 } as const;
+
+const task = (id: string, fields: Row = {}): Row => ({
+  id,
+  userId: "alice",
+  title: "Water plants",
+  description: null,
+  dueDate: new Date("2026-10-19T00:00:00.000Z"),
+  hasDueTime: false,
+  priority: null,
+  status: "Not Started",
+  estimatedTime: null,
+  recurrence: null,
+  projectId: null,
+  tagIds: [],
+  position: "a0",
+  deletedAt: null,
+  previousOccurrenceId: null,
+  ...fields,
+});
+
+const snapshot = (fields: Partial<TaskSnapshot>): TaskSnapshot => ({
+  title: "Water plants",
+  description: null,
+  dueDate: "2026-10-19",
+  priority: null,
+  status: "Not Started",
+  estimatedTime: null,
+  recurrence: DAILY,
+  project: null,
+  tags: [],
+  ...fields,
+});
+
+// A revision of "first" whose snapshot is `after`
+const revision = (after: TaskSnapshot) => ({
+  id: "revision",
+  taskId: "first",
+  userId: "alice",
+  changes: {},
+  snapshot: after,
+  restoredFromId: null,
+  createdAt: new Date("2026-10-18T09:00:00.000Z"),
+});
+
+const restore = () =>
+  POST(
+    new NextRequest("http://localhost/api/tasks/first/revisions/revision", {
+      method: "POST",
+      body: JSON.stringify({ state: "after" }),
+    }),
+    { params: { id: "first", revisionId: "revision" } }
+  );
+
+const find = (id: string) => db.task.find((row) => row.id === id)!;
+
+beforeEach(() => {
+  vi.useFakeTimers({ toFake: ["Date"] });
+  vi.setSystemTime(NOW);
+  db.user = [{ id: "alice", name: "Alice", email: "alice@example.com" }];
+  db.tag = [];
+  db.project = [];
+  db.checklistItem = [];
+  db.timeEntry = [];
+  session.userId = "alice";
+});
+
+afterEach(() => {
+  vi.useRealTimers();
+});
+
+describe("restoring a revision", () => {
+  it("completes the task like an edit would", async () => {
+    db.task = [task("first", { status: "In Progress", recurrence: DAILY })];
+    db.taskRevision = [revision(snapshot({ status: "Completed" }))];
+    db.timeEntry = [
+      {
+        id: "entry",
+        taskId: "first",
+        userId: "alice",
+        startedAt: new Date("2026-10-19T11:00:00.000Z"),
+        endedAt: null,
+      },
+    ];
+
+    const response = await restore();
+    expect(response.status).toBe(200);
+    const body = await response.json();
+
+    expect(find("first")).toMatchObject({
+      status: "Completed",
+      recurrence: null,
+    });
+    expect(db.timeEntry[0].endedAt).toEqual(NOW);
+    expect(body.nextOccurrence).toMatchObject({
+      previousOccurrenceId: "first",
+      status: "Not Started",
+      recurrence: DAILY,
+      dueDate: "2026-10-20T00:00:00.000Z",
+    });
+    expect(db.task.filter((row) => row.recurrence !== null)).toHaveLength(1);
+    expect(db.taskRevision[1]).toMatchObject({
+      restoredFromId: "revision",
+      changes: {
+        status: { from: "In Progress", to: "Completed" },
+        recurrence: { from: DAILY, to: null },
+      },
+    });
+  });
+
+  it("leaves the rule with the later occurrence", async () => {
+    // "first" was completed, which moved the rule to "second"
+    db.task = [
+      task("first", { status: "Completed" }),
+      task("second", {
+        recurrence: DAILY,
+        dueDate: new Date("2026-10-20T00:00:00.000Z"),
+        position: "a1",
+        previousOccurrenceId: "first",
+      }),
+    ];
+    db.taskRevision = [revision(snapshot({ status: "In Progress" }))];
+
+    const response = await restore();
+    expect(response.status).toBe(200);
+
+    expect(find("first")).toMatchObject({
+      status: "In Progress",
+      recurrence: null,
+    });
+    expect(db.task.filter((row) => row.recurrence !== null)).toEqual([
+      find("second"),
+    ]);
+  });
+
+  it("doesn't schedule another occurrence once the rule has moved on", async () => {
+    db.task = [
+      task("first", { status: "In Progress" }),
+      task("second", {
+        recurrence: DAILY,
+        position: "a1",
+        previousOccurrenceId: "first",
+      }),
+    ];
+    db.taskRevision = [revision(snapshot({ status: "Completed" }))];
+
+    const response = await restore();
+    expect(response.status).toBe(200);
+    expect((await response.json()).nextOccurrence).toBeNull();
+    expect(find("first").status).toBe("Completed");
+    expect(db.task).toHaveLength(2);
+  });
+
+  it.each([
+    ["2026-10-25", false],
+    ["2026-10-26T00:00:00.000Z", true],
+  ])("restores due date %s with a time: %s", async (dueDate, hasDueTime) => {
+    db.task = [task("first", { hasDueTime: !hasDueTime })];
+    db.taskRevision = [revision(snapshot({ dueDate }))];
+
+    expect((await restore()).status).toBe(200);
+    expect(find("first")).toMatchObject({
+      dueDate: new Date(dueDate),
+      hasDueTime,
+    });
+  });
+
+  it("applies the due date rule", async () => {
+    db.task = [task("first")];
+    db.taskRevision = [revision(snapshot({ dueDate: "2026-08-01" }))];
+    const before = JSON.stringify(db);
+
+    const response = await restore();
+    expect(response.status).toBe(400);
+    expect(await response.json()).toEqual({
+      error: "New due date cannot be in a past month",
+    });
+    expect(JSON.stringify(db)).toBe(before);
+  });
+});
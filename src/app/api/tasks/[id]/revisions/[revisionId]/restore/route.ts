@@ -0,0 +1,140 @@
+import { NextRequest, NextResponse } from "next/server";
+import prisma from "../../../../../../lib/prisma";
+import { findOwnedTask, getSessionUser } from "../../../../../../lib/auth";
+import { recurrenceToJson } from "../../../../../../lib/recurringTasks";
+import { taskDetailInclude } from "../../../../../../lib/taskQuery";
+import { DATE_ONLY_PATTERN } from "../../../../../../lib/taskValidation";
+import {
+  applyTaskUpdate,
+  dueDateChangeError,
+} from "../../../../../../lib/taskUpdates";
+import {
+  RevisionChanges,
+  TaskSnapshot,
+} from "../../../../../../lib/revisionDiff";
+
+// Puts the task back the way it was right after this revision, or with
+// `{ state: "before" }` the way it was just before it. The restore is itself
+// recorded as a new revision, so it can be undone the same way. It is saved
+// like any other edit: the due date rule applies, and restoring a Completed
+// status stops the task's timer and schedules its next occurrence.
+export async function POST(
+  request: NextRequest,
+  { params }: { params: { id: string; revisionId: string } }
+) {
+  const user = await getSessionUser();
+
+  if (!user) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+  }
+
+  const { state = "after" } = await request.json().catch(() => ({}));
+
+  if (state !== "before" && state !== "after") {
+    return NextResponse.json(
+      { error: "State must be 'before' or 'after'" },
+      { status: 400 }
+    );
+  }
+
+  try {
+    const task = await findOwnedTask(user.id, params.id);
+
+    if (!task) {
+      return NextResponse.json({ error: "Task not found" }, { status: 404 });
+    }
+
+    const revision = await prisma.taskRevision.findFirst({
+      where: { id: params.revisionId, taskId: task.id },
+    });
+
+    if (!revision) {
+      return NextResponse.json(
+        { error: "Revision not found" },
+        { status: 404 }
+      );
+    }
+
+    const snapshot = revision.snapshot as unknown as TaskSnapshot;
+    const target: TaskSnapshot =
+      state === "before"
+        ? {
+            ...snapshot,
+            ...Object.fromEntries(
+              Object.entries(revision.changes as RevisionChanges).map(
+                ([field, change]) => [field, change?.from]
+              )
+            ),
+          }
+        : snapshot;
+
+    const dueDate = target.dueDate ? new Date(target.dueDate) : null;
+    const hasDueTime =
+      target.dueDate !== null && !DATE_ONLY_PATTERN.test(target.dueDate);
+    const dueDateError = dueDateChangeError(dueDate, task.dueDate);
+    if (dueDateError) {
+      return NextResponse.json({ error: dueDateError }, { status: 400 });
+    }
+
+    // Tags and projects deleted since then can't come back, and neither can
+    // a recurrence rule that has moved on to a later occurrence: the series
+    // would carry on from two tasks
+    const [tags, project, laterOccurrences] = await Promise.all([
+      prisma.tag.findMany({
+        where: {
+          userId: user.id,
+          id: { in: target.tags.map((tag) => tag.id) },
+        },
+        select: { id: true },
+      }),
+      target.project &&
+        prisma.project.findFirst({
+          where: { id: target.project.id, userId: user.id },
+          select: { id: true },
+        }),
+      prisma.task.count({ where: { previousOccurrenceId: task.id } }),
+    ]);
+
+    const { updatedTask, nextOccurrence } = await prisma.$transaction(
+      async (tx) => {
+        const previousTask = await tx.task.findUniqueOrThrow({
+          where: { id: task.id },
+          include: taskDetailInclude,
+        });
+        return applyTaskUpdate(
+          tx,
+          user.id,
+          previousTask,
+          {
+            title: target.title,
+            description: target.description,
+            dueDate,
+            // An unchanged due date keeps its flag, as with PUT
+            hasDueTime:
+              dueDate?.getTime() === task.dueDate?.getTime()
+                ? undefined
+                : hasDueTime,
+            priority: target.priority,
+            status: target.status,
+            estimatedTime: target.estimatedTime,
+            recurrence:
+              laterOccurrences > 0
+                ? undefined
+                : recurrenceToJson(target.recurrence),
+            project: project ? { connect: project } : { disconnect: true },
+            tags: { set: tags },
+          },
+          revision.id
+        );
+      }
+    );
+
+    return NextResponse.json({ ...updatedTask, nextOccurrence });
+  } catch (error) {
+    console.error("Error restoring revision:", error);
+    return NextResponse.json(
+      { error: "Failed to restore revision" },
+      { status: 500 }
+    );
+  }
+}
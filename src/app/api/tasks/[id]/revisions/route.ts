@@ -0,0 +1,48 @@
+import { NextRequest, NextResponse } from "next/server";
+import prisma from "../../../../lib/prisma";
+import { findOwnedTask, getSessionUser } from "../../../../lib/auth";
+
+// Lists the task's revisions, newest first
+export async function GET(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  const user = await getSessionUser();
+
+  if (!user) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+  }
+
+  try {
+    const task = await findOwnedTask(user.id, params.id);
+
+    if (!task) {
+      return NextResponse.json({ error: "Task not found" }, { status: 404 });
+    }
+
+    const revisions = await prisma.taskRevision.findMany({
+      where: { taskId: task.id },
+      select: {
+        id: true,
+        changes: true,
+        restoredFromId: true,
+        createdAt: true,
+        user: { select: { id: true, name: true, email: true } },
+      },
+      orderBy: { createdAt: "desc" },
+    });
+
+    return NextResponse.json(
+      revisions.map(({ user: author, ...revision }) => ({
+        ...revision,
+        author: { id: author.id, name: author.name ?? author.email },
+      }))
+    );
+  } catch (error) {
+    console.error("Error fetching revisions:", error);
+    return NextResponse.json(
+      { error: "Failed to fetch revisions" },
+      { status: 500 }
+    );
+  }
+}
@@ -1,23 +1,35 @@
 import { NextRequest, NextResponse } from "next/server";
-import { getServerSession } from "next-auth/next";
-import { authOptions } from "@/app/api/auth/[...nextauth]/route";
 import prisma from "../../../lib/prisma";
+import {
+  findOwnedProject,
+  findOwnedTask,
+  getSessionUser,
+  ownedTaskWhere,
+} from "../../../lib/auth";
+import { validateTaskUpdate } from "../../../lib/taskValidation";
+import { recurrenceToJson } from "../../../lib/recurringTasks";
+import { findUnknownTagIds } from "../../../lib/tags";
+import { projectRelation } from "../../../lib/projects";
+import { taskDetailInclude } from "../../../lib/taskQuery";
+import { applyTaskUpdate, dueDateChangeError } from "../../../lib/taskUpdates";
+import { stopRunningTimers } from "../../../lib/timeEntries";
 
 export async function GET(
   request: NextRequest,
   { params }: { params: { id: string } }
 ) {
-  const session = await getServerSession(authOptions);
+  const user = await getSessionUser();
 
-  if (!session) {
+  if (!user) {
     return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
   }
 
   const taskId = params.id;
 
   try {
-    const task = await prisma.task.findUnique({
-      where: { id: taskId },
+    const task = await prisma.task.findFirst({
+      where: ownedTaskWhere(user.id, { id: taskId }),
+      include: taskDetailInclude,
     });
 
     if (!task) {
@@ -38,80 +50,90 @@ export async function PUT(
   request: NextRequest,
   { params }: { params: { id: string } }
 ) {
-  const session = await getServerSession(authOptions);
+  const user = await getSessionUser();
 
-  if (!session) {
+  if (!user) {
     return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
   }
 
   const taskId = params.id;
-  const updatedData = await request.json();
+  const { data: updatedData, errors } = validateTaskUpdate(
+    await request.json()
+  );
 
-  console.log("Updating task:", taskId);
-  console.log("Updated data:", updatedData);
+  if (errors) {
+    return NextResponse.json(
+      { error: Object.values(errors)[0], errors },
+      { status: 400 }
+    );
+  }
 
   try {
     // Fetch the existing task
-    const existingTask = await prisma.task.findUnique({
-      where: { id: taskId },
-    });
+    const existingTask = await findOwnedTask(user.id, taskId);
 
     if (!existingTask) {
       return NextResponse.json({ error: "Task not found" }, { status: 404 });
     }
 
-    // Check if the due date is being updated
-    if (updatedData.dueDate) {
-      const newDueDate = new Date(updatedData.dueDate);
-      const existingDueDate = existingTask.dueDate
-        ? new Date(existingTask.dueDate)
-        : null;
-      const currentDate = new Date();
-
-      // Function to check if two dates are in the same month and year
-      const isSameMonthAndYear = (date1: Date, date2: Date) => {
-        return (
-          date1.getMonth() === date2.getMonth() &&
-          date1.getFullYear() === date2.getFullYear()
-        );
-      };
-
-      // If there's an existing due date, check if the new date is valid
-      if (existingDueDate) {
-        if (
-          newDueDate < existingDueDate &&
-          !isSameMonthAndYear(newDueDate, existingDueDate)
-        ) {
-          return NextResponse.json(
-            { error: "New due date cannot be in a past month" },
-            { status: 400 }
-          );
-        }
-      } else {
-        // If there's no existing due date, don't allow setting to a past date
-        if (newDueDate < currentDate) {
-          return NextResponse.json(
-            { error: "Due date cannot be set to a past date" },
-            { status: 400 }
-          );
-        }
-      }
+    const dueDateError = dueDateChangeError(
+      updatedData.dueDate,
+      existingTask.dueDate
+    );
+    if (dueDateError) {
+      return NextResponse.json(
+        { error: dueDateError, errors: { dueDate: dueDateError } },
+        { status: 400 }
+      );
+    }
 
-      // Ensure the date is in ISO format for Prisma
-      updatedData.dueDate = newDueDate.toISOString();
+    if (
+      updatedData.tags &&
+      (await findUnknownTagIds(user.id, updatedData.tags)).length > 0
+    ) {
+      const tagsError = "Unknown tag selected";
+      return NextResponse.json(
+        { error: tagsError, errors: { tags: tagsError } },
+        { status: 400 }
+      );
     }
 
-    const updatedTask = await prisma.task.update({
-      where: { id: taskId },
-      data: {
-        ...updatedData,
-        updatedAt: new Date(),
-      },
-    });
+    if (
+      updatedData.projectId &&
+      !(await findOwnedProject(user.id, updatedData.projectId))
+    ) {
+      const projectError = "Unknown project selected";
+      return NextResponse.json(
+        { error: projectError, errors: { projectId: projectError } },
+        { status: 400 }
+      );
+    }
 
-    console.log("Task updated:", updatedTask);
+    const { projectId, hasDueTime, ...fields } = updatedData;
+    // Forms send the stored timestamp back for a due date left alone, which
+    // mustn't turn a whole-day due date into one at midnight UTC
+    const isSameDueDate =
+      fields.dueDate?.getTime() === existingTask.dueDate?.getTime();
+
+    const { updatedTask, nextOccurrence } = await prisma.$transaction(
+      async (tx) => {
+        const previousTask = await tx.task.findUniqueOrThrow({
+          where: { id: taskId },
+          include: taskDetailInclude,
+        });
+        return applyTaskUpdate(tx, user.id, previousTask, {
+          ...fields,
+          hasDueTime: isSameDueDate ? undefined : hasDueTime,
+          project: projectRelation(projectId),
+          tags: fields.tags && {
+            set: fields.tags.map((id) => ({ id })),
+          },
+          recurrence: recurrenceToJson(fields.recurrence),
+        });
+      }
+    );
 
-    return NextResponse.json(updatedTask);
+    return NextResponse.json({ ...updatedTask, nextOccurrence });
   } catch (error) {
     console.error("Error updating task:", error);
     if (error instanceof Error) {
@@ -131,33 +153,32 @@ export async function DELETE(
   request: NextRequest,
   { params }: { params: { id: string } }
 ) {
-  const session = await getServerSession(authOptions);
+  const user = await getSessionUser();
 
-  if (!session) {
+  if (!user) {
     return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
   }
 
   const taskId = params.id;
 
   try {
-    const task = await prisma.task.findUnique({
-      where: { id: taskId },
-      include: { user: true },
-    });
+    const task = await findOwnedTask(user.id, taskId);
 
     if (!task) {
       return NextResponse.json({ error: "Task not found" }, { status: 404 });
     }
 
-    if (task.user.email !== session.user?.email) {
-      return NextResponse.json({ error: "Unauthorized" }, { status: 403 });
-    }
-
-    await prisma.task.delete({
-      where: { id: taskId },
+    // Deleted tasks go to the trash; /api/trash purges them for good
+    const now = new Date();
+    await prisma.$transaction(async (tx) => {
+      await tx.task.update({
+        where: { id: taskId, userId: user.id },
+        data: { deletedAt: now },
+      });
+      await stopRunningTimers(tx, user.id, { taskId }, now);
     });
 
-    return NextResponse.json({ message: "Task deleted successfully" });
+    return NextResponse.json({ message: "Task moved to trash" });
   } catch (error) {
     console.error("Error deleting task:", error);
     return NextResponse.json(
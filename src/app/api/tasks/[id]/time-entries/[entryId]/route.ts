@@ -0,0 +1,35 @@
+import { NextRequest, NextResponse } from "next/server";
+import prisma from "../../../../../lib/prisma";
+import { getSessionUser } from "../../../../../lib/auth";
+
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: { id: string; entryId: string } }
+) {
+  const user = await getSessionUser();
+
+  if (!user) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+  }
+
+  try {
+    const { count } = await prisma.timeEntry.deleteMany({
+      where: { id: params.entryId, taskId: params.id, userId: user.id },
+    });
+
+    if (count === 0) {
+      return NextResponse.json(
+        { error: "Time entry not found" },
+        { status: 404 }
+      );
+    }
+
+    return NextResponse.json({ message: "Time entry deleted" });
+  } catch (error) {
+    console.error("Error deleting time entry:", error);
+    return NextResponse.json(
+      { error: "Failed to delete time entry" },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,78 @@
+import { NextRequest, NextResponse } from "next/server";
+import prisma from "../../../../lib/prisma";
+import { findOwnedTask, getSessionUser } from "../../../../lib/auth";
+import { timeEntrySelect } from "../../../../lib/timeEntries";
+import { validateManualTimeEntry } from "../../../../lib/timeTracking";
+
+// Lists the task's time entries, newest first
+export async function GET(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  const user = await getSessionUser();
+
+  if (!user) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+  }
+
+  try {
+    const task = await findOwnedTask(user.id, params.id);
+
+    if (!task) {
+      return NextResponse.json({ error: "Task not found" }, { status: 404 });
+    }
+
+    const entries = await prisma.timeEntry.findMany({
+      where: { taskId: task.id },
+      select: timeEntrySelect,
+      orderBy: { startedAt: "desc" },
+    });
+
+    return NextResponse.json(entries);
+  } catch (error) {
+    console.error("Error fetching time entries:", error);
+    return NextResponse.json(
+      { error: "Failed to fetch time entries" },
+      { status: 500 }
+    );
+  }
+}
+
+// Logs time worked without a timer
+export async function POST(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  const user = await getSessionUser();
+
+  if (!user) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+  }
+
+  const validation = validateManualTimeEntry(await request.json());
+
+  if (validation.error !== null) {
+    return NextResponse.json({ error: validation.error }, { status: 400 });
+  }
+
+  try {
+    const task = await findOwnedTask(user.id, params.id);
+
+    if (!task) {
+      return NextResponse.json({ error: "Task not found" }, { status: 404 });
+    }
+
+    const entry = await prisma.timeEntry.create({
+      data: { ...validation.data, taskId: task.id, userId: user.id },
+      select: timeEntrySelect,
+    });
+
+    return NextResponse.json(entry, { status: 201 });
+  } catch (error) {
+    console.error("Error adding time entry:", error);
+    return NextResponse.json(
+      { error: "Failed to add time entry" },
+      { status: 500 }
+    );
+  }
+}
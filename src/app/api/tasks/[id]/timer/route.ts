@@ -0,0 +1,59 @@
+import { NextRequest, NextResponse } from "next/server";
+import { Prisma } from "@prisma/client";
+import prisma from "../../../../lib/prisma";
+import { findOwnedTask, getSessionUser } from "../../../../lib/auth";
+import {
+  stopRunningTimers,
+  timeEntrySelect,
+} from "../../../../lib/timeEntries";
+
+// Starts a timer on the task. Whatever timer the user had running elsewhere
+// is stopped first, so only one ever runs at a time.
+export async function POST(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  const user = await getSessionUser();
+
+  if (!user) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+  }
+
+  try {
+    const task = await findOwnedTask(user.id, params.id);
+
+    if (!task) {
+      return NextResponse.json({ error: "Task not found" }, { status: 404 });
+    }
+
+    const now = new Date();
+    const entry = await prisma.$transaction(
+      async (tx) => {
+        await stopRunningTimers(tx, user.id, {}, now);
+        return tx.timeEntry.create({
+          data: { taskId: task.id, userId: user.id, startedAt: now },
+          select: timeEntrySelect,
+        });
+      },
+      // Two starts at once must not both see "nothing running"
+      { isolationLevel: Prisma.TransactionIsolationLevel.Serializable }
+    );
+
+    return NextResponse.json(entry, { status: 201 });
+  } catch (error) {
+    if (
+      error instanceof Prisma.PrismaClientKnownRequestError &&
+      error.code === "P2034"
+    ) {
+      return NextResponse.json(
+        { error: "Another timer was started at the same time" },
+        { status: 409 }
+      );
+    }
+    console.error("Error starting timer:", error);
+    return NextResponse.json(
+      { error: "Failed to start timer" },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,51 @@
+import { beforeEach, describe, expect, it, vi } from "vitest";
+import { NextRequest } from "next/server";
+import { db, session } from "@/test/fakePrisma";
+
+vi.mock("@/app/lib/prisma", async () => ({
+  default: (await import("@/test/fakePrisma")).prisma,
+}));
+vi.mock("@/app/api/auth/[...nextauth]/route", () => ({ authOptions: {} }));
+vi.mock("next-auth/next", async () => {
+  const { session } = await import("@/test/fakePrisma");
+  return { getServerSession: async () => ({ user: { id: session.userId } }) };
+});
+
+import { POST } from "./route";
+
+const post = (body: string) =>
+  POST(
+    new NextRequest("http://localhost/api/tasks/bulk", { method: "POST", body })
+  );
+
+beforeEach(() => {
+  db.user = [{ id: "alice", name: "Alice", email: "alice@example.com" }];
+  db.task = [];
+  session.userId = "alice";
+});
+
+describe("bulk task changes", () => {
+  it.each([
+    ["malformed JSON", "{ids:"],
+    ["an empty body", ""],
+    ["null", "null"],
+    ["an array", '["task"]'],
+    ["a string", '"task"'],
+  ])("rejects %s as the body", async (_, body) => {
+    const response = await post(body);
+    expect(response.status).toBe(400);
+    expect(await response.json()).toEqual({
+      message: "Request body must be a JSON object",
+    });
+  });
+
+  it("still checks the ids of an object body", async () => {
+    const response = await post(
+      JSON.stringify({ operation: { type: "delete" } })
+    );
+    expect(response.status).toBe(400);
+    expect(await response.json()).toEqual({
+      message: "Task ids must be a non-empty array",
+    });
+  });
+});
@@ -0,0 +1,211 @@
+import { NextResponse } from "next/server";
+import { Prisma } from "@prisma/client";
+import prisma from "../../../lib/prisma";
+import { getSessionUser, ownedTaskWhere } from "../../../lib/auth";
+import { TASK_PRIORITIES, TASK_STATUSES } from "../../../lib/taskConstants";
+import { findUnknownTagIds } from "../../../lib/tags";
+import { taskDetailInclude } from "../../../lib/taskQuery";
+import { applyTaskUpdate } from "../../../lib/taskUpdates";
+import { validateDueDateChange } from "../../../lib/taskValidation";
+import { stopRunningTimers } from "../../../lib/timeEntries";
+
+const MAX_BULK_IDS = 500;
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Updating hundreds of tasks one by one takes longer than Prisma's 5s default
+const BULK_TIMEOUT_MS = 60 * 1000;
+
+type BulkOperation =
+  | { type: "delete" }
+  | {
+      type: "update";
+      status?: string;
+      priority?: string | null;
+      addTags?: string[];
+      removeTags?: string[];
+      shiftDueDateDays?: number;
+    };
+
+// "invalid" tasks are left unchanged; `error` says why
+interface BulkResult {
+  id: string;
+  result: "deleted" | "updated" | "not_found" | "invalid";
+  error?: string;
+}
+
+const isTagList = (value: unknown): value is string[] =>
+  Array.isArray(value) && value.every((tag) => typeof tag === "string");
+
+// Returns an error message for an invalid operation, or null when it is valid
+const validateOperation = (body: unknown): string | null => {
+  if (!body || typeof body !== "object") {
+    return "Operation is required";
+  }
+  const operation = body as Record<string, unknown>;
+  if (operation.type === "delete") {
+    return null;
+  }
+  if (operation.type !== "update") {
+    return "Operation type must be 'delete' or 'update'";
+  }
+  if (
+    operation.status !== undefined &&
+    !TASK_STATUSES.includes(operation.status as (typeof TASK_STATUSES)[number])
+  ) {
+    return "Invalid status";
+  }
+  if (
+    operation.priority !== undefined &&
+    operation.priority !== null &&
+    !TASK_PRIORITIES.includes(
+      operation.priority as (typeof TASK_PRIORITIES)[number]
+    )
+  ) {
+    return "Invalid priority";
+  }
+  if (operation.addTags !== undefined && !isTagList(operation.addTags)) {
+    return "Invalid tags to add";
+  }
+  if (operation.removeTags !== undefined && !isTagList(operation.removeTags)) {
+    return "Invalid tags to remove";
+  }
+  if (
+    operation.shiftDueDateDays !== undefined &&
+    !Number.isInteger(operation.shiftDueDateDays)
+  ) {
+    return "Due date shift must be a whole number of days";
+  }
+  return null;
+};
+
+// Handle POST requests: apply one operation to many tasks at once
+export async function POST(request: Request) {
+  const user = await getSessionUser();
+  if (!user) {
+    return NextResponse.json({ message: "Unauthorized" }, { status: 401 });
+  }
+
+  const body = await request.json().catch(() => null);
+  if (!body || typeof body !== "object" || Array.isArray(body)) {
+    return NextResponse.json(
+      { message: "Request body must be a JSON object" },
+      { status: 400 }
+    );
+  }
+
+  const { ids, operation } = body;
+
+  if (
+    !Array.isArray(ids) ||
+    ids.length === 0 ||
+    !ids.every((id) => typeof id === "string")
+  ) {
+    return NextResponse.json(
+      { message: "Task ids must be a non-empty array" },
+      { status: 400 }
+    );
+  }
+
+  if (ids.length > MAX_BULK_IDS) {
+    return NextResponse.json(
+      { message: `At most ${MAX_BULK_IDS} tasks can be changed at once` },
+      { status: 400 }
+    );
+  }
+
+  const validationError = validateOperation(operation);
+  if (validationError) {
+    return NextResponse.json({ message: validationError }, { status: 400 });
+  }
+
+  const uniqueIds: string[] = Array.from(new Set(ids));
+  const op = operation as BulkOperation;
+
+  try {
+    if (op.type === "update") {
+      const tagIds = [...(op.addTags ?? []), ...(op.removeTags ?? [])];
+      if ((await findUnknownTagIds(user.id, tagIds)).length > 0) {
+        return NextResponse.json(
+          { message: "Unknown tag selected" },
+          { status: 400 }
+        );
+      }
+    }
+
+    const results = await prisma.$transaction(
+      async (tx) => {
+        const tasks = await tx.task.findMany({
+          where: ownedTaskWhere(user.id, { id: { in: uniqueIds } }),
+          include: taskDetailInclude,
+        });
+        const tasksById = new Map(tasks.map((task) => [task.id, task]));
+        const errorsById = new Map<string, string>();
+
+        if (op.type === "delete") {
+          const now = new Date();
+          const taskIds = tasks.map((task) => task.id);
+          await tx.task.updateMany({
+            where: ownedTaskWhere(user.id, { id: { in: taskIds } }),
+            data: { deletedAt: now },
+          });
+          await stopRunningTimers(
+            tx,
+            user.id,
+            { taskId: { in: taskIds } },
+            now
+          );
+        } else {
+          for (const task of tasks) {
+            // Tasks without a due date have nothing to shift
+            const dueDate =
+              op.shiftDueDateDays && task.dueDate
+                ? new Date(
+                    task.dueDate.getTime() + op.shiftDueDateDays * DAY_MS
+                  )
+                : null;
+            const dueDateError =
+              dueDate && validateDueDateChange(dueDate, task.dueDate);
+            if (dueDateError) {
+              errorsById.set(task.id, dueDateError);
+              continue;
+            }
+
+            const data: Prisma.TaskUpdateInput = {};
+            if (op.status !== undefined) data.status = op.status;
+            if (op.priority !== undefined) data.priority = op.priority;
+            if (op.addTags || op.removeTags) {
+              data.tags = {
+                connect: op.addTags?.map((id) => ({ id })),
+                disconnect: op.removeTags?.map((id) => ({ id })),
+              };
+            }
+            if (dueDate) data.dueDate = dueDate;
+            await applyTaskUpdate(tx, user.id, task, data);
+          }
+        }
+
+        return uniqueIds.map((id): BulkResult => {
+          const error = errorsById.get(id);
+          if (error) return { id, result: "invalid", error };
+          return {
+            id,
+            result: !tasksById.has(id)
+              ? "not_found"
+              : op.type === "delete"
+              ? "deleted"
+              : "updated",
+          };
+        });
+      },
+      { timeout: BULK_TIMEOUT_MS }
+    );
+
+    return NextResponse.json({ results });
+  } catch (error) {
+    console.error("Error applying bulk operation:", error);
+    return NextResponse.json(
+      { message: "Error applying bulk operation" },
+      { status: 500 }
+    );
+  }
+}
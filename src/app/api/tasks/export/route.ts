@@ -0,0 +1,76 @@
+import { NextResponse } from "next/server";
+import prisma from "../../../lib/prisma";
+import { getSessionUser } from "../../../lib/auth";
+import {
+  TaskQuery,
+  TaskQueryError,
+  buildTaskWhere,
+  parseTaskQuery,
+} from "../../../lib/taskQuery";
+import { exportTaskSelect, toExportedTask } from "../../../lib/taskTransfer";
+import {
+  EXPORT_FILE_EXTENSIONS,
+  TRANSFER_FORMATS,
+  TransferFormat,
+  exportTasks,
+} from "../../../lib/taskTransferFormats";
+import { toDateKey } from "../../../lib/planning";
+
+const CONTENT_TYPES: Record<TransferFormat, string> = {
+  csv: "text/csv; charset=utf-8",
+  json: "application/json; charset=utf-8",
+  todotxt: "text/plain; charset=utf-8",
+  markdown: "text/markdown; charset=utf-8",
+};
+
+// Downloads every task matching the same filters as GET /api/tasks, in the
+// user's manual order, as ?format=csv, json, todotxt or markdown
+export async function GET(request: Request) {
+  const user = await getSessionUser();
+  if (!user) {
+    return NextResponse.json({ message: "Unauthorized" }, { status: 401 });
+  }
+
+  const params = new URL(request.url).searchParams;
+  const format = (params.get("format") || "csv") as TransferFormat;
+  if (!TRANSFER_FORMATS.includes(format)) {
+    return NextResponse.json(
+      { message: `Format must be one of ${TRANSFER_FORMATS.join(", ")}` },
+      { status: 400 }
+    );
+  }
+
+  let query: TaskQuery;
+  try {
+    query = parseTaskQuery(params);
+  } catch (error) {
+    if (error instanceof TaskQueryError) {
+      return NextResponse.json({ message: error.message }, { status: 400 });
+    }
+    throw error;
+  }
+
+  try {
+    const tasks = await prisma.task.findMany({
+      where: buildTaskWhere(user.id, query),
+      select: exportTaskSelect,
+      orderBy: [{ position: "asc" }, { id: "asc" }],
+    });
+
+    const filename = `tasks-${toDateKey(new Date())}.${
+      EXPORT_FILE_EXTENSIONS[format]
+    }`;
+    return new NextResponse(exportTasks(tasks.map(toExportedTask), format), {
+      headers: {
+        "Content-Type": CONTENT_TYPES[format],
+        "Content-Disposition": `attachment; filename="${filename}"`,
+      },
+    });
+  } catch (error) {
+    console.error("Error exporting tasks:", error);
+    return NextResponse.json(
+      { message: "Error exporting tasks" },
+      { status: 500 }
+    );
+  }
+}
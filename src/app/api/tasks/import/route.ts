@@ -0,0 +1,75 @@
+import { NextResponse } from "next/server";
+import { getSessionUser } from "../../../lib/auth";
+import { createImportedTasks, prepareImport } from "../../../lib/taskTransfer";
+import {
+  IMPORT_FORMATS,
+  IMPORT_MAX_LENGTH,
+  ImportFormat,
+  ImportFormatError,
+  ImportSummary,
+  parseImportFile,
+} from "../../../lib/taskTransferFormats";
+
+// Imports tasks from { format, content } with the file's text as content.
+// With ?dryRun=true nothing is saved; the response lists what each row would
+// create or why it would be rejected. Otherwise the valid rows are created
+// and the rejected ones reported the same way.
+export async function POST(request: Request) {
+  const user = await getSessionUser();
+  if (!user) {
+    return NextResponse.json({ message: "Unauthorized" }, { status: 401 });
+  }
+
+  const dryRun = new URL(request.url).searchParams.get("dryRun") === "true";
+  const body = await request.json();
+  const { format, content } = (body ?? {}) as Record<string, unknown>;
+
+  if (!IMPORT_FORMATS.includes(format as ImportFormat)) {
+    return NextResponse.json(
+      { message: `Format must be one of ${IMPORT_FORMATS.join(", ")}` },
+      { status: 400 }
+    );
+  }
+  if (typeof content !== "string") {
+    return NextResponse.json(
+      { message: "Content must be the file's text" },
+      { status: 400 }
+    );
+  }
+  if (content.length > IMPORT_MAX_LENGTH) {
+    return NextResponse.json(
+      { message: "The file is too large to import" },
+      { status: 400 }
+    );
+  }
+
+  let parsed: ReturnType<typeof parseImportFile>;
+  try {
+    parsed = parseImportFile(format as ImportFormat, content);
+  } catch (error) {
+    if (error instanceof ImportFormatError) {
+      return NextResponse.json({ message: error.message }, { status: 400 });
+    }
+    throw error;
+  }
+
+  try {
+    const prepared = await prepareImport(user.id, parsed.records);
+    const created = dryRun
+      ? 0
+      : await createImportedTasks(user.id, prepared.tasks);
+
+    const summary: ImportSummary = {
+      rows: prepared.rows,
+      created,
+      ignoredColumns: parsed.ignoredColumns,
+    };
+    return NextResponse.json(summary, { status: created > 0 ? 201 : 200 });
+  } catch (error) {
+    console.error("Error importing tasks:", error);
+    return NextResponse.json(
+      { message: "Error importing tasks" },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,358 @@
+import { beforeEach, describe, expect, it, vi } from "vitest";
+import { NextRequest } from "next/server";
+import { Row, db, session } from "@/test/fakePrisma";
+
+// Every task and trash route must treat another user's task as missing. The
+// routes run against the in-memory Prisma stand-in; a query it doesn't
+// understand throws, failing the test with a 500.
+
+vi.mock("@/app/lib/prisma", async () => ({
+  default: (await import("@/test/fakePrisma")).prisma,
+}));
+vi.mock("@/app/api/auth/[...nextauth]/route", () => ({ authOptions: {} }));
+vi.mock("next-auth/next", async () => {
+  const { session } = await import("@/test/fakePrisma");
+  return { getServerSession: async () => ({ user: { id: session.userId } }) };
+});
+
+import * as taskRoute from "./[id]/route";
+import * as itemsRoute from "./[id]/items/route";
+import * as itemRoute from "./[id]/items/[itemId]/route";
+import * as commentsRoute from "./[id]/comments/route";
+import * as commentRoute from "./[id]/comments/[commentId]/route";
+import * as dependenciesRoute from "./[id]/dependencies/route";
+import * as dependencyRoute from "./[id]/dependencies/[prerequisiteId]/route";
+import * as positionRoute from "./[id]/position/route";
+import * as revisionsRoute from "./[id]/revisions/route";
+import * as restoreRoute from "./[id]/revisions/[revisionId]/restore/route";
+import * as timeEntriesRoute from "./[id]/time-entries/route";
+import * as timeEntryRoute from "./[id]/time-entries/[entryId]/route";
+import * as timerRoute from "./[id]/timer/route";
+import * as bulkRoute from "./bulk/route";
+import * as exportRoute from "./export/route";
+import * as trashRoute from "../trash/route";
+import * as trashedTaskRoute from "../trash/[id]/route";
+import * as trashRestoreRoute from "../trash/[id]/restore/route";
+
+const request = (
+  method: string,
+  body?: unknown,
+  url = "http://localhost/api/tasks"
+) =>
+  new NextRequest(url, {
+    method,
+    body: body === undefined ? undefined : JSON.stringify(body),
+  });
+
+const YESTERDAY = new Date("2026-10-18T12:00:00.000Z");
+
+const task = (id: string, userId: string, fields: Row = {}): Row => ({
+  id,
+  userId,
+  title: `Task ${id}`,
+  description: null,
+  dueDate: null,
+  priority: null,
+  status: "Not Started",
+  estimatedTime: null,
+  recurrence: null,
+  projectId: null,
+  tagIds: [],
+  position: id,
+  createdAt: new Date("2026-10-01T09:00:00.000Z"),
+  deletedAt: null,
+  ...fields,
+});
+
+beforeEach(() => {
+  db.user = [
+    { id: "alice", name: "Alice", email: "alice@example.com" },
+    { id: "bob", name: "Bob", email: "bob@example.com" },
+  ].map((user) => ({ ...user, trashRetentionDays: 30 }));
+  db.task = [
+    task("alice-task", "alice"),
+    task("alice-trashed", "alice", { deletedAt: YESTERDAY }),
+    task("bob-task", "bob"),
+    task("bob-prerequisite", "bob"),
+    task("bob-trashed", "bob", { deletedAt: YESTERDAY }),
+  ];
+  db.checklistItem = [
+    { id: "alice-item", taskId: "alice-task", text: "a", position: 0 },
+    { id: "bob-item", taskId: "bob-task", text: "b", position: 0 },
+  ];
+  db.comment = [
+    {
+      id: "bob-comment",
+      taskId: "bob-task",
+      userId: "bob",
+      body: "Mine",
+      createdAt: YESTERDAY,
+      updatedAt: YESTERDAY,
+    },
+  ];
+  db.taskDependency = [
+    { taskId: "bob-task", prerequisiteId: "bob-prerequisite" },
+  ];
+  db.taskRevision = [
+    {
+      id: "bob-revision",
+      taskId: "bob-task",
+      userId: "bob",
+      changes: { title: { from: "Old title", to: "Task bob-task" } },
+      snapshot: { title: "Task bob-task", tags: [], project: null },
+    },
+  ];
+  db.timeEntry = [
+    {
+      id: "bob-entry",
+      taskId: "bob-task",
+      userId: "bob",
+      startedAt: new Date("2026-10-18T09:00:00.000Z"),
+      endedAt: null,
+    },
+  ];
+  db.tag = [];
+  db.project = [];
+  session.userId = "alice";
+});
+
+// Alice acts on Bob's rows, which must come out untouched. Nothing of hers
+// changes either, since every one of these calls is refused.
+const snapshotDb = () => JSON.stringify(db);
+
+const taskIds = () => db.task.map((row) => row.id);
+
+describe("task routes across users", () => {
+  const bob = { params: { id: "bob-task" } };
+  const alice = { params: { id: "alice-task" } };
+  const bobItem = { params: { id: "bob-task", itemId: "bob-item" } };
+  const bobComment = { params: { id: "bob-task", commentId: "bob-comment" } };
+  const bobDependency = {
+    params: { id: "bob-task", prerequisiteId: "bob-prerequisite" },
+  };
+  const bobRevision = {
+    params: { id: "bob-task", revisionId: "bob-revision" },
+  };
+  const bobEntry = { params: { id: "bob-task", entryId: "bob-entry" } };
+  const bobTrashed = { params: { id: "bob-trashed" } };
+
+  // So the 404s below come from the ownership checks, not the fake
+  it.each([
+    ["task", () => taskRoute.GET(request("GET"), bob)],
+    ["items", () => itemsRoute.GET(request("GET"), bob)],
+    ["comments", () => commentsRoute.GET(request("GET"), bob)],
+    ["dependencies", () => dependenciesRoute.GET(request("GET"), bob)],
+    ["revisions", () => revisionsRoute.GET(request("GET"), bob)],
+    ["time entries", () => timeEntriesRoute.GET(request("GET"), bob)],
+  ])("lets the owner read their %s", async (_, call) => {
+    session.userId = "bob";
+    const response = await call();
+    expect(response.status).toBe(200);
+  });
+
+  it("bulk deletes only the caller's own tasks", async () => {
+    const response = await bulkRoute.POST(
+      request("POST", {
+        ids: ["alice-task", "bob-task"],
+        operation: { type: "delete" },
+      })
+    );
+    expect(await response.json()).toEqual({
+      results: [
+        { id: "alice-task", result: "deleted" },
+        { id: "bob-task", result: "not_found" },
+      ],
+    });
+    const deleted = db.task.filter((row) => row.deletedAt !== null);
+    expect(deleted.map((row) => row.id)).toEqual([
+      "alice-task",
+      "alice-trashed",
+      "bob-trashed",
+    ]);
+  });
+
+  it.each([
+    ["GET task", () => taskRoute.GET(request("GET"), bob)],
+    [
+      "PUT task",
+      () => taskRoute.PUT(request("PUT", { title: "Mine now" }), bob),
+    ],
+    ["DELETE task", () => taskRoute.DELETE(request("DELETE"), bob)],
+    ["GET items", () => itemsRoute.GET(request("GET"), bob)],
+    [
+      "POST item",
+      () => itemsRoute.POST(request("POST", { text: "Sneaky" }), bob),
+    ],
+    [
+      "PUT item order",
+      () => itemsRoute.PUT(request("PUT", { itemIds: ["bob-item"] }), bob),
+    ],
+    [
+      "PATCH item",
+      () => itemRoute.PATCH(request("PATCH", { completed: true }), bobItem),
+    ],
+    ["DELETE item", () => itemRoute.DELETE(request("DELETE"), bobItem)],
+    [
+      "PATCH item through own task",
+      () =>
+        itemRoute.PATCH(request("PATCH", { text: "Sneaky" }), {
+          params: { id: "alice-task", itemId: "bob-item" },
+        }),
+    ],
+    [
+      "DELETE item through own task",
+      () =>
+        itemRoute.DELETE(request("DELETE"), {
+          params: { id: "alice-task", itemId: "bob-item" },
+        }),
+    ],
+    ["GET comments", () => commentsRoute.GET(request("GET"), bob)],
+    [
+      "POST comment",
+      () => commentsRoute.POST(request("POST", { body: "Sneaky" }), bob),
+    ],
+    [
+      "PATCH comment",
+      () =>
+        commentRoute.PATCH(request("PATCH", { body: "Sneaky" }), bobComment),
+    ],
+    [
+      "DELETE comment",
+      () => commentRoute.DELETE(request("DELETE"), bobComment),
+    ],
+    [
+      "PATCH comment through own task",
+      () =>
+        commentRoute.PATCH(request("PATCH", { body: "Sneaky" }), {
+          params: { id: "alice-task", commentId: "bob-comment" },
+        }),
+    ],
+    ["GET dependencies", () => dependenciesRoute.GET(request("GET"), bob)],
+    [
+      "POST dependency",
+      () =>
+        dependenciesRoute.POST(
+          request("POST", { prerequisiteId: "alice-task" }),
+          bob
+        ),
+    ],
+    [
+      "POST dependency on Bob's prerequisite",
+      () =>
+        dependenciesRoute.POST(
+          request("POST", { prerequisiteId: "bob-prerequisite" }),
+          alice
+        ),
+    ],
+    [
+      "DELETE dependency",
+      () => dependencyRoute.DELETE(request("DELETE"), bobDependency),
+    ],
+    [
+      "DELETE dependency through own task",
+      () =>
+        dependencyRoute.DELETE(request("DELETE"), {
+          params: { id: "alice-task", prerequisiteId: "bob-prerequisite" },
+        }),
+    ],
+    [
+      "PUT position",
+      () => positionRoute.PUT(request("PUT", { afterId: null }), bob),
+    ],
+    [
+      "PUT position after Bob's task",
+      () => positionRoute.PUT(request("PUT", { afterId: "bob-task" }), alice),
+    ],
+    ["GET revisions", () => revisionsRoute.GET(request("GET"), bob)],
+    [
+      "POST revision restore",
+      () => restoreRoute.POST(request("POST", {}), bobRevision),
+    ],
+    [
+      "POST revision restore through own task",
+      () =>
+        restoreRoute.POST(request("POST", {}), {
+          params: { id: "alice-task", revisionId: "bob-revision" },
+        }),
+    ],
+    ["GET time entries", () => timeEntriesRoute.GET(request("GET"), bob)],
+    [
+      "POST time entry",
+      () =>
+        timeEntriesRoute.POST(
+          request("POST", {
+            startedAt: "2026-10-18T09:00:00.000Z",
+            endedAt: "2026-10-18T10:00:00.000Z",
+          }),
+          bob
+        ),
+    ],
+    [
+      "DELETE time entry",
+      () => timeEntryRoute.DELETE(request("DELETE"), bobEntry),
+    ],
+    [
+      "DELETE time entry through own task",
+      () =>
+        timeEntryRoute.DELETE(request("DELETE"), {
+          params: { id: "alice-task", entryId: "bob-entry" },
+        }),
+    ],
+    ["POST timer", () => timerRoute.POST(request("POST"), bob)],
+    [
+      "POST trash restore",
+      () => trashRestoreRoute.POST(request("POST"), bobTrashed),
+    ],
+    [
+      "DELETE trashed task",
+      () => trashedTaskRoute.DELETE(request("DELETE"), bobTrashed),
+    ],
+  ])("answers 404 to %s", async (_, call) => {
+    const snapshot = snapshotDb();
+    const response = await call();
+    expect(response.status).toBe(404);
+    expect(snapshotDb()).toBe(snapshot);
+  });
+
+  it.each([
+    { type: "delete" },
+    { type: "update", status: "Completed", priority: "High" },
+  ])("reports Bob's task as not found in a bulk $type", async (operation) => {
+    const snapshot = snapshotDb();
+    const response = await bulkRoute.POST(
+      request("POST", { ids: ["bob-task"], operation })
+    );
+    expect(response.status).toBe(200);
+    expect(await response.json()).toEqual({
+      results: [{ id: "bob-task", result: "not_found" }],
+    });
+    expect(snapshotDb()).toBe(snapshot);
+  });
+
+  it("exports only the caller's tasks", async () => {
+    const response = await exportRoute.GET(
+      request("GET", undefined, "http://localhost/api/tasks/export?format=json")
+    );
+    expect(response.status).toBe(200);
+    const { tasks } = await response.json();
+    expect(tasks.map((row: Row) => row.title)).toEqual(["Task alice-task"]);
+  });
+
+  it("lists only the caller's trash", async () => {
+    const response = await trashRoute.GET();
+    expect(response.status).toBe(200);
+    const { tasks } = await response.json();
+    expect(tasks.map((row: Row) => row.id)).toEqual(["alice-trashed"]);
+  });
+
+  it("empties only the caller's trash", async () => {
+    const response = await trashRoute.DELETE();
+    expect(await response.json()).toEqual({ deleted: 1 });
+    expect(taskIds()).toEqual([
+      "alice-task",
+      "bob-task",
+      "bob-prerequisite",
+      "bob-trashed",
+    ]);
+  });
+});
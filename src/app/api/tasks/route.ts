@@ -1,41 +1,43 @@
 import { NextResponse } from "next/server";
-import { getServerSession } from "next-auth/next";
-import { authOptions } from "../auth/[...nextauth]/route";
 import prisma from "../../lib/prisma";
+import { findOwnedProject, getSessionUser } from "../../lib/auth";
+import { validateTaskCreate } from "../../lib/taskValidation";
+import { recurrenceToJson } from "../../lib/recurringTasks";
+import { findUnknownTagIds, tagSelect } from "../../lib/tags";
+import { projectRelation } from "../../lib/projects";
+import { firstPosition } from "../../lib/taskPositions";
+import {
+  TaskQuery,
+  TaskQueryError,
+  findTasksPage,
+  parseTaskQuery,
+} from "../../lib/taskQuery";
 
 // Handle GET requests
 export async function GET(request: Request) {
-  const session = await getServerSession(authOptions);
-  if (!session || !session.user?.email) {
+  const user = await getSessionUser();
+  if (!user) {
     return NextResponse.json({ message: "Unauthorized" }, { status: 401 });
   }
 
+  let query: TaskQuery;
   try {
-    const user = await prisma.user.findUnique({
-      where: { email: session.user.email },
-    });
-
-    if (!user) {
-      return NextResponse.json({ message: "User not found" }, { status: 404 });
+    query = parseTaskQuery(new URL(request.url).searchParams);
+  } catch (error) {
+    if (error instanceof TaskQueryError) {
+      return NextResponse.json({ message: error.message }, { status: 400 });
     }
+    throw error;
+  }
 
-    const tasks = await prisma.task.findMany({
-      where: { userId: user.id },
-      select: {
-        id: true,
-        title: true,
-        createdAt: true,
-        updatedAt: true,
-        dueDate: true,
-        priority: true,
-        status: true,
-        tags: true,
-      },
-      orderBy: { createdAt: "desc" },
-    });
+  try {
+    const page = await findTasksPage(user.id, query);
 
-    return NextResponse.json(tasks);
+    return NextResponse.json(page);
   } catch (error) {
+    if (error instanceof TaskQueryError) {
+      return NextResponse.json({ message: error.message }, { status: 400 });
+    }
     console.error("Error fetching tasks:", error);
     return NextResponse.json(
       { message: "Error fetching tasks" },
@@ -46,49 +48,48 @@ export async function GET(request: Request) {
 
 // Handle POST requests
 export async function POST(request: Request) {
-  const session = await getServerSession(authOptions);
-  if (!session || !session.user?.email) {
+  const user = await getSessionUser();
+  if (!user) {
     return NextResponse.json({ message: "Unauthorized" }, { status: 401 });
   }
 
-  const { title, description, dueDate, priority, status, tags } =
-    await request.json();
+  const { data, errors } = validateTaskCreate(await request.json());
 
-  // Validate required fields
-  if (!title || title.trim() === "") {
+  if (errors) {
     return NextResponse.json(
-      { message: "Task title is required" },
-      { status: 400 }
-    );
-  }
-
-  // Validate tags
-  if (tags && !Array.isArray(tags)) {
-    return NextResponse.json(
-      { message: "Tags must be an array" },
+      { message: Object.values(errors)[0], errors },
       { status: 400 }
     );
   }
 
   try {
-    const user = await prisma.user.findUnique({
-      where: { email: session.user.email },
-    });
+    if ((await findUnknownTagIds(user.id, data.tags)).length > 0) {
+      const tagsError = "Unknown tag selected";
+      return NextResponse.json(
+        { message: tagsError, errors: { tags: tagsError } },
+        { status: 400 }
+      );
+    }
 
-    if (!user) {
-      return NextResponse.json({ message: "User not found" }, { status: 404 });
+    if (data.projectId && !(await findOwnedProject(user.id, data.projectId))) {
+      const projectError = "Unknown project selected";
+      return NextResponse.json(
+        { message: projectError, errors: { projectId: projectError } },
+        { status: 400 }
+      );
     }
 
+    const { projectId, ...fields } = data;
     const task = await prisma.task.create({
       data: {
-        title: title.trim(),
-        description: description ? description.trim() : null,
-        dueDate: dueDate ? new Date(dueDate) : null,
-        priority,
-        status,
-        tags: tags || [],
+        ...fields,
+        project: projectRelation(projectId),
+        tags: { connect: fields.tags.map((id) => ({ id })) },
+        recurrence: recurrenceToJson(fields.recurrence),
+        position: await firstPosition(prisma, user.id),
         user: { connect: { id: user.id } },
       },
+      include: { tags: { select: tagSelect } },
     });
 
     return NextResponse.json(task, { status: 201 });
@@ -0,0 +1,28 @@
+import { NextResponse } from "next/server";
+import prisma from "../../lib/prisma";
+import { getSessionUser } from "../../lib/auth";
+import { timeEntrySelect } from "../../lib/timeEntries";
+
+// The user's running timer, or null
+export async function GET() {
+  const user = await getSessionUser();
+
+  if (!user) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+  }
+
+  try {
+    const entry = await prisma.timeEntry.findFirst({
+      where: { userId: user.id, endedAt: null },
+      select: timeEntrySelect,
+    });
+
+    return NextResponse.json({ entry });
+  } catch (error) {
+    console.error("Error fetching timer:", error);
+    return NextResponse.json(
+      { error: "Failed to fetch timer" },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,48 @@
+import { NextRequest, NextResponse } from "next/server";
+import prisma from "../../../lib/prisma";
+import { getSessionUser } from "../../../lib/auth";
+import { timeEntrySelect } from "../../../lib/timeEntries";
+import { validateTimeEntryNote } from "../../../lib/timeTracking";
+
+// Stops the user's running timer, optionally attaching a note to the entry
+export async function POST(request: NextRequest) {
+  const user = await getSessionUser();
+
+  if (!user) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+  }
+
+  const { note } = await request.json().catch(() => ({}));
+  const noteResult = validateTimeEntryNote(note);
+
+  if ("error" in noteResult) {
+    return NextResponse.json({ error: noteResult.error }, { status: 400 });
+  }
+
+  try {
+    const running = await prisma.timeEntry.findFirst({
+      where: { userId: user.id, endedAt: null },
+    });
+
+    if (!running) {
+      return NextResponse.json(
+        { error: "No timer is running" },
+        { status: 404 }
+      );
+    }
+
+    const entry = await prisma.timeEntry.update({
+      where: { id: running.id },
+      data: { endedAt: new Date(), note: noteResult.value ?? running.note },
+      select: timeEntrySelect,
+    });
+
+    return NextResponse.json(entry);
+  } catch (error) {
+    console.error("Error stopping timer:", error);
+    return NextResponse.json(
+      { error: "Failed to stop timer" },
+      { status: 500 }
+    );
+  }
+}
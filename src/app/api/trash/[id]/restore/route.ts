@@ -0,0 +1,34 @@
+import { NextRequest, NextResponse } from "next/server";
+import prisma from "../../../../lib/prisma";
+import { getSessionUser, trashedTaskWhere } from "../../../../lib/auth";
+
+// Moves a task out of the trash
+export async function POST(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  const user = await getSessionUser();
+
+  if (!user) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+  }
+
+  try {
+    const { count } = await prisma.task.updateMany({
+      where: trashedTaskWhere(user.id, { id: params.id }),
+      data: { deletedAt: null },
+    });
+
+    if (count === 0) {
+      return NextResponse.json({ error: "Task not found" }, { status: 404 });
+    }
+
+    return NextResponse.json({ message: "Task restored" });
+  } catch (error) {
+    console.error("Error restoring task:", error);
+    return NextResponse.json(
+      { error: "Failed to restore task" },
+      { status: 500 }
+    );
+  }
+}
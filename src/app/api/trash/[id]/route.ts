@@ -0,0 +1,33 @@
+import { NextRequest, NextResponse } from "next/server";
+import prisma from "../../../lib/prisma";
+import { getSessionUser, trashedTaskWhere } from "../../../lib/auth";
+
+// Permanently deletes a trashed task
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  const user = await getSessionUser();
+
+  if (!user) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+  }
+
+  try {
+    const { count } = await prisma.task.deleteMany({
+      where: trashedTaskWhere(user.id, { id: params.id }),
+    });
+
+    if (count === 0) {
+      return NextResponse.json({ error: "Task not found" }, { status: 404 });
+    }
+
+    return NextResponse.json({ message: "Task permanently deleted" });
+  } catch (error) {
+    console.error("Error deleting task permanently:", error);
+    return NextResponse.json(
+      { error: "Failed to delete task" },
+      { status: 500 }
+    );
+  }
+}
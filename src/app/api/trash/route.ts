@@ -0,0 +1,75 @@
+import { NextResponse } from "next/server";
+import prisma from "../../lib/prisma";
+import { getSessionUser, trashedTaskWhere } from "../../lib/auth";
+import { purgeDate, purgeExpiredTrash } from "../../lib/trash";
+
+// Lists the user's trashed tasks, most recently deleted first, with the date
+// each one will be purged
+export async function GET() {
+  const user = await getSessionUser();
+
+  if (!user) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+  }
+
+  try {
+    await purgeExpiredTrash(user.id);
+
+    const [{ trashRetentionDays }, tasks] = await Promise.all([
+      prisma.user.findUniqueOrThrow({
+        where: { id: user.id },
+        select: { trashRetentionDays: true },
+      }),
+      prisma.task.findMany({
+        where: trashedTaskWhere(user.id),
+        select: {
+          id: true,
+          title: true,
+          status: true,
+          priority: true,
+          dueDate: true,
+          deletedAt: true,
+          project: { select: { id: true, name: true, color: true } },
+        },
+        orderBy: { deletedAt: "desc" },
+      }),
+    ]);
+
+    return NextResponse.json({
+      retentionDays: trashRetentionDays,
+      tasks: tasks.map((task) => ({
+        ...task,
+        purgeAt: purgeDate(task.deletedAt!, trashRetentionDays),
+      })),
+    });
+  } catch (error) {
+    console.error("Error fetching trash:", error);
+    return NextResponse.json(
+      { error: "Failed to fetch trash" },
+      { status: 500 }
+    );
+  }
+}
+
+// Empties the trash
+export async function DELETE() {
+  const user = await getSessionUser();
+
+  if (!user) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+  }
+
+  try {
+    const { count } = await prisma.task.deleteMany({
+      where: trashedTaskWhere(user.id),
+    });
+
+    return NextResponse.json({ deleted: count });
+  } catch (error) {
+    console.error("Error emptying trash:", error);
+    return NextResponse.json(
+      { error: "Failed to empty trash" },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,78 @@
+import { NextResponse } from "next/server";
+import { randomBytes } from "crypto";
+import prisma from "../../../lib/prisma";
+import { getSessionUser } from "../../../lib/auth";
+
+// 32 URL-safe characters; the token is the only thing guarding the feed
+const generateFeedToken = () => randomBytes(24).toString("base64url");
+
+export async function GET() {
+  const user = await getSessionUser();
+
+  if (!user) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+  }
+
+  try {
+    const { calendarFeedToken } = await prisma.user.findUniqueOrThrow({
+      where: { id: user.id },
+      select: { calendarFeedToken: true },
+    });
+
+    return NextResponse.json({ token: calendarFeedToken });
+  } catch (error) {
+    console.error("Error fetching calendar feed:", error);
+    return NextResponse.json(
+      { error: "Failed to fetch calendar feed" },
+      { status: 500 }
+    );
+  }
+}
+
+// Creates the feed token, or replaces it so the old URL stops working
+export async function POST() {
+  const user = await getSessionUser();
+
+  if (!user) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+  }
+
+  try {
+    const { calendarFeedToken } = await prisma.user.update({
+      where: { id: user.id },
+      data: { calendarFeedToken: generateFeedToken() },
+      select: { calendarFeedToken: true },
+    });
+
+    return NextResponse.json({ token: calendarFeedToken }, { status: 201 });
+  } catch (error) {
+    console.error("Error creating calendar feed:", error);
+    return NextResponse.json(
+      { error: "Failed to create calendar feed" },
+      { status: 500 }
+    );
+  }
+}
+
+export async function DELETE() {
+  const user = await getSessionUser();
+
+  if (!user) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+  }
+
+  try {
+    await prisma.user.update({
+      where: { id: user.id },
+      data: { calendarFeedToken: null },
+    });
+
+    return NextResponse.json({ token: null });
+  } catch (error) {
+    console.error("Error revoking calendar feed:", error);
+    return NextResponse.json(
+      { error: "Failed to revoke calendar feed" },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,66 @@
+import { NextRequest, NextResponse } from "next/server";
+import { Prisma } from "@prisma/client";
+import prisma from "../../../lib/prisma";
+import { getSessionUser } from "../../../lib/auth";
+import { validatePreferences } from "../../../lib/preferencesValidation";
+
+const preferencesSelect = {
+  trashRetentionDays: true,
+  dailyCapacityMinutes: true,
+  boardWipLimits: true,
+  weekStartsOn: true,
+  keyBindings: true,
+} satisfies Prisma.UserSelect;
+
+export async function GET() {
+  const user = await getSessionUser();
+
+  if (!user) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+  }
+
+  try {
+    const preferences = await prisma.user.findUniqueOrThrow({
+      where: { id: user.id },
+      select: preferencesSelect,
+    });
+
+    return NextResponse.json(preferences);
+  } catch (error) {
+    console.error("Error fetching preferences:", error);
+    return NextResponse.json(
+      { error: "Failed to fetch preferences" },
+      { status: 500 }
+    );
+  }
+}
+
+export async function PATCH(request: NextRequest) {
+  const user = await getSessionUser();
+
+  if (!user) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+  }
+
+  const validation = validatePreferences(await request.json());
+
+  if (validation.error !== null) {
+    return NextResponse.json({ error: validation.error }, { status: 400 });
+  }
+
+  try {
+    const preferences = await prisma.user.update({
+      where: { id: user.id },
+      data: validation.data,
+      select: preferencesSelect,
+    });
+
+    return NextResponse.json(preferences);
+  } catch (error) {
+    console.error("Error updating preferences:", error);
+    return NextResponse.json(
+      { error: "Failed to update preferences" },
+      { status: 500 }
+    );
+  }
+}
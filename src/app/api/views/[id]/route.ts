@@ -0,0 +1,124 @@
+import { NextRequest, NextResponse } from "next/server";
+import { Prisma } from "@prisma/client";
+import prisma from "../../../lib/prisma";
+import { getSessionUser } from "../../../lib/auth";
+import { findUnknownTagIds } from "../../../lib/tags";
+import { validateSavedViewInput } from "../../../lib/savedViewValidation";
+import { savedViewSelect, toSavedViewSummary } from "../../../lib/savedViews";
+
+export async function GET(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  const user = await getSessionUser();
+
+  if (!user) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+  }
+
+  try {
+    const view = await prisma.savedView.findFirst({
+      where: { id: params.id, userId: user.id },
+      select: savedViewSelect,
+    });
+
+    if (!view) {
+      return NextResponse.json({ error: "View not found" }, { status: 404 });
+    }
+
+    return NextResponse.json(toSavedViewSummary(view));
+  } catch (error) {
+    console.error("Error fetching saved view:", error);
+    return NextResponse.json(
+      { error: "Failed to fetch saved view" },
+      { status: 500 }
+    );
+  }
+}
+
+// Renames a view or replaces its settings
+export async function PATCH(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  const user = await getSessionUser();
+
+  if (!user) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+  }
+
+  const validation = validateSavedViewInput(await request.json(), true);
+
+  if (validation.error !== null) {
+    return NextResponse.json({ error: validation.error }, { status: 400 });
+  }
+
+  const { filters, ...fields } = validation.data;
+
+  try {
+    const view = await prisma.savedView.findFirst({
+      where: { id: params.id, userId: user.id },
+      select: { id: true },
+    });
+
+    if (!view) {
+      return NextResponse.json({ error: "View not found" }, { status: 404 });
+    }
+
+    if (
+      filters &&
+      (await findUnknownTagIds(user.id, filters.tags)).length > 0
+    ) {
+      return NextResponse.json(
+        { error: "Unknown tag selected" },
+        { status: 400 }
+      );
+    }
+
+    const updatedView = await prisma.savedView.update({
+      where: { id: view.id },
+      data: {
+        ...fields,
+        filters: filters && (filters as unknown as Prisma.InputJsonObject),
+      },
+      select: savedViewSelect,
+    });
+
+    return NextResponse.json(toSavedViewSummary(updatedView));
+  } catch (error) {
+    console.error("Error updating saved view:", error);
+    return NextResponse.json(
+      { error: "Failed to update saved view" },
+      { status: 500 }
+    );
+  }
+}
+
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  const user = await getSessionUser();
+
+  if (!user) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+  }
+
+  try {
+    const { count } = await prisma.savedView.deleteMany({
+      where: { id: params.id, userId: user.id },
+    });
+
+    if (count === 0) {
+      return NextResponse.json({ error: "View not found" }, { status: 404 });
+    }
+
+    return NextResponse.json({ message: "View deleted successfully" });
+  } catch (error) {
+    console.error("Error deleting saved view:", error);
+    return NextResponse.json(
+      { error: "Failed to delete saved view" },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,76 @@
+import { NextRequest, NextResponse } from "next/server";
+import { Prisma } from "@prisma/client";
+import prisma from "../../lib/prisma";
+import { getSessionUser } from "../../lib/auth";
+import { findUnknownTagIds } from "../../lib/tags";
+import {
+  SavedViewInput,
+  validateSavedViewInput,
+} from "../../lib/savedViewValidation";
+import { savedViewSelect, toSavedViewSummary } from "../../lib/savedViews";
+
+export async function GET() {
+  const user = await getSessionUser();
+
+  if (!user) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+  }
+
+  try {
+    const views = await prisma.savedView.findMany({
+      where: { userId: user.id },
+      select: savedViewSelect,
+      orderBy: { name: "asc" },
+    });
+
+    return NextResponse.json(views.map(toSavedViewSummary));
+  } catch (error) {
+    console.error("Error fetching saved views:", error);
+    return NextResponse.json(
+      { error: "Failed to fetch saved views" },
+      { status: 500 }
+    );
+  }
+}
+
+export async function POST(request: NextRequest) {
+  const user = await getSessionUser();
+
+  if (!user) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+  }
+
+  const validation = validateSavedViewInput(await request.json());
+
+  if (validation.error !== null) {
+    return NextResponse.json({ error: validation.error }, { status: 400 });
+  }
+
+  const { filters, ...fields } = validation.data as SavedViewInput;
+
+  try {
+    if ((await findUnknownTagIds(user.id, filters.tags)).length > 0) {
+      return NextResponse.json(
+        { error: "Unknown tag selected" },
+        { status: 400 }
+      );
+    }
+
+    const view = await prisma.savedView.create({
+      data: {
+        ...fields,
+        filters: filters as unknown as Prisma.InputJsonObject,
+        userId: user.id,
+      },
+      select: savedViewSelect,
+    });
+
+    return NextResponse.json(toSavedViewSummary(view), { status: 201 });
+  } catch (error) {
+    console.error("Error creating saved view:", error);
+    return NextResponse.json(
+      { error: "Failed to create saved view" },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,423 @@
+"use client";
+import React, { useCallback, useEffect, useState } from "react";
+import Link from "next/link";
+import { format } from "date-fns";
+import {
+  CalendarDaysIcon,
+  ChevronLeftIcon,
+  ChevronRightIcon,
+} from "@heroicons/react/24/outline";
+import { ToastContainer, toast } from "react-toastify";
+import "react-toastify/dist/ReactToastify.css";
+import PulseLoader from "react-spinners/PulseLoader";
+import SidebarLayout from "../_components/SidebarLayout";
+import { dueDateKey, localTimeZone, moveDueDate } from "../lib/planning";
+import {
+  AGENDA_DAYS,
+  CalendarTask,
+  CalendarView,
+  calendarDays,
+  groupByDay,
+  isSameMonth,
+  shiftAnchor,
+} from "../lib/calendar";
+import {
+  DEFAULT_WEEK_STARTS_ON,
+  UserPreferences,
+} from "../lib/preferencesValidation";
+
+interface Task {
+  id: string;
+  title: string;
+}
+
+interface CalendarData {
+  tasks: CalendarTask[];
+  undated: CalendarTask[];
+}
+
+const VIEWS: { view: CalendarView; label: string }[] = [
+  { view: "month", label: "Month" },
+  { view: "week", label: "Week" },
+  { view: "agenda", label: "Agenda" },
+];
+
+// Date keys are plain days; show them as that day in local time
+const formatDay = (dateKey: string, pattern: string) =>
+  format(new Date(`${dateKey}T00:00:00`), pattern);
+
+const getChipStyle = (task: CalendarTask) => {
+  switch (task.status) {
+    case "Completed":
+      return "bg-green-50 text-gray-500 line-through";
+    case "In Progress":
+      return "bg-yellow-50 text-gray-800";
+    default:
+      return "bg-gray-100 text-gray-800";
+  }
+};
+
+const TaskChip: React.FC<{
+  task: CalendarTask;
+  onDragStart: (taskId: string) => void;
+  onDragEnd: () => void;
+}> = ({ task, onDragStart, onDragEnd }) => (
+  <Link
+    href={`/task/${task.id}`}
+    draggable
+    onDragStart={(e) => {
+      e.dataTransfer.setData("text/plain", task.id);
+      e.dataTransfer.effectAllowed = "move";
+      onDragStart(task.id);
+    }}
+    onDragEnd={onDragEnd}
+    className={`flex items-center px-2 py-0.5 text-xs rounded truncate cursor-grab active:cursor-grabbing hover:ring-1 hover:ring-gray-300 ${getChipStyle(
+      task
+    )}`}
+    title={task.title}
+  >
+    {task.project && (
+      <span
+        className="w-2 h-2 rounded-full mr-1 flex-shrink-0"
+        style={{ backgroundColor: task.project.color }}
+      />
+    )}
+    <span className="truncate">{task.title}</span>
+  </Link>
+);
+
+export default function CalendarPage() {
+  const [tasks, setTasks] = useState<Task[]>([]);
+  const [view, setView] = useState<CalendarView>("month");
+  const timeZone = localTimeZone();
+  const [anchor, setAnchor] = useState(() =>
+    dueDateKey(new Date(), true, timeZone)
+  );
+  const [calendar, setCalendar] = useState<CalendarData | null>(null);
+  const [draggingId, setDraggingId] = useState<string | null>(null);
+  // A day key, "undated" for the tray, or null
+  const [dropTarget, setDropTarget] = useState<string | null>(null);
+
+  const [weekStartsOn, setWeekStartsOn] = useState(DEFAULT_WEEK_STARTS_ON);
+
+  const days = calendarDays(view, anchor, weekStartsOn);
+  const today = dueDateKey(new Date(), true, timeZone);
+
+  const fetchTasks = async () => {
+    try {
+      const response = await fetch("/api/tasks?limit=8");
+      if (response.ok) {
+        const data = await response.json();
+        setTasks(data.tasks);
+      } else {
+        console.error("Failed to fetch tasks");
+      }
+    } catch (error) {
+      console.error("Error fetching tasks:", error);
+    }
+  };
+
+  const from = days[0];
+  const dayCount = days.length;
+
+  const fetchCalendar = useCallback(async () => {
+    try {
+      const response = await fetch(
+        `/api/calendar?from=${from}&days=${dayCount}`
+      );
+      if (response.ok) {
+        setCalendar(await response.json());
+      } else {
+        console.error("Failed to fetch calendar");
+      }
+    } catch (error) {
+      console.error("Error fetching calendar:", error);
+    }
+  }, [from, dayCount]);
+
+  useEffect(() => {
+    fetchTasks();
+
+    const fetchPreferences = async () => {
+      try {
+        const response = await fetch("/api/user/preferences");
+        if (response.ok) {
+          const data: UserPreferences = await response.json();
+          setWeekStartsOn(data.weekStartsOn);
+        } else {
+          console.error("Failed to fetch preferences");
+        }
+      } catch (error) {
+        console.error("Error fetching preferences:", error);
+      }
+    };
+    fetchPreferences();
+  }, []);
+
+  useEffect(() => {
+    fetchCalendar();
+  }, [fetchCalendar]);
+
+  // Moves the task straight away and puts it back if the API rejects the new
+  // due date (e.g. a past month), showing the API's message
+  const moveTask = async (taskId: string, dateKey: string | null) => {
+    if (!calendar) return;
+    const task = [...calendar.tasks, ...calendar.undated].find(
+      (item) => item.id === taskId
+    );
+    if (!task) return;
+    const currentKey = task.dueDate
+      ? dueDateKey(task.dueDate, task.hasDueTime, timeZone)
+      : null;
+    if (currentKey === dateKey) return;
+
+    // A due date with a time keeps its time of day on the new day
+    const dueDate = dateKey
+      ? moveDueDate(task.dueDate, task.hasDueTime, dateKey, timeZone)
+      : null;
+    const previousCalendar = calendar;
+    const movedTask = {
+      ...task,
+      dueDate: dueDate && new Date(dueDate).toISOString(),
+    };
+    const others = (list: CalendarTask[]) =>
+      list.filter((item) => item.id !== taskId);
+    setCalendar({
+      tasks: dateKey
+        ? [...others(calendar.tasks), movedTask]
+        : others(calendar.tasks),
+      undated: dateKey
+        ? others(calendar.undated)
+        : [movedTask, ...others(calendar.undated)],
+    });
+
+    try {
+      const response = await fetch(`/api/tasks/${taskId}`, {
+        method: "PUT",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ dueDate }),
+      });
+      if (!response.ok) {
+        const errorData = await response.json();
+        setCalendar(previousCalendar);
+        toast.error(errorData.error || "Failed to reschedule task");
+      }
+    } catch (error) {
+      console.error("Error rescheduling task:", error);
+      setCalendar(previousCalendar);
+      toast.error("Error rescheduling task");
+    }
+  };
+
+  const dropHandlers = (target: string) => ({
+    onDragOver: (e: React.DragEvent) => {
+      if (!draggingId) return;
+      e.preventDefault();
+      setDropTarget(target);
+    },
+    onDragLeave: (e: React.DragEvent) => {
+      if (!e.currentTarget.contains(e.relatedTarget as Node)) {
+        setDropTarget(null);
+      }
+    },
+    onDrop: (e: React.DragEvent) => {
+      e.preventDefault();
+      const taskId = e.dataTransfer.getData("text/plain");
+      setDropTarget(null);
+      setDraggingId(null);
+      if (taskId) moveTask(taskId, target === "undated" ? null : target);
+    },
+  });
+
+  const chipProps = {
+    onDragStart: setDraggingId,
+    onDragEnd: () => {
+      setDraggingId(null);
+      setDropTarget(null);
+    },
+  };
+
+  const byDay = groupByDay(calendar?.tasks ?? [], timeZone);
+
+  const title =
+    view === "month"
+      ? formatDay(anchor, "MMMM yyyy")
+      : `${formatDay(days[0], "MMM d")} – ${formatDay(
+          days[days.length - 1],
+          "MMM d, yyyy"
+        )}`;
+
+  const renderDay = (dateKey: string, className: string) => (
+    <div
+      key={dateKey}
+      {...dropHandlers(dateKey)}
+      className={`p-1 border-t border-l transition-colors duration-200 ${className} ${
+        dropTarget === dateKey ? "bg-blue-50" : "bg-white"
+      }`}
+    >
+      <div
+        className={`text-xs mb-1 ${
+          dateKey === today
+            ? "inline-block px-1.5 rounded-full bg-orange-500 text-white"
+            : view === "month" && !isSameMonth(dateKey, anchor)
+            ? "text-gray-300"
+            : "text-gray-600"
+        }`}
+      >
+        {formatDay(dateKey, view === "week" ? "EEE d" : "d")}
+      </div>
+      <div className="space-y-1">
+        {(byDay.get(dateKey) ?? []).map((task) => (
+          <TaskChip key={task.id} task={task} {...chipProps} />
+        ))}
+      </div>
+    </div>
+  );
+
+  return (
+    <SidebarLayout tasks={tasks} isAddTaskPage={false}>
+      <ToastContainer />
+      <div className="max-w-6xl mx-auto px-4">
+        <div className="flex flex-wrap items-center justify-between gap-2 mb-6">
+          <h1 className="text-3xl font-bold text-gray-800">{title}</h1>
+          <div className="flex items-center gap-2">
+            <div className="flex p-1 bg-gray-100 rounded-full">
+              {VIEWS.map((option) => (
+                <button
+                  key={option.view}
+                  onClick={() => setView(option.view)}
+                  className={`px-3 py-1 text-sm rounded-full transition-colors duration-200 ${
+                    view === option.view
+                      ? "bg-white text-gray-800 shadow-sm"
+                      : "text-gray-500 hover:text-gray-700"
+                  }`}
+                >
+                  {option.label}
+                </button>
+              ))}
+            </div>
+            <button
+              onClick={() => setAnchor(shiftAnchor(view, anchor, -1))}
+              className="p-1 text-gray-500 hover:text-gray-700"
+              title="Previous"
+            >
+              <ChevronLeftIcon className="w-5 h-5" />
+            </button>
+            <button
+              onClick={() => setAnchor(today)}
+              className="px-3 py-1 text-sm bg-gray-200 rounded hover:bg-gray-300"
+            >
+              Today
+            </button>
+            <button
+              onClick={() => setAnchor(shiftAnchor(view, anchor, 1))}
+              className="p-1 text-gray-500 hover:text-gray-700"
+              title="Next"
+            >
+              <ChevronRightIcon className="w-5 h-5" />
+            </button>
+          </div>
+        </div>
+
+        {calendar === null ? (
+          <div className="flex justify-center items-center gap-2 py-12">
+            <span className="text-gray-600">Loading calendar</span>
+            <PulseLoader
+              color="#4B5563"
+              loading={true}
+              size={4}
+              speedMultiplier={0.8}
+              aria-label="Loading Calendar"
+            />
+          </div>
+        ) : (
+          <div className="flex flex-col lg:flex-row gap-6 items-start">
+            <div className="flex-grow min-w-0 w-full">
+              {view === "agenda" ? (
+                <ul className="bg-white shadow-sm rounded-lg divide-y">
+                  {days
+                    .filter((dateKey) => byDay.has(dateKey))
+                    .map((dateKey) => (
+                      <li
+                        key={dateKey}
+                        {...dropHandlers(dateKey)}
+                        className={`flex gap-4 p-4 transition-colors duration-200 ${
+                          dropTarget === dateKey ? "bg-blue-50" : ""
+                        }`}
+                      >
+                        <span
+                          className={`w-28 flex-shrink-0 text-sm font-medium ${
+                            dateKey === today
+                              ? "text-orange-600"
+                              : "text-gray-700"
+                          }`}
+                        >
+                          {formatDay(dateKey, "EEE, MMM d")}
+                        </span>
+                        <div className="flex flex-wrap gap-1 min-w-0">
+                          {byDay.get(dateKey)!.map((task) => (
+                            <TaskChip
+                              key={task.id}
+                              task={task}
+                              {...chipProps}
+                            />
+                          ))}
+                        </div>
+                      </li>
+                    ))}
+                  {calendar.tasks.length === 0 && (
+                    <li className="p-8 text-center text-gray-500">
+                      Nothing due in the next {AGENDA_DAYS} days.
+                    </li>
+                  )}
+                </ul>
+              ) : (
+                <div className="shadow-sm rounded-lg overflow-hidden border-r border-b">
+                  <div className="grid grid-cols-7 bg-gray-50 text-xs font-medium text-gray-500">
+                    {days.slice(0, 7).map((dateKey) => (
+                      <div key={dateKey} className="px-2 py-1 border-l">
+                        {formatDay(dateKey, "EEE")}
+                      </div>
+                    ))}
+                  </div>
+                  <div className="grid grid-cols-7">
+                    {days.map((dateKey) =>
+                      renderDay(
+                        dateKey,
+                        view === "week" ? "min-h-[24rem]" : "min-h-[6rem]"
+                      )
+                    )}
+                  </div>
+                </div>
+              )}
+            </div>
+
+            <aside
+              {...dropHandlers("undated")}
+              className={`w-full lg:w-64 flex-shrink-0 p-3 rounded-lg border transition-colors duration-200 ${
+                dropTarget === "undated" ? "bg-blue-50" : "bg-gray-50"
+              }`}
+            >
+              <h2 className="flex items-center font-semibold text-gray-800 mb-1">
+                <CalendarDaysIcon className="w-5 h-5 mr-2 text-gray-500" />
+                No due date
+                <span className="ml-auto px-2 py-0.5 rounded-full text-xs bg-gray-200 text-gray-700">
+                  {calendar.undated.length}
+                </span>
+              </h2>
+              <p className="text-xs text-gray-500 mb-3">
+                Drag a task onto a day to schedule it, or here to clear its due
+                date.
+              </p>
+              <div className="space-y-1">
+                {calendar.undated.map((task) => (
+                  <TaskChip key={task.id} task={task} {...chipProps} />
+                ))}
+              </div>
+            </aside>
+          </div>
+        )}
+      </div>
+    </SidebarLayout>
+  );
+}
@@ -0,0 +1,64 @@
+import { getServerSession } from "next-auth/next";
+import { Prisma } from "@prisma/client";
+import { authOptions } from "../api/auth/[...nextauth]/route";
+import prisma from "./prisma";
+
+export interface SessionUser {
+  id: string;
+  name: string | null;
+  email: string;
+}
+
+// Resolves the signed-in user from the session, or null when there is no
+// session or the account no longer exists. Every task route starts here.
+export async function getSessionUser(): Promise<SessionUser | null> {
+  const session = await getServerSession(authOptions);
+  if (!session?.user) {
+    return null;
+  }
+
+  const { id, email } = session.user;
+  if (!id && !email) {
+    return null;
+  }
+
+  return prisma.user.findUnique({
+    where: id ? { id } : { email: email! },
+    select: { id: true, name: true, email: true },
+  });
+}
+
+// Restricts a task query to the given user's rows. Tasks in the trash are
+// left out; only the trash routes use trashedTaskWhere to see them.
+export const ownedTaskWhere = (
+  userId: string,
+  where: Prisma.TaskWhereInput = {}
+): Prisma.TaskWhereInput => ({ ...where, userId, deletedAt: null });
+
+// Restricts a task query to the given user's trashed rows
+export const trashedTaskWhere = (
+  userId: string,
+  where: Prisma.TaskWhereInput = {}
+): Prisma.TaskWhereInput => ({ ...where, userId, deletedAt: { not: null } });
+
+// Looks up a task only if it belongs to the user. Tasks owned by someone else
+// come back as null so callers answer 404 rather than revealing they exist.
+export async function findOwnedTask(userId: string, taskId: string) {
+  return prisma.task.findFirst({
+    where: ownedTaskWhere(userId, { id: taskId }),
+  });
+}
+
+// Same as findOwnedTask, for the user's tags
+export async function findOwnedTag(userId: string, tagId: string) {
+  return prisma.tag.findFirst({
+    where: { id: tagId, userId },
+  });
+}
+
+// Same as findOwnedTask, for the user's projects
+export async function findOwnedProject(userId: string, projectId: string) {
+  return prisma.project.findFirst({
+    where: { id: projectId, userId },
+  });
+}
@@ -0,0 +1,89 @@
+import { addDays, dueDateKey, toDateKey } from "./planning";
+
+// Date math for the calendar page. Like planning, days are "yyyy-mm-dd" keys
+// and a task lands on the day dueDateKey gives it. Client-safe.
+
+export const CALENDAR_MAX_DAYS = 62;
+export const AGENDA_DAYS = 30;
+
+export type CalendarView = "month" | "week" | "agenda";
+
+export interface CalendarTask {
+  id: string;
+  title: string;
+  dueDate: string | null;
+  hasDueTime: boolean;
+  priority: string | null;
+  status: string;
+  estimatedTime: number | null;
+  project: { id: string; name: string; color: string } | null;
+}
+
+const dayOfWeek = (dateKey: string) => new Date(dateKey).getUTCDay();
+
+// weekStartsOn is the user's preference, 0 for Sunday through 6
+export const startOfWeekKey = (dateKey: string, weekStartsOn: number) =>
+  addDays(dateKey, -((dayOfWeek(dateKey) - weekStartsOn + 7) % 7));
+
+const startOfMonthKey = (dateKey: string) => `${dateKey.slice(0, 7)}-01`;
+
+const shiftMonths = (dateKey: string, months: number) => {
+  const date = new Date(startOfMonthKey(dateKey));
+  date.setUTCMonth(date.getUTCMonth() + months);
+  return toDateKey(date);
+};
+
+export const isSameMonth = (a: string, b: string) =>
+  a.slice(0, 7) === b.slice(0, 7);
+
+// The days shown for a view around `anchor`: whole weeks covering the month,
+// the week containing it, or the next AGENDA_DAYS days
+export function calendarDays(
+  view: CalendarView,
+  anchor: string,
+  weekStartsOn: number
+): string[] {
+  let from = anchor;
+  let days = AGENDA_DAYS;
+
+  if (view === "week") {
+    from = startOfWeekKey(anchor, weekStartsOn);
+    days = 7;
+  } else if (view === "month") {
+    const first = startOfMonthKey(anchor);
+    from = startOfWeekKey(first, weekStartsOn);
+    const last = addDays(shiftMonths(first, 1), -1);
+    days =
+      (new Date(addDays(startOfWeekKey(last, weekStartsOn), 7)).getTime() -
+        new Date(from).getTime()) /
+      (24 * 60 * 60 * 1000);
+  }
+
+  return Array.from({ length: days }, (_, i) => addDays(from, i));
+}
+
+// Moves the anchor one month, week or agenda page forwards or backwards
+export function shiftAnchor(
+  view: CalendarView,
+  anchor: string,
+  direction: 1 | -1
+): string {
+  switch (view) {
+    case "month":
+      return shiftMonths(anchor, direction);
+    case "week":
+      return addDays(anchor, 7 * direction);
+    case "agenda":
+      return addDays(anchor, AGENDA_DAYS * direction);
+  }
+}
+
+export function groupByDay(tasks: CalendarTask[], timeZone: string) {
+  const byDay = new Map<string, CalendarTask[]>();
+  for (const task of tasks) {
+    if (!task.dueDate) continue;
+    const key = dueDateKey(task.dueDate, task.hasDueTime, timeZone);
+    byDay.set(key, [...(byDay.get(key) ?? []), task]);
+  }
+  return byDay;
+}
@@ -0,0 +1,166 @@
+import { describe, expect, it } from "vitest";
+import { FeedTask, buildCalendarFeed } from "./calendarFeed";
+import { IcsComponent, IcsProperty, parseCalendar } from "./icalendar";
+
+const ORIGIN = "https://tasks.example.com";
+
+const task = (fields: Partial<FeedTask>): FeedTask => ({
+  id: "t1",
+  title: "Task",
+  description: null,
+  dueDate: new Date("2026-10-20T00:00:00.000Z"),
+  hasDueTime: false,
+  priority: null,
+  status: "Not Started",
+  estimatedTime: null,
+  createdAt: new Date("2026-10-01T09:00:00.000Z"),
+  updatedAt: new Date("2026-10-02T10:30:00.000Z"),
+  tags: [],
+  ...fields,
+});
+
+const entries = (tasks: FeedTask[], type: "event" | "todo") =>
+  parseCalendar(buildCalendarFeed(tasks, type, ORIGIN));
+
+const property = (component: IcsComponent, name: string) =>
+  component.properties.find((p) => p.name === name);
+
+// "NAME;PARAM=x:value" as written, to compare whole properties
+const line = ({ name, params = {}, value }: IcsProperty) =>
+  [name, ...Object.keys(params).map((key) => `${key}=${params[key]}`)].join(
+    ";"
+  ) + `:${value}`;
+
+const lines = (component: IcsComponent, names: string[]) =>
+  component.properties.filter((p) => names.includes(p.name)).map(line);
+
+const ALL_DAY = { dueDate: new Date("2026-10-20T00:00:00.000Z") };
+const TIMED = {
+  dueDate: new Date("2026-10-20T15:30:00.000Z"),
+  hasDueTime: true,
+};
+
+describe("buildCalendarFeed", () => {
+  it("writes a calendar of folded CRLF lines", () => {
+    const description = "Größe prüfen, 日本語のメモ 🎉 ".repeat(10);
+    const text = buildCalendarFeed([task({ description })], "event", ORIGIN);
+    expect(text.startsWith("BEGIN:VCALENDAR\r\nVERSION:2.0\r\n")).toBe(true);
+    expect(text.endsWith("END:VCALENDAR\r\n")).toBe(true);
+    expect(text.replace(/\r\n/g, "")).not.toMatch(/[\r\n]/);
+    for (const line of text.split("\r\n")) {
+      expect(Buffer.byteLength(line, "utf8")).toBeLessThanOrEqual(75);
+    }
+    const [event] = parseCalendar(text);
+    expect(property(event, "DESCRIPTION")?.value).toBe(
+      description.replace(/,/g, "\\,")
+    );
+  });
+
+  it.each(["event", "todo"] as const)(
+    "gives every %s a stable UID and a DTSTAMP",
+    (type) => {
+      const components = entries([task({ id: "a" }), task({ id: "b" })], type);
+      expect(components.map((c) => property(c, "UID")?.value)).toEqual([
+        "task-a@tasks.example.com",
+        "task-b@tasks.example.com",
+      ]);
+      for (const component of components) {
+        expect(property(component, "DTSTAMP")?.value).toBe("20261002T103000Z");
+      }
+    }
+  );
+
+  it("writes all-day events as DATE values ending the next day", () => {
+    const [event] = entries([task(ALL_DAY)], "event");
+    expect(lines(event, ["DTSTART", "DTEND", "DURATION"])).toEqual([
+      "DTSTART;VALUE=DATE:20261020",
+      "DTEND;VALUE=DATE:20261021",
+    ]);
+  });
+
+  it("writes timed events as UTC DATE-TIME values", () => {
+    const [event, withEstimate] = entries(
+      [task(TIMED), task({ ...TIMED, estimatedTime: 45 })],
+      "event"
+    );
+    expect(lines(event, ["DTSTART", "DTEND", "DURATION"])).toEqual([
+      "DTSTART:20261020T153000Z",
+    ]);
+    expect(lines(withEstimate, ["DTSTART", "DTEND", "DURATION"])).toEqual([
+      "DTSTART:20261020T153000Z",
+      "DURATION:PT45M",
+    ]);
+  });
+
+  it("keeps the time of a task due at midnight UTC", () => {
+    // 7pm in New York
+    const dueDate = new Date("2026-10-21T00:00:00.000Z");
+    const [event] = entries([task({ dueDate, hasDueTime: true })], "event");
+    const [todo] = entries([task({ dueDate, hasDueTime: true })], "todo");
+    expect(lines(event, ["DTSTART", "DTEND"])).toEqual([
+      "DTSTART:20261021T000000Z",
+    ]);
+    expect(lines(todo, ["DUE"])).toEqual(["DUE:20261021T000000Z"]);
+  });
+
+  it("writes to-do due dates as DATE or DATE-TIME", () => {
+    const [allDay, timed] = entries([task(ALL_DAY), task(TIMED)], "todo");
+    expect(lines(allDay, ["DUE", "DTSTART"])).toEqual([
+      "DUE;VALUE=DATE:20261020",
+    ]);
+    expect(lines(timed, ["DUE", "DTSTART"])).toEqual(["DUE:20261020T153000Z"]);
+  });
+
+  it.each([
+    ["High", "1"],
+    ["Medium", "5"],
+    ["Low", "9"],
+    [null, undefined],
+  ])("maps priority %s to PRIORITY %s", (priority, value) => {
+    for (const type of ["event", "todo"] as const) {
+      const [component] = entries([task({ priority })], type);
+      expect(property(component, "PRIORITY")?.value).toBe(value);
+    }
+  });
+
+  it.each([
+    ["Not Started", "NEEDS-ACTION", undefined],
+    ["In Progress", "IN-PROCESS", undefined],
+    ["Completed", "COMPLETED", "100"],
+  ])("maps to-do status %s to %s", (status, value, percent) => {
+    const [todo] = entries([task({ status })], "todo");
+    expect(property(todo, "STATUS")?.value).toBe(value);
+    expect(property(todo, "PERCENT-COMPLETE")?.value).toBe(percent);
+  });
+
+  it("marks completed events in the summary instead of a status", () => {
+    const [done, open] = entries(
+      [task({ title: "Ship", status: "Completed" }), task({ title: "Plan" })],
+      "event"
+    );
+    expect(property(done, "SUMMARY")?.value).toBe("✓ Ship");
+    expect(property(open, "SUMMARY")?.value).toBe("Plan");
+    expect(property(done, "STATUS")).toBeUndefined();
+  });
+
+  it("lists tags as escaped CATEGORIES", () => {
+    const [event, untagged] = entries(
+      [
+        task({ tags: [{ name: "work" }, { name: "a,b" }, { name: "x;y" }] }),
+        task({}),
+      ],
+      "event"
+    );
+    expect(property(event, "CATEGORIES")?.value).toBe("work,a\\,b,x\\;y");
+    expect(property(untagged, "CATEGORIES")).toBeUndefined();
+  });
+
+  it("escapes text in summaries and descriptions", () => {
+    const [todo] = entries(
+      [task({ title: "Call Bob, Sue; etc", description: "Line 1\nLine 2" })],
+      "todo"
+    );
+    expect(property(todo, "SUMMARY")?.value).toBe("Call Bob\\, Sue\\; etc");
+    expect(property(todo, "DESCRIPTION")?.value).toBe("Line 1\\nLine 2");
+  });
+});
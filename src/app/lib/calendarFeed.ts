@@ -0,0 +1,164 @@
+import {
+  IcsComponent,
+  IcsProperty,
+  escapeText,
+  formatIcsDate,
+  formatIcsDateTime,
+  serializeCalendar,
+} from "./icalendar";
+import { addDays, toDateKey } from "./planning";
+
+// The iCalendar subscription feed at /api/calendar/{token}.ics. Tasks are
+// events by default, which every calendar app shows; ?type=todo lists them
+// as to-dos for apps that support VTODO. Client-safe.
+
+export const FEED_ENTRY_TYPES = ["event", "todo"] as const;
+export type FeedEntryType = (typeof FEED_ENTRY_TYPES)[number];
+
+// Most recently due tasks first; older ones drop out of the feed
+export const FEED_MAX_TASKS = 1000;
+
+export const calendarFeedPath = (token: string, type: FeedEntryType) =>
+  `/api/calendar/${token}.ics${type === "todo" ? "?type=todo" : ""}`;
+
+export interface FeedTask {
+  id: string;
+  title: string;
+  description: string | null;
+  dueDate: Date;
+  // Tasks due on a whole day become all-day entries
+  hasDueTime: boolean;
+  priority: string | null;
+  status: string;
+  estimatedTime: number | null;
+  createdAt: Date;
+  updatedAt: Date;
+  tags: { name: string }[];
+}
+
+// PRIORITY is 1 (highest) to 9; 1-4 read as high, 5 medium, 6-9 low
+const PRIORITY_VALUES: Record<string, string> = {
+  High: "1",
+  Medium: "5",
+  Low: "9",
+};
+
+const TODO_STATUSES: Record<string, string> = {
+  "Not Started": "NEEDS-ACTION",
+  "In Progress": "IN-PROCESS",
+  Completed: "COMPLETED",
+};
+
+// Events have no done state, so completed tasks are marked in the title;
+// .ics imports read the mark back
+export const COMPLETED_EVENT_PREFIX = "✓ ";
+
+function taskComponent(
+  task: FeedTask,
+  type: FeedEntryType,
+  origin: string
+): IcsComponent {
+  const allDay = !task.hasDueTime;
+  const properties: IcsProperty[] = [
+    { name: "UID", value: `task-${task.id}@${new URL(origin).host}` },
+    { name: "DTSTAMP", value: formatIcsDateTime(task.updatedAt) },
+    { name: "CREATED", value: formatIcsDateTime(task.createdAt) },
+    { name: "LAST-MODIFIED", value: formatIcsDateTime(task.updatedAt) },
+  ];
+
+  if (type === "todo") {
+    properties.push(
+      { name: "SUMMARY", value: escapeText(task.title) },
+      allDay
+        ? {
+            name: "DUE",
+            params: { VALUE: "DATE" },
+            value: formatIcsDate(task.dueDate),
+          }
+        : { name: "DUE", value: formatIcsDateTime(task.dueDate) }
+    );
+    if (TODO_STATUSES[task.status]) {
+      properties.push({ name: "STATUS", value: TODO_STATUSES[task.status] });
+    }
+    if (task.status === "Completed") {
+      properties.push({ name: "PERCENT-COMPLETE", value: "100" });
+    }
+  } else {
+    const summary =
+      task.status === "Completed"
+        ? `${COMPLETED_EVENT_PREFIX}${task.title}`
+        : task.title;
+    properties.push({ name: "SUMMARY", value: escapeText(summary) });
+    if (allDay) {
+      properties.push(
+        {
+          name: "DTSTART",
+          params: { VALUE: "DATE" },
+          value: formatIcsDate(task.dueDate),
+        },
+        {
+          name: "DTEND",
+          params: { VALUE: "DATE" },
+          value: formatIcsDate(new Date(addDays(toDateKey(task.dueDate), 1))),
+        }
+      );
+    } else {
+      properties.push({
+        name: "DTSTART",
+        value: formatIcsDateTime(task.dueDate),
+      });
+      if (task.estimatedTime) {
+        properties.push({
+          name: "DURATION",
+          value: `PT${task.estimatedTime}M`,
+        });
+      }
+    }
+    // Due tasks shouldn't mark the user as busy
+    properties.push({ name: "TRANSP", value: "TRANSPARENT" });
+  }
+
+  if (task.description) {
+    properties.push({
+      name: "DESCRIPTION",
+      value: escapeText(task.description),
+    });
+  }
+  if (task.priority && PRIORITY_VALUES[task.priority]) {
+    properties.push({
+      name: "PRIORITY",
+      value: PRIORITY_VALUES[task.priority],
+    });
+  }
+  if (task.tags.length > 0) {
+    properties.push({
+      name: "CATEGORIES",
+      value: task.tags.map((tag) => escapeText(tag.name)).join(","),
+    });
+  }
+  properties.push({ name: "URL", value: `${origin}/task/${task.id}` });
+
+  return { type: type === "todo" ? "VTODO" : "VEVENT", properties };
+}
+
+export const buildCalendarFeed = (
+  tasks: FeedTask[],
+  type: FeedEntryType,
+  origin: string
+) =>
+  serializeCalendar(
+    [
+      { name: "VERSION", value: "2.0" },
+      { name: "PRODID", value: "-//taskEzy//Task feed//EN" },
+      { name: "CALSCALE", value: "GREGORIAN" },
+      { name: "X-WR-CALNAME", value: "taskEzy" },
+      // Hints for how often subscribers should refresh
+      {
+        name: "REFRESH-INTERVAL",
+        params: { VALUE: "DURATION" },
+        value: "PT1H",
+      },
+      { name: "X-PUBLISHED-TTL", value: "PT1H" },
+    ],
+    tasks.map((task) => taskComponent(task, type, origin))
+  );
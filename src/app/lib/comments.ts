@@ -0,0 +1,27 @@
+import { Prisma } from "@prisma/client";
+
+export const commentSelect = {
+  id: true,
+  body: true,
+  createdAt: true,
+  updatedAt: true,
+  userId: true,
+  user: { select: { id: true, name: true, email: true } },
+} satisfies Prisma.CommentSelect;
+
+type CommentRow = Prisma.CommentGetPayload<{ select: typeof commentSelect }>;
+
+// Shape sent to the client; `isAuthor` decides whether edit/delete are shown
+export const toCommentResponse = (comment: CommentRow, userId: string) => ({
+  id: comment.id,
+  body: comment.body,
+  createdAt: comment.createdAt,
+  updatedAt: comment.updatedAt,
+  // createdAt and updatedAt can differ by a few ms on insert
+  edited: comment.updatedAt.getTime() - comment.createdAt.getTime() > 1000,
+  author: {
+    id: comment.user.id,
+    name: comment.user.name ?? comment.user.email,
+  },
+  isAuthor: comment.userId === userId,
+});
@@ -0,0 +1,60 @@
+import { describe, expect, it } from "vitest";
+import { CsvParseError, parseCsv, toCsv } from "./csv";
+
+describe("toCsv", () => {
+  it("quotes fields with commas, quotes, line breaks or edge spaces", () => {
+    expect(
+      toCsv([["plain", "a,b", 'say "hi"', "two\nlines", " padded "]])
+    ).toBe('plain,"a,b","say ""hi""","two\nlines"," padded "\r\n');
+  });
+
+  it.each([
+    ["=SUM(A1:A2)", `"'=SUM(A1:A2)"`],
+    ["+1 to the counter", `"'+1 to the counter"`],
+    ["-5", `"'-5"`],
+    ["@alice", `"'@alice"`],
+    ["\tindented", `"'\tindented"`],
+    ["\rreturn", `"'\rreturn"`],
+    ['=HYPERLINK("http://x","y")', `"'=HYPERLINK(""http://x"",""y"")"`],
+  ])("keeps %j from running as a formula", (value, field) => {
+    expect(toCsv([[value]])).toBe(`${field}\r\n`);
+  });
+
+  it("leaves formula characters later in a field alone", () => {
+    expect(toCsv([["a=b", "Reply to @alice"]])).toBe("a=b,Reply to @alice\r\n");
+  });
+});
+
+describe("parseCsv", () => {
+  it("reads quoted fields as RFC 4180 writes them", () => {
+    expect(
+      parseCsv('title,notes\r\n"a,b","say ""hi""\r\nagain"\r\n\r\nlast,\n')
+    ).toEqual([
+      ["title", "notes"],
+      ["a,b", 'say "hi"\r\nagain'],
+      ["last", ""],
+    ]);
+  });
+
+  it("ignores a byte order mark", () => {
+    expect(parseCsv("\ufeffa,b")).toEqual([["a", "b"]]);
+  });
+
+  it("rejects a quoted field that is never closed", () => {
+    expect(() => parseCsv('a,"b\n')).toThrow(CsvParseError);
+  });
+
+  it("round-trips quotes, line breaks and formula characters", () => {
+    const rows = [
+      ["title", "description"],
+      ['Say "hi"', "first line\nsecond line\r\nthird, with a comma"],
+      ["=1+1", "-done"],
+      ["@here", "+1"],
+      ["\tTabbed", " spaced "],
+      ["'quoted", "'=kept"],
+      ["''+twice", "'"],
+      ["", ""],
+    ];
+    expect(parseCsv(toCsv(rows))).toEqual(rows);
+  });
+});
@@ -0,0 +1,72 @@
+// CSV as spreadsheets write it (RFC 4180): comma-separated, fields quoted
+// when they contain a comma, quote or line break, quotes doubled inside
+// quotes. Client-safe.
+//
+// A field a spreadsheet would run as a formula (starting with =, +, -, @, tab
+// or carriage return) is written with a leading ' so it opens as text, and
+// parseCsv drops that ' again. A field already starting with quotes before
+// one of those gets one more, so it reads back unchanged.
+
+export class CsvParseError extends Error {}
+
+const FORMULA_START = /^'*[=+\-@\t\r]/;
+const GUARDED_FORMULA = /^'+[=+\-@\t\r]/;
+
+const escapeField = (value: string) => {
+  const field = FORMULA_START.test(value) ? `'${value}` : value;
+  return /[",\r\n]/.test(field) || field !== field.trim() || field !== value
+    ? `"${field.replace(/"/g, '""')}"`
+    : field;
+};
+
+export const toCsv = (rows: string[][]) =>
+  rows.map((row) => row.map(escapeField).join(",")).join("\r\n") + "\r\n";
+
+// Rows of fields. Blank lines are skipped; a byte order mark is ignored.
+export function parseCsv(text: string): string[][] {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = "";
+  let inQuotes = false;
+  let i = text.charCodeAt(0) === 0xfeff ? 1 : 0;
+
+  const endField = () => {
+    row.push(GUARDED_FORMULA.test(field) ? field.slice(1) : field);
+    field = "";
+  };
+
+  const endRow = () => {
+    endField();
+    if (row.length > 1 || row[0] !== "") rows.push(row);
+    row = [];
+  };
+
+  for (; i < text.length; i++) {
+    const char = text[i];
+    if (inQuotes) {
+      if (char === '"' && text[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        inQuotes = false;
+      } else {
+        field += char;
+      }
+    } else if (char === '"' && field === "") {
+      inQuotes = true;
+    } else if (char === ",") {
+      endField();
+    } else if (char === "\n" || char === "\r") {
+      if (char === "\r" && text[i + 1] === "\n") i++;
+      endRow();
+    } else {
+      field += char;
+    }
+  }
+
+  if (inQuotes) {
+    throw new CsvParseError("A quoted field is never closed");
+  }
+  if (field !== "" || row.length > 0) endRow();
+  return rows;
+}
@@ -0,0 +1,28 @@
+// Readable durations for estimates and capacity ("1h30m", "45m", "2h").
+// Values are stored as whole minutes. Client-safe.
+
+const ESTIMATE_PATTERN =
+  /^(?:(\d+(?:\.\d+)?)\s*h(?:ours?|rs?)?)?\s*(?:(\d+)\s*m(?:in(?:utes?)?)?)?$/i;
+
+// Minutes for "1h30m", "1h 30m", "1.5h", "2h", "45m" or a bare "90" (minutes).
+// Returns null when the text isn't a duration.
+export function parseEstimate(input: string): number | null {
+  const text = input.trim();
+  if (/^\d+$/.test(text)) return Number(text);
+
+  const match = ESTIMATE_PATTERN.exec(text);
+  if (!match || (match[1] === undefined && match[2] === undefined)) {
+    return null;
+  }
+  const hours = match[1] ? Number(match[1]) : 0;
+  const minutes = match[2] ? Number(match[2]) : 0;
+  return Math.round(hours * 60 + minutes);
+}
+
+// The reverse of parseEstimate: 90 -> "1h30m", 120 -> "2h", 45 -> "45m"
+export function formatEstimate(minutes: number) {
+  const hours = Math.floor(minutes / 60);
+  const rest = minutes % 60;
+  if (hours === 0) return `${rest}m`;
+  return rest === 0 ? `${hours}h` : `${hours}h${rest}m`;
+}
@@ -0,0 +1,160 @@
+// Fractional indexing: string keys that sort in byte order ("C" collation)
+// and can always be generated between any two others, so moving an item only
+// rewrites that item's key. A key is a variable-length integer part, whose
+// first character encodes its length ("a0".."az", then "b00"..., and "Zz",
+// "Yzz"... below "a0"), followed by an optional fraction without trailing
+// zeros. Based on https://observablehq.com/@dgreensp/implementing-fractional-indexing
+
+const DIGITS = "0123456789ABCDEFGHIJKLMNOPQRSTUVWXYZabcdefghijklmnopqrstuvwxyz";
+const SMALLEST_INTEGER = "A" + "0".repeat(26);
+
+export class FractionalIndexError extends Error {}
+
+// Fraction strictly between a and b (b null meaning "1")
+function midpoint(a: string, b: string | null): string {
+  if (b !== null && a >= b) {
+    throw new FractionalIndexError(`${a} >= ${b}`);
+  }
+  if (a.slice(-1) === "0" || (b && b.slice(-1) === "0")) {
+    throw new FractionalIndexError("Trailing zero");
+  }
+
+  if (b) {
+    // Keep the shared prefix and find the midpoint of what follows it
+    let n = 0;
+    while ((a[n] || "0") === b[n]) n++;
+    if (n > 0) {
+      return b.slice(0, n) + midpoint(a.slice(n), b.slice(n));
+    }
+  }
+
+  const digitA = a ? DIGITS.indexOf(a[0]) : 0;
+  const digitB = b !== null ? DIGITS.indexOf(b[0]) : DIGITS.length;
+  if (digitB - digitA > 1) {
+    return DIGITS[Math.round((digitA + digitB) / 2)];
+  }
+  if (b && b.length > 1) {
+    return b.slice(0, 1);
+  }
+  return DIGITS[digitA] + midpoint(a.slice(1), null);
+}
+
+function integerLength(head: string): number {
+  if (head >= "a" && head <= "z") {
+    return head.charCodeAt(0) - "a".charCodeAt(0) + 2;
+  }
+  if (head >= "A" && head <= "Z") {
+    return "Z".charCodeAt(0) - head.charCodeAt(0) + 2;
+  }
+  throw new FractionalIndexError(`Invalid key head: ${head}`);
+}
+
+function integerPart(key: string): string {
+  const length = integerLength(key[0]);
+  if (length > key.length) {
+    throw new FractionalIndexError(`Invalid key: ${key}`);
+  }
+  return key.slice(0, length);
+}
+
+function validateKey(key: string) {
+  if (key === SMALLEST_INTEGER) {
+    throw new FractionalIndexError(`Invalid key: ${key}`);
+  }
+  const fraction = key.slice(integerPart(key).length);
+  if (fraction.slice(-1) === "0") {
+    throw new FractionalIndexError(`Invalid key: ${key}`);
+  }
+}
+
+function incrementInteger(integer: string): string | null {
+  const [head, ...digits] = integer.split("");
+  let carry = true;
+  for (let i = digits.length - 1; carry && i >= 0; i--) {
+    const digit = DIGITS.indexOf(digits[i]) + 1;
+    if (digit === DIGITS.length) {
+      digits[i] = "0";
+    } else {
+      digits[i] = DIGITS[digit];
+      carry = false;
+    }
+  }
+  if (!carry) return head + digits.join("");
+
+  if (head === "Z") return "a0";
+  if (head === "z") return null;
+  const nextHead = String.fromCharCode(head.charCodeAt(0) + 1);
+  if (nextHead > "a") {
+    digits.push("0");
+  } else {
+    digits.pop();
+  }
+  return nextHead + digits.join("");
+}
+
+function decrementInteger(integer: string): string | null {
+  const [head, ...digits] = integer.split("");
+  let borrow = true;
+  for (let i = digits.length - 1; borrow && i >= 0; i--) {
+    const digit = DIGITS.indexOf(digits[i]) - 1;
+    if (digit === -1) {
+      digits[i] = DIGITS.slice(-1);
+    } else {
+      digits[i] = DIGITS[digit];
+      borrow = false;
+    }
+  }
+  if (!borrow) return head + digits.join("");
+
+  if (head === "a") return "Z" + DIGITS.slice(-1);
+  if (head === "A") return null;
+  const nextHead = String.fromCharCode(head.charCodeAt(0) - 1);
+  if (nextHead < "Z") {
+    digits.push(DIGITS.slice(-1));
+  } else {
+    digits.pop();
+  }
+  return nextHead + digits.join("");
+}
+
+// A key that sorts after a and before b. Either may be null for "the start"
+// or "the end" of the list; moving to either end keeps keys short.
+export function generateKeyBetween(a: string | null, b: string | null) {
+  if (a !== null) validateKey(a);
+  if (b !== null) validateKey(b);
+  if (a !== null && b !== null && a >= b) {
+    throw new FractionalIndexError(`${a} >= ${b}`);
+  }
+
+  if (a === null) {
+    if (b === null) return "a0";
+    const integerB = integerPart(b);
+    if (integerB === SMALLEST_INTEGER) {
+      return integerB + midpoint("", b.slice(integerB.length));
+    }
+    if (integerB < b) return integerB;
+    const decremented = decrementInteger(integerB);
+    if (decremented === null) {
+      throw new FractionalIndexError("Cannot decrement any further");
+    }
+    return decremented;
+  }
+
+  const integerA = integerPart(a);
+  const fractionA = a.slice(integerA.length);
+
+  if (b === null) {
+    const incremented = incrementInteger(integerA);
+    return incremented ?? integerA + midpoint(fractionA, null);
+  }
+
+  const integerB = integerPart(b);
+  if (integerA === integerB) {
+    return integerA + midpoint(fractionA, b.slice(integerB.length));
+  }
+  const incremented = incrementInteger(integerA);
+  if (incremented === null) {
+    throw new FractionalIndexError("Cannot increment any further");
+  }
+  return incremented < b ? incremented : integerA + midpoint(fractionA, null);
+}
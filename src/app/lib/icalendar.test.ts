@@ -0,0 +1,172 @@
+import { describe, expect, it } from "vitest";
+import {
+  escapeText,
+  formatIcsDate,
+  formatIcsDateTime,
+  parseCalendar,
+  parseIcsDate,
+  serializeCalendar,
+  splitTextList,
+  unescapeText,
+} from "./icalendar";
+import { parseImportFile } from "./taskTransferFormats";
+
+const octets = (line: string) => Buffer.byteLength(line, "utf8");
+
+const serializeSummary = (summary: string) =>
+  serializeCalendar(
+    [{ name: "VERSION", value: "2.0" }],
+    [
+      {
+        type: "VEVENT",
+        properties: [{ name: "SUMMARY", value: escapeText(summary) }],
+      },
+    ]
+  );
+
+describe("serializeCalendar", () => {
+  it("ends every line with CRLF", () => {
+    const text = serializeSummary("Line one\nLine two");
+    expect(text).toBe(
+      "BEGIN:VCALENDAR\r\nVERSION:2.0\r\nBEGIN:VEVENT\r\n" +
+        "SUMMARY:Line one\\nLine two\r\nEND:VEVENT\r\nEND:VCALENDAR\r\n"
+    );
+    expect(text.replace(/\r\n/g, "")).not.toMatch(/[\r\n]/);
+  });
+
+  it.each([
+    ["ASCII", "a".repeat(200)],
+    ["two-octet", "é".repeat(100)],
+    ["three-octet", `${"a".repeat(65)}€€€€€€${"€".repeat(40)}`],
+    ["four-octet", `${"a".repeat(64)}${"🎉".repeat(30)}`],
+  ])("folds %s text at 75 octets", (_, summary) => {
+    const text = serializeSummary(summary);
+    const lines = text.split("\r\n").slice(0, -1);
+    for (const line of lines) {
+      expect(octets(line)).toBeLessThanOrEqual(75);
+      // A split character wouldn't survive the round trip through UTF-8
+      expect(Buffer.from(line, "utf8").toString("utf8")).toBe(line);
+    }
+    expect(lines.filter((line) => line.startsWith(" ")).length).toBeGreaterThan(
+      0
+    );
+    expect(text.replace(/\r\n /g, "")).toContain(`SUMMARY:${summary}\r\n`);
+  });
+
+  it("keeps a line of exactly 75 octets whole", () => {
+    const summary = "a".repeat(75 - "SUMMARY:".length);
+    expect(serializeSummary(summary)).toContain(`\r\nSUMMARY:${summary}\r\n`);
+  });
+
+  it("quotes parameter values with separators", () => {
+    const text = serializeCalendar(
+      [],
+      [
+        {
+          type: "VTODO",
+          properties: [
+            { name: "ATTENDEE", params: { CN: "Doe; Jane" }, value: "x" },
+          ],
+        },
+      ]
+    );
+    expect(text).toContain('ATTENDEE;CN="Doe; Jane":x\r\n');
+  });
+});
+
+describe("TEXT values", () => {
+  it("escapes backslashes, semicolons, commas and newlines", () => {
+    expect(escapeText("a\\b;c,d\ne\r\nf")).toBe("a\\\\b\\;c\\,d\\ne\\nf");
+  });
+
+  it.each(["C:\\temp; a, b\nc", "\\n is not a newline", "trailing \\"])(
+    "round-trips %j",
+    (value) => {
+      expect(unescapeText(escapeText(value))).toBe(value);
+      const [event] = parseCalendar(serializeSummary(value));
+      expect(unescapeText(event.properties[0].value)).toBe(value);
+    }
+  );
+
+  it("splits lists on unescaped commas only", () => {
+    const tags = ["work", "a,b", "c;d", "back\\slash"];
+    expect(splitTextList(tags.map(escapeText).join(","))).toEqual(tags);
+  });
+});
+
+describe("date values", () => {
+  it("writes DATE and UTC DATE-TIME values", () => {
+    const date = new Date("2026-03-05T07:08:09.500Z");
+    expect(formatIcsDate(date)).toBe("20260305");
+    expect(formatIcsDateTime(date)).toBe("20260305T070809Z");
+  });
+});
+
+describe("parseIcsDate", () => {
+  it.each([
+    ["20261020", undefined, "2026-10-20"],
+    ["20261020T090000Z", undefined, "2026-10-20T09:00:00.000Z"],
+    // A UTC time ignores the TZID
+    ["20261020T090000Z", "America/New_York", "2026-10-20T09:00:00.000Z"],
+    ["20261020T090000", "America/New_York", "2026-10-20T13:00:00.000Z"],
+    ["20261215T090000", "America/New_York", "2026-12-15T14:00:00.000Z"],
+    ["20261020T090000", "Asia/Kolkata", "2026-10-20T03:30:00.000Z"],
+    ["20261020T010000", "Pacific/Kiritimati", "2026-10-19T11:00:00.000Z"],
+    // Just after clocks go forward, and on either side of going back
+    ["20260329T030000", "Europe/Berlin", "2026-03-29T01:00:00.000Z"],
+    ["20261025T013000", "Europe/Berlin", "2026-10-24T23:30:00.000Z"],
+    ["20261025T040000", "Europe/Berlin", "2026-10-25T03:00:00.000Z"],
+  ])("reads %s in %s as %s", (value, timeZone, expected) => {
+    expect(parseIcsDate(value, timeZone)).toBe(expected);
+  });
+
+  it.each([
+    ["a floating time", undefined],
+    ["an unknown time zone", "Custom/Zone"],
+  ])("keeps only the date of %s", (_, timeZone) => {
+    expect(parseIcsDate("20261020T090000", timeZone)).toBe("2026-10-20");
+  });
+
+  it("rejects values that aren't dates", () => {
+    expect(parseIcsDate("tomorrow")).toBeNull();
+  });
+
+  it("flags due times it couldn't place in an import", () => {
+    const calendar = [
+      "BEGIN:VCALENDAR",
+      "BEGIN:VEVENT",
+      "SUMMARY:In New York",
+      "DTSTART;TZID=America/New_York:20261020T090000",
+      "DTEND;TZID=America/New_York:20261020T103000",
+      "END:VEVENT",
+      "BEGIN:VEVENT",
+      "SUMMARY:Floating",
+      "DTSTART:20261020T090000",
+      "END:VEVENT",
+      "BEGIN:VTODO",
+      "SUMMARY:Custom zone",
+      'DUE;TZID="Custom/Zone":20261020T090000',
+      "END:VTODO",
+      "END:VCALENDAR",
+    ].join("\r\n");
+    expect(parseImportFile("ics", calendar).records).toEqual([
+      {
+        title: "In New York",
+        dueDate: "2026-10-20T13:00:00.000Z",
+        estimatedTime: 90,
+      },
+      {
+        title: "Floating",
+        dueDate: "2026-10-20",
+        warnings: ["Due time left out because it has no time zone"],
+      },
+      {
+        title: "Custom zone",
+        dueDate: "2026-10-20",
+        warnings: [
+          'Due time left out because its time zone "Custom/Zone" is unknown',
+        ],
+      },
+    ]);
+  });
+});
@@ -0,0 +1,295 @@
+// Just enough of iCalendar (RFC 5545) for the task feed and .ics imports:
+// text escaping, date values and content lines folded at 75 octets, joined
+// with CRLF, both written and read. Client-safe.
+
+export interface IcsProperty {
+  name: string;
+  params?: Record<string, string>;
+  value: string;
+}
+
+export interface IcsComponent {
+  type: "VEVENT" | "VTODO";
+  properties: IcsProperty[];
+}
+
+const MAX_LINE_OCTETS = 75;
+
+// TEXT values: backslash, semicolon, comma and newlines are escaped
+export const escapeText = (value: string) =>
+  value
+    .replace(/\\/g, "\\\\")
+    .replace(/;/g, "\\;")
+    .replace(/,/g, "\\,")
+    .replace(/\r\n|\r|\n/g, "\\n");
+
+const pad = (value: number) => String(value).padStart(2, "0");
+
+// DATE value (yyyymmdd) of a UTC date
+export const formatIcsDate = (date: Date) =>
+  `${date.getUTCFullYear()}${pad(date.getUTCMonth() + 1)}${pad(
+    date.getUTCDate()
+  )}`;
+
+// DATE-TIME value in UTC (yyyymmddThhmmssZ)
+export const formatIcsDateTime = (date: Date) =>
+  `${formatIcsDate(date)}T${pad(date.getUTCHours())}${pad(
+    date.getUTCMinutes()
+  )}${pad(date.getUTCSeconds())}Z`;
+
+const utf8Length = (char: string) => {
+  const code = char.codePointAt(0) ?? 0;
+  if (code < 0x80) return 1;
+  if (code < 0x800) return 2;
+  return code < 0x10000 ? 3 : 4;
+};
+
+// Splits a line into 75-octet pieces, never inside a character; each
+// continuation starts with a space that counts toward its length
+function foldLine(line: string) {
+  const lines: string[] = [];
+  let current = "";
+  let octets = 0;
+  for (const char of Array.from(line)) {
+    const length = utf8Length(char);
+    if (octets + length > MAX_LINE_OCTETS) {
+      lines.push(current);
+      current = " ";
+      octets = 1;
+    }
+    current += char;
+    octets += length;
+  }
+  lines.push(current);
+  return lines;
+}
+
+const quoteParam = (value: string) =>
+  /[:;,]/.test(value) ? `"${value.replace(/"/g, "")}"` : value;
+
+const contentLine = ({ name, params = {}, value }: IcsProperty) =>
+  foldLine(
+    `${name}${Object.keys(params)
+      .map((key) => `;${key}=${quoteParam(params[key])}`)
+      .join("")}:${value}`
+  );
+
+export function serializeCalendar(
+  properties: IcsProperty[],
+  components: IcsComponent[]
+) {
+  const lines = [
+    "BEGIN:VCALENDAR",
+    ...properties.flatMap(contentLine),
+    ...components.flatMap(({ type, properties }) => [
+      `BEGIN:${type}`,
+      ...properties.flatMap(contentLine),
+      `END:${type}`,
+    ]),
+    "END:VCALENDAR",
+  ];
+  return lines.join("\r\n") + "\r\n";
+}
+
+// Thrown when text isn't an iCalendar object at all
+export class IcsParseError extends Error {}
+
+export const unescapeText = (value: string) =>
+  value.replace(/\\([\\;,nN])/g, (_, char: string) =>
+    char === "n" || char === "N" ? "\n" : char
+  );
+
+// Splits a multi-valued TEXT property like CATEGORIES on unescaped commas,
+// then unescapes each value
+export function splitTextList(value: string) {
+  const values: string[] = [];
+  let current = "";
+  for (let i = 0; i < value.length; i++) {
+    if (value[i] === "\\" && i + 1 < value.length) {
+      current += value[i] + value[i + 1];
+      i++;
+    } else if (value[i] === ",") {
+      values.push(current);
+      current = "";
+    } else {
+      current += value[i];
+    }
+  }
+  values.push(current);
+  return values.map(unescapeText);
+}
+
+// Offset from UTC in milliseconds of a time zone at an instant, or null
+// for a zone Intl doesn't know, like a custom VTIMEZONE name
+export function timeZoneOffset(timeZone: string, instant: number) {
+  let parts: Intl.DateTimeFormatPart[];
+  try {
+    parts = new Intl.DateTimeFormat("en-US", {
+      timeZone,
+      hour12: false,
+      year: "numeric",
+      month: "numeric",
+      day: "numeric",
+      hour: "numeric",
+      minute: "numeric",
+      second: "numeric",
+    }).formatToParts(new Date(instant));
+  } catch (error) {
+    if (error instanceof RangeError) return null;
+    throw error;
+  }
+  const part = (type: string) =>
+    Number(parts.find((p) => p.type === type)?.value);
+  // Some engines write midnight as hour 24
+  const wallClock = Date.UTC(
+    part("year"),
+    part("month") - 1,
+    part("day"),
+    part("hour") % 24,
+    part("minute"),
+    part("second")
+  );
+  return wallClock - Math.floor(instant / 1000) * 1000;
+}
+
+// The instant at which a wall-clock time (given as if it were UTC) happens
+// in `timeZone`, or null for a zone Intl doesn't know
+export function zonedTimeToInstant(wallClock: number, timeZone: string) {
+  // The offset at the wall-clock time read as UTC is off near a DST change
+  // by the change itself; a second pass lands on the right side of it
+  const offset = timeZoneOffset(timeZone, wallClock);
+  if (offset === null) return null;
+  return wallClock - (timeZoneOffset(timeZone, wallClock - offset) ?? offset);
+}
+
+// yyyy-mm-dd for a DATE, an ISO timestamp for a DATE-TIME in UTC or in a
+// `timeZone` (the TZID parameter) Intl knows. The time of a floating
+// DATE-TIME, or of one in an unknown zone, can't be placed, so only its date
+// is kept. Null when the value isn't a date.
+export function parseIcsDate(value: string, timeZone?: string) {
+  const match = /^(\d{4})(\d{2})(\d{2})(?:T(\d{2})(\d{2})(\d{2})(Z)?)?$/.exec(
+    value.trim()
+  );
+  if (!match) return null;
+  const [, year, month, day, hours, minutes, seconds, utc] = match;
+  const date = `${year}-${month}-${day}`;
+  if (hours === undefined) return date;
+
+  const wallClock = Date.UTC(
+    Number(year),
+    Number(month) - 1,
+    Number(day),
+    Number(hours),
+    Number(minutes),
+    Number(seconds)
+  );
+  if (utc) return new Date(wallClock).toISOString();
+  if (!timeZone) return date;
+
+  const instant = zonedTimeToInstant(wallClock, timeZone);
+  return instant === null ? date : new Date(instant).toISOString();
+}
+
+// Minutes in a DURATION such as PT1H30M or P1D, or null
+export function parseIcsDuration(value: string) {
+  const match =
+    /^\+?P(?:(\d+)W)?(?:(\d+)D)?(?:T(?:(\d+)H)?(?:(\d+)M)?(?:(\d+)S)?)?$/.exec(
+      value.trim()
+    );
+  if (!match || value.trim() === "P" || value.trim().endsWith("T")) {
+    return null;
+  }
+  const [weeks, days, hours, minutes, seconds] = match
+    .slice(1)
+    .map((part) => Number(part ?? 0));
+  return Math.round(
+    (weeks * 7 + days) * 24 * 60 + hours * 60 + minutes + seconds / 60
+  );
+}
+
+// Index of the first character not inside double quotes, or -1
+const indexOutsideQuotes = (line: string, char: string, from = 0) => {
+  let inQuotes = false;
+  for (let i = from; i < line.length; i++) {
+    if (line[i] === '"') inQuotes = !inQuotes;
+    else if (line[i] === char && !inQuotes) return i;
+  }
+  return -1;
+};
+
+function parseContentLine(line: string): IcsProperty | null {
+  const colon = indexOutsideQuotes(line, ":");
+  if (colon <= 0) return null;
+
+  const params: Record<string, string> = {};
+  let start = indexOutsideQuotes(line.slice(0, colon), ";");
+  const name = (start === -1 ? line.slice(0, colon) : line.slice(0, start))
+    .trim()
+    .toUpperCase();
+  while (start !== -1) {
+    const end = indexOutsideQuotes(line.slice(0, colon), ";", start + 1);
+    const param = line.slice(start + 1, end === -1 ? colon : end);
+    const equals = param.indexOf("=");
+    if (equals > 0) {
+      params[param.slice(0, equals).trim().toUpperCase()] = param
+        .slice(equals + 1)
+        .replace(/^"|"$/g, "");
+    }
+    start = end;
+  }
+  return { name, params, value: line.slice(colon + 1) };
+}
+
+// The VEVENT and VTODO components of an iCalendar file, in file order.
+// Nested components such as VALARM are skipped, as is everything else.
+export function parseCalendar(text: string): IcsComponent[] {
+  const lines = text
+    .replace(/^\uFEFF/, "")
+    .replace(/\r?\n[ \t]/g, "")
+    .split(/\r\n|\n|\r/);
+
+  const components: IcsComponent[] = [];
+  const open: string[] = [];
+  let current: IcsComponent | null = null;
+  let isCalendar = false;
+
+  for (const line of lines) {
+    const property = parseContentLine(line);
+    if (!property) continue;
+    const value = property.value.trim().toUpperCase();
+
+    if (property.name === "BEGIN") {
+      if (open.length === 0 && value !== "VCALENDAR") {
+        throw new IcsParseError("The file doesn't start with BEGIN:VCALENDAR");
+      }
+      isCalendar = true;
+      if (
+        open.length === 1 &&
+        open[0] === "VCALENDAR" &&
+        (value === "VEVENT" || value === "VTODO")
+      ) {
+        current = { type: value, properties: [] };
+      }
+      open.push(value);
+    } else if (property.name === "END") {
+      if (open[open.length - 1] !== value) {
+        throw new IcsParseError(`END:${value} doesn't match its BEGIN`);
+      }
+      open.pop();
+      if (current && open.length === 1) {
+        components.push(current);
+        current = null;
+      }
+    } else if (current && open.length === 2) {
+      current.properties.push(property);
+    }
+  }
+
+  if (!isCalendar) {
+    throw new IcsParseError("The file has no BEGIN:VCALENDAR");
+  }
+  if (open.length > 0) {
+    throw new IcsParseError(`BEGIN:${open[open.length - 1]} is never closed`);
+  }
+  return components;
+}
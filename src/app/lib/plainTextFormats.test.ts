@@ -0,0 +1,195 @@
+import { describe, expect, it } from "vitest";
+import {
+  ExportedTask,
+  TransferFormat,
+  exportTasks,
+  parseImportFile,
+} from "./taskTransferFormats";
+
+const task = (fields: Partial<ExportedTask>): ExportedTask => ({
+  title: "Task",
+  description: null,
+  dueDate: null,
+  priority: null,
+  status: "Not Started",
+  tags: [],
+  estimatedTime: null,
+  project: null,
+  createdAt: "2026-10-01T09:00:00.000Z",
+  ...fields,
+});
+
+const roundTrip = (format: TransferFormat, tasks: ExportedTask[]) =>
+  parseImportFile(format, exportTasks(tasks, format)).records;
+
+const TRICKY_TITLES = [
+  "Fix bug #123",
+  "Reply to @alice",
+  "Add +1 to the counter",
+  "2026-10-20 standup notes",
+  "x marks the spot",
+  "(B) is not a priority",
+  "Set due:friday in the notes",
+  "Ask !high and ~5 people",
+  "Path C:\\temp and \\backslash",
+];
+
+describe("todo.txt", () => {
+  it("writes priority, tags, due day and completion", () => {
+    expect(
+      exportTasks(
+        [
+          task({
+            title: "Buy milk",
+            priority: "High",
+            tags: ["home", "weekly shop"],
+            dueDate: "2026-10-20",
+          }),
+          task({ title: "Ship it", priority: "Low", status: "Completed" }),
+        ],
+        "todotxt"
+      )
+    ).toBe("(A) Buy milk @home @weekly_shop due:2026-10-20\nx Ship it pri:C\n");
+  });
+
+  it("round-trips the fields it can represent", () => {
+    expect(
+      roundTrip("todotxt", [
+        task({
+          title: "Buy milk",
+          priority: "Medium",
+          tags: ["home", "errands"],
+          dueDate: "2026-10-20",
+        }),
+        task({
+          title: "Ship it",
+          priority: "Low",
+          status: "Completed",
+          // todo.txt due dates are days
+          dueDate: "2026-10-21T15:30:00.000Z",
+        }),
+        task({ title: "Plain" }),
+      ])
+    ).toEqual([
+      {
+        title: "Buy milk",
+        priority: "Medium",
+        tags: ["home", "errands"],
+        dueDate: "2026-10-20",
+      },
+      {
+        title: "Ship it",
+        priority: "Low",
+        status: "Completed",
+        dueDate: "2026-10-21",
+      },
+      { title: "Plain" },
+    ]);
+  });
+
+  it.each(TRICKY_TITLES)("keeps the title %j intact", (title) => {
+    for (const status of ["Not Started", "Completed"]) {
+      const [record] = roundTrip("todotxt", [task({ title, status })]);
+      expect(record.title).toBe(title);
+      expect(record.tags).toBeUndefined();
+      expect(record.dueDate).toBeUndefined();
+    }
+  });
+
+  it("reads lines from other todo.txt tools", () => {
+    expect(
+      parseImportFile(
+        "todotxt",
+        "x 2026-10-02 2026-10-01 Call mom +Family @phone due:2026-10-05 pri:B\n" +
+          "(D) 2026-10-01 Renew passport\n\n"
+      ).records
+    ).toEqual([
+      {
+        title: "Call mom",
+        status: "Completed",
+        tags: ["Family", "phone"],
+        dueDate: "2026-10-05",
+        priority: "Medium",
+      },
+      { title: "Renew passport", priority: "Low" },
+    ]);
+  });
+});
+
+describe("Markdown checklist", () => {
+  it("round-trips every field it can represent", () => {
+    expect(
+      roundTrip("markdown", [
+        task({
+          title: "Buy milk",
+          priority: "High",
+          tags: ["home", "errands"],
+          dueDate: "2026-10-20",
+        }),
+        task({
+          title: "Ship it",
+          priority: "Low",
+          status: "Completed",
+          dueDate: "2026-10-21T15:30:00.000Z",
+          estimatedTime: 90,
+          description: "First line\n\n    indented code\nlast line",
+        }),
+      ])
+    ).toEqual([
+      {
+        title: "Buy milk",
+        priority: "High",
+        tags: ["home", "errands"],
+        dueDate: "2026-10-20",
+      },
+      {
+        title: "Ship it",
+        priority: "Low",
+        status: "Completed",
+        dueDate: "2026-10-21T15:30Z",
+        estimatedTime: "1h30m",
+        description: "First line\n\n    indented code\nlast line",
+      },
+    ]);
+  });
+
+  it("keeps a checklist inside a description as part of it", () => {
+    const description = "Steps:\n- [ ] reproduce\n- [x] write a test";
+    const records = roundTrip("markdown", [
+      task({ title: "Fix crash", description }),
+      task({ title: "Next" }),
+    ]);
+    expect(records).toEqual([
+      { title: "Fix crash", description },
+      { title: "Next" },
+    ]);
+  });
+
+  it.each(TRICKY_TITLES)("keeps the title %j intact", (title) => {
+    const [record] = roundTrip("markdown", [task({ title })]);
+    expect(record).toEqual({ title });
+  });
+
+  it("reads checklists written by hand", () => {
+    expect(
+      parseImportFile(
+        "markdown",
+        "# Groceries\n\n" +
+          "1. [X] Eggs #shop\n" +
+          "* [ ] Bread !urgent ~45m\n" +
+          "  from the bakery\n" +
+          "  - [ ] sourdough\n" +
+          "A closing paragraph\n" +
+          "  - [ ] indented list starts here\n"
+      ).records
+    ).toEqual([
+      { title: "Eggs", status: "Completed", tags: ["shop"] },
+      {
+        title: "Bread !urgent",
+        estimatedTime: "45m",
+        description: "from the bakery\n- [ ] sourdough",
+      },
+      { title: "indented list starts here" },
+    ]);
+  });
+});
@@ -0,0 +1,237 @@
+import { TASK_PRIORITIES } from "./taskConstants";
+import { formatEstimate } from "./estimates";
+import { ExportedTask, ImportRecord } from "./taskTransferFormats";
+
+// todo.txt (https://github.com/todotxt/todo.txt) and GitHub Markdown
+// checklists, one task per line. todo.txt keeps to what other todo.txt tools
+// read: title, priority, due day, tags and completion. Checklist items add
+// the due time, estimate and, on indented lines below, the description.
+// Tag names are single words in both, so spaces in them become underscores.
+// Client-safe.
+
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+
+const splitLines = (content: string) => content.split(/\r\n|\n|\r/);
+
+const tagToken = (prefix: string, name: string) =>
+  `${prefix}${name.replace(/\s+/g, "_")}`;
+
+// todo.txt has no escape syntax, so in both formats title words an importer
+// would read as a token (a tag, priority, due date...) get a leading
+// backslash, which Markdown hides before punctuation, as do words that
+// already start with one. Importers drop one backslash from each title
+// word. Titles are one line in both formats.
+const escapeTitle = (
+  title: string,
+  isToken: (word: string, index: number) => boolean
+) =>
+  title
+    .trim()
+    .split(/\s+/)
+    .map((word, index) =>
+      isToken(word, index) || word.startsWith("\\") ? `\\${word}` : word
+    )
+    .join(" ");
+
+const unescapeWord = (word: string) =>
+  word.startsWith("\\") ? word.slice(1) : word;
+
+// todo.txt priorities are letters from A, the most urgent
+const TODO_TXT_PRIORITIES: Record<string, string> = {
+  High: "A",
+  Medium: "B",
+  Low: "C",
+};
+
+const todoTxtPriority = (letter: string) =>
+  letter === "A" ? "High" : letter === "B" ? "Medium" : "Low";
+
+// A leading x, (A) or date is only read at the start of the line
+const isTodoTxtToken = (word: string, index: number) =>
+  /^[+@]\S/.test(word) ||
+  /^(due|pri):\S+$/i.test(word) ||
+  (index === 0 &&
+    (word === "x" || /^\([A-Z]\)$/.test(word) || DATE_PATTERN.test(word)));
+
+// Tags export as @contexts; imports read +projects as tags too
+export const exportTodoTxt = (tasks: ExportedTask[]) =>
+  tasks
+    .map((task) => {
+      const completed = task.status === "Completed";
+      const priority = task.priority && TODO_TXT_PRIORITIES[task.priority];
+      return [
+        completed && "x",
+        !completed && priority && `(${priority})`,
+        escapeTitle(task.title, isTodoTxtToken),
+        ...task.tags.map((tag) => tagToken("@", tag)),
+        task.dueDate && `due:${task.dueDate.slice(0, 10)}`,
+        // Done tasks lose the (A) prefix; todo.txt tools keep it as pri:
+        completed && priority && `pri:${priority}`,
+      ]
+        .filter(Boolean)
+        .join(" ");
+    })
+    .map((line) => `${line}\n`)
+    .join("");
+
+export function parseTodoTxt(content: string): ImportRecord[] {
+  return splitLines(content)
+    .map((line) => line.trim())
+    .filter(Boolean)
+    .map((line) => {
+      const record: ImportRecord = {};
+      const words = line.split(/\s+/);
+
+      if (words[0] === "x") {
+        record.status = "Completed";
+        words.shift();
+      }
+      const priority = /^\(([A-Z])\)$/.exec(words[0] ?? "");
+      if (priority) {
+        record.priority = todoTxtPriority(priority[1]);
+        words.shift();
+      }
+      // Completion and creation dates
+      for (let i = 0; i < 2 && DATE_PATTERN.test(words[0] ?? ""); i++) {
+        words.shift();
+      }
+
+      const title: string[] = [];
+      const tags: string[] = [];
+      for (const word of words) {
+        const key = /^(due|pri):(\S+)$/i.exec(word);
+        if (/^[+@]\S/.test(word)) {
+          tags.push(word.slice(1));
+        } else if (key && key[1].toLowerCase() === "due") {
+          record.dueDate = key[2];
+        } else if (key && /^[A-Z]$/.test(key[2])) {
+          record.priority = todoTxtPriority(key[2]);
+        } else {
+          title.push(unescapeWord(word));
+        }
+      }
+      if (title.length > 0) record.title = title.join(" ");
+      if (tags.length > 0) record.tags = tags;
+      return record;
+    });
+}
+
+// "- [ ] Title !high #tag due:2026-10-20 ~1h30m", ordered lists too
+const CHECKLIST_ITEM = /^\s*(?:[-*+]|\d+[.)])\s+\[([ xX])\]\s+(.*)$/;
+
+// Columns of leading whitespace, a tab counting as four
+const indentOf = (line: string) =>
+  (/^\s*/.exec(line)?.[0] ?? "").replace(/\t/g, "    ").length;
+
+// Drops up to `columns` columns of leading whitespace
+function dedent(line: string, columns: number) {
+  let i = 0;
+  for (let width = 0; i < line.length && width < columns; i++) {
+    if (line[i] === " ") width += 1;
+    else if (line[i] === "\t") width += 4;
+    else break;
+  }
+  return line.slice(i);
+}
+
+const isChecklistToken = (word: string) =>
+  /^#\S/.test(word) ||
+  /^!(high|medium|low)$/i.test(word) ||
+  /^due:\S+$/i.test(word) ||
+  /^~\d/.test(word);
+
+// Due times are minutes in UTC, like the app stores them
+const markdownDueDate = (dueDate: string) =>
+  DATE_PATTERN.test(dueDate) ? dueDate : `${dueDate.slice(0, 16)}Z`;
+
+export const exportMarkdownChecklist = (tasks: ExportedTask[]) =>
+  tasks
+    .flatMap((task) => [
+      [
+        `- [${task.status === "Completed" ? "x" : " "}]`,
+        escapeTitle(task.title, isChecklistToken),
+        task.priority && `!${task.priority.toLowerCase()}`,
+        ...task.tags.map((tag) => tagToken("#", tag)),
+        task.dueDate && `due:${markdownDueDate(task.dueDate)}`,
+        task.estimatedTime !== null && `~${formatEstimate(task.estimatedTime)}`,
+      ]
+        .filter(Boolean)
+        .join(" "),
+      // Indented lines continue the list item
+      ...(task.description
+        ? splitLines(task.description).map((line) =>
+            line.trim() ? `  ${line}` : ""
+          )
+        : []),
+    ])
+    .map((line) => `${line}\n`)
+    .join("");
+
+function checklistRecord(checked: string, text: string) {
+  const record: ImportRecord = {};
+  if (checked !== " ") record.status = "Completed";
+
+  const title: string[] = [];
+  const tags: string[] = [];
+  for (const word of text.trim().split(/\s+/)) {
+    const priority = /^!(\w+)$/.exec(word);
+    const due = /^due:(\S+)$/i.exec(word);
+    const choice =
+      priority &&
+      TASK_PRIORITIES.find(
+        (p) => p.toLowerCase() === priority[1].toLowerCase()
+      );
+    if (/^#\S/.test(word)) {
+      tags.push(word.slice(1));
+    } else if (choice) {
+      record.priority = choice;
+    } else if (due) {
+      record.dueDate = due[1];
+    } else if (/^~\d/.test(word)) {
+      record.estimatedTime = word.slice(1);
+    } else if (word) {
+      title.push(unescapeWord(word));
+    }
+  }
+  if (title.length > 0) record.title = title.join(" ");
+  if (tags.length > 0) record.tags = tags;
+  return record;
+}
+
+// Every checklist item at the list's own indent is a task. Lines indented
+// at least two columns past it, nested checklists included, are the item's
+// description. Other Markdown, like headings and plain list items, is
+// skipped.
+export function parseMarkdownChecklist(content: string): ImportRecord[] {
+  const records: ImportRecord[] = [];
+  let current: ImportRecord | null = null;
+  let description: string[] = [];
+  let listIndent = 0;
+
+  const finishItem = () => {
+    const text = description.join("\n").trim();
+    if (current && text) current.description = text;
+    current = null;
+    description = [];
+  };
+
+  for (const line of splitLines(content)) {
+    if (current && (!line.trim() || indentOf(line) >= listIndent + 2)) {
+      description.push(dedent(line, listIndent + 2).trimEnd());
+      continue;
+    }
+
+    const item = CHECKLIST_ITEM.exec(line);
+    if (item) {
+      // The first item sets the list's indent
+      if (!current) listIndent = indentOf(line);
+      finishItem();
+      current = checklistRecord(item[1], item[2]);
+      records.push(current);
+    } else {
+      finishItem();
+    }
+  }
+  finishItem();
+  return records;
+}
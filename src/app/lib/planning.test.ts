@@ -0,0 +1,100 @@
+import { describe, expect, it } from "vitest";
+import { PlanningTask, buildPlan, dueDateKey, moveDueDate } from "./planning";
+import { CalendarTask, groupByDay } from "./calendar";
+
+// UTC-5 until US daylight saving time ends on 1 November 2026, then UTC-6
+const CHICAGO = "America/Chicago";
+
+// "Pay rent tomorrow 11pm" entered in Chicago on 21 October
+const RENT_DUE = "2026-10-23T04:00:00.000Z";
+
+describe("dueDateKey", () => {
+  it("puts a time near midnight on its local day", () => {
+    expect(dueDateKey(RENT_DUE, true, CHICAGO)).toBe("2026-10-22");
+    expect(dueDateKey(RENT_DUE, true, "UTC")).toBe("2026-10-23");
+    expect(dueDateKey(RENT_DUE, true, "Pacific/Auckland")).toBe("2026-10-23");
+  });
+
+  it("keeps a whole-day due date on its stored day", () => {
+    const dueDate = "2026-10-22T00:00:00.000Z";
+    expect(dueDateKey(dueDate, false, CHICAGO)).toBe("2026-10-22");
+    expect(dueDateKey(dueDate, false, "Pacific/Auckland")).toBe("2026-10-22");
+  });
+});
+
+describe("moveDueDate", () => {
+  it("keeps the local time of day", () => {
+    expect(moveDueDate(RENT_DUE, true, "2026-10-24", CHICAGO)).toBe(
+      "2026-10-25T04:00:00.000Z"
+    );
+  });
+
+  it("keeps the local time across a daylight saving change", () => {
+    // 11pm on 31 October, moved past the change to 2 November
+    expect(
+      moveDueDate("2026-11-01T04:00:00.000Z", true, "2026-11-02", CHICAGO)
+    ).toBe("2026-11-03T05:00:00.000Z");
+  });
+
+  it("moves a whole-day or undated task to the day itself", () => {
+    expect(
+      moveDueDate("2026-10-22T00:00:00.000Z", false, "2026-10-24", CHICAGO)
+    ).toBe("2026-10-24");
+    expect(moveDueDate(null, false, "2026-10-24", CHICAGO)).toBe("2026-10-24");
+  });
+});
+
+describe("buildPlan", () => {
+  const task = (
+    id: string,
+    dueDate: string,
+    hasDueTime: boolean
+  ): PlanningTask => ({
+    id,
+    title: id,
+    dueDate,
+    hasDueTime,
+    priority: null,
+    status: "Not Started",
+    estimatedTime: 60,
+  });
+
+  it("plans each task on its day in the user's time zone", () => {
+    const plan = buildPlan(
+      [
+        task("rent", RENT_DUE, true),
+        task("report", "2026-10-23T00:00:00.000Z", false),
+        // 11pm on the 21st in Chicago, before the range
+        task("early", "2026-10-22T04:00:00.000Z", true),
+      ],
+      "2026-10-22",
+      2,
+      480,
+      CHICAGO
+    );
+    expect(
+      plan.map((day) => [day.date, day.tasks.map((item) => item.id)])
+    ).toEqual([
+      ["2026-10-22", ["rent"]],
+      ["2026-10-23", ["report"]],
+    ]);
+  });
+});
+
+describe("groupByDay", () => {
+  it("shows a task due near midnight on its local day", () => {
+    const rent: CalendarTask = {
+      id: "rent",
+      title: "Pay rent",
+      dueDate: RENT_DUE,
+      hasDueTime: true,
+      priority: null,
+      status: "Not Started",
+      estimatedTime: null,
+      project: null,
+    };
+    expect(Array.from(groupByDay([rent], CHICAGO).keys())).toEqual([
+      "2026-10-22",
+    ]);
+  });
+});
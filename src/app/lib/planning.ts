@@ -0,0 +1,190 @@
+import { TASK_PRIORITIES } from "./taskConstants";
+import { validateDueDateChange } from "./taskValidation";
+import { timeZoneOffset, zonedTimeToInstant } from "./icalendar";
+
+// Capacity planning: open tasks' estimates totalled per due date, compared
+// with the user's daily capacity. Dates are "yyyy-mm-dd" day keys; see
+// dueDateKey for the day a task falls on. Client-safe.
+
+export const PLANNING_MAX_DAYS = 62;
+
+export interface PlanningTask {
+  id: string;
+  title: string;
+  dueDate: string;
+  hasDueTime: boolean;
+  priority: string | null;
+  status: string;
+  // Minutes; tasks without an estimate don't count towards the load
+  estimatedTime: number | null;
+}
+
+export interface PlanningDay {
+  date: string;
+  tasks: PlanningTask[];
+  totalMinutes: number;
+  overloaded: boolean;
+}
+
+export interface MoveSuggestion {
+  taskId: string;
+  title: string;
+  estimatedTime: number;
+  from: string;
+  to: string;
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export const toDateKey = (date: Date) => date.toISOString().slice(0, 10);
+
+export const addDays = (dateKey: string, days: number) =>
+  toDateKey(new Date(new Date(dateKey).getTime() + days * DAY_MS));
+
+// The browser's time zone, for the calendar and planning pages
+export const localTimeZone = () =>
+  Intl.DateTimeFormat().resolvedOptions().timeZone;
+
+export const isTimeZone = (timeZone: string) =>
+  timeZoneOffset(timeZone, Date.now()) !== null;
+
+// The day a due date falls on. A whole-day due date is its stored UTC date.
+// One with a time falls on its date in `timeZone`, so a task due at 11pm
+// stays on that day wherever the user is.
+export function dueDateKey(
+  dueDate: string | Date,
+  hasDueTime: boolean,
+  timeZone: string
+) {
+  const date = new Date(dueDate);
+  if (!hasDueTime) return toDateKey(date);
+  const offset = timeZoneOffset(timeZone, date.getTime()) ?? 0;
+  return toDateKey(new Date(date.getTime() + offset));
+}
+
+// A due date as a Date to format for display. A whole-day due date shows as
+// its stored day rather than as UTC midnight in local time.
+export const displayDueDate = (dueDate: string, hasDueTime: boolean) =>
+  hasDueTime
+    ? new Date(dueDate)
+    : new Date(`${toDateKey(new Date(dueDate))}T00:00:00`);
+
+// The due date to send when a task is moved to another day. A due date with
+// a time keeps its time of day in `timeZone`; a whole-day one, or a task
+// without a due date, becomes that day.
+export function moveDueDate(
+  dueDate: string | null,
+  hasDueTime: boolean,
+  dateKey: string,
+  timeZone: string
+) {
+  if (!dueDate || !hasDueTime) return dateKey;
+  const date = new Date(dueDate);
+  const offset = timeZoneOffset(timeZone, date.getTime()) ?? 0;
+  const timeOfDay = (date.getTime() + offset) % DAY_MS;
+  const instant = zonedTimeToInstant(
+    new Date(dateKey).getTime() + timeOfDay,
+    timeZone
+  );
+  return new Date(instant ?? date.getTime()).toISOString();
+}
+
+// One entry per day from `from`, including days with nothing due. Tasks due
+// at a time are put on their day in `timeZone`.
+export function buildPlan(
+  tasks: PlanningTask[],
+  from: string,
+  days: number,
+  capacity: number,
+  timeZone: string
+): PlanningDay[] {
+  const plan = Array.from({ length: days }, (_, i) => ({
+    date: addDays(from, i),
+    tasks: [] as PlanningTask[],
+    totalMinutes: 0,
+    overloaded: false,
+  }));
+  const byDate = new Map(plan.map((day) => [day.date, day]));
+
+  for (const task of tasks) {
+    const day = byDate.get(dueDateKey(task.dueDate, task.hasDueTime, timeZone));
+    if (!day) continue;
+    day.tasks.push(task);
+    day.totalMinutes += task.estimatedTime ?? 0;
+  }
+  for (const day of plan) {
+    day.overloaded = day.totalMinutes > capacity;
+  }
+  return plan;
+}
+
+const priorityRank = (priority: string | null) =>
+  TASK_PRIORITIES.indexOf(priority as (typeof TASK_PRIORITIES)[number]);
+
+// For each overloaded day, picks tasks to move (lowest priority first, then
+// the biggest, to need as few moves as possible) to the nearest day that
+// still has room. Never suggests a day before `today`, or a date the due
+// date rules would reject.
+export function suggestMoves(
+  plan: PlanningDay[],
+  capacity: number,
+  today: string
+): MoveSuggestion[] {
+  const free = new Map(
+    plan.map((day) => [day.date, capacity - day.totalMinutes])
+  );
+  const suggestions: MoveSuggestion[] = [];
+
+  plan.forEach((day, dayIndex) => {
+    let excess = day.totalMinutes - capacity;
+    if (excess <= 0) return;
+
+    const candidates = day.tasks
+      .filter((task) => (task.estimatedTime ?? 0) > 0)
+      .sort(
+        (a, b) =>
+          priorityRank(a.priority) - priorityRank(b.priority) ||
+          b.estimatedTime! - a.estimatedTime!
+      );
+
+    for (const task of candidates) {
+      if (excess <= 0) break;
+      const minutes = task.estimatedTime!;
+
+      // Nearest first, earlier before later at the same distance
+      const targets = plan
+        .map((other, index) => ({ other, distance: index - dayIndex }))
+        .filter(
+          ({ other, distance }) =>
+            distance !== 0 &&
+            other.date >= today &&
+            free.get(other.date)! >= minutes &&
+            validateDueDateChange(
+              new Date(other.date),
+              new Date(day.date),
+              new Date(today)
+            ) === null
+        )
+        .sort(
+          (a, b) =>
+            Math.abs(a.distance) - Math.abs(b.distance) ||
+            a.distance - b.distance
+        );
+      const target = targets[0]?.other;
+      if (!target) continue;
+
+      free.set(target.date, free.get(target.date)! - minutes);
+      free.set(day.date, free.get(day.date)! + minutes);
+      excess -= minutes;
+      suggestions.push({
+        taskId: task.id,
+        title: task.title,
+        estimatedTime: minutes,
+        from: day.date,
+        to: target.date,
+      });
+    }
+  });
+
+  return suggestions;
+}
@@ -0,0 +1,135 @@
+import { parseEstimate } from "./estimates";
+import { KeyBindings, validateKeyBindings } from "./shortcuts";
+import { TASK_STATUSES, TaskStatus } from "./taskConstants";
+
+// Per-user settings stored on the User row. Shared by /api/user/preferences
+// and the Settings page, so keep this module free of server-only imports.
+
+export const TRASH_RETENTION_MIN_DAYS = 1;
+export const TRASH_RETENTION_MAX_DAYS = 365;
+export const DAILY_CAPACITY_MAX_MINUTES = 24 * 60;
+export const WIP_LIMIT_MAX = 100;
+export const DEFAULT_WEEK_STARTS_ON = 1;
+
+// Columns without an entry have no limit
+export type WipLimits = Partial<Record<TaskStatus, number>>;
+
+export interface UserPreferences {
+  trashRetentionDays: number;
+  dailyCapacityMinutes: number;
+  boardWipLimits: WipLimits;
+  // 0 is Sunday, as in Date.getDay()
+  weekStartsOn: number;
+  keyBindings: KeyBindings;
+}
+
+// Validates a partial preferences payload; absent fields are left out
+export function validatePreferences(
+  body: unknown
+):
+  | { data: Partial<UserPreferences>; error: null }
+  | { data: null; error: string } {
+  if (!body || typeof body !== "object" || Array.isArray(body)) {
+    return { data: null, error: "Request body must be an object" };
+  }
+
+  const {
+    trashRetentionDays,
+    dailyCapacityMinutes,
+    boardWipLimits,
+    weekStartsOn,
+    keyBindings,
+  } = body as Record<string, unknown>;
+  const data: Partial<UserPreferences> = {};
+
+  if (trashRetentionDays !== undefined) {
+    if (
+      typeof trashRetentionDays !== "number" ||
+      !Number.isInteger(trashRetentionDays) ||
+      trashRetentionDays < TRASH_RETENTION_MIN_DAYS ||
+      trashRetentionDays > TRASH_RETENTION_MAX_DAYS
+    ) {
+      return {
+        data: null,
+        error: `Trash retention must be a whole number of days between ${TRASH_RETENTION_MIN_DAYS} and ${TRASH_RETENTION_MAX_DAYS}`,
+      };
+    }
+    data.trashRetentionDays = trashRetentionDays;
+  }
+
+  if (dailyCapacityMinutes !== undefined) {
+    // Accepts minutes or readable text like "7h30m"
+    const minutes =
+      typeof dailyCapacityMinutes === "string"
+        ? parseEstimate(dailyCapacityMinutes)
+        : dailyCapacityMinutes;
+    if (
+      typeof minutes !== "number" ||
+      !Number.isInteger(minutes) ||
+      minutes < 1 ||
+      minutes > DAILY_CAPACITY_MAX_MINUTES
+    ) {
+      return {
+        data: null,
+        error: "Daily capacity must be a duration like 8h or 6h30m, up to 24h",
+      };
+    }
+    data.dailyCapacityMinutes = minutes;
+  }
+
+  if (boardWipLimits !== undefined) {
+    if (
+      !boardWipLimits ||
+      typeof boardWipLimits !== "object" ||
+      Array.isArray(boardWipLimits)
+    ) {
+      return { data: null, error: "WIP limits must be an object by status" };
+    }
+    const limits: WipLimits = {};
+    for (const [status, limit] of Object.entries(boardWipLimits)) {
+      if (!TASK_STATUSES.includes(status as TaskStatus)) {
+        return { data: null, error: `Unknown status "${status}"` };
+      }
+      // null clears the column's limit
+      if (limit === null) continue;
+      if (
+        typeof limit !== "number" ||
+        !Number.isInteger(limit) ||
+        limit < 1 ||
+        limit > WIP_LIMIT_MAX
+      ) {
+        return {
+          data: null,
+          error: `WIP limits must be whole numbers from 1 to ${WIP_LIMIT_MAX}`,
+        };
+      }
+      limits[status as TaskStatus] = limit;
+    }
+    data.boardWipLimits = limits;
+  }
+
+  if (weekStartsOn !== undefined) {
+    if (
+      typeof weekStartsOn !== "number" ||
+      !Number.isInteger(weekStartsOn) ||
+      weekStartsOn < 0 ||
+      weekStartsOn > 6
+    ) {
+      return {
+        data: null,
+        error: "Week start must be a day from 0 (Sunday) to 6 (Saturday)",
+      };
+    }
+    data.weekStartsOn = weekStartsOn;
+  }
+
+  if (keyBindings !== undefined) {
+    const bindings = validateKeyBindings(keyBindings);
+    if (bindings.error !== null) {
+      return { data: null, error: bindings.error };
+    }
+    data.keyBindings = bindings.data;
+  }
+
+  return { data, error: null };
+}
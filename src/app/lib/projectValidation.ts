@@ -0,0 +1,96 @@
+import { TAG_COLORS } from "./tagValidation";
+
+// Shared by the /api/projects routes and the project forms. Keep this module
+// free of server-only imports.
+
+export const PROJECT_NAME_MAX_LENGTH = 80;
+export const PROJECT_DESCRIPTION_MAX_LENGTH = 1000;
+
+// Projects are offered the same palette as tags
+export const PROJECT_COLORS = TAG_COLORS;
+export const DEFAULT_PROJECT_COLOR = "#3b82f6";
+
+export interface ProjectSummary {
+  id: string;
+  name: string;
+  color: string;
+  description: string | null;
+  archived: boolean;
+}
+
+export interface ProjectInput {
+  name: string;
+  color: string;
+  description: string | null;
+  archived: boolean;
+}
+
+// Validates a project payload. With `partial`, absent fields are left out of
+// the result instead of being required or defaulted.
+export function validateProjectInput(
+  body: unknown,
+  partial = false
+):
+  | { data: Partial<ProjectInput>; error: null }
+  | { data: null; error: string } {
+  if (!body || typeof body !== "object" || Array.isArray(body)) {
+    return { data: null, error: "Request body must be an object" };
+  }
+
+  const { name, color, description, archived } = body as Record<
+    string,
+    unknown
+  >;
+  const data: Partial<ProjectInput> = {};
+
+  if (name !== undefined || !partial) {
+    if (typeof name !== "string" || name.trim() === "") {
+      return { data: null, error: "Project name is required" };
+    }
+    if (name.trim().length > PROJECT_NAME_MAX_LENGTH) {
+      return {
+        data: null,
+        error: `Project name must be at most ${PROJECT_NAME_MAX_LENGTH} characters`,
+      };
+    }
+    data.name = name.trim();
+  }
+
+  if (color !== undefined) {
+    if (typeof color !== "string" || !/^#[0-9a-fA-F]{6}$/.test(color)) {
+      return { data: null, error: "Color must be a hex value like #3b82f6" };
+    }
+    data.color = color.toLowerCase();
+  } else if (!partial) {
+    data.color = DEFAULT_PROJECT_COLOR;
+  }
+
+  if (description !== undefined) {
+    if (description !== null && typeof description !== "string") {
+      return { data: null, error: "Description must be text" };
+    }
+    if (
+      description &&
+      description.trim().length > PROJECT_DESCRIPTION_MAX_LENGTH
+    ) {
+      return {
+        data: null,
+        error: `Description must be at most ${PROJECT_DESCRIPTION_MAX_LENGTH} characters`,
+      };
+    }
+    data.description = description?.trim() || null;
+  } else if (!partial) {
+    data.description = null;
+  }
+
+  if (archived !== undefined) {
+    if (typeof archived !== "boolean") {
+      return { data: null, error: "archived must be true or false" };
+    }
+    data.archived = archived;
+  } else if (!partial) {
+    data.archived = false;
+  }
+
+  return { data, error: null };
+}
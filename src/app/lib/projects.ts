@@ -0,0 +1,30 @@
+import { Prisma } from "@prisma/client";
+import prisma from "./prisma";
+import { ownedTaskWhere } from "./auth";
+
+export const projectSelect = {
+  id: true,
+  name: true,
+  color: true,
+  description: true,
+  archived: true,
+} satisfies Prisma.ProjectSelect;
+
+// Nested write for a validated projectId: undefined leaves the task's project
+// alone, null takes the task out of its project
+export const projectRelation = (projectId: string | null | undefined) =>
+  projectId === undefined
+    ? undefined
+    : projectId === null
+    ? { disconnect: true }
+    : { connect: { id: projectId } };
+
+// Task counts per project, for the sidebar
+export async function countTasksByProject(userId: string) {
+  const groups = await prisma.task.groupBy({
+    by: ["projectId"],
+    where: ownedTaskWhere(userId, { projectId: { not: null } }),
+    _count: { _all: true },
+  });
+  return new Map(groups.map((group) => [group.projectId, group._count._all]));
+}
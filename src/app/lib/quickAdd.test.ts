@@ -0,0 +1,204 @@
+import { describe, expect, it } from "vitest";
+import { QuickAddOptions, parseQuickAdd } from "./quickAdd";
+
+// Wednesday 21 October 2026, local time
+const WEDNESDAY = new Date(2026, 9, 21, 14, 30);
+// Sunday 25 October 2026
+const SUNDAY = new Date(2026, 9, 25, 9, 0);
+
+const dueDate = (text: string, options: QuickAddOptions = {}) =>
+  parseQuickAdd(text, { today: WEDNESDAY, ...options }).dueDate;
+
+describe("parseQuickAdd", () => {
+  it("reads every kind of token", () => {
+    expect(
+      parseQuickAdd("Pay rent tomorrow at 5pm #Finance !high ~1h30m", {
+        today: WEDNESDAY,
+      })
+    ).toEqual({
+      title: "Pay rent",
+      dueDate: "2026-10-22",
+      dueTime: "17:00",
+      tags: ["Finance"],
+      priority: "High",
+      estimatedTime: 90,
+    });
+  });
+
+  it.each([
+    ["today", "2026-10-21"],
+    ["tmr", "2026-10-22"],
+    ["friday", "2026-10-23"],
+    ["this friday", "2026-10-23"],
+    // The coming one, never today
+    ["wednesday", "2026-10-28"],
+    ["on fri", "2026-10-23"],
+    ["by tues.", "2026-10-27"],
+    ["next month", "2026-11-01"],
+    ["2026-11-03", "2026-11-03"],
+  ])("reads %j", (text, date) => {
+    expect(dueDate(`Task ${text}`)).toBe(date);
+  });
+
+  describe("next week", () => {
+    it.each([
+      // Weeks starting on Monday: next week runs from 26 October
+      [1, WEDNESDAY, "next week", "2026-10-26"],
+      [1, WEDNESDAY, "next friday", "2026-10-30"],
+      [1, WEDNESDAY, "next sunday", "2026-11-01"],
+      [1, SUNDAY, "next week", "2026-10-26"],
+      [1, SUNDAY, "next friday", "2026-10-30"],
+      // Weeks starting on Sunday: next week runs from 25 October, or from
+      // 1 November when today is that Sunday
+      [0, WEDNESDAY, "next week", "2026-10-25"],
+      [0, WEDNESDAY, "next friday", "2026-10-30"],
+      [0, WEDNESDAY, "next sunday", "2026-10-25"],
+      [0, SUNDAY, "next week", "2026-11-01"],
+      [0, SUNDAY, "next fri", "2026-11-06"],
+    ])(
+      "with weeks starting on day %i, from %s, reads %j",
+      (weekStartsOn, today, text, date) => {
+        expect(dueDate(`Task ${text}`, { today, weekStartsOn })).toBe(date);
+      }
+    );
+  });
+
+  describe("in N days, weeks and months", () => {
+    it.each([
+      ["in 3 days", "2026-10-24"],
+      ["in a day", "2026-10-22"],
+      ["in 2 weeks", "2026-11-04"],
+      ["in a week", "2026-10-28"],
+      ["in 1 month", "2026-11-21"],
+      ["in 3 months", "2027-01-21"],
+    ])("reads %j", (text, date) => {
+      expect(dueDate(`Task ${text}`)).toBe(date);
+    });
+
+    it.each([
+      [new Date(2026, 0, 31), "in 1 month", "2026-02-28"],
+      [new Date(2028, 0, 31), "in 1 month", "2028-02-29"],
+      [new Date(2026, 7, 31), "in 1 month", "2026-09-30"],
+      [new Date(2026, 9, 31), "in 4 months", "2027-02-28"],
+      [new Date(2026, 11, 31), "in 2 months", "2027-02-28"],
+    ])("from %s, keeps %j within the month", (today, text, date) => {
+      expect(dueDate(`Task ${text}`, { today })).toBe(date);
+    });
+
+    it.each(["in the morning", "in 0 days", "in 2 years", "in -1 days"])(
+      "leaves %j in the title",
+      (text) => {
+        const parsed = parseQuickAdd(`Task ${text}`, { today: WEDNESDAY });
+        expect(parsed.title).toBe(`Task ${text}`);
+        expect(parsed.dueDate).toBeNull();
+      }
+    );
+  });
+
+  describe("month and day", () => {
+    it.each([
+      ["nov 3", "2026-11-03"],
+      ["3 november", "2026-11-03"],
+      ["sept 30th", "2027-09-30"],
+      ["Nov. 3rd 2028", "2028-11-03"],
+      // Today still counts as this year
+      ["oct 21", "2026-10-21"],
+      // Dates that have passed mean next year's
+      ["oct 20", "2027-10-20"],
+      ["jan 5", "2027-01-05"],
+    ])("reads %j", (text, date) => {
+      expect(dueDate(`Task ${text}`)).toBe(date);
+    });
+
+    it("rolls over to next year late in the year", () => {
+      expect(dueDate("Task nov 3", { today: new Date(2026, 11, 15) })).toBe(
+        "2027-11-03"
+      );
+    });
+
+    it.each(["feb 30", "nov 31"])("leaves %j in the title", (text) => {
+      const parsed = parseQuickAdd(`Task ${text}`, { today: WEDNESDAY });
+      expect(parsed.title).toBe(`Task ${text}`);
+      expect(parsed.dueDate).toBeNull();
+    });
+  });
+
+  describe("times", () => {
+    it.each([
+      ["5pm", "17:00"],
+      ["5 pm", "17:00"],
+      ["5:30pm", "17:30"],
+      ["5:30 am", "05:30"],
+      ["12am", "00:00"],
+      ["12pm", "12:00"],
+      ["noon", "12:00"],
+      ["17:00", "17:00"],
+      ["0:15", "00:15"],
+      ["9:05", "09:05"],
+    ])("reads %j as %s", (text, time) => {
+      expect(
+        parseQuickAdd(`Call Sam at ${text}`, { today: WEDNESDAY })
+      ).toMatchObject({ title: "Call Sam", dueTime: time });
+    });
+
+    it("puts a time without a date on today", () => {
+      expect(dueDate("Call Sam at 5pm")).toBe("2026-10-21");
+    });
+
+    it("keeps the date and time when both are given", () => {
+      expect(
+        parseQuickAdd("Call Sam 9am on nov 3", { today: WEDNESDAY })
+      ).toMatchObject({
+        title: "Call Sam",
+        dueDate: "2026-11-03",
+        dueTime: "09:00",
+      });
+    });
+  });
+
+  it.each([
+    // Short weekday names alone could be part of the title
+    "Watch Sun documentary",
+    "Sat exam prep",
+    "Read the May issue",
+    "March on",
+    "Buy 5 apples",
+    "Book room 12",
+    "Run 25:00 drill",
+    "Set 13pm alarm",
+    "Ask about !urgent",
+    "Sort ~abc files",
+    "Learn C# basics",
+    "Sit on the chair",
+  ])("keeps %j as the title", (text) => {
+    expect(parseQuickAdd(text, { today: WEDNESDAY })).toEqual({
+      title: text,
+      dueDate: null,
+      dueTime: null,
+      tags: [],
+      priority: null,
+      estimatedTime: null,
+    });
+  });
+
+  it("reads a full weekday name anywhere", () => {
+    expect(
+      parseQuickAdd("Sunday roast prep", { today: WEDNESDAY })
+    ).toMatchObject({ title: "roast prep", dueDate: "2026-10-25" });
+  });
+
+  it("only reads the first date, time, priority and estimate", () => {
+    expect(
+      parseQuickAdd("Plan friday monday 9am 10am !low !high ~5m ~1h #a #A", {
+        today: WEDNESDAY,
+      })
+    ).toEqual({
+      title: "Plan monday 10am !high ~1h",
+      dueDate: "2026-10-23",
+      dueTime: "09:00",
+      tags: ["a"],
+      priority: "Low",
+      estimatedTime: 5,
+    });
+  });
+});
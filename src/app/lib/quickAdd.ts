@@ -0,0 +1,384 @@
+import { parseEstimate } from "./estimates";
+import { TaskPriority } from "./taskConstants";
+
+// Natural-language quick add: "Pay rent tomorrow 5pm #Finance !high ~30m"
+// becomes a title plus due date, time, tags, priority and estimate. Words that
+// aren't recognised stay in the title. Client-safe and free of side effects;
+// pass `today` to get stable results.
+//
+//   #tag             tag name (letters, digits, - and _)
+//   !high !medium !low, or !1 !2 !3 (1 is high)
+//   ~30m ~1h30m ~1.5h  estimate
+//   today, tomorrow, in 3 days, in 2 weeks, in 1 month, next week, next month
+//   friday, this friday (the coming one), next friday (in the next week);
+//     short names like "fri" need on, by, due, this or next before them
+//   nov 3, 3 november 2027, sept 3, 2026-11-03
+//   5pm, 5:30 pm, 17:00, noon
+//
+// "on", "at", "by" and "due" directly before a date or time are dropped too.
+
+export interface QuickAddOptions {
+  today?: Date;
+  // 0 is Sunday, 1 Monday; decides where "next week" starts
+  weekStartsOn?: number;
+}
+
+export interface ParsedQuickAdd {
+  title: string;
+  // yyyy-mm-dd
+  dueDate: string | null;
+  // HH:mm, 24-hour
+  dueTime: string | null;
+  // Names as typed, without the #
+  tags: string[];
+  priority: TaskPriority | null;
+  // Minutes
+  estimatedTime: number | null;
+}
+
+const WEEKDAYS = [
+  "sunday",
+  "monday",
+  "tuesday",
+  "wednesday",
+  "thursday",
+  "friday",
+  "saturday",
+];
+
+const MONTHS = [
+  "january",
+  "february",
+  "march",
+  "april",
+  "may",
+  "june",
+  "july",
+  "august",
+  "september",
+  "october",
+  "november",
+  "december",
+];
+
+const PRIORITY_ALIASES: Record<string, TaskPriority> = {
+  high: "High",
+  h: "High",
+  "1": "High",
+  medium: "Medium",
+  med: "Medium",
+  m: "Medium",
+  "2": "Medium",
+  low: "Low",
+  l: "Low",
+  "3": "Low",
+};
+
+const CONNECTORS = ["on", "at", "by", "due"];
+
+const TAG_PATTERN = new RegExp("^#([\\p{L}\\p{N}_-]+)$", "u");
+
+const DAY_UNITS: Record<string, number> = {
+  day: 1,
+  days: 1,
+  week: 7,
+  weeks: 7,
+};
+
+// Usual short forms, in the order of WEEKDAYS and MONTHS
+const WEEKDAY_ABBREVIATIONS = [
+  ["sun"],
+  ["mon"],
+  ["tue", "tues"],
+  ["wed"],
+  ["thu", "thur", "thurs"],
+  ["fri"],
+  ["sat"],
+];
+
+const MONTH_ABBREVIATIONS = [
+  ["jan"],
+  ["feb"],
+  ["mar"],
+  ["apr"],
+  [],
+  ["jun"],
+  ["jul"],
+  ["aug"],
+  ["sep", "sept"],
+  ["oct"],
+  ["nov"],
+  ["dec"],
+];
+
+// Index of a full name or one of its short forms ("tues", "sept."), or -1
+const matchName = (
+  names: string[],
+  abbreviations: string[][],
+  word: string
+) => {
+  const bare = word.replace(/\.$/, "");
+  return names.findIndex(
+    (name, i) => name === bare || abbreviations[i].includes(bare)
+  );
+};
+
+const weekdayOf = (word: string) =>
+  matchName(WEEKDAYS, WEEKDAY_ABBREVIATIONS, word);
+
+const isFullWeekday = (word: string) =>
+  WEEKDAYS.includes(word.replace(/\.$/, ""));
+
+// Month names only count next to a day number, so "may" alone stays a word
+const monthOf = (word: string) => matchName(MONTHS, MONTH_ABBREVIATIONS, word);
+
+const daysInMonth = (year: number, month: number) =>
+  new Date(year, month + 1, 0).getDate();
+
+const dayOfMonth = (word: string) => {
+  const match = /^(\d{1,2})(?:st|nd|rd|th)?,?$/.exec(word);
+  const day = match ? Number(match[1]) : NaN;
+  return day >= 1 && day <= 31 ? day : null;
+};
+
+const addDays = (date: Date, days: number) =>
+  new Date(date.getFullYear(), date.getMonth(), date.getDate() + days);
+
+const startOfWeek = (date: Date, weekStartsOn: number) =>
+  addDays(date, -((date.getDay() - weekStartsOn + 7) % 7));
+
+export const toLocalDateKey = (date: Date) =>
+  [
+    date.getFullYear(),
+    String(date.getMonth() + 1).padStart(2, "0"),
+    String(date.getDate()).padStart(2, "0"),
+  ].join("-");
+
+const toTime = (hours: number, minutes: number) =>
+  hours > 23 || minutes > 59
+    ? null
+    : `${String(hours).padStart(2, "0")}:${String(minutes).padStart(2, "0")}`;
+
+interface Match<T> {
+  value: T;
+  // Number of words used
+  length: number;
+}
+
+// Times: "5pm", "5:30pm", "5 pm", "17:00", "noon"
+function matchTime(words: string[], i: number): Match<string> | null {
+  const word = words[i];
+  if (word === "noon") return { value: "12:00", length: 1 };
+
+  const twelveHour = /^(\d{1,2})(?::(\d{2}))?(am|pm)?$/.exec(word);
+  if (twelveHour) {
+    const suffix =
+      twelveHour[3] ??
+      (/^(am|pm)$/.test(words[i + 1] ?? "") ? words[i + 1] : null);
+    const hours = Number(twelveHour[1]);
+    const minutes = Number(twelveHour[2] ?? 0);
+
+    if (suffix && hours >= 1 && hours <= 12) {
+      const time = toTime((hours % 12) + (suffix === "pm" ? 12 : 0), minutes);
+      return time ? { value: time, length: twelveHour[3] ? 1 : 2 } : null;
+    }
+    // Without am/pm only 24-hour "17:00" counts; a bare "5" is just a number
+    if (!suffix && twelveHour[2] !== undefined) {
+      const time = toTime(hours, minutes);
+      return time ? { value: time, length: 1 } : null;
+    }
+  }
+  return null;
+}
+
+// Dates, resolved against `today` in local time
+function matchDate(
+  words: string[],
+  i: number,
+  today: Date,
+  weekStartsOn: number
+): Match<Date> | null {
+  const [word, next, afterNext] = [words[i], words[i + 1], words[i + 2]];
+
+  if (word === "today") return { value: today, length: 1 };
+  if (word === "tomorrow" || word === "tmr") {
+    return { value: addDays(today, 1), length: 1 };
+  }
+
+  const iso = /^(\d{4})-(\d{2})-(\d{2})$/.exec(word);
+  if (iso) {
+    const date = new Date(Number(iso[1]), Number(iso[2]) - 1, Number(iso[3]));
+    return date.getDate() === Number(iso[3])
+      ? { value: date, length: 1 }
+      : null;
+  }
+
+  // "in 3 days", "in a week", "in 2 months"
+  if (word === "in" && next) {
+    const count = next === "a" || next === "an" ? 1 : Number(next);
+    if (Number.isInteger(count) && count > 0 && afterNext) {
+      if (DAY_UNITS[afterNext]) {
+        return {
+          value: addDays(today, count * DAY_UNITS[afterNext]),
+          length: 3,
+        };
+      }
+      // The same day of the month, or the month's last day if it's shorter
+      if (afterNext === "month" || afterNext === "months") {
+        const year = today.getFullYear();
+        const month = today.getMonth() + count;
+        const day = Math.min(today.getDate(), daysInMonth(year, month));
+        return { value: new Date(year, month, day), length: 3 };
+      }
+    }
+    return null;
+  }
+
+  if (word === "next" && next) {
+    const nextWeekStart = addDays(startOfWeek(today, weekStartsOn), 7);
+    if (next === "week") return { value: nextWeekStart, length: 2 };
+    if (next === "month") {
+      return {
+        value: new Date(today.getFullYear(), today.getMonth() + 1, 1),
+        length: 2,
+      };
+    }
+    // The given day within next week
+    const weekday = weekdayOf(next);
+    if (weekday !== -1) {
+      const offset = (weekday - weekStartsOn + 7) % 7;
+      return { value: addDays(nextWeekStart, offset), length: 2 };
+    }
+    return null;
+  }
+
+  // "friday" and "this friday": the coming one, never today. A short name
+  // alone could be a word of the title ("Watch Sun documentary"), so it
+  // needs a connector like "on" before it.
+  const weekdayWord = word === "this" ? next : word;
+  const weekday = weekdayWord ? weekdayOf(weekdayWord) : -1;
+  if (
+    weekday !== -1 &&
+    (word === "this" ||
+      isFullWeekday(weekdayWord) ||
+      CONNECTORS.includes(words[i - 1] ?? ""))
+  ) {
+    const days = (weekday - today.getDay() + 7) % 7 || 7;
+    return { value: addDays(today, days), length: word === "this" ? 2 : 1 };
+  }
+
+  // "nov 3", "november 3rd 2027", "3 nov", "3rd november 2027"
+  let month = monthOf(word);
+  let day = next ? dayOfMonth(next) : null;
+  if (month === -1 || day === null) {
+    day = dayOfMonth(word);
+    month = next ? monthOf(next) : -1;
+  }
+  if (month !== -1 && day !== null) {
+    const year = /^\d{4}$/.test(afterNext ?? "") ? Number(afterNext) : null;
+    let date = new Date(year ?? today.getFullYear(), month, day);
+    // Without a year, a date that has passed means next year's
+    if (year === null && date < today) {
+      date = new Date(today.getFullYear() + 1, month, day);
+    }
+    if (date.getDate() !== day) return null;
+    return { value: date, length: year === null ? 2 : 3 };
+  }
+
+  return null;
+}
+
+export function parseQuickAdd(
+  text: string,
+  { today = new Date(), weekStartsOn = 1 }: QuickAddOptions = {}
+): ParsedQuickAdd {
+  const startOfToday = new Date(
+    today.getFullYear(),
+    today.getMonth(),
+    today.getDate()
+  );
+  const words = text.trim().split(/\s+/).filter(Boolean);
+  const lower = words.map((word) => word.toLowerCase());
+  const used = new Array<boolean>(words.length).fill(false);
+  const result: ParsedQuickAdd = {
+    title: "",
+    dueDate: null,
+    dueTime: null,
+    tags: [],
+    priority: null,
+    estimatedTime: null,
+  };
+
+  const consume = (start: number, length: number) => {
+    for (let j = start; j < start + length; j++) used[j] = true;
+    // Drop a connector like "on" or "at" right before the match
+    if (
+      start > 0 &&
+      !used[start - 1] &&
+      CONNECTORS.includes(lower[start - 1])
+    ) {
+      used[start - 1] = true;
+    }
+  };
+
+  for (let i = 0; i < words.length; i++) {
+    if (used[i]) continue;
+    const word = lower[i];
+
+    const tag = TAG_PATTERN.exec(words[i]);
+    if (tag) {
+      if (
+        !result.tags.some((name) => name.toLowerCase() === tag[1].toLowerCase())
+      ) {
+        result.tags.push(tag[1]);
+      }
+      used[i] = true;
+      continue;
+    }
+
+    if (word.startsWith("!") && result.priority === null) {
+      const priority = PRIORITY_ALIASES[word.slice(1)];
+      if (priority) {
+        result.priority = priority;
+        used[i] = true;
+        continue;
+      }
+    }
+
+    if (word.startsWith("~") && result.estimatedTime === null) {
+      const minutes = parseEstimate(word.slice(1));
+      if (minutes !== null && minutes > 0) {
+        result.estimatedTime = minutes;
+        used[i] = true;
+        continue;
+      }
+    }
+
+    if (result.dueDate === null) {
+      const date = matchDate(lower, i, startOfToday, weekStartsOn);
+      if (date) {
+        result.dueDate = toLocalDateKey(date.value);
+        consume(i, date.length);
+        i += date.length - 1;
+        continue;
+      }
+    }
+
+    if (result.dueTime === null) {
+      const time = matchTime(lower, i);
+      if (time) {
+        result.dueTime = time.value;
+        consume(i, time.length);
+        i += time.length - 1;
+        continue;
+      }
+    }
+  }
+
+  // A time on its own means today
+  if (result.dueTime && !result.dueDate) {
+    result.dueDate = toLocalDateKey(startOfToday);
+  }
+  result.title = words.filter((_, i) => !used[i]).join(" ");
+  return result;
+}
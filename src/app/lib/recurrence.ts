@@ -0,0 +1,244 @@
+// Recurrence rules for repeating tasks. Stored as JSON on Task.recurrence and
+// shared by the API (next occurrence) and the editors (preview). Dates are
+// handled in UTC since due dates are stored as UTC midnight.
+
+export type RecurrenceRule =
+  | { type: "daily"; interval: number }
+  | { type: "weekly"; interval: number; weekdays: number[] }
+  | { type: "monthlyByDay"; interval: number; day: number }
+  // week 1-4 picks the nth weekday of the month, 5 means the last one
+  | {
+      type: "monthlyByWeekday";
+      interval: number;
+      week: number;
+      weekday: number;
+    }
+  | { type: "afterCompletion"; days: number };
+
+export type RecurrenceType = RecurrenceRule["type"];
+
+export const WEEKDAY_NAMES = [
+  "Sunday",
+  "Monday",
+  "Tuesday",
+  "Wednesday",
+  "Thursday",
+  "Friday",
+  "Saturday",
+];
+
+export const WEEK_ORDINALS = ["first", "second", "third", "fourth", "last"];
+
+const MAX_INTERVAL = 365;
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const isWholeNumber = (value: unknown, min: number, max: number) =>
+  typeof value === "number" &&
+  Number.isInteger(value) &&
+  value >= min &&
+  value <= max;
+
+// Parses an untrusted value into a rule, or explains why it isn't one
+export function validateRecurrence(
+  value: unknown
+): { value: RecurrenceRule | null } | { error: string } {
+  if (value === null || value === undefined) return { value: null };
+  if (typeof value !== "object" || Array.isArray(value)) {
+    return { error: "Recurrence must be an object" };
+  }
+
+  const rule = value as Record<string, unknown>;
+  const interval = rule.interval ?? 1;
+  if (
+    rule.type !== "afterCompletion" &&
+    !isWholeNumber(interval, 1, MAX_INTERVAL)
+  ) {
+    return { error: `Interval must be between 1 and ${MAX_INTERVAL}` };
+  }
+
+  switch (rule.type) {
+    case "daily":
+      return { value: { type: "daily", interval: interval as number } };
+    case "weekly": {
+      const weekdays = rule.weekdays;
+      if (
+        !Array.isArray(weekdays) ||
+        weekdays.length === 0 ||
+        !weekdays.every((day) => isWholeNumber(day, 0, 6))
+      ) {
+        return { error: "Pick at least one weekday" };
+      }
+      return {
+        value: {
+          type: "weekly",
+          interval: interval as number,
+          weekdays: Array.from(new Set(weekdays as number[])).sort(
+            (a, b) => a - b
+          ),
+        },
+      };
+    }
+    case "monthlyByDay":
+      if (!isWholeNumber(rule.day, 1, 31)) {
+        return { error: "Day of month must be between 1 and 31" };
+      }
+      return {
+        value: {
+          type: "monthlyByDay",
+          interval: interval as number,
+          day: rule.day as number,
+        },
+      };
+    case "monthlyByWeekday":
+      if (
+        !isWholeNumber(rule.week, 1, 5) ||
+        !isWholeNumber(rule.weekday, 0, 6)
+      ) {
+        return { error: "Pick a week and a weekday" };
+      }
+      return {
+        value: {
+          type: "monthlyByWeekday",
+          interval: interval as number,
+          week: rule.week as number,
+          weekday: rule.weekday as number,
+        },
+      };
+    case "afterCompletion":
+      if (!isWholeNumber(rule.days, 1, MAX_INTERVAL)) {
+        return { error: `Days must be between 1 and ${MAX_INTERVAL}` };
+      }
+      return { value: { type: "afterCompletion", days: rule.days as number } };
+    default:
+      return { error: "Unknown recurrence type" };
+  }
+}
+
+const addDays = (date: Date, days: number) =>
+  new Date(date.getTime() + days * DAY_MS);
+
+const daysInMonth = (year: number, month: number) =>
+  new Date(Date.UTC(year, month + 1, 0)).getUTCDate();
+
+// Same time of day as `date`, moved to the given year/month/day
+const withDay = (date: Date, year: number, month: number, day: number) => {
+  const result = new Date(date);
+  result.setUTCFullYear(year, month, day);
+  return result;
+};
+
+const nthWeekdayOfMonth = (
+  year: number,
+  month: number,
+  week: number,
+  weekday: number
+) => {
+  if (week === 5) {
+    const last = daysInMonth(year, month);
+    const lastWeekday = new Date(Date.UTC(year, month, last)).getUTCDay();
+    return last - ((lastWeekday - weekday + 7) % 7);
+  }
+  const firstWeekday = new Date(Date.UTC(year, month, 1)).getUTCDay();
+  return 1 + ((weekday - firstWeekday + 7) % 7) + (week - 1) * 7;
+};
+
+// Due date of the occurrence after one due on `from`. `completedAt` is only
+// used by "after completion" rules.
+export function nextOccurrence(
+  rule: RecurrenceRule,
+  from: Date,
+  completedAt: Date = from
+): Date {
+  switch (rule.type) {
+    case "daily":
+      return addDays(from, rule.interval);
+    case "weekly": {
+      // Weeks start on Sunday; only every `interval`-th week counts
+      const weekStart = addDays(from, -from.getUTCDay());
+      for (let offset = 1; offset <= 7 * rule.interval + 7; offset++) {
+        const candidate = addDays(from, offset);
+        const week = Math.floor(
+          (candidate.getTime() - weekStart.getTime()) / (7 * DAY_MS)
+        );
+        if (
+          week % rule.interval === 0 &&
+          rule.weekdays.includes(candidate.getUTCDay())
+        ) {
+          return candidate;
+        }
+      }
+      return addDays(from, 7 * rule.interval);
+    }
+    case "monthlyByDay": {
+      const monthIndex = from.getUTCMonth() + rule.interval;
+      const year = from.getUTCFullYear() + Math.floor(monthIndex / 12);
+      const month = monthIndex % 12;
+      return withDay(
+        from,
+        year,
+        month,
+        Math.min(rule.day, daysInMonth(year, month))
+      );
+    }
+    case "monthlyByWeekday": {
+      const monthIndex = from.getUTCMonth() + rule.interval;
+      const year = from.getUTCFullYear() + Math.floor(monthIndex / 12);
+      const month = monthIndex % 12;
+      return withDay(
+        from,
+        year,
+        month,
+        nthWeekdayOfMonth(year, month, rule.week, rule.weekday)
+      );
+    }
+    case "afterCompletion": {
+      const next = addDays(completedAt, rule.days);
+      return withDay(
+        from,
+        next.getUTCFullYear(),
+        next.getUTCMonth(),
+        next.getUTCDate()
+      );
+    }
+  }
+}
+
+// The next `count` due dates after `start`, assuming each occurrence is
+// completed on its due date
+export function previewOccurrences(
+  rule: RecurrenceRule,
+  start: Date,
+  count: number
+): Date[] {
+  const dates: Date[] = [];
+  let current = start;
+  for (let i = 0; i < count; i++) {
+    current = nextOccurrence(rule, current);
+    dates.push(current);
+  }
+  return dates;
+}
+
+const every = (interval: number, unit: string) =>
+  interval === 1 ? `Every ${unit}` : `Every ${interval} ${unit}s`;
+
+export function describeRecurrence(rule: RecurrenceRule): string {
+  switch (rule.type) {
+    case "daily":
+      return every(rule.interval, "day");
+    case "weekly":
+      return `${every(rule.interval, "week")} on ${rule.weekdays
+        .map((day) => WEEKDAY_NAMES[day].slice(0, 3))
+        .join(", ")}`;
+    case "monthlyByDay":
+      return `${every(rule.interval, "month")} on day ${rule.day}`;
+    case "monthlyByWeekday":
+      return `${every(rule.interval, "month")} on the ${
+        WEEK_ORDINALS[rule.week - 1]
+      } ${WEEKDAY_NAMES[rule.weekday]}`;
+    case "afterCompletion":
+      return rule.days === 1
+        ? "1 day after completion"
+        : `${rule.days} days after completion`;
+  }
+}
@@ -0,0 +1,94 @@
+import { Prisma, Task } from "@prisma/client";
+import {
+  RecurrenceRule,
+  nextOccurrence,
+  validateRecurrence,
+} from "./recurrence";
+import { positionAfter } from "./taskPositions";
+
+// Prisma needs DbNull rather than null to clear a Json column
+export const recurrenceToJson = (rule: RecurrenceRule | null | undefined) =>
+  rule === undefined
+    ? undefined
+    : rule === null
+    ? Prisma.DbNull
+    : (rule as Prisma.InputJsonObject);
+
+export const parseStoredRecurrence = (value: Prisma.JsonValue) => {
+  const result = validateRecurrence(value);
+  return "value" in result ? result.value : null;
+};
+
+// Due date for the occurrence after `task`. Occurrences that would already be
+// overdue when the task is completed late are skipped.
+export function nextDueDate(
+  rule: RecurrenceRule,
+  dueDate: Date | null,
+  completedAt: Date
+) {
+  const startOfCompletionDay = new Date(completedAt);
+  startOfCompletionDay.setUTCHours(0, 0, 0, 0);
+
+  let next = nextOccurrence(rule, dueDate ?? completedAt, completedAt);
+  for (let i = 0; i < 1000 && next < startOfCompletionDay; i++) {
+    next = nextOccurrence(rule, next, completedAt);
+  }
+  return next;
+}
+
+// Creates the next occurrence of a recurring task that was just completed.
+// The rule moves to the new task so completing the old one again (after
+// reopening it) doesn't create a second copy. Returns null for one-off tasks.
+export async function createNextOccurrence(
+  tx: Prisma.TransactionClient,
+  task: Task,
+  completedAt = new Date()
+) {
+  const rule = parseStoredRecurrence(task.recurrence);
+  if (!rule) return null;
+
+  const tags = await tx.tag.findMany({
+    where: { tasks: { some: { id: task.id } } },
+    select: { id: true },
+  });
+
+  const nextTask = await tx.task.create({
+    data: {
+      title: task.title,
+      description: task.description,
+      priority: task.priority,
+      tags: { connect: tags },
+      estimatedTime: task.estimatedTime,
+      recurrence: recurrenceToJson(rule),
+      dueDate: nextDueDate(rule, task.dueDate, completedAt),
+      hasDueTime: task.hasDueTime,
+      projectId: task.projectId,
+      userId: task.userId,
+      previousOccurrenceId: task.id,
+      // Takes the completed task's place in the manual order
+      position: await positionAfter(tx, task.userId, task.position),
+    },
+  });
+
+  // Checklists start over unchecked on every occurrence
+  const items = await tx.checklistItem.findMany({
+    where: { taskId: task.id },
+    orderBy: { position: "asc" },
+  });
+  if (items.length > 0) {
+    await tx.checklistItem.createMany({
+      data: items.map((item) => ({
+        text: item.text,
+        position: item.position,
+        taskId: nextTask.id,
+      })),
+    });
+  }
+
+  await tx.task.update({
+    where: { id: task.id },
+    data: { recurrence: Prisma.DbNull },
+  });
+
+  return nextTask;
+}
@@ -0,0 +1,135 @@
+import { RecurrenceRule } from "./recurrence";
+
+// Task revision snapshots and the diffs between them. Shared by the revision
+// routes and the history panel, so keep this module free of server-only
+// imports.
+
+export interface TaskSnapshot {
+  title: string;
+  description: string | null;
+  dueDate: string | null;
+  priority: string | null;
+  status: string;
+  estimatedTime: number | null;
+  recurrence: RecurrenceRule | null;
+  project: { id: string; name: string } | null;
+  tags: { id: string; name: string }[];
+}
+
+export type SnapshotField = keyof TaskSnapshot;
+
+export const SNAPSHOT_FIELDS: SnapshotField[] = [
+  "title",
+  "description",
+  "dueDate",
+  "priority",
+  "status",
+  "estimatedTime",
+  "recurrence",
+  "project",
+  "tags",
+];
+
+export const SNAPSHOT_FIELD_LABELS: Record<SnapshotField, string> = {
+  title: "Title",
+  description: "Description",
+  dueDate: "Due date",
+  priority: "Priority",
+  status: "Status",
+  estimatedTime: "Estimated time",
+  recurrence: "Repeat",
+  project: "Project",
+  tags: "Tags",
+};
+
+export type RevisionChanges = Partial<
+  Record<SnapshotField, { from: unknown; to: unknown }>
+>;
+
+// Compares values structurally; snapshots only hold JSON data
+const comparable = (field: SnapshotField, value: unknown) =>
+  JSON.stringify(
+    field === "tags"
+      ? (value as TaskSnapshot["tags"]).map((tag) => tag.id).sort()
+      : field === "project"
+      ? (value as TaskSnapshot["project"])?.id ?? null
+      : value ?? null
+  );
+
+// The fields that differ between two snapshots, with their old and new values
+export function diffSnapshots(
+  before: TaskSnapshot | null,
+  after: TaskSnapshot
+): RevisionChanges {
+  const changes: RevisionChanges = {};
+  for (const field of SNAPSHOT_FIELDS) {
+    const from = before ? before[field] : null;
+    if (
+      !before ||
+      comparable(field, from) !== comparable(field, after[field])
+    ) {
+      changes[field] = { from, to: after[field] };
+    }
+  }
+  return changes;
+}
+
+export type DiffPart = { type: "same" | "added" | "removed"; text: string };
+
+// Past this many word pairs the LCS table gets too big; show a plain replace
+const MAX_DIFF_CELLS = 250000;
+
+// Word-level diff of two texts (longest common subsequence over words and
+// whitespace), for showing what changed in a title or description
+export function diffWords(before: string, after: string): DiffPart[] {
+  const a = before.split(/(\s+)/).filter(Boolean);
+  const b = after.split(/(\s+)/).filter(Boolean);
+
+  if (a.length * b.length > MAX_DIFF_CELLS) {
+    return [
+      { type: "removed", text: before },
+      { type: "added", text: after },
+    ];
+  }
+
+  // lengths[i][j] = LCS length of a[i..] and b[j..]
+  const lengths = Array.from({ length: a.length + 1 }, () =>
+    new Array<number>(b.length + 1).fill(0)
+  );
+  for (let i = a.length - 1; i >= 0; i--) {
+    for (let j = b.length - 1; j >= 0; j--) {
+      lengths[i][j] =
+        a[i] === b[j]
+          ? lengths[i + 1][j + 1] + 1
+          : Math.max(lengths[i + 1][j], lengths[i][j + 1]);
+    }
+  }
+
+  const parts: DiffPart[] = [];
+  const push = (type: DiffPart["type"], text: string) => {
+    const last = parts[parts.length - 1];
+    if (last?.type === type) {
+      last.text += text;
+    } else {
+      parts.push({ type, text });
+    }
+  };
+
+  let i = 0;
+  let j = 0;
+  while (i < a.length && j < b.length) {
+    if (a[i] === b[j]) {
+      push("same", a[i]);
+      i++;
+      j++;
+    } else if (lengths[i + 1][j] >= lengths[i][j + 1]) {
+      push("removed", a[i++]);
+    } else {
+      push("added", b[j++]);
+    }
+  }
+  while (i < a.length) push("removed", a[i++]);
+  while (j < b.length) push("added", b[j++]);
+
+  return parts;
+}
@@ -0,0 +1,335 @@
+import {
+  SortOrder,
+  TASK_PRIORITIES,
+  TASK_SORT_KEYS,
+  TASK_STATUSES,
+  TaskSortKey,
+} from "./taskConstants";
+
+// Saved views: a named task list setup (filters, sort and view mode). Shared
+// by the /api/views routes, the task list and the sidebar, so keep this
+// module free of server-only imports.
+
+export const SAVED_VIEW_NAME_MAX_LENGTH = 60;
+// Bounds for relative due windows, in days from today
+export const DUE_WINDOW_MAX_DAYS = 365;
+
+export const VIEW_MODES = ["list", "grid", "board"] as const;
+
+export type ViewMode = (typeof VIEW_MODES)[number];
+
+// Fired on window when views are created, renamed or deleted so the sidebar
+// can refresh its list
+export const SAVED_VIEWS_CHANGED_EVENT = "saved-views-changed";
+
+export const notifySavedViewsChanged = () =>
+  window.dispatchEvent(new Event(SAVED_VIEWS_CHANGED_EVENT));
+
+// Due window relative to the day the view is opened: 0 is today, 7 a week
+// from now. A null bound leaves that side open, e.g. { null, -1 } is overdue.
+export interface RelativeDueWindow {
+  fromDays: number | null;
+  toDays: number | null;
+}
+
+export const DUE_WINDOW_PRESETS: {
+  label: string;
+  window: RelativeDueWindow;
+}[] = [
+  { label: "Overdue", window: { fromDays: null, toDays: -1 } },
+  { label: "Today", window: { fromDays: 0, toDays: 0 } },
+  { label: "Next 7 days", window: { fromDays: 0, toDays: 7 } },
+  { label: "Next 30 days", window: { fromDays: 0, toDays: 30 } },
+];
+
+export interface SavedViewFilters {
+  q: string;
+  status: string[];
+  priority: string[];
+  // Tag ids
+  tags: string[];
+  tagMode: "any" | "all";
+  // Fixed due dates (yyyy-mm-dd); ignored when dueWithin is set
+  dueFrom: string;
+  dueTo: string;
+  dueWithin: RelativeDueWindow | null;
+}
+
+// A view's filters plus the created and updated ranges the task list adds
+export type TaskFilterParams = SavedViewFilters &
+  Partial<
+    Record<"createdFrom" | "createdTo" | "updatedFrom" | "updatedTo", string>
+  >;
+
+export interface SavedViewInput {
+  name: string;
+  filters: SavedViewFilters;
+  sort: TaskSortKey | null;
+  order: SortOrder;
+  viewMode: ViewMode;
+}
+
+export interface SavedViewSummary extends SavedViewInput {
+  id: string;
+}
+
+export const describeDueWindow = ({ fromDays, toDays }: RelativeDueWindow) => {
+  const preset = DUE_WINDOW_PRESETS.find(
+    ({ window }) => window.fromDays === fromDays && window.toDays === toDays
+  );
+  if (preset) return preset.label;
+
+  const day = (days: number) =>
+    days === 0
+      ? "today"
+      : days > 0
+      ? `in ${days} day(s)`
+      : `${-days} day(s) ago`;
+  if (fromDays === null) return `Due by ${day(toDays!)}`;
+  if (toDays === null) return `Due from ${day(fromDays)}`;
+  return `Due from ${day(fromDays)} to ${day(toDays)}`;
+};
+
+// Turns a relative window into yyyy-mm-dd bounds counted from `today` in the
+// user's local time, which is the day the due date pickers store
+export function resolveDueWindow(
+  { fromDays, toDays }: RelativeDueWindow,
+  today = new Date()
+) {
+  const dateKey = (days: number | null) => {
+    if (days === null) return "";
+    const date = new Date(
+      today.getFullYear(),
+      today.getMonth(),
+      today.getDate() + days
+    );
+    return [
+      date.getFullYear(),
+      String(date.getMonth() + 1).padStart(2, "0"),
+      String(date.getDate()).padStart(2, "0"),
+    ].join("-");
+  };
+  return { dueFrom: dateKey(fromDays), dueTo: dateKey(toDays) };
+}
+
+// Writes the filters into the query parameters understood by GET /api/tasks.
+// Used by the task list and, for a saved view's first page, the tasks page.
+export const appendFilterParams = (
+  params: URLSearchParams,
+  filters: TaskFilterParams
+) => {
+  if (filters.q.trim()) params.set("q", filters.q.trim());
+  if (filters.status.length) params.set("status", filters.status.join(","));
+  if (filters.priority.length)
+    params.set("priority", filters.priority.join(","));
+  if (filters.tags.length) {
+    params.set("tags", filters.tags.join(","));
+    params.set("tagMode", filters.tagMode);
+  }
+  const dates = [
+    "dueFrom",
+    "dueTo",
+    "createdFrom",
+    "createdTo",
+    "updatedFrom",
+    "updatedTo",
+  ] as const;
+  const values = filters.dueWithin
+    ? { ...filters, ...resolveDueWindow(filters.dueWithin) }
+    : filters;
+  for (const key of dates) {
+    const value = values[key];
+    if (value) params.set(key, value);
+  }
+  return params;
+};
+
+const isStringList = (value: unknown): value is string[] =>
+  Array.isArray(value) && value.every((item) => typeof item === "string");
+
+const isDateKey = (value: unknown) =>
+  value === "" ||
+  (typeof value === "string" &&
+    /^\d{4}-\d{2}-\d{2}$/.test(value) &&
+    !isNaN(new Date(value).getTime()));
+
+const isDayOffset = (value: unknown) =>
+  value === null ||
+  (Number.isInteger(value) && Math.abs(value as number) <= DUE_WINDOW_MAX_DAYS);
+
+function validateFilters(
+  value: unknown
+): { data: SavedViewFilters; error: null } | { data: null; error: string } {
+  if (!value || typeof value !== "object" || Array.isArray(value)) {
+    return { data: null, error: "Filters must be an object" };
+  }
+
+  const filters = value as Record<string, unknown>;
+  const q = filters.q ?? "";
+  const status = filters.status ?? [];
+  const priority = filters.priority ?? [];
+  const tags = filters.tags ?? [];
+  const tagMode = filters.tagMode ?? "any";
+  const dueFrom = filters.dueFrom ?? "";
+  const dueTo = filters.dueTo ?? "";
+  const dueWithin = filters.dueWithin ?? null;
+
+  if (typeof q !== "string") {
+    return { data: null, error: "Search text must be text" };
+  }
+  if (
+    !isStringList(status) ||
+    status.some(
+      (item) => !TASK_STATUSES.includes(item as (typeof TASK_STATUSES)[number])
+    )
+  ) {
+    return {
+      data: null,
+      error: `Status must be a list of ${TASK_STATUSES.join(", ")}`,
+    };
+  }
+  if (
+    !isStringList(priority) ||
+    priority.some(
+      (item) =>
+        !TASK_PRIORITIES.includes(item as (typeof TASK_PRIORITIES)[number])
+    )
+  ) {
+    return {
+      data: null,
+      error: `Priority must be a list of ${TASK_PRIORITIES.join(", ")}`,
+    };
+  }
+  if (!isStringList(tags)) {
+    return { data: null, error: "Tags must be a list of tag ids" };
+  }
+  if (tagMode !== "any" && tagMode !== "all") {
+    return { data: null, error: 'Tag mode must be "any" or "all"' };
+  }
+  if (!isDateKey(dueFrom) || !isDateKey(dueTo)) {
+    return { data: null, error: "Due dates must be yyyy-mm-dd dates" };
+  }
+
+  let window: RelativeDueWindow | null = null;
+  if (dueWithin !== null) {
+    const bounds = (typeof dueWithin === "object" ? dueWithin : {}) as Record<
+      string,
+      unknown
+    >;
+    const fromDays = bounds.fromDays ?? null;
+    const toDays = bounds.toDays ?? null;
+    if (
+      !isDayOffset(fromDays) ||
+      !isDayOffset(toDays) ||
+      (fromDays === null && toDays === null)
+    ) {
+      return {
+        data: null,
+        error: `Due windows need whole day offsets up to ${DUE_WINDOW_MAX_DAYS} days from today`,
+      };
+    }
+    window = {
+      fromDays: fromDays as number | null,
+      toDays: toDays as number | null,
+    };
+    if (
+      window.fromDays !== null &&
+      window.toDays !== null &&
+      window.fromDays > window.toDays
+    ) {
+      return {
+        data: null,
+        error: "A due window must not end before it starts",
+      };
+    }
+  }
+
+  return {
+    data: {
+      q: q.trim(),
+      status,
+      priority,
+      tags,
+      tagMode,
+      dueFrom: window ? "" : (dueFrom as string),
+      dueTo: window ? "" : (dueTo as string),
+      dueWithin: window,
+    },
+    error: null,
+  };
+}
+
+// Validates a saved view payload. With `partial`, absent fields are left out
+// of the result instead of being required or defaulted.
+export function validateSavedViewInput(
+  body: unknown,
+  partial = false
+):
+  | { data: Partial<SavedViewInput>; error: null }
+  | { data: null; error: string } {
+  if (!body || typeof body !== "object" || Array.isArray(body)) {
+    return { data: null, error: "Request body must be an object" };
+  }
+
+  const { name, filters, sort, order, viewMode } = body as Record<
+    string,
+    unknown
+  >;
+  const data: Partial<SavedViewInput> = {};
+
+  if (name !== undefined || !partial) {
+    if (typeof name !== "string" || name.trim() === "") {
+      return { data: null, error: "View name is required" };
+    }
+    if (name.trim().length > SAVED_VIEW_NAME_MAX_LENGTH) {
+      return {
+        data: null,
+        error: `View name must be at most ${SAVED_VIEW_NAME_MAX_LENGTH} characters`,
+      };
+    }
+    data.name = name.trim();
+  }
+
+  if (filters !== undefined || !partial) {
+    const validation = validateFilters(filters ?? {});
+    if (validation.error !== null) {
+      return { data: null, error: validation.error };
+    }
+    data.filters = validation.data;
+  }
+
+  if (sort !== undefined) {
+    if (sort !== null && !TASK_SORT_KEYS.includes(sort as TaskSortKey)) {
+      return {
+        data: null,
+        error: `Sort must be one of ${TASK_SORT_KEYS.join(", ")}`,
+      };
+    }
+    data.sort = sort as TaskSortKey | null;
+  } else if (!partial) {
+    data.sort = null;
+  }
+
+  if (order !== undefined) {
+    if (order !== "asc" && order !== "desc") {
+      return { data: null, error: 'Order must be "asc" or "desc"' };
+    }
+    data.order = order;
+  } else if (!partial) {
+    data.order = "desc";
+  }
+
+  if (viewMode !== undefined) {
+    if (!VIEW_MODES.includes(viewMode as ViewMode)) {
+      return {
+        data: null,
+        error: `View mode must be one of ${VIEW_MODES.join(", ")}`,
+      };
+    }
+    data.viewMode = viewMode as ViewMode;
+  } else if (!partial) {
+    data.viewMode = "list";
+  }
+
+  return { data, error: null };
+}
@@ -0,0 +1,32 @@
+import { Prisma } from "@prisma/client";
+import {
+  SavedViewFilters,
+  SavedViewSummary,
+  ViewMode,
+} from "./savedViewValidation";
+import { SortOrder, TaskSortKey } from "./taskConstants";
+
+export const savedViewSelect = {
+  id: true,
+  name: true,
+  filters: true,
+  sort: true,
+  order: true,
+  viewMode: true,
+} satisfies Prisma.SavedViewSelect;
+
+type SavedViewRecord = Prisma.SavedViewGetPayload<{
+  select: typeof savedViewSelect;
+}>;
+
+// Views are validated on the way in, so the stored strings and JSON can be
+// typed as such on the way out
+export const toSavedViewSummary = (
+  view: SavedViewRecord
+): SavedViewSummary => ({
+  ...view,
+  filters: view.filters as unknown as SavedViewFilters,
+  sort: view.sort as TaskSortKey | null,
+  order: view.order as SortOrder,
+  viewMode: view.viewMode as ViewMode,
+});
@@ -0,0 +1,58 @@
+import { Prisma } from "@prisma/client";
+import prisma from "./prisma";
+import {
+  HIGHLIGHT_END,
+  HIGHLIGHT_START,
+  SearchResult,
+} from "./searchHighlight";
+
+export const SEARCH_MAX_RESULTS = 20;
+
+const HEADLINE_OPTIONS = `StartSel=${HIGHLIGHT_START}, StopSel=${HIGHLIGHT_END}`;
+
+// Builds a prefix query from the words typed so far, so "meet not" already
+// matches "meeting notes". Only letters and digits reach to_tsquery, which
+// keeps its operators out of user input.
+const WORD_PATTERN = new RegExp("[\\p{L}\\p{N}]+", "gu");
+
+export function toPrefixQuery(text: string) {
+  const words = text.toLowerCase().match(WORD_PATTERN) ?? [];
+  return words.map((word) => `${word}:*`).join(" & ");
+}
+
+// Ranked full-text search over the user's live tasks, using the generated
+// Task.searchVector column and its GIN index
+export async function searchTasks(
+  userId: string,
+  text: string,
+  limit = SEARCH_MAX_RESULTS
+): Promise<SearchResult[]> {
+  const tsQuery = toPrefixQuery(text);
+  if (!tsQuery) return [];
+
+  const rows = await prisma.$queryRaw<
+    (Omit<SearchResult, "dueDate"> & { dueDate: Date | null })[]
+  >(Prisma.sql`
+    SELECT
+      t."id",
+      t."title",
+      t."status",
+      t."dueDate",
+      ts_rank(t."searchVector", query)::float8 AS "rank",
+      ts_headline('english', t."title", query,
+        ${`${HEADLINE_OPTIONS}, HighlightAll=true`}) AS "titleHighlight",
+      ts_headline('english', coalesce(t."description", ''), query,
+        ${`${HEADLINE_OPTIONS}, MaxWords=20, MinWords=8, MaxFragments=2`}) AS "snippet"
+    FROM "Task" t, to_tsquery('english', ${tsQuery}) query
+    WHERE t."userId" = ${userId}
+      AND t."deletedAt" IS NULL
+      AND t."searchVector" @@ query
+    ORDER BY "rank" DESC, t."updatedAt" DESC
+    LIMIT ${limit}
+  `);
+
+  return rows.map((row) => ({
+    ...row,
+    dueDate: row.dueDate ? row.dueDate.toISOString() : null,
+  }));
+}
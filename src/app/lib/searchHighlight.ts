@@ -0,0 +1,38 @@
+// Search results mark matched words with these tags (from ts_headline). The
+// client splits on them rather than rendering HTML. Client-safe.
+
+export const HIGHLIGHT_START = "<mark>";
+export const HIGHLIGHT_END = "</mark>";
+
+export interface SearchResult {
+  id: string;
+  title: string;
+  status: string;
+  dueDate: string | null;
+  rank: number;
+  // Title and a description excerpt, with matches wrapped in the tags above
+  titleHighlight: string;
+  snippet: string;
+}
+
+// Splits highlighted text into plain and matched parts, in order
+export function splitHighlights(text: string) {
+  const parts: { text: string; match: boolean }[] = [];
+  let rest = text;
+
+  while (rest) {
+    const start = rest.indexOf(HIGHLIGHT_START);
+    const end = rest.indexOf(HIGHLIGHT_END, start);
+    if (start === -1 || end === -1) {
+      parts.push({ text: rest, match: false });
+      break;
+    }
+    if (start > 0) parts.push({ text: rest.slice(0, start), match: false });
+    parts.push({
+      text: rest.slice(start + HIGHLIGHT_START.length, end),
+      match: true,
+    });
+    rest = rest.slice(end + HIGHLIGHT_END.length);
+  }
+  return parts;
+}
@@ -0,0 +1,187 @@
+import { TaskSortKey } from "./taskConstants";
+import { ViewMode } from "./savedViewValidation";
+
+// Keyboard shortcuts and the command palette's task list commands. Keys are
+// written the way eventToKey reads them: the key itself ("j", "#", "?"),
+// with "Mod+" for Ctrl or Cmd and "Alt+" in front. Users can remap any
+// action; their bindings are stored in /api/user/preferences as overrides of
+// the defaults. Client-safe.
+
+export const SHORTCUT_ACTIONS = [
+  "openPalette",
+  "showHelp",
+  "nextTask",
+  "previousTask",
+  "toggleSelect",
+  "editTask",
+  "completeTask",
+  "deleteTask",
+] as const;
+export type ShortcutAction = (typeof SHORTCUT_ACTIONS)[number];
+
+export const SHORTCUTS: Record<
+  ShortcutAction,
+  { label: string; defaultKey: string; scope: "Everywhere" | "Task list" }
+> = {
+  openPalette: {
+    label: "Open the command palette",
+    defaultKey: "Mod+k",
+    scope: "Everywhere",
+  },
+  showHelp: {
+    label: "Show keyboard shortcuts",
+    defaultKey: "?",
+    scope: "Everywhere",
+  },
+  nextTask: { label: "Next task", defaultKey: "j", scope: "Task list" },
+  previousTask: { label: "Previous task", defaultKey: "k", scope: "Task list" },
+  toggleSelect: {
+    label: "Select or deselect the task",
+    defaultKey: "x",
+    scope: "Task list",
+  },
+  editTask: { label: "Edit the task", defaultKey: "e", scope: "Task list" },
+  completeTask: {
+    label: "Complete the task",
+    defaultKey: "c",
+    scope: "Task list",
+  },
+  deleteTask: { label: "Delete the task", defaultKey: "#", scope: "Task list" },
+};
+
+export const KEY_MAX_LENGTH = 20;
+
+// Only the actions the user changed
+export type KeyBindings = Partial<Record<ShortcutAction, string>>;
+
+export const KEY_BINDINGS_CHANGED_EVENT = "key-bindings-changed";
+
+// Lets open pages pick up remapped keys without a reload
+export const notifyKeyBindingsChanged = (bindings: KeyBindings) =>
+  window.dispatchEvent(
+    new CustomEvent<KeyBindings>(KEY_BINDINGS_CHANGED_EVENT, {
+      detail: bindings,
+    })
+  );
+
+export const resolveKeyBindings = (
+  bindings: KeyBindings
+): Record<ShortcutAction, string> =>
+  Object.fromEntries(
+    SHORTCUT_ACTIONS.map((action) => [
+      action,
+      bindings[action] ?? SHORTCUTS[action].defaultKey,
+    ])
+  ) as Record<ShortcutAction, string>;
+
+const MODIFIER_KEYS = ["Control", "Meta", "Alt", "Shift", "CapsLock"];
+
+// The key as bindings write it, or null for a modifier pressed on its own.
+// Shift isn't written out: it already shows in the key ("#" rather than "3").
+export function eventToKey(event: {
+  key: string;
+  ctrlKey: boolean;
+  metaKey: boolean;
+  altKey: boolean;
+}): string | null {
+  if (MODIFIER_KEYS.includes(event.key)) return null;
+  const mod = event.ctrlKey || event.metaKey;
+  // With Ctrl or Cmd held, Shift can change the letter's case
+  const key =
+    mod && event.key.length === 1 ? event.key.toLowerCase() : event.key;
+  return `${mod ? "Mod+" : ""}${event.altKey ? "Alt+" : ""}${key}`;
+}
+
+// "Mod+k" reads as ⌘K on a Mac and Ctrl+K elsewhere. Bare keys keep their
+// case, since "j" and "J" are different bindings.
+export function formatKey(key: string, isMac: boolean) {
+  const modifiers = /^(Mod\+)?(Alt\+)?/.exec(key)?.[0] ?? "";
+  const base = key.slice(modifiers.length);
+  return (
+    (modifiers.includes("Mod") ? (isMac ? "⌘" : "Ctrl+") : "") +
+    (modifiers.includes("Alt") ? (isMac ? "⌥" : "Alt+") : "") +
+    (base === " " ? "Space" : modifiers ? base.toUpperCase() : base)
+  );
+}
+
+export const isMacPlatform = () =>
+  typeof navigator !== "undefined" &&
+  /Mac|iPhone|iPad/.test(navigator.platform);
+
+// Shortcuts stay out of the way while the user is typing
+export function isTypingTarget(target: EventTarget | null) {
+  if (!(target instanceof HTMLElement)) return false;
+  return (
+    target.isContentEditable ||
+    ["INPUT", "TEXTAREA", "SELECT"].includes(target.tagName)
+  );
+}
+
+// Validates the overrides sent to /api/user/preferences. Two actions can't
+// share a key once the defaults are filled in.
+export function validateKeyBindings(
+  body: unknown
+): { data: KeyBindings; error: null } | { data: null; error: string } {
+  if (!body || typeof body !== "object" || Array.isArray(body)) {
+    return { data: null, error: "Key bindings must be an object by action" };
+  }
+
+  const data: KeyBindings = {};
+  for (const [action, key] of Object.entries(body)) {
+    if (!SHORTCUT_ACTIONS.includes(action as ShortcutAction)) {
+      return { data: null, error: `Unknown shortcut "${action}"` };
+    }
+    // null goes back to the default
+    if (key === null) continue;
+    if (
+      typeof key !== "string" ||
+      key.trim() === "" ||
+      key.length > KEY_MAX_LENGTH
+    ) {
+      return {
+        data: null,
+        error: `The key for "${
+          SHORTCUTS[action as ShortcutAction].label
+        }" must be a key name of at most ${KEY_MAX_LENGTH} characters`,
+      };
+    }
+    if (key !== SHORTCUTS[action as ShortcutAction].defaultKey) {
+      data[action as ShortcutAction] = key;
+    }
+  }
+
+  const resolved = resolveKeyBindings(data);
+  for (let index = 0; index < SHORTCUT_ACTIONS.length; index++) {
+    const action = SHORTCUT_ACTIONS[index];
+    const clash = SHORTCUT_ACTIONS.slice(index + 1).find(
+      (other) => resolved[other] === resolved[action]
+    );
+    if (clash) {
+      return {
+        data: null,
+        error: `"${SHORTCUTS[action].label}" and "${SHORTCUTS[clash].label}" can't share the key ${resolved[action]}`,
+      };
+    }
+  }
+
+  return { data, error: null };
+}
+
+// Commands the palette sends to the task list, which is the only place that
+// knows its view mode, sort and selection
+export type TaskListCommand =
+  | { type: "viewMode"; mode: ViewMode }
+  | { type: "sort"; sort: TaskSortKey | null }
+  | {
+      type: "selection";
+      action: "selectAll" | "clear" | "complete" | "edit" | "delete";
+    };
+
+export const TASK_LIST_COMMAND_EVENT = "task-list-command";
+
+export const runTaskListCommand = (command: TaskListCommand) =>
+  window.dispatchEvent(
+    new CustomEvent<TaskListCommand>(TASK_LIST_COMMAND_EVENT, {
+      detail: command,
+    })
+  );
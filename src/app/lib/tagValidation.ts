@@ -0,0 +1,85 @@
+// Shared by the /api/tags routes and the tag pickers. Keep this module free of
+// server-only imports.
+
+export const TAG_NAME_MAX_LENGTH = 40;
+export const TAG_ICON_MAX_LENGTH = 8;
+
+// Colors offered by the pickers; the API accepts any #rrggbb value
+export const TAG_COLORS = [
+  "#6b7280",
+  "#ef4444",
+  "#f97316",
+  "#eab308",
+  "#22c55e",
+  "#14b8a6",
+  "#3b82f6",
+  "#8b5cf6",
+  "#ec4899",
+];
+export const DEFAULT_TAG_COLOR = TAG_COLORS[0];
+
+export interface TagSummary {
+  id: string;
+  name: string;
+  color: string;
+  icon: string | null;
+}
+
+export interface TagInput {
+  name: string;
+  color: string;
+  icon: string | null;
+}
+
+// Validates a tag payload. With `partial`, absent fields are left out of the
+// result instead of being required or defaulted.
+export function validateTagInput(
+  body: unknown,
+  partial = false
+): { data: Partial<TagInput>; error: null } | { data: null; error: string } {
+  if (!body || typeof body !== "object" || Array.isArray(body)) {
+    return { data: null, error: "Request body must be an object" };
+  }
+
+  const { name, color, icon } = body as Record<string, unknown>;
+  const data: Partial<TagInput> = {};
+
+  if (name !== undefined || !partial) {
+    if (typeof name !== "string" || name.trim() === "") {
+      return { data: null, error: "Tag name is required" };
+    }
+    if (name.trim().length > TAG_NAME_MAX_LENGTH) {
+      return {
+        data: null,
+        error: `Tag name must be at most ${TAG_NAME_MAX_LENGTH} characters`,
+      };
+    }
+    data.name = name.trim();
+  }
+
+  if (color !== undefined) {
+    if (typeof color !== "string" || !/^#[0-9a-fA-F]{6}$/.test(color)) {
+      return { data: null, error: "Color must be a hex value like #3b82f6" };
+    }
+    data.color = color.toLowerCase();
+  } else if (!partial) {
+    data.color = DEFAULT_TAG_COLOR;
+  }
+
+  if (icon !== undefined) {
+    if (icon !== null && typeof icon !== "string") {
+      return { data: null, error: "Icon must be text" };
+    }
+    if (icon && icon.trim().length > TAG_ICON_MAX_LENGTH) {
+      return {
+        data: null,
+        error: `Icon must be at most ${TAG_ICON_MAX_LENGTH} characters`,
+      };
+    }
+    data.icon = icon?.trim() || null;
+  } else if (!partial) {
+    data.icon = null;
+  }
+
+  return { data, error: null };
+}
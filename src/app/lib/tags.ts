@@ -0,0 +1,31 @@
+import { Prisma } from "@prisma/client";
+import prisma from "./prisma";
+
+export const tagSelect = {
+  id: true,
+  name: true,
+  color: true,
+  icon: true,
+} satisfies Prisma.TagSelect;
+
+// Returns the ids in `tagIds` that are not tags of the user, so routes can
+// reject them before connecting anything
+export async function findUnknownTagIds(
+  userId: string,
+  tagIds: string[],
+  client: Prisma.TransactionClient = prisma
+) {
+  if (tagIds.length === 0) return [];
+
+  const owned = await client.tag.findMany({
+    where: { id: { in: tagIds }, userId },
+    select: { id: true },
+  });
+  const ownedIds = new Set(owned.map((tag) => tag.id));
+  return tagIds.filter((id) => !ownedIds.has(id));
+}
+
+// Is the error a unique violation on (userId, name)?
+export const isDuplicateTagName = (error: unknown) =>
+  error instanceof Prisma.PrismaClientKnownRequestError &&
+  error.code === "P2002";
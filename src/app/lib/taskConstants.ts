@@ -0,0 +1,34 @@
+// Shared task field values. Kept free of Prisma imports so client
+// components can use them too.
+
+export const TASK_STATUSES = [
+  "Not Started",
+  "In Progress",
+  "Completed",
+] as const;
+export type TaskStatus = (typeof TASK_STATUSES)[number];
+
+export const TASK_PRIORITIES = ["Low", "Medium", "High"] as const;
+export type TaskPriority = (typeof TASK_PRIORITIES)[number];
+
+export const TASK_SORT_KEYS = [
+  "dueDate",
+  "priority",
+  "createdAt",
+  "updatedAt",
+  "title",
+  "status",
+] as const;
+export type TaskSortKey = (typeof TASK_SORT_KEYS)[number];
+
+export type SortOrder = "asc" | "desc";
+
+// Direction used when a sort key is requested without an explicit order
+export const DEFAULT_SORT_ORDER: Record<TaskSortKey, SortOrder> = {
+  dueDate: "desc",
+  priority: "desc",
+  createdAt: "desc",
+  updatedAt: "desc",
+  title: "asc",
+  status: "desc",
+};
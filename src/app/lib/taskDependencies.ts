@@ -0,0 +1,57 @@
+import prisma from "./prisma";
+
+export interface PrerequisiteSummary {
+  id: string;
+  title: string;
+  status: string;
+}
+
+// True when making `prerequisiteId` block `taskId` would close a loop, i.e.
+// `taskId` is already (directly or indirectly) a prerequisite of it
+export async function wouldCreateCycle(taskId: string, prerequisiteId: string) {
+  if (taskId === prerequisiteId) return true;
+
+  const visited = new Set<string>([prerequisiteId]);
+  let frontier = [prerequisiteId];
+
+  while (frontier.length > 0) {
+    const edges = await prisma.taskDependency.findMany({
+      where: { taskId: { in: frontier } },
+      select: { prerequisiteId: true },
+    });
+
+    frontier = [];
+    for (const { prerequisiteId: next } of edges) {
+      if (next === taskId) return true;
+      if (!visited.has(next)) {
+        visited.add(next);
+        frontier.push(next);
+      }
+    }
+  }
+  return false;
+}
+
+// Prerequisites that are not completed (or trashed) yet, per task. A task
+// with an entry here is blocked.
+export async function getOpenPrerequisites(taskIds: string[]) {
+  const open = new Map<string, PrerequisiteSummary[]>();
+  if (taskIds.length === 0) return open;
+
+  const dependencies = await prisma.taskDependency.findMany({
+    where: {
+      taskId: { in: taskIds },
+      prerequisite: { status: { not: "Completed" }, deletedAt: null },
+    },
+    select: {
+      taskId: true,
+      prerequisite: { select: { id: true, title: true, status: true } },
+    },
+    orderBy: { createdAt: "asc" },
+  });
+
+  for (const { taskId, prerequisite } of dependencies) {
+    open.set(taskId, [...(open.get(taskId) ?? []), prerequisite]);
+  }
+  return open;
+}
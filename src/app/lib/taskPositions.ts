@@ -0,0 +1,55 @@
+import { Prisma } from "@prisma/client";
+import { generateKeyBetween } from "./fractionalIndex";
+
+// Manual order of a user's tasks, as fractional index keys in Task.position.
+// Trashed tasks keep their keys so they come back in place when restored.
+
+// Keys for `count` new tasks at the top of the list, in the order given
+export async function firstPositions(
+  client: Prisma.TransactionClient,
+  userId: string,
+  count: number
+) {
+  const first = await client.task.findFirst({
+    where: { userId },
+    select: { position: true },
+    orderBy: { position: "asc" },
+  });
+  const keys: string[] = [];
+  let next = first?.position ?? null;
+  for (let i = 0; i < count; i++) {
+    next = generateKeyBetween(null, next);
+    keys.unshift(next);
+  }
+  return keys;
+}
+
+// Key for a new task at the top of the list
+export async function firstPosition(
+  client: Prisma.TransactionClient,
+  userId: string
+) {
+  const [key] = await firstPositions(client, userId, 1);
+  return key;
+}
+
+// Key for a task placed directly after `position` (or at the top when null),
+// before whichever task currently follows it. Only `excludeId` (the task
+// being moved) is skipped, so no other task's key changes.
+export async function positionAfter(
+  client: Prisma.TransactionClient,
+  userId: string,
+  position: string | null,
+  excludeId?: string
+) {
+  const next = await client.task.findFirst({
+    where: {
+      userId,
+      id: excludeId ? { not: excludeId } : undefined,
+      position: position === null ? undefined : { gt: position },
+    },
+    select: { position: true },
+    orderBy: { position: "asc" },
+  });
+  return generateKeyBetween(position, next?.position ?? null);
+}
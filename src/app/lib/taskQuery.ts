@@ -0,0 +1,307 @@
+import { Prisma } from "@prisma/client";
+import prisma from "./prisma";
+import { ownedTaskWhere } from "./auth";
+import { getOpenPrerequisites } from "./taskDependencies";
+import { tagSelect } from "./tags";
+import { projectSelect } from "./projects";
+import {
+  DEFAULT_SORT_ORDER,
+  SortOrder,
+  TASK_PRIORITIES,
+  TASK_SORT_KEYS,
+  TASK_STATUSES,
+  TaskSortKey,
+} from "./taskConstants";
+
+export const DEFAULT_PAGE_SIZE = 30;
+export const MAX_PAGE_SIZE = 100;
+
+export interface TaskQuery {
+  status: string[];
+  priority: string[];
+  // Tag ids
+  tags: string[];
+  tagMode: "any" | "all";
+  projectId?: string;
+  dueFrom?: Date;
+  dueTo?: Date;
+  createdFrom?: Date;
+  createdTo?: Date;
+  updatedFrom?: Date;
+  updatedTo?: Date;
+  q?: string;
+  sort: TaskSortKey | null;
+  order: SortOrder;
+  cursor?: string;
+  limit: number;
+}
+
+// Thrown for malformed query parameters so routes can answer with a 400
+export class TaskQueryError extends Error {}
+
+export const taskListSelect = {
+  id: true,
+  title: true,
+  description: true,
+  completed: true,
+  createdAt: true,
+  updatedAt: true,
+  dueDate: true,
+  hasDueTime: true,
+  priority: true,
+  status: true,
+  tags: { select: tagSelect, orderBy: { name: "asc" } },
+  estimatedTime: true,
+  recurrence: true,
+  projectId: true,
+  position: true,
+} satisfies Prisma.TaskSelect;
+
+// Relations returned with a single task (detail page, updates)
+export const taskDetailInclude = {
+  tags: { select: tagSelect, orderBy: { name: "asc" } },
+  project: { select: projectSelect },
+} satisfies Prisma.TaskInclude;
+
+export type TaskListItem = Prisma.TaskGetPayload<{
+  select: typeof taskListSelect;
+}>;
+
+// Priority and status are plain strings, so the database cannot order them by
+// meaning. Those sorts walk one bucket per value instead, in ascending rank.
+const SORT_BUCKETS: Partial<Record<TaskSortKey, (string | null)[]>> = {
+  priority: [null, ...TASK_PRIORITIES],
+  status: [...TASK_STATUSES],
+};
+
+interface TaskCursor {
+  id: string;
+  bucket?: number;
+}
+
+// Collects comma-separated and repeated values, e.g. ?status=a,b&status=c
+const getList = (params: URLSearchParams, name: string) =>
+  params
+    .getAll(name)
+    .flatMap((value) => value.split(","))
+    .map((value) => value.trim())
+    .filter(Boolean);
+
+const getAllowedList = (
+  params: URLSearchParams,
+  name: string,
+  allowed: readonly string[]
+) => {
+  const values = getList(params, name);
+  const invalid = values.filter((value) => !allowed.includes(value));
+  if (invalid.length > 0) {
+    throw new TaskQueryError(`Invalid ${name}: ${invalid.join(", ")}`);
+  }
+  return values;
+};
+
+// Date-only bounds cover the whole day: "to" dates are pushed to the end of it
+const getDate = (params: URLSearchParams, name: string, endOfDay = false) => {
+  const value = params.get(name);
+  if (!value) return undefined;
+
+  const date = new Date(value);
+  if (isNaN(date.getTime())) {
+    throw new TaskQueryError(`Invalid date for ${name}`);
+  }
+  if (endOfDay && /^\d{4}-\d{2}-\d{2}$/.test(value)) {
+    date.setUTCHours(23, 59, 59, 999);
+  }
+  return date;
+};
+
+const encodeCursor = (cursor: TaskCursor) =>
+  Buffer.from(JSON.stringify(cursor)).toString("base64url");
+
+const decodeCursor = (value: string): TaskCursor => {
+  try {
+    const cursor = JSON.parse(Buffer.from(value, "base64url").toString());
+    if (typeof cursor?.id === "string") {
+      return cursor;
+    }
+  } catch {
+    // Fall through to the error below
+  }
+  throw new TaskQueryError("Invalid cursor");
+};
+
+export function parseTaskQuery(params: URLSearchParams): TaskQuery {
+  const sortParam = params.get("sort");
+  if (sortParam && !TASK_SORT_KEYS.includes(sortParam as TaskSortKey)) {
+    throw new TaskQueryError(`Invalid sort: ${sortParam}`);
+  }
+  const sort = (sortParam as TaskSortKey | null) || null;
+
+  const orderParam = params.get("order");
+  if (orderParam && orderParam !== "asc" && orderParam !== "desc") {
+    throw new TaskQueryError(`Invalid order: ${orderParam}`);
+  }
+  const order: SortOrder =
+    (orderParam as SortOrder | null) ||
+    (sort ? DEFAULT_SORT_ORDER[sort] : "desc");
+
+  const tagMode = params.get("tagMode") || "any";
+  if (tagMode !== "any" && tagMode !== "all") {
+    throw new TaskQueryError(`Invalid tagMode: ${tagMode}`);
+  }
+
+  const limitParam = params.get("limit");
+  const limit = limitParam ? parseInt(limitParam, 10) : DEFAULT_PAGE_SIZE;
+  if (isNaN(limit) || limit < 1) {
+    throw new TaskQueryError("Limit must be a positive number");
+  }
+
+  return {
+    status: getAllowedList(params, "status", TASK_STATUSES),
+    priority: getAllowedList(params, "priority", TASK_PRIORITIES),
+    tags: getList(params, "tags"),
+    tagMode,
+    projectId: params.get("project") || undefined,
+    dueFrom: getDate(params, "dueFrom"),
+    dueTo: getDate(params, "dueTo", true),
+    createdFrom: getDate(params, "createdFrom"),
+    createdTo: getDate(params, "createdTo", true),
+    updatedFrom: getDate(params, "updatedFrom"),
+    updatedTo: getDate(params, "updatedTo", true),
+    q: params.get("q")?.trim() || undefined,
+    sort,
+    order,
+    cursor: params.get("cursor") || undefined,
+    limit: Math.min(limit, MAX_PAGE_SIZE),
+  };
+}
+
+const dateRange = (from?: Date, to?: Date) =>
+  from || to ? { gte: from, lte: to } : undefined;
+
+export function buildTaskWhere(
+  userId: string,
+  query: TaskQuery
+): Prisma.TaskWhereInput {
+  const where = ownedTaskWhere(userId, {
+    projectId: query.projectId,
+    dueDate: dateRange(query.dueFrom, query.dueTo),
+    createdAt: dateRange(query.createdFrom, query.createdTo),
+    updatedAt: dateRange(query.updatedFrom, query.updatedTo),
+  });
+
+  if (query.status.length > 0) {
+    where.status = { in: query.status };
+  }
+  if (query.priority.length > 0) {
+    where.priority = { in: query.priority };
+  }
+  if (query.tags.length > 0) {
+    if (query.tagMode === "all") {
+      where.AND = query.tags.map((id) => ({ tags: { some: { id } } }));
+    } else {
+      where.tags = { some: { id: { in: query.tags } } };
+    }
+  }
+  if (query.q) {
+    where.OR = [
+      { title: { contains: query.q, mode: "insensitive" } },
+      { description: { contains: query.q, mode: "insensitive" } },
+    ];
+  }
+
+  return where;
+}
+
+export interface ChecklistProgress {
+  total: number;
+  completed: number;
+}
+
+// Counts checklist items per task so list cards can show "3/7" progress
+export async function getChecklistProgress(taskIds: string[]) {
+  const progress = new Map<string, ChecklistProgress>();
+  if (taskIds.length === 0) return progress;
+
+  const groups = await prisma.checklistItem.groupBy({
+    by: ["taskId", "completed"],
+    where: { taskId: { in: taskIds } },
+    _count: { _all: true },
+  });
+
+  for (const group of groups) {
+    const entry = progress.get(group.taskId) ?? { total: 0, completed: 0 };
+    entry.total += group._count._all;
+    if (group.completed) entry.completed += group._count._all;
+    progress.set(group.taskId, entry);
+  }
+  return progress;
+}
+
+// Returns one page of tasks plus the cursor for the page after it (or null)
+export async function findTasksPage(userId: string, query: TaskQuery) {
+  const where = buildTaskWhere(userId, query);
+  const cursor = query.cursor ? decodeCursor(query.cursor) : null;
+  const take = query.limit + 1;
+  const buckets = query.sort ? SORT_BUCKETS[query.sort] : undefined;
+
+  const rows: { task: TaskListItem; bucket?: number }[] = [];
+
+  if (query.sort && buckets) {
+    const sortKey = query.sort;
+    const ordered = query.order === "asc" ? buckets : [...buckets].reverse();
+    const bucketIndexes = ordered.map((value) => buckets.indexOf(value));
+    const start =
+      cursor?.bucket !== undefined
+        ? Math.max(bucketIndexes.indexOf(cursor.bucket), 0)
+        : 0;
+
+    for (let i = start; i < ordered.length && rows.length < take; i++) {
+      const resume = i === start && cursor;
+      const tasks = await prisma.task.findMany({
+        where: { AND: [where, { [sortKey]: ordered[i] }] },
+        select: taskListSelect,
+        orderBy: [{ createdAt: "desc" }, { id: "desc" }],
+        take: take - rows.length,
+        ...(resume ? { cursor: { id: cursor.id }, skip: 1 } : {}),
+      });
+      rows.push(...tasks.map((task) => ({ task, bucket: bucketIndexes[i] })));
+    }
+  } else {
+    const sortKey = query.sort;
+    const tasks = await prisma.task.findMany({
+      where,
+      select: taskListSelect,
+      // Without a sort, tasks come in the user's manual order
+      orderBy: !sortKey
+        ? [{ position: "asc" }, { id: "asc" }]
+        : [
+            sortKey === "dueDate"
+              ? { dueDate: { sort: query.order, nulls: "last" } }
+              : { [sortKey]: query.order },
+            { id: query.order },
+          ],
+      take,
+      ...(cursor ? { cursor: { id: cursor.id }, skip: 1 } : {}),
+    });
+    rows.push(...tasks.map((task) => ({ task })));
+  }
+
+  const page = rows.slice(0, query.limit);
+  const last = page[page.length - 1];
+  const pageIds = page.map((row) => row.task.id);
+  const checklists = await getChecklistProgress(pageIds);
+  const openPrerequisites = await getOpenPrerequisites(pageIds);
+
+  return {
+    tasks: page.map((row) => ({
+      ...row.task,
+      checklist: checklists.get(row.task.id) ?? { total: 0, completed: 0 },
+      blockedBy: openPrerequisites.get(row.task.id) ?? [],
+    })),
+    nextCursor:
+      rows.length > query.limit && last
+        ? encodeCursor({ id: last.task.id, bucket: last.bucket })
+        : null,
+  };
+}
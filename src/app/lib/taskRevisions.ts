@@ -0,0 +1,50 @@
+import { Prisma, Task } from "@prisma/client";
+import { toDateKey } from "./planning";
+import { parseStoredRecurrence } from "./recurringTasks";
+import { TaskSnapshot, diffSnapshots } from "./revisionDiff";
+
+type TaskWithRelations = Task & {
+  tags: { id: string; name: string }[];
+  project: { id: string; name: string } | null;
+};
+
+export const toSnapshot = (task: TaskWithRelations): TaskSnapshot => ({
+  title: task.title,
+  description: task.description,
+  // Whole days as "yyyy-mm-dd", so restoring one doesn't add a time
+  dueDate: task.dueDate
+    ? task.hasDueTime
+      ? task.dueDate.toISOString()
+      : toDateKey(task.dueDate)
+    : null,
+  priority: task.priority,
+  status: task.status,
+  estimatedTime: task.estimatedTime,
+  recurrence: parseStoredRecurrence(task.recurrence),
+  project: task.project && { id: task.project.id, name: task.project.name },
+  tags: task.tags.map((tag) => ({ id: tag.id, name: tag.name })),
+});
+
+// Records what changed between `before` and `after`. Nothing is written when
+// no tracked field changed (e.g. only updatedAt moved).
+export async function recordRevision(
+  tx: Prisma.TransactionClient,
+  userId: string,
+  before: TaskWithRelations,
+  after: TaskWithRelations,
+  restoredFromId?: string
+) {
+  const snapshot = toSnapshot(after);
+  const changes = diffSnapshots(toSnapshot(before), snapshot);
+  if (Object.keys(changes).length === 0) return null;
+
+  return tx.taskRevision.create({
+    data: {
+      taskId: after.id,
+      userId,
+      changes: changes as Prisma.InputJsonObject,
+      snapshot: snapshot as unknown as Prisma.InputJsonObject,
+      restoredFromId,
+    },
+  });
+}
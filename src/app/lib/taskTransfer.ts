@@ -0,0 +1,258 @@
+import { Prisma } from "@prisma/client";
+import prisma from "./prisma";
+import { firstPositions } from "./taskPositions";
+import { TaskInput, MAX_TAGS, validateTaskCreate } from "./taskValidation";
+import { TASK_PRIORITIES, TASK_STATUSES } from "./taskConstants";
+import { DEFAULT_TAG_COLOR, TAG_NAME_MAX_LENGTH } from "./tagValidation";
+import {
+  ExportedTask,
+  ImportRecord,
+  ImportRowResult,
+  formatExportDueDate,
+} from "./taskTransferFormats";
+
+// Server side of task export and import. Imports are checked row by row with
+// the same validation as POST /api/tasks, so a dry run reports exactly what
+// a real import would create or reject.
+
+// Creating a thousand tasks takes longer than Prisma's 5s default
+const IMPORT_TIMEOUT_MS = 60 * 1000;
+
+export const exportTaskSelect = {
+  title: true,
+  description: true,
+  dueDate: true,
+  hasDueTime: true,
+  priority: true,
+  status: true,
+  estimatedTime: true,
+  createdAt: true,
+  tags: { select: { name: true }, orderBy: { name: "asc" } },
+  project: { select: { name: true } },
+} satisfies Prisma.TaskSelect;
+
+type ExportTaskRecord = Prisma.TaskGetPayload<{
+  select: typeof exportTaskSelect;
+}>;
+
+export const toExportedTask = (task: ExportTaskRecord): ExportedTask => ({
+  title: task.title,
+  description: task.description,
+  dueDate: formatExportDueDate(task.dueDate, task.hasDueTime),
+  priority: task.priority,
+  status: task.status,
+  tags: task.tags.map((tag) => tag.name),
+  estimatedTime: task.estimatedTime,
+  project: task.project?.name ?? null,
+  createdAt: task.createdAt.toISOString(),
+});
+
+export interface PreparedImport {
+  rows: ImportRowResult[];
+  // The valid rows, ready to create
+  tasks: { data: TaskInput; tagNames: string[]; externalUid: string | null }[];
+}
+
+// "high" or "HIGH" mean High; anything else is left for validation to reject
+const matchChoice = (value: unknown, choices: readonly string[]) =>
+  typeof value === "string"
+    ? choices.find(
+        (choice) => choice.toLowerCase() === value.trim().toLowerCase()
+      ) ?? value
+    : value;
+
+function parseTagNames(value: unknown) {
+  if (value === undefined) return { names: [], error: null };
+  if (!Array.isArray(value) || !value.every((n) => typeof n === "string")) {
+    return { names: [], error: "Tags must be a list of names" };
+  }
+
+  const names: string[] = [];
+  for (const name of (value as string[]).map((n) => n.trim())) {
+    if (!name) continue;
+    if (name.length > TAG_NAME_MAX_LENGTH) {
+      return {
+        names: [],
+        error: `Tag "${name}" is longer than ${TAG_NAME_MAX_LENGTH} characters`,
+      };
+    }
+    if (!names.some((n) => n.toLowerCase() === name.toLowerCase())) {
+      names.push(name);
+    }
+  }
+  if (names.length > MAX_TAGS) {
+    return { names: [], error: `A task can have at most ${MAX_TAGS} tags` };
+  }
+  return { names, error: null };
+}
+
+// Validates each record as a new task. Tags are matched to the user's by
+// name, ignoring case; unmatched names are created by createImportedTasks.
+// Records with a UID the user already has a task for, trashed ones included,
+// are skipped, as are repeats of a UID within the file.
+export async function prepareImport(
+  userId: string,
+  records: ImportRecord[]
+): Promise<PreparedImport> {
+  const uids = records
+    .map((record) => record.externalUid)
+    .filter((uid): uid is string => Boolean(uid));
+  const [existingTags, importedTasks] = await Promise.all([
+    prisma.tag.findMany({
+      where: { userId },
+      select: { name: true },
+    }),
+    uids.length > 0
+      ? prisma.task.findMany({
+          where: { userId, externalUid: { in: uids } },
+          select: { externalUid: true },
+        })
+      : [],
+  ]);
+  const existingNames = new Set(
+    existingTags.map((tag) => tag.name.toLowerCase())
+  );
+  const seenUids = new Set(importedTasks.map((task) => task.externalUid));
+
+  const rows: ImportRowResult[] = [];
+  const tasks: PreparedImport["tasks"] = [];
+
+  records.forEach((record, index) => {
+    const { tags, externalUid, warnings = [], ...fields } = record;
+    const title = typeof fields.title === "string" ? fields.title.trim() : "";
+    if (externalUid && seenUids.has(externalUid)) {
+      rows.push({
+        row: index + 1,
+        title,
+        errors: [],
+        warnings,
+        duplicate: true,
+        task: null,
+      });
+      return;
+    }
+    const input: Record<string, unknown> = { ...fields };
+    if (fields.priority !== undefined) {
+      input.priority = matchChoice(fields.priority, TASK_PRIORITIES);
+    }
+    if (fields.status !== undefined) {
+      input.status = matchChoice(fields.status, TASK_STATUSES);
+    }
+
+    const tagNames = parseTagNames(tags);
+    const validation = validateTaskCreate(input);
+    const errors = [
+      ...(validation.errors ? Object.values(validation.errors) : []),
+      ...(tagNames.error ? [tagNames.error] : []),
+    ].filter((error): error is string => Boolean(error));
+
+    if (validation.data === null || errors.length > 0) {
+      rows.push({
+        row: index + 1,
+        title,
+        errors,
+        warnings,
+        duplicate: false,
+        task: null,
+      });
+      return;
+    }
+
+    const data = validation.data;
+    if (externalUid) seenUids.add(externalUid);
+    tasks.push({
+      data,
+      tagNames: tagNames.names,
+      externalUid: externalUid ?? null,
+    });
+    rows.push({
+      row: index + 1,
+      title,
+      errors: [],
+      warnings,
+      duplicate: false,
+      task: {
+        title: data.title,
+        dueDate: data.dueDate?.toISOString() ?? null,
+        priority: data.priority,
+        status: data.status,
+        tags: tagNames.names,
+        newTags: tagNames.names.filter(
+          (name) => !existingNames.has(name.toLowerCase())
+        ),
+        estimatedTime: data.estimatedTime,
+      },
+    });
+  });
+
+  return { rows, tasks };
+}
+
+// Creates the prepared tasks, and any tags they name that the user doesn't
+// have, at the top of the list in file order. Returns how many were created.
+export async function createImportedTasks(
+  userId: string,
+  tasks: PreparedImport["tasks"]
+) {
+  if (tasks.length === 0) return 0;
+
+  return prisma.$transaction(
+    async (tx) => {
+      const names = new Map<string, string>();
+      for (const name of tasks.flatMap((task) => task.tagNames)) {
+        names.set(name.toLowerCase(), name);
+      }
+
+      const existing = await tx.tag.findMany({
+        where: { userId },
+        select: { id: true, name: true },
+      });
+      const tagIds = new Map(
+        existing.map((tag) => [tag.name.toLowerCase(), tag.id])
+      );
+      for (const [key, name] of Array.from(names)) {
+        if (tagIds.has(key)) continue;
+        const tag = await tx.tag.create({
+          data: { name, color: DEFAULT_TAG_COLOR, userId },
+          select: { id: true },
+        });
+        tagIds.set(key, tag.id);
+      }
+
+      const positions = await firstPositions(tx, userId, tasks.length);
+      for (let index = 0; index < tasks.length; index++) {
+        const { data, tagNames, externalUid } = tasks[index];
+        const {
+          title,
+          description,
+          dueDate,
+          hasDueTime,
+          priority,
+          status,
+          estimatedTime,
+        } = data;
+        await tx.task.create({
+          data: {
+            title,
+            description,
+            dueDate,
+            hasDueTime,
+            priority,
+            status,
+            estimatedTime,
+            externalUid,
+            position: positions[index],
+            tags: {
+              connect: tagNames.map((name) => ({
+                id: tagIds.get(name.toLowerCase()) as string,
+              })),
+            },
+            user: { connect: { id: userId } },
+          },
+        });
+      }
+      return tasks.length;
+    },
+    { timeout: IMPORT_TIMEOUT_MS }
+  );
+}
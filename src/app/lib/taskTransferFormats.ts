@@ -0,0 +1,424 @@
+import { CsvParseError, parseCsv, toCsv } from "./csv";
+import {
+  IcsComponent,
+  IcsParseError,
+  IcsProperty,
+  parseCalendar,
+  parseIcsDate,
+  parseIcsDuration,
+  splitTextList,
+  unescapeText,
+} from "./icalendar";
+import { COMPLETED_EVENT_PREFIX } from "./calendarFeed";
+import {
+  exportMarkdownChecklist,
+  exportTodoTxt,
+  parseMarkdownChecklist,
+  parseTodoTxt,
+} from "./plainTextFormats";
+import { toDateKey } from "./planning";
+
+// File formats for /api/tasks/export and /api/tasks/import, shared with the
+// Settings page so it can name formats and build the error report. Parsing
+// here only turns a file into field values by name; the server validates
+// them like any other task. Client-safe.
+
+export const TRANSFER_FORMATS = ["csv", "json", "todotxt", "markdown"] as const;
+export type TransferFormat = (typeof TRANSFER_FORMATS)[number];
+
+// Everything that can be exported, plus iCalendar files
+export const IMPORT_FORMATS = [...TRANSFER_FORMATS, "ics"] as const;
+export type ImportFormat = (typeof IMPORT_FORMATS)[number];
+
+export const FORMAT_LABELS: Record<ImportFormat, string> = {
+  csv: "CSV",
+  json: "JSON",
+  todotxt: "todo.txt",
+  markdown: "Markdown",
+  ics: "iCalendar",
+};
+
+export const EXPORT_FILE_EXTENSIONS: Record<TransferFormat, string> = {
+  csv: "csv",
+  json: "json",
+  todotxt: "txt",
+  markdown: "md",
+};
+
+// Guesses a file's format from its name, defaulting to CSV
+export function importFormatForFile(filename: string): ImportFormat {
+  const extension = filename.toLowerCase().split(".").pop();
+  if (extension === "json") return "json";
+  if (extension === "ics" || extension === "ical") return "ics";
+  if (extension === "txt") return "todotxt";
+  if (extension === "md" || extension === "markdown") return "markdown";
+  return "csv";
+}
+
+export const IMPORT_MAX_ROWS = 1000;
+// Characters of file content
+export const IMPORT_MAX_LENGTH = 2 * 1000 * 1000;
+
+// Task fields an import can set, in export column order
+export const IMPORT_FIELDS = [
+  "title",
+  "description",
+  "dueDate",
+  "priority",
+  "status",
+  "tags",
+  "estimatedTime",
+] as const;
+export type ImportField = (typeof IMPORT_FIELDS)[number];
+
+// Exported for reference; imports ignore them
+const EXPORT_ONLY_COLUMNS = ["project", "createdAt"] as const;
+
+// Other headers spreadsheets tend to use, after lowercasing and dropping
+// spaces, dashes and underscores
+const COLUMN_ALIASES: Record<string, ImportField> = {
+  title: "title",
+  name: "title",
+  task: "title",
+  description: "description",
+  notes: "description",
+  duedate: "dueDate",
+  due: "dueDate",
+  priority: "priority",
+  status: "status",
+  tags: "tags",
+  tag: "tags",
+  labels: "tags",
+  estimatedtime: "estimatedTime",
+  estimate: "estimatedTime",
+  estimateminutes: "estimatedTime",
+};
+
+// One task's values by field, as found in the file. iCalendar items also
+// carry their UID so a second import of the same file can skip them, and
+// warnings about what couldn't be read as is.
+export type ImportRecord = Partial<Record<ImportField, unknown>> & {
+  externalUid?: string;
+  warnings?: string[];
+};
+
+export interface ExportedTask {
+  title: string;
+  description: string | null;
+  // yyyy-mm-dd, or a full ISO timestamp when the task has a due time
+  dueDate: string | null;
+  priority: string | null;
+  status: string;
+  tags: string[];
+  // Minutes
+  estimatedTime: number | null;
+  project: string | null;
+  createdAt: string;
+}
+
+// What an import row would create, or why it can't
+export interface ImportRowResult {
+  // 1-based position among the file's tasks
+  row: number;
+  title: string;
+  errors: string[];
+  // Shown with the row; the task is still imported
+  warnings: string[];
+  // Skipped because a task was already imported from the same iCalendar UID
+  duplicate: boolean;
+  task: {
+    title: string;
+    dueDate: string | null;
+    priority: string | null;
+    status: string;
+    tags: string[];
+    // Tags that don't exist yet and will be created
+    newTags: string[];
+    estimatedTime: number | null;
+  } | null;
+}
+
+export interface ImportSummary {
+  rows: ImportRowResult[];
+  // Tasks created; always 0 for a dry run
+  created: number;
+  ignoredColumns: string[];
+}
+
+// Thrown when a file can't be read at all, as opposed to a bad row
+export class ImportFormatError extends Error {}
+
+// "yyyy-mm-dd" for a whole day, the same way the API takes them
+export const formatExportDueDate = (
+  dueDate: Date | null,
+  hasDueTime: boolean
+) => {
+  if (!dueDate) return null;
+  return hasDueTime ? dueDate.toISOString() : toDateKey(dueDate);
+};
+
+const CSV_COLUMNS = [...IMPORT_FIELDS, ...EXPORT_ONLY_COLUMNS];
+
+export function exportTasks(tasks: ExportedTask[], format: TransferFormat) {
+  if (format === "todotxt") return exportTodoTxt(tasks);
+  if (format === "markdown") return exportMarkdownChecklist(tasks);
+  if (format === "json") {
+    return JSON.stringify(
+      { exportedAt: new Date().toISOString(), tasks },
+      null,
+      2
+    );
+  }
+
+  return toCsv([
+    CSV_COLUMNS,
+    ...tasks.map((task) =>
+      CSV_COLUMNS.map((column) => {
+        const value = task[column];
+        if (Array.isArray(value)) return value.join("; ");
+        return value === null ? "" : String(value);
+      })
+    ),
+  ]);
+}
+
+const normalizeColumn = (name: string) =>
+  name.toLowerCase().replace(/[\s_-]/g, "");
+
+// Tag cells are "work; home" (or comma separated, as other tools write them)
+export const splitTagList = (value: string) =>
+  value
+    .split(/[;,]/)
+    .map((name) => name.trim())
+    .filter(Boolean);
+
+function parseCsvRecords(content: string) {
+  let rows: string[][];
+  try {
+    rows = parseCsv(content);
+  } catch (error) {
+    if (error instanceof CsvParseError) {
+      throw new ImportFormatError(`Invalid CSV: ${error.message}`);
+    }
+    throw error;
+  }
+
+  const [header, ...dataRows] = rows;
+  if (!header) throw new ImportFormatError("The file is empty");
+
+  const fields = header.map(
+    (name) => COLUMN_ALIASES[normalizeColumn(name)] ?? null
+  );
+  if (!fields.includes("title")) {
+    throw new ImportFormatError("The file needs a title column");
+  }
+
+  const records = dataRows.map((row) => {
+    const record: ImportRecord = {};
+    fields.forEach((field, index) => {
+      const value = (row[index] ?? "").trim();
+      if (!field || value === "") return;
+      record[field] = field === "tags" ? splitTagList(value) : value;
+    });
+    return record;
+  });
+
+  return {
+    records,
+    ignoredColumns: header.filter(
+      (name, index) =>
+        !fields[index] &&
+        !(EXPORT_ONLY_COLUMNS as readonly string[]).includes(name)
+    ),
+  };
+}
+
+function parseJsonRecords(content: string) {
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(content);
+  } catch {
+    throw new ImportFormatError("Invalid JSON");
+  }
+
+  // An export ({ tasks: [...] }) or a bare array of tasks
+  const items =
+    parsed && typeof parsed === "object" && "tasks" in parsed
+      ? (parsed as { tasks: unknown }).tasks
+      : parsed;
+  if (!Array.isArray(items)) {
+    throw new ImportFormatError("Expected an array of tasks");
+  }
+
+  const ignored = new Set<string>();
+  const records = items.map((item) => {
+    const record: ImportRecord = {};
+    if (!item || typeof item !== "object" || Array.isArray(item)) {
+      return record;
+    }
+    for (const [key, value] of Object.entries(item)) {
+      const field = COLUMN_ALIASES[normalizeColumn(key)];
+      if (!field) {
+        if (!(EXPORT_ONLY_COLUMNS as readonly string[]).includes(key)) {
+          ignored.add(key);
+        }
+        continue;
+      }
+      if (value === null || value === "") continue;
+      record[field] =
+        field === "tags" && typeof value === "string"
+          ? splitTagList(value)
+          : value;
+    }
+    return record;
+  });
+
+  return { records, ignoredColumns: Array.from(ignored) };
+}
+
+// PRIORITY is 1 (highest) to 9; 0 means none
+const icsPriority = (value: string) => {
+  const priority = Number(value);
+  if (!Number.isInteger(priority) || priority < 1 || priority > 9) {
+    return undefined;
+  }
+  if (priority <= 4) return "High";
+  return priority === 5 ? "Medium" : "Low";
+};
+
+// Statuses without a match here, like CANCELLED, are left for validation
+// to reject
+const ICS_STATUSES: Record<string, string> = {
+  "NEEDS-ACTION": "Not Started",
+  "IN-PROCESS": "In Progress",
+  COMPLETED: "Completed",
+  TENTATIVE: "Not Started",
+  CONFIRMED: "Not Started",
+};
+
+// A DTSTART, DUE or DTEND value, read in its TZID if it has one
+const icsDateOf = (property: IcsProperty | undefined) =>
+  property ? parseIcsDate(property.value, property.params?.TZID) : null;
+
+function icsRecord({ type, properties }: IcsComponent): ImportRecord {
+  const find = (name: string) =>
+    properties.find((property) => property.name === name);
+  const value = (name: string) => find(name)?.value.trim();
+  const record: ImportRecord = {};
+
+  let title = unescapeText(value("SUMMARY") ?? "").trim();
+  const status = value("STATUS")?.toUpperCase();
+  if (status) {
+    record.status = ICS_STATUSES[status] ?? status;
+  } else if (
+    type === "VTODO" &&
+    (value("COMPLETED") || value("PERCENT-COMPLETE") === "100")
+  ) {
+    record.status = "Completed";
+  }
+  if (type === "VEVENT" && title.startsWith(COMPLETED_EVENT_PREFIX)) {
+    title = title.slice(COMPLETED_EVENT_PREFIX.length).trim();
+    record.status = "Completed";
+  }
+  if (title) record.title = title;
+
+  const description = unescapeText(value("DESCRIPTION") ?? "").trim();
+  if (description) record.description = description;
+
+  // A to-do is due at DUE, an event at its start
+  const start = find("DTSTART");
+  const due = (type === "VTODO" && find("DUE")) || start;
+  if (due) {
+    const dueDate = icsDateOf(due);
+    record.dueDate = dueDate ?? due.value.trim();
+    // A time that can't be placed in UTC was dropped
+    if (dueDate && !dueDate.includes("T") && due.value.includes("T")) {
+      const timeZone = due.params?.TZID;
+      const reason = timeZone
+        ? `its time zone "${timeZone}" is unknown`
+        : "it has no time zone";
+      record.warnings = [`Due time left out because ${reason}`];
+    }
+  }
+
+  const priority = icsPriority(value("PRIORITY") ?? "");
+  if (priority) record.priority = priority;
+
+  const tags = properties
+    .filter((property) => property.name === "CATEGORIES")
+    .flatMap((property) => splitTextList(property.value))
+    .map((name) => name.trim())
+    .filter(Boolean);
+  if (tags.length > 0) record.tags = tags;
+
+  // How long a timed item takes becomes its estimate
+  const startDate = icsDateOf(start);
+  const duration = value("DURATION");
+  if (startDate && startDate.includes("T")) {
+    const end = type === "VEVENT" ? icsDateOf(find("DTEND")) : null;
+    const minutes = duration
+      ? parseIcsDuration(duration)
+      : end && end.includes("T")
+      ? (new Date(end).getTime() - new Date(startDate).getTime()) / 60000
+      : null;
+    if (minutes && minutes > 0) record.estimatedTime = Math.round(minutes);
+  }
+
+  const uid = value("UID");
+  if (uid) record.externalUid = uid;
+  return record;
+}
+
+function parseIcsRecords(content: string) {
+  let components: IcsComponent[];
+  try {
+    components = parseCalendar(content);
+  } catch (error) {
+    if (error instanceof IcsParseError) {
+      throw new ImportFormatError(`Invalid iCalendar file: ${error.message}`);
+    }
+    throw error;
+  }
+  return { records: components.map(icsRecord), ignoredColumns: [] };
+}
+
+const PARSERS: Record<
+  ImportFormat,
+  (content: string) => { records: ImportRecord[]; ignoredColumns: string[] }
+> = {
+  csv: parseCsvRecords,
+  json: parseJsonRecords,
+  ics: parseIcsRecords,
+  todotxt: (content) => ({
+    records: parseTodoTxt(content),
+    ignoredColumns: [],
+  }),
+  markdown: (content) => ({
+    records: parseMarkdownChecklist(content),
+    ignoredColumns: [],
+  }),
+};
+
+// Reads a file into one record per task
+export function parseImportFile(format: ImportFormat, content: string) {
+  const result = PARSERS[format](content);
+
+  if (result.records.length === 0) {
+    throw new ImportFormatError("The file has no tasks");
+  }
+  if (result.records.length > IMPORT_MAX_ROWS) {
+    throw new ImportFormatError(
+      `Import at most ${IMPORT_MAX_ROWS} tasks at a time`
+    );
+  }
+  return result;
+}
+
+// CSV of the rows an import rejected, one line per problem
+export const importErrorReport = (rows: ImportRowResult[]) =>
+  toCsv([
+    ["row", "title", "error"],
+    ...rows.flatMap((row) =>
+      row.errors.map((error) => [String(row.row), row.title, error])
+    ),
+  ]);
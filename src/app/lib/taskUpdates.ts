@@ -0,0 +1,53 @@
+import { Prisma } from "@prisma/client";
+import { createNextOccurrence } from "./recurringTasks";
+import { taskDetailInclude } from "./taskQuery";
+import { recordRevision } from "./taskRevisions";
+import { stopRunningTimers } from "./timeEntries";
+import { validateDueDateChange } from "./taskValidation";
+
+type TaskDetail = Prisma.TaskGetPayload<{ include: typeof taskDetailInclude }>;
+
+// The due date rule, checked only when the due date actually changes
+export const dueDateChangeError = (
+  dueDate: Date | null | undefined,
+  existingDueDate: Date | null
+) =>
+  dueDate && dueDate.getTime() !== existingDueDate?.getTime()
+    ? validateDueDateChange(dueDate, existingDueDate)
+    : null;
+
+// Writes an edit to one of the user's tasks and records it as a revision.
+// Editing, bulk updates and restoring a revision all go through here, so a
+// task moving to Completed always stops its running timer and schedules the
+// next occurrence of a recurring task.
+export async function applyTaskUpdate(
+  tx: Prisma.TransactionClient,
+  userId: string,
+  previousTask: TaskDetail,
+  data: Prisma.TaskUpdateInput,
+  restoredFromId?: string
+) {
+  const now = new Date();
+  const updatedTask = await tx.task.update({
+    where: { id: previousTask.id, userId },
+    data: { ...data, updatedAt: now },
+    include: taskDetailInclude,
+  });
+
+  let nextOccurrence = null;
+  if (
+    updatedTask.status === "Completed" &&
+    previousTask.status !== "Completed"
+  ) {
+    await stopRunningTimers(tx, userId, { taskId: updatedTask.id }, now);
+    nextOccurrence = await createNextOccurrence(tx, updatedTask, now);
+  }
+
+  // createNextOccurrence moved the rule to the new task
+  const finalTask = nextOccurrence
+    ? { ...updatedTask, recurrence: null }
+    : updatedTask;
+  await recordRevision(tx, userId, previousTask, finalTask, restoredFromId);
+
+  return { updatedTask: finalTask, nextOccurrence };
+}
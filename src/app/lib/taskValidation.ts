@@ -0,0 +1,270 @@
+import { TASK_PRIORITIES, TASK_STATUSES } from "./taskConstants";
+import { RecurrenceRule, validateRecurrence } from "./recurrence";
+import { parseEstimate } from "./estimates";
+
+// Shared by POST /api/tasks and PUT /api/tasks/[id], and imported by the
+// forms for their input limits. Keep this module free of server-only imports.
+
+export const TITLE_MAX_LENGTH = 200;
+export const DESCRIPTION_MAX_LENGTH = 5000;
+export const MAX_TAGS = 20;
+export const ESTIMATED_TIME_MAX = 100000;
+export const CHECKLIST_TEXT_MAX_LENGTH = 500;
+export const COMMENT_MAX_LENGTH = 10000;
+
+export interface TaskInput {
+  title: string;
+  description: string | null;
+  dueDate: Date | null;
+  // Set from the dueDate string: "yyyy-mm-dd" is a whole day, a timestamp
+  // has a time. Not a field clients send.
+  hasDueTime: boolean;
+  priority: string | null;
+  status: string;
+  // Ids of the user's tags; routes check ownership before connecting them
+  tags: string[];
+  estimatedTime: number | null;
+  recurrence: RecurrenceRule | null;
+  projectId: string | null;
+}
+
+export type TaskField = Exclude<keyof TaskInput, "hasDueTime">;
+export type TaskFieldErrors = Partial<Record<string, string>>;
+
+export type TaskValidationResult<T> =
+  | { data: T; errors: null }
+  | { data: null; errors: TaskFieldErrors };
+
+export const DATE_ONLY_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+
+// Only these fields can be written by clients; everything else (id, userId,
+// createdAt, ...) is rejected rather than silently passed to Prisma.
+const EDITABLE_FIELDS: TaskField[] = [
+  "title",
+  "description",
+  "dueDate",
+  "priority",
+  "status",
+  "tags",
+  "estimatedTime",
+  "recurrence",
+  "projectId",
+];
+
+type FieldParser<K extends TaskField> = (
+  value: unknown
+) => { value: TaskInput[K] } | { error: string };
+
+const fieldParsers: { [K in TaskField]: FieldParser<K> } = {
+  title: (value) => {
+    if (typeof value !== "string" || value.trim() === "") {
+      return { error: "Task title is required" };
+    }
+    if (value.trim().length > TITLE_MAX_LENGTH) {
+      return {
+        error: `Title must be at most ${TITLE_MAX_LENGTH} characters`,
+      };
+    }
+    return { value: value.trim() };
+  },
+  description: (value) => {
+    if (value === null || value === undefined) return { value: null };
+    if (typeof value !== "string") {
+      return { error: "Description must be text" };
+    }
+    if (value.trim().length > DESCRIPTION_MAX_LENGTH) {
+      return {
+        error: `Description must be at most ${DESCRIPTION_MAX_LENGTH} characters`,
+      };
+    }
+    return { value: value.trim() || null };
+  },
+  dueDate: (value) => {
+    if (value === null || value === undefined || value === "") {
+      return { value: null };
+    }
+    if (typeof value !== "string") {
+      return { error: "Due date must be a date string" };
+    }
+    const date = new Date(value);
+    if (isNaN(date.getTime())) {
+      return { error: "Due date is not a valid date" };
+    }
+    return { value: date };
+  },
+  priority: (value) => {
+    if (value === null || value === undefined || value === "") {
+      return { value: null };
+    }
+    if (!TASK_PRIORITIES.includes(value as (typeof TASK_PRIORITIES)[number])) {
+      return { error: `Priority must be one of ${TASK_PRIORITIES.join(", ")}` };
+    }
+    return { value: value as string };
+  },
+  status: (value) => {
+    if (!TASK_STATUSES.includes(value as (typeof TASK_STATUSES)[number])) {
+      return { error: `Status must be one of ${TASK_STATUSES.join(", ")}` };
+    }
+    return { value: value as string };
+  },
+  tags: (value) => {
+    if (value === null || value === undefined) return { value: [] };
+    if (!Array.isArray(value)) {
+      return { error: "Tags must be an array" };
+    }
+    if (!value.every((tag) => typeof tag === "string" && tag !== "")) {
+      return { error: "Tags must be a list of tag ids" };
+    }
+    const tags = Array.from(new Set(value as string[]));
+    if (tags.length > MAX_TAGS) {
+      return { error: `A task can have at most ${MAX_TAGS} tags` };
+    }
+    return { value: tags };
+  },
+  // Minutes, or readable text like "1h30m" from the estimate inputs
+  estimatedTime: (value) => {
+    if (value === null || value === undefined || value === "") {
+      return { value: null };
+    }
+    const minutes = typeof value === "string" ? parseEstimate(value) : value;
+    if (
+      typeof minutes !== "number" ||
+      !Number.isInteger(minutes) ||
+      minutes < 0 ||
+      minutes > ESTIMATED_TIME_MAX
+    ) {
+      return {
+        error: `Estimated time must look like 1h30m or 45m, up to ${ESTIMATED_TIME_MAX} minutes`,
+      };
+    }
+    return { value: minutes };
+  },
+  recurrence: validateRecurrence,
+  projectId: (value) => {
+    if (value === null || value === undefined || value === "") {
+      return { value: null };
+    }
+    if (typeof value !== "string") {
+      return { error: "Project must be a project id" };
+    }
+    return { value };
+  },
+};
+
+const parseFields = (
+  body: unknown,
+  required: TaskField[]
+): TaskValidationResult<Partial<TaskInput>> => {
+  if (!body || typeof body !== "object" || Array.isArray(body)) {
+    return { data: null, errors: { form: "Request body must be an object" } };
+  }
+
+  const input = body as Record<string, unknown>;
+  const errors: TaskFieldErrors = {};
+  const data: Partial<Record<keyof TaskInput, unknown>> = {};
+
+  for (const key of Object.keys(input)) {
+    if (!EDITABLE_FIELDS.includes(key as TaskField)) {
+      errors[key] = `${key} cannot be set`;
+    }
+  }
+
+  for (const field of EDITABLE_FIELDS) {
+    if (!(field in input) && !required.includes(field)) continue;
+
+    const result = (fieldParsers[field] as FieldParser<TaskField>)(
+      input[field]
+    );
+    if ("error" in result) {
+      errors[field] = result.error;
+    } else {
+      data[field] = result.value;
+    }
+  }
+
+  if ("dueDate" in data) {
+    data.hasDueTime =
+      data.dueDate !== null && !DATE_ONLY_PATTERN.test(input.dueDate as string);
+  }
+
+  return Object.keys(errors).length > 0
+    ? { data: null, errors }
+    : { data: data as Partial<TaskInput>, errors: null };
+};
+
+// Validates a full payload for creating a task, filling in defaults
+export function validateTaskCreate(
+  body: unknown
+): TaskValidationResult<TaskInput> {
+  const result = parseFields(body, ["title"]);
+  if (result.errors) return result;
+
+  return {
+    errors: null,
+    data: {
+      description: null,
+      dueDate: null,
+      hasDueTime: false,
+      priority: null,
+      status: "Not Started",
+      tags: [],
+      estimatedTime: null,
+      recurrence: null,
+      projectId: null,
+      ...result.data,
+    } as TaskInput,
+  };
+}
+
+// Validates a partial payload for updating a task; absent fields are untouched
+export function validateTaskUpdate(
+  body: unknown
+): TaskValidationResult<Partial<TaskInput>> {
+  return parseFields(body, []);
+}
+
+// Existing tasks can't be rescheduled into an earlier month, and tasks without
+// a due date can't be given one in the past.
+export function validateDueDateChange(
+  newDueDate: Date,
+  existingDueDate: Date | null,
+  now = new Date()
+): string | null {
+  const isSameMonthAndYear = (date1: Date, date2: Date) =>
+    date1.getMonth() === date2.getMonth() &&
+    date1.getFullYear() === date2.getFullYear();
+
+  if (existingDueDate) {
+    if (
+      newDueDate < existingDueDate &&
+      !isSameMonthAndYear(newDueDate, existingDueDate)
+    ) {
+      return "New due date cannot be in a past month";
+    }
+  } else if (newDueDate < now) {
+    return "Due date cannot be set to a past date";
+  }
+  return null;
+}
+
+// Returns an error message for invalid checklist item text, or null
+export function validateChecklistText(text: unknown): string | null {
+  if (typeof text !== "string" || text.trim() === "") {
+    return "Item text is required";
+  }
+  if (text.trim().length > CHECKLIST_TEXT_MAX_LENGTH) {
+    return `Item text must be at most ${CHECKLIST_TEXT_MAX_LENGTH} characters`;
+  }
+  return null;
+}
+
+// Returns an error message for an invalid comment body, or null
+export function validateCommentBody(body: unknown): string | null {
+  if (typeof body !== "string" || body.trim() === "") {
+    return "Comment cannot be empty";
+  }
+  if (body.trim().length > COMMENT_MAX_LENGTH) {
+    return `Comment must be at most ${COMMENT_MAX_LENGTH} characters`;
+  }
+  return null;
+}
@@ -0,0 +1,25 @@
+import { Prisma } from "@prisma/client";
+
+export const timeEntrySelect = {
+  id: true,
+  taskId: true,
+  startedAt: true,
+  endedAt: true,
+  note: true,
+  task: { select: { id: true, title: true } },
+} satisfies Prisma.TimeEntrySelect;
+
+// Stops the user's running timer, if any. Starting a timer calls this first,
+// which is what keeps a user down to one running timer. Narrow it with
+// `where` (e.g. to a task) when only some timers should stop.
+export async function stopRunningTimers(
+  client: Prisma.TransactionClient,
+  userId: string,
+  where: Prisma.TimeEntryWhereInput = {},
+  at = new Date()
+) {
+  return client.timeEntry.updateMany({
+    where: { ...where, userId, endedAt: null },
+    data: { endedAt: at },
+  });
+}
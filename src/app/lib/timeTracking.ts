@@ -0,0 +1,110 @@
+// Time entry validation and duration formatting. Shared by the time entry
+// routes, the task page and the sidebar timer, so keep this module free of
+// server-only imports.
+
+export const TIME_ENTRY_NOTE_MAX_LENGTH = 500;
+
+// Fired on window whenever a timer starts or stops, so every timer display
+// on the page (task page, sidebar) can refresh
+export const TIMER_CHANGED_EVENT = "timer-changed";
+
+export const notifyTimerChanged = () =>
+  window.dispatchEvent(new Event(TIMER_CHANGED_EVENT));
+
+export interface TimeEntrySummary {
+  id: string;
+  taskId: string;
+  startedAt: string;
+  endedAt: string | null;
+  note: string | null;
+  task: { id: string; title: string };
+}
+
+export interface ManualTimeEntry {
+  startedAt: Date;
+  endedAt: Date;
+  note: string | null;
+}
+
+export const validateTimeEntryNote = (
+  note: unknown
+): { value: string | null } | { error: string } => {
+  if (note === undefined || note === null || note === "") {
+    return { value: null };
+  }
+  if (typeof note !== "string") {
+    return { error: "Note must be text" };
+  }
+  if (note.trim().length > TIME_ENTRY_NOTE_MAX_LENGTH) {
+    return {
+      error: `Note must be at most ${TIME_ENTRY_NOTE_MAX_LENGTH} characters`,
+    };
+  }
+  return { value: note.trim() || null };
+};
+
+// Validates a manually logged entry: both ends are required, it must not be
+// empty and it can't end in the future
+export function validateManualTimeEntry(
+  body: unknown,
+  now = new Date()
+): { data: ManualTimeEntry; error: null } | { data: null; error: string } {
+  if (!body || typeof body !== "object" || Array.isArray(body)) {
+    return { data: null, error: "Request body must be an object" };
+  }
+
+  const { startedAt, endedAt, note } = body as Record<string, unknown>;
+  const start = typeof startedAt === "string" ? new Date(startedAt) : null;
+  const end = typeof endedAt === "string" ? new Date(endedAt) : null;
+
+  if (!start || isNaN(start.getTime()) || !end || isNaN(end.getTime())) {
+    return { data: null, error: "Start and end times are required" };
+  }
+  if (end <= start) {
+    return { data: null, error: "End time must be after the start time" };
+  }
+  if (end > now) {
+    return { data: null, error: "Time entries can't end in the future" };
+  }
+
+  const noteResult = validateTimeEntryNote(note);
+  if ("error" in noteResult) {
+    return { data: null, error: noteResult.error };
+  }
+
+  return {
+    data: { startedAt: start, endedAt: end, note: noteResult.value },
+    error: null,
+  };
+}
+
+export const MINUTE_MS = 60 * 1000;
+
+// "2h 05m", "12m"; anything under a minute shows as "0m"
+export function formatDuration(ms: number) {
+  const totalMinutes = Math.floor(ms / MINUTE_MS);
+  const hours = Math.floor(totalMinutes / 60);
+  const minutes = totalMinutes % 60;
+  return hours > 0
+    ? `${hours}h ${String(minutes).padStart(2, "0")}m`
+    : `${minutes}m`;
+}
+
+// Stopwatch style "1:02:03" for a running timer
+export function formatClock(ms: number) {
+  const totalSeconds = Math.max(0, Math.floor(ms / 1000));
+  const hours = Math.floor(totalSeconds / 3600);
+  const minutes = Math.floor((totalSeconds % 3600) / 60);
+  const seconds = totalSeconds % 60;
+  return `${hours}:${String(minutes).padStart(2, "0")}:${String(
+    seconds
+  ).padStart(2, "0")}`;
+}
+
+// Tracked time of an entry; running entries count up to `now`
+export const entryDuration = (
+  entry: Pick<TimeEntrySummary, "startedAt" | "endedAt">,
+  now = Date.now()
+) =>
+  (entry.endedAt ? new Date(entry.endedAt).getTime() : now) -
+  new Date(entry.startedAt).getTime();
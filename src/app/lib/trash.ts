@@ -0,0 +1,35 @@
+import prisma from "./prisma";
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Permanently deletes trashed tasks older than their owner's retention
+// period. Runs for every user from the purge cron route, or for one user
+// when their trash is opened so expired tasks never show up there.
+// Returns the number of tasks removed.
+export async function purgeExpiredTrash(userId?: string, now = new Date()) {
+  const users = await prisma.user.findMany({
+    where: {
+      id: userId,
+      tasks: { some: { deletedAt: { not: null } } },
+    },
+    select: { id: true, trashRetentionDays: true },
+  });
+
+  let purged = 0;
+  for (const user of users) {
+    const { count } = await prisma.task.deleteMany({
+      where: {
+        userId: user.id,
+        deletedAt: {
+          lt: new Date(now.getTime() - user.trashRetentionDays * DAY_MS),
+        },
+      },
+    });
+    purged += count;
+  }
+  return purged;
+}
+
+// When a trashed task will be purged, for showing on the trash page
+export const purgeDate = (deletedAt: Date, retentionDays: number) =>
+  new Date(deletedAt.getTime() + retentionDays * DAY_MS);
@@ -3,6 +3,19 @@
 import React, { useState, useEffect } from "react";
 import { useSession } from "next-auth/react";
 import SidebarLayout from "../_components/SidebarLayout";
+import FieldError from "../_components/FieldError";
+import RecurrenceEditor from "../_components/RecurrenceEditor";
+import TagPicker from "../_components/TagPicker";
+import EstimateInput from "../_components/EstimateInput";
+import ProjectPicker from "../_components/ProjectPicker";
+import QuickAdd from "../_components/QuickAdd";
+import { RecurrenceRule } from "../lib/recurrence";
+import {
+  DESCRIPTION_MAX_LENGTH,
+  TITLE_MAX_LENGTH,
+  TaskFieldErrors,
+} from "../lib/taskValidation";
+import { TagSummary } from "../lib/tagValidation";
 
 interface Task {
   id: string;
@@ -11,27 +24,9 @@ interface Task {
   dueDate: string | null;
   priority: string | null;
   status: string;
-  tags: string[];
+  tags: TagSummary[];
 }
 
-const taskTags = [
-  "Work",
-  "Personal",
-  "Urgent",
-  "Important",
-  "Project",
-  "Meeting",
-  "FollowUp",
-  "Waiting",
-  "Delegated",
-  "Health",
-  "Finance",
-  "Learning",
-  "Home",
-  "Errand",
-  "Planning",
-];
-
 const formatDateTime = (date: Date) => {
   const months = [
     "January",
@@ -56,16 +51,27 @@ const formatDateTime = (date: Date) => {
   return `${day} ${month} ${hours}:${minutes}`;
 };
 
-export default function Dashboard() {
+export default function Dashboard({
+  searchParams,
+}: {
+  searchParams: { project?: string };
+}) {
   const [taskTitle, setTaskTitle] = useState("");
   const [taskDescription, setTaskDescription] = useState("");
   const [dueDate, setDueDate] = useState("");
   const [priority, setPriority] = useState("");
+  const [estimate, setEstimate] = useState("");
   const [status, setStatus] = useState("Not Started");
   const [currentDateTime, setCurrentDateTime] = useState("");
   const [tasks, setTasks] = useState<Task[]>([]);
   const { data: session } = useSession();
-  const [selectedTag, setSelectedTag] = useState("");
+  const [selectedTags, setSelectedTags] = useState<TagSummary[]>([]);
+  const [recurrence, setRecurrence] = useState<RecurrenceRule | null>(null);
+  // Opened from a project view with ?project=…
+  const [projectId, setProjectId] = useState<string | null>(
+    searchParams.project ?? null
+  );
+  const [fieldErrors, setFieldErrors] = useState<TaskFieldErrors>({});
 
   const [toast, setToast] = useState<{
     type: "success" | "error";
@@ -93,10 +99,10 @@ export default function Dashboard() {
 
   const fetchTasks = async () => {
     try {
-      const response = await fetch("/api/tasks");
+      const response = await fetch("/api/tasks?limit=8");
       if (response.ok) {
         const data = await response.json();
-        setTasks(data);
+        setTasks(data.tasks);
       } else {
         console.error("Failed to fetch tasks");
       }
@@ -109,6 +115,7 @@ export default function Dashboard() {
     e.preventDefault();
 
     if (!taskTitle.trim()) {
+      setFieldErrors({ title: "Task title is required" });
       setToast({ type: "error", message: "Task title is required" });
       return;
     }
@@ -125,7 +132,10 @@ export default function Dashboard() {
           dueDate,
           priority,
           status,
-          tag: selectedTag, // Change this from tags to tag
+          estimatedTime: estimate,
+          tags: selectedTags.map((tag) => tag.id),
+          recurrence,
+          projectId,
         }),
       });
 
@@ -135,6 +145,7 @@ export default function Dashboard() {
         fetchTasks();
       } else {
         const errorData = await response.json();
+        setFieldErrors(errorData.errors || {});
         setToast({
           type: "error",
           message: errorData.message || "Failed to add task",
@@ -151,8 +162,11 @@ export default function Dashboard() {
     setTaskDescription("");
     setDueDate("");
     setPriority("");
+    setEstimate("");
     setStatus("Not Started");
-    setSelectedTag("");
+    setSelectedTags([]);
+    setRecurrence(null);
+    setFieldErrors({});
   };
 
   return (
@@ -175,6 +189,12 @@ export default function Dashboard() {
           </div>
         )}
 
+        <QuickAdd
+          projectId={projectId}
+          onCreated={fetchTasks}
+          onMessage={(message, type) => setToast({ type, message })}
+        />
+
         <div className="bg-white shadow-md rounded p-4 sm:p-6 mb-8">
           <h2 className="text-xl font-semibold mb-4">Add New Task</h2>
           <form onSubmit={handleSubmit} className="space-y-4">
@@ -191,9 +211,11 @@ export default function Dashboard() {
                   id="taskTitle"
                   value={taskTitle}
                   onChange={(e) => setTaskTitle(e.target.value)}
+                  maxLength={TITLE_MAX_LENGTH}
                   className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-1 focus:ring-blue-500"
                   required
                 />
+                <FieldError message={fieldErrors.title} />
               </div>
               <div>
                 <label
@@ -206,9 +228,11 @@ export default function Dashboard() {
                   id="taskDescription"
                   value={taskDescription}
                   onChange={(e) => setTaskDescription(e.target.value)}
+                  maxLength={DESCRIPTION_MAX_LENGTH}
                   className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-1 focus:ring-blue-500"
                   rows={2}
                 />
+                <FieldError message={fieldErrors.description} />
               </div>
             </div>
 
@@ -227,6 +251,7 @@ export default function Dashboard() {
                   onChange={(e) => setDueDate(e.target.value)}
                   className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-1 focus:ring-blue-500"
                 />
+                <FieldError message={fieldErrors.dueDate} />
               </div>
               <div>
                 <label
@@ -246,6 +271,7 @@ export default function Dashboard() {
                   <option value="Medium">Medium</option>
                   <option value="High">High</option>
                 </select>
+                <FieldError message={fieldErrors.priority} />
               </div>
               <div>
                 <label
@@ -264,29 +290,64 @@ export default function Dashboard() {
                   <option value="In Progress">In Progress</option>
                   <option value="Completed">Completed</option>
                 </select>
+                <FieldError message={fieldErrors.status} />
+              </div>
+            </div>
+
+            <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+              <div>
+                <label
+                  htmlFor="estimate"
+                  className="block text-sm font-medium text-gray-700 mb-1"
+                >
+                  Estimate
+                </label>
+                <EstimateInput
+                  id="estimate"
+                  value={estimate}
+                  onChange={setEstimate}
+                  error={fieldErrors.estimatedTime}
+                  className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-1 focus:ring-blue-500"
+                />
+              </div>
+              <div>
+                <label
+                  htmlFor="project"
+                  className="block text-sm font-medium text-gray-700 mb-1"
+                >
+                  Project
+                </label>
+                <ProjectPicker
+                  id="project"
+                  value={projectId}
+                  onChange={setProjectId}
+                  error={fieldErrors.projectId}
+                  className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-1 focus:ring-blue-500"
+                />
               </div>
             </div>
 
             <div>
-              <label
-                htmlFor="tag"
-                className="block text-sm font-medium text-gray-700 mb-1"
-              >
-                Tag
-              </label>
-              <select
-                id="tag"
-                value={selectedTag}
-                onChange={(e) => setSelectedTag(e.target.value)}
-                className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-1 focus:ring-blue-500"
-              >
-                <option value="">Select a tag</option>
-                {taskTags.map((tag) => (
-                  <option key={tag} value={tag}>
-                    {tag}
-                  </option>
-                ))}
-              </select>
+              <span className="block text-sm font-medium text-gray-700 mb-1">
+                Tags
+              </span>
+              <TagPicker
+                value={selectedTags}
+                onChange={setSelectedTags}
+                error={fieldErrors.tags}
+              />
+            </div>
+
+            <div>
+              <span className="block text-sm font-medium text-gray-700 mb-1">
+                Repeat
+              </span>
+              <RecurrenceEditor
+                value={recurrence}
+                onChange={setRecurrence}
+                dueDate={dueDate}
+                error={fieldErrors.recurrence}
+              />
             </div>
 
             <div className="pt-4">
@@ -0,0 +1,289 @@
+"use client";
+import { useCallback, useEffect, useState } from "react";
+import Link from "next/link";
+import { format } from "date-fns";
+import {
+  ArrowRightIcon,
+  ChevronLeftIcon,
+  ChevronRightIcon,
+  ExclamationTriangleIcon,
+} from "@heroicons/react/24/outline";
+import { ToastContainer, toast } from "react-toastify";
+import "react-toastify/dist/ReactToastify.css";
+import PulseLoader from "react-spinners/PulseLoader";
+import SidebarLayout from "../_components/SidebarLayout";
+import { formatEstimate } from "../lib/estimates";
+import {
+  MoveSuggestion,
+  PlanningDay,
+  addDays,
+  dueDateKey,
+  localTimeZone,
+  moveDueDate,
+} from "../lib/planning";
+
+interface Task {
+  id: string;
+  title: string;
+}
+
+interface Plan {
+  capacity: number;
+  days: PlanningDay[];
+  suggestions: MoveSuggestion[];
+}
+
+const RANGE_DAYS = 14;
+
+// Date keys are plain days; show them as that day in local time
+const formatDay = (dateKey: string, pattern: string) =>
+  format(new Date(`${dateKey}T00:00:00`), pattern);
+
+export default function PlanningPage() {
+  const [tasks, setTasks] = useState<Task[]>([]);
+  const timeZone = localTimeZone();
+  const today = dueDateKey(new Date(), true, timeZone);
+  const [from, setFrom] = useState(today);
+  const [plan, setPlan] = useState<Plan | null>(null);
+  const [movingId, setMovingId] = useState<string | null>(null);
+
+  const fetchTasks = async () => {
+    try {
+      const response = await fetch("/api/tasks?limit=8");
+      if (response.ok) {
+        const data = await response.json();
+        setTasks(data.tasks);
+      } else {
+        console.error("Failed to fetch tasks");
+      }
+    } catch (error) {
+      console.error("Error fetching tasks:", error);
+    }
+  };
+
+  const fetchPlan = useCallback(async () => {
+    try {
+      const response = await fetch(
+        `/api/planning?from=${from}&days=${RANGE_DAYS}&timeZone=${encodeURIComponent(
+          timeZone
+        )}`
+      );
+      if (response.ok) {
+        setPlan(await response.json());
+      } else {
+        console.error("Failed to fetch planning");
+      }
+    } catch (error) {
+      console.error("Error fetching planning:", error);
+    }
+  }, [from, timeZone]);
+
+  useEffect(() => {
+    fetchTasks();
+  }, []);
+
+  useEffect(() => {
+    fetchPlan();
+  }, [fetchPlan]);
+
+  const applySuggestion = async (suggestion: MoveSuggestion) => {
+    const task = plan?.days
+      .flatMap((day) => day.tasks)
+      .find((item) => item.id === suggestion.taskId);
+    if (!task) return;
+    setMovingId(suggestion.taskId);
+    try {
+      // A due date with a time keeps its time of day on the new day
+      const response = await fetch(`/api/tasks/${suggestion.taskId}`, {
+        method: "PUT",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({
+          dueDate: moveDueDate(
+            task.dueDate,
+            task.hasDueTime,
+            suggestion.to,
+            timeZone
+          ),
+        }),
+      });
+      if (response.ok) {
+        toast.info(
+          `Moved "${suggestion.title}" to ${formatDay(
+            suggestion.to,
+            "EEE, MMM d"
+          )}`
+        );
+        fetchPlan();
+      } else {
+        const errorData = await response.json();
+        toast.error(errorData.error || "Failed to move task");
+      }
+    } catch (error) {
+      console.error("Error moving task:", error);
+      toast.error("Error moving task");
+    } finally {
+      setMovingId(null);
+    }
+  };
+
+  const overloadedDays = plan?.days.filter((day) => day.overloaded) ?? [];
+
+  return (
+    <SidebarLayout tasks={tasks} isAddTaskPage={false}>
+      <ToastContainer />
+      <div className="max-w-4xl mx-auto px-4">
+        <div className="flex items-center justify-between mb-2">
+          <h1 className="text-3xl font-bold text-gray-800">Planning</h1>
+          <div className="flex items-center gap-1">
+            <button
+              onClick={() => setFrom(addDays(from, -7))}
+              className="p-1 text-gray-500 hover:text-gray-700"
+              title="Previous week"
+            >
+              <ChevronLeftIcon className="w-5 h-5" />
+            </button>
+            <button
+              onClick={() => setFrom(today)}
+              className="px-3 py-1 text-sm bg-gray-200 rounded hover:bg-gray-300"
+            >
+              Today
+            </button>
+            <button
+              onClick={() => setFrom(addDays(from, 7))}
+              className="p-1 text-gray-500 hover:text-gray-700"
+              title="Next week"
+            >
+              <ChevronRightIcon className="w-5 h-5" />
+            </button>
+          </div>
+        </div>
+
+        {plan === null ? (
+          <div className="flex justify-center items-center gap-2 py-12">
+            <span className="text-gray-600">Loading planning</span>
+            <PulseLoader
+              color="#4B5563"
+              loading={true}
+              size={4}
+              speedMultiplier={0.8}
+              aria-label="Loading Planning"
+            />
+          </div>
+        ) : (
+          <>
+            <p className="text-sm text-gray-500 mb-6">
+              Open tasks&apos; estimates by due date against your daily capacity
+              of {formatEstimate(plan.capacity)}. Change it in{" "}
+              <Link href="/settings" className="underline hover:text-gray-700">
+                Settings
+              </Link>
+              .
+            </p>
+
+            {plan.suggestions.length > 0 && (
+              <div className="mb-6 p-4 bg-orange-50 border border-orange-200 rounded-lg">
+                <h2 className="flex items-center font-semibold text-gray-800 mb-2">
+                  <ExclamationTriangleIcon className="w-5 h-5 mr-2 text-orange-500" />
+                  {overloadedDays.length} overloaded day(s). Suggested moves:
+                </h2>
+                <ul className="space-y-2 text-sm">
+                  {plan.suggestions.map((suggestion) => (
+                    <li
+                      key={suggestion.taskId}
+                      className="flex items-center gap-2"
+                    >
+                      <Link
+                        href={`/task/${suggestion.taskId}`}
+                        className="flex-grow min-w-0 truncate hover:underline"
+                      >
+                        {suggestion.title}
+                      </Link>
+                      <span className="text-gray-500">
+                        {formatEstimate(suggestion.estimatedTime)}
+                      </span>
+                      <span className="flex items-center text-gray-600 whitespace-nowrap">
+                        {formatDay(suggestion.from, "EEE d")}
+                        <ArrowRightIcon className="w-3 h-3 mx-1" />
+                        {formatDay(suggestion.to, "EEE d")}
+                      </span>
+                      <button
+                        onClick={() => applySuggestion(suggestion)}
+                        disabled={movingId !== null}
+                        className="px-3 py-1 bg-blue-500 text-white rounded hover:bg-blue-600 disabled:opacity-50"
+                      >
+                        Move
+                      </button>
+                    </li>
+                  ))}
+                </ul>
+              </div>
+            )}
+
+            <ul className="bg-white shadow-sm rounded-lg divide-y">
+              {plan.days.map((day) => {
+                const unestimated = day.tasks.filter(
+                  (task) => task.estimatedTime === null
+                ).length;
+                return (
+                  <li key={day.date} className="p-4">
+                    <div className="flex items-center gap-3">
+                      <span className="w-28 flex-shrink-0 text-sm font-medium text-gray-700">
+                        {formatDay(day.date, "EEE, MMM d")}
+                      </span>
+                      <div className="flex-grow h-2 bg-gray-200 rounded-full overflow-hidden">
+                        <div
+                          className={`h-full ${
+                            day.overloaded ? "bg-red-500" : "bg-blue-500"
+                          }`}
+                          style={{
+                            width: `${Math.min(
+                              100,
+                              (day.totalMinutes / plan.capacity) * 100
+                            )}%`,
+                          }}
+                        />
+                      </div>
+                      <span
+                        className={`w-32 flex-shrink-0 text-right text-sm ${
+                          day.overloaded
+                            ? "text-red-600 font-semibold"
+                            : "text-gray-600"
+                        }`}
+                      >
+                        {formatEstimate(day.totalMinutes)} /{" "}
+                        {formatEstimate(plan.capacity)}
+                      </span>
+                    </div>
+                    {day.tasks.length > 0 && (
+                      <div className="flex flex-wrap gap-1 mt-2 ml-28 pl-3">
+                        {day.tasks.map((task) => (
+                          <Link
+                            key={task.id}
+                            href={`/task/${task.id}`}
+                            className="px-2 py-0.5 text-xs bg-gray-100 rounded hover:bg-gray-200"
+                          >
+                            {task.title}
+                            {task.estimatedTime !== null && (
+                              <span className="ml-1 text-gray-500">
+                                {formatEstimate(task.estimatedTime)}
+                              </span>
+                            )}
+                          </Link>
+                        ))}
+                        {unestimated > 0 && (
+                          <span className="px-2 py-0.5 text-xs text-gray-400">
+                            {unestimated} without an estimate
+                          </span>
+                        )}
+                      </div>
+                    )}
+                  </li>
+                );
+              })}
+            </ul>
+          </>
+        )}
+      </div>
+    </SidebarLayout>
+  );
+}
@@ -3,6 +3,11 @@ import { useState, useEffect } from "react";
 import { useSession } from "next-auth/react";
 import { useRouter } from "next/navigation";
 import SidebarLayout from "@/app/_components/SidebarLayout";
+import TagManager from "@/app/_components/TagManager";
+import PreferencesSettings from "@/app/_components/PreferencesSettings";
+import KeyboardShortcutsSettings from "@/app/_components/KeyboardShortcutsSettings";
+import TaskImportExport from "@/app/_components/TaskImportExport";
+import CalendarFeedSettings from "@/app/_components/CalendarFeedSettings";
 
 interface Task {
   id: string;
@@ -33,10 +38,10 @@ export default function SettingsPage() {
   useEffect(() => {
     async function fetchTasks() {
       try {
-        const response = await fetch("/api/tasks");
+        const response = await fetch("/api/tasks?limit=8");
         if (response.ok) {
           const data = await response.json();
-          setTasks(data);
+          setTasks(data.tasks);
         } else {
           console.error("Failed to fetch tasks");
         }
@@ -137,6 +142,11 @@ export default function SettingsPage() {
           </div>
         </form>
       </div>
+      <PreferencesSettings onMessage={showToast} />
+      <KeyboardShortcutsSettings onMessage={showToast} />
+      <TaskImportExport onMessage={showToast} />
+      <CalendarFeedSettings onMessage={showToast} />
+      <TagManager onMessage={showToast} />
     </div>
   );
 
@@ -1,9 +1,38 @@
 "use client";
 
-import { useParams, useRouter } from "next/navigation";
+import { useParams, useRouter, useSearchParams } from "next/navigation";
+import Link from "next/link";
 import { useState, useEffect } from "react";
 import { useSession } from "next-auth/react";
 import SidebarLayout from "../../_components/SidebarLayout";
+import FieldError from "../../_components/FieldError";
+import ChecklistEditor from "../../_components/ChecklistEditor";
+import DependenciesEditor from "../../_components/DependenciesEditor";
+import CommentsThread from "../../_components/CommentsThread";
+import RevisionHistory from "../../_components/RevisionHistory";
+import TimeTracker from "../../_components/TimeTracker";
+import TagBadge from "../../_components/TagBadge";
+import TagPicker from "../../_components/TagPicker";
+import ProjectPicker from "../../_components/ProjectPicker";
+import EstimateInput from "../../_components/EstimateInput";
+import RecurrenceEditor from "../../_components/RecurrenceEditor";
+import useKeyBindings from "../../_components/useKeyBindings";
+import { RecurrenceRule, describeRecurrence } from "../../lib/recurrence";
+import { formatEstimate } from "../../lib/estimates";
+import {
+  displayDueDate,
+  dueDateKey,
+  localTimeZone,
+  moveDueDate,
+} from "../../lib/planning";
+import {
+  DESCRIPTION_MAX_LENGTH,
+  TITLE_MAX_LENGTH,
+  TaskFieldErrors,
+} from "../../lib/taskValidation";
+import { TagSummary } from "../../lib/tagValidation";
+import { ProjectSummary } from "../../lib/projectValidation";
+import { eventToKey, isTypingTarget } from "../../lib/shortcuts";
 import {
   CalendarIcon,
   FlagIcon,
@@ -15,28 +44,13 @@ import {
   XMarkIcon,
   PencilSquareIcon,
   ArrowPathIcon,
+  ArrowPathRoundedSquareIcon,
+  LockClosedIcon,
+  FolderIcon,
 } from "@heroicons/react/24/outline";
 import { ToastContainer, toast } from "react-toastify";
 import "react-toastify/dist/ReactToastify.css";
 import PulseLoader from "react-spinners/PulseLoader";
-const taskTags = [
-  "Work",
-  "Personal",
-  "Urgent",
-  "Important",
-  "Project",
-  "Meeting",
-  "FollowUp",
-  "Waiting",
-  "Delegated",
-  "Health",
-  "Finance",
-  "Learning",
-  "Home",
-  "Errand",
-  "Planning",
-];
-
 interface Task {
   id: string;
   title: string;
@@ -44,14 +58,20 @@ interface Task {
   createdAt: string;
   updatedAt: string;
   dueDate: string | null;
+  hasDueTime: boolean;
   priority: string | null;
   status: string;
-  tags: string[];
+  tags: TagSummary[];
+  recurrence: RecurrenceRule | null;
+  estimatedTime: number | null;
+  projectId: string | null;
+  project: ProjectSummary | null;
 }
 
 export default function TaskDetailPage() {
   const params = useParams();
   const router = useRouter();
+  const searchParams = useSearchParams();
   const id = params.id as string;
   const [task, setTask] = useState<Task | null>(null);
   const [tasks, setTasks] = useState<Task[]>([]);
@@ -59,6 +79,11 @@ export default function TaskDetailPage() {
   const [isEditing, setIsEditing] = useState(false);
   const [editedTask, setEditedTask] = useState<Task | null>(null);
   const [isDeleteModalOpen, setIsDeleteModalOpen] = useState(false);
+  const [notFound, setNotFound] = useState(false);
+  const [fieldErrors, setFieldErrors] = useState<TaskFieldErrors>({});
+  const [isBlocked, setIsBlocked] = useState(false);
+  const [estimateText, setEstimateText] = useState("");
+  const bindings = useKeyBindings();
 
   useEffect(() => {
     fetchTasks();
@@ -69,10 +94,10 @@ export default function TaskDetailPage() {
 
   const fetchTasks = async () => {
     try {
-      const response = await fetch("/api/tasks");
+      const response = await fetch("/api/tasks?limit=8");
       if (response.ok) {
         const data = await response.json();
-        setTasks(data);
+        setTasks(data.tasks);
       } else {
         console.error("Failed to fetch tasks");
       }
@@ -88,6 +113,10 @@ export default function TaskDetailPage() {
         const data = await response.json();
         setTask(data);
         setEditedTask(data);
+        // Opened with the edit shortcut from the task list
+        if (searchParams.get("edit")) startEditing(data);
+      } else if (response.status === 404) {
+        setNotFound(true);
       } else {
         console.error("Failed to fetch task");
       }
@@ -120,14 +149,75 @@ export default function TaskDetailPage() {
         headers: {
           "Content-Type": "application/json",
         },
-        body: JSON.stringify(editedTask),
+        // Only editable fields are accepted by the API
+        body: JSON.stringify({
+          title: editedTask.title,
+          description: editedTask.description,
+          dueDate: editedTask.dueDate,
+          priority: editedTask.priority,
+          status: editedTask.status,
+          estimatedTime: estimateText,
+          tags: editedTask.tags.map((tag) => tag.id),
+          recurrence: editedTask.recurrence,
+          projectId: editedTask.projectId,
+        }),
       });
 
       if (response.ok) {
         const updatedTask = await response.json();
         setTask(updatedTask);
+        setEditedTask(updatedTask);
+        setFieldErrors({});
         setIsEditing(false);
         showToast("Task updated successfully", "info");
+        if (updatedTask.nextOccurrence?.dueDate) {
+          showToast(
+            `Next occurrence scheduled for ${displayDueDate(
+              updatedTask.nextOccurrence.dueDate,
+              updatedTask.nextOccurrence.hasDueTime
+            ).toLocaleDateString()}`,
+            "info"
+          );
+          fetchTasks();
+        }
+      } else {
+        const errorData = await response.json();
+        setFieldErrors(errorData.errors || {});
+        showToast(errorData.error || "Failed to update task", "error");
+      }
+    } catch (error) {
+      console.error("Error updating task:", error);
+      showToast("Error updating task", "error");
+    }
+  };
+
+  const startEditing = (current: Task) => {
+    setEstimateText(
+      current.estimatedTime !== null
+        ? formatEstimate(current.estimatedTime)
+        : ""
+    );
+    setIsEditing(true);
+  };
+
+  const completeTask = async () => {
+    if (!task || task.status === "Completed") return;
+
+    try {
+      const response = await fetch(`/api/tasks/${id}`, {
+        method: "PUT",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ status: "Completed" }),
+      });
+
+      if (response.ok) {
+        const updatedTask = await response.json();
+        setTask(updatedTask);
+        setEditedTask(updatedTask);
+        showToast("Task completed", "info");
+        if (updatedTask.nextOccurrence) {
+          fetchTasks();
+        }
       } else {
         const errorData = await response.json();
         showToast(errorData.error || "Failed to update task", "error");
@@ -142,6 +232,36 @@ export default function TaskDetailPage() {
     setIsDeleteModalOpen(true);
   };
 
+  // The task list's edit, complete and delete keys work here too
+  useEffect(() => {
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (
+        !task ||
+        isEditing ||
+        isDeleteModalOpen ||
+        e.defaultPrevented ||
+        isTypingTarget(e.target)
+      ) {
+        return;
+      }
+      const key = eventToKey(e);
+
+      if (key === bindings.editTask) {
+        startEditing(task);
+      } else if (key === bindings.completeTask) {
+        completeTask();
+      } else if (key === bindings.deleteTask) {
+        handleDelete();
+      } else {
+        return;
+      }
+      e.preventDefault();
+    };
+
+    window.addEventListener("keydown", handleKeyDown);
+    return () => window.removeEventListener("keydown", handleKeyDown);
+  });
+
   const confirmDelete = async () => {
     try {
       const response = await fetch(`/api/tasks/${id}`, {
@@ -149,7 +269,7 @@ export default function TaskDetailPage() {
       });
 
       if (response.ok) {
-        showToast("Task deleted successfully", "info");
+        showToast("Task moved to trash", "info");
         setTimeout(() => router.push("/new"), 3000);
       } else {
         showToast("Failed to delete task", "error");
@@ -186,6 +306,14 @@ export default function TaskDetailPage() {
       );
     }
 
+    if (notFound) {
+      return (
+        <div className="flex justify-center items-center h-full text-gray-600">
+          Task not found.
+        </div>
+      );
+    }
+
     if (!task) {
       return (
         <div className="flex justify-center items-center h-full gap-2">
@@ -202,7 +330,7 @@ export default function TaskDetailPage() {
     }
 
     return (
-      <div className="bg-white shadow-lg rounded-lg p-6 relative">
+      <div className="bg-white shadow-lg rounded-lg p-6 pb-16 relative">
         <div className="flex items-center mb-4">
           <ClipboardDocumentListIcon className="h-8 w-8 text-gray-500 mr-2" />
           <h1 className="text-3xl font-bold text-gray-800">
@@ -213,13 +341,21 @@ export default function TaskDetailPage() {
                 onChange={(e) =>
                   setEditedTask({ ...editedTask!, title: e.target.value })
                 }
+                maxLength={TITLE_MAX_LENGTH}
                 className="w-full p-2 border rounded"
               />
             ) : (
               task.title
             )}
           </h1>
+          {isBlocked && !isEditing && (
+            <span className="inline-flex items-center ml-3 px-2 py-1 rounded-full text-xs font-medium bg-orange-100 text-orange-800">
+              <LockClosedIcon className="h-4 w-4 mr-1" />
+              Blocked
+            </span>
+          )}
         </div>
+        {isEditing && <FieldError message={fieldErrors.title} />}
         <p className="text-lg text-gray-600 whitespace-pre-wrap mb-4">
           {isEditing ? (
             <textarea
@@ -227,6 +363,7 @@ export default function TaskDetailPage() {
               onChange={(e) =>
                 setEditedTask({ ...editedTask!, description: e.target.value })
               }
+              maxLength={DESCRIPTION_MAX_LENGTH}
               className="w-full p-2 border rounded"
               rows={3}
             />
@@ -234,8 +371,9 @@ export default function TaskDetailPage() {
             task.description
           )}
         </p>
+        {isEditing && <FieldError message={fieldErrors.description} />}
         <div className="grid grid-cols-2 gap-4">
-          <div className="flex items-center">
+          <div className="flex flex-wrap items-center">
             <CalendarIcon className="h-5 w-5 text-gray-500 mr-2" />
             <span className="text-sm text-gray-600">
               Due:{" "}
@@ -243,21 +381,42 @@ export default function TaskDetailPage() {
                 <input
                   type="date"
                   value={
-                    editedTask?.dueDate ? editedTask.dueDate.split("T")[0] : ""
+                    editedTask?.dueDate
+                      ? dueDateKey(
+                          editedTask.dueDate,
+                          editedTask.hasDueTime,
+                          localTimeZone()
+                        )
+                      : ""
                   }
+                  // Picking another day keeps a due date's time of day
                   onChange={(e) =>
-                    setEditedTask({ ...editedTask!, dueDate: e.target.value })
+                    setEditedTask({
+                      ...editedTask!,
+                      dueDate: e.target.value
+                        ? moveDueDate(
+                            editedTask!.dueDate,
+                            editedTask!.hasDueTime,
+                            e.target.value,
+                            localTimeZone()
+                          )
+                        : e.target.value,
+                    })
                   }
                   className="p-1 border rounded"
                 />
               ) : task.dueDate ? (
-                new Date(task.dueDate).toLocaleDateString()
+                displayDueDate(
+                  task.dueDate,
+                  task.hasDueTime
+                ).toLocaleDateString()
               ) : (
                 "Not set"
               )}
             </span>
+            {isEditing && <FieldError message={fieldErrors.dueDate} />}
           </div>
-          <div className="flex items-center">
+          <div className="flex flex-wrap items-center">
             <FlagIcon className="h-5 w-5 text-gray-500 mr-2" />
             <span className="text-sm text-gray-600">
               Priority:{" "}
@@ -278,8 +437,9 @@ export default function TaskDetailPage() {
                 task.priority || "Not set"
               )}
             </span>
+            {isEditing && <FieldError message={fieldErrors.priority} />}
           </div>
-          <div className="flex items-center">
+          <div className="flex flex-wrap items-center">
             <ArrowPathIcon className="h-5 w-5 text-gray-500 mr-2" />
             <span className="text-sm text-gray-600">
               {isEditing ? (
@@ -308,35 +468,98 @@ export default function TaskDetailPage() {
                 </span>
               )}
             </span>
+            {isEditing && <FieldError message={fieldErrors.status} />}
           </div>
-          <div className="flex items-center">
+          <div className="flex flex-wrap items-center">
             <TagIcon className="h-5 w-5 text-gray-500 mr-2" />
+            <span className="text-sm text-gray-600 mr-1">Tags:</span>
+            {isEditing ? (
+              <div className="flex-grow">
+                <TagPicker
+                  value={editedTask?.tags ?? []}
+                  onChange={(tags) => setEditedTask({ ...editedTask!, tags })}
+                  error={fieldErrors.tags}
+                />
+              </div>
+            ) : task.tags.length > 0 ? (
+              <span className="flex flex-wrap gap-1">
+                {task.tags.map((tag) => (
+                  <TagBadge key={tag.id} tag={tag} />
+                ))}
+              </span>
+            ) : (
+              <span className="text-sm text-gray-600">None</span>
+            )}
+          </div>
+          <div className="flex flex-wrap items-center">
+            <FolderIcon className="h-5 w-5 text-gray-500 mr-2" />
             <span className="text-sm text-gray-600">
-              Tags:{" "}
+              Project:{" "}
               {isEditing ? (
-                <select
-                  value={editedTask?.tags[0] || ""}
-                  onChange={(e) =>
-                    setEditedTask({
-                      ...editedTask!,
-                      tags: e.target.value ? [e.target.value] : [],
-                    })
+                <ProjectPicker
+                  value={editedTask?.projectId ?? null}
+                  onChange={(projectId) =>
+                    setEditedTask({ ...editedTask!, projectId })
                   }
                   className="p-1 border rounded"
+                />
+              ) : task.project ? (
+                <Link
+                  href={`/tasks?project=${task.project.id}`}
+                  className="inline-flex items-center hover:underline"
                 >
-                  <option value="">Select a tag</option>
-                  {taskTags.map((tag) => (
-                    <option key={tag} value={tag}>
-                      {tag}
-                    </option>
-                  ))}
-                </select>
+                  <span
+                    className="w-2.5 h-2.5 rounded-full mr-1"
+                    style={{ backgroundColor: task.project.color }}
+                  />
+                  {task.project.name}
+                </Link>
+              ) : (
+                "None"
+              )}
+            </span>
+            {isEditing && <FieldError message={fieldErrors.projectId} />}
+          </div>
+          <div className="flex flex-wrap items-center">
+            <ClockIcon className="h-5 w-5 text-gray-500 mr-2" />
+            <span className="flex items-center text-sm text-gray-600">
+              Estimate:{" "}
+              {isEditing ? (
+                <EstimateInput
+                  id="estimate"
+                  value={estimateText}
+                  onChange={setEstimateText}
+                  error={fieldErrors.estimatedTime}
+                  className="ml-1 p-1 border rounded w-28"
+                />
+              ) : task.estimatedTime !== null ? (
+                formatEstimate(task.estimatedTime)
               ) : (
-                task.tags.join(", ") || "None"
+                "Not set"
               )}
             </span>
           </div>
         </div>
+        {isEditing ? (
+          <div className="mt-4 max-w-md">
+            <span className="block text-sm text-gray-600 mb-1">Repeat</span>
+            <RecurrenceEditor
+              value={editedTask?.recurrence ?? null}
+              onChange={(recurrence) =>
+                setEditedTask({ ...editedTask!, recurrence })
+              }
+              dueDate={editedTask?.dueDate ?? ""}
+              error={fieldErrors.recurrence}
+            />
+          </div>
+        ) : (
+          task.recurrence && (
+            <p className="mt-4 flex items-center text-sm text-gray-600">
+              <ArrowPathRoundedSquareIcon className="h-5 w-5 text-gray-500 mr-2" />
+              Repeats: {describeRecurrence(task.recurrence)}
+            </p>
+          )
+        )}
 
         <div className="mt-4 space-y-2 text-sm text-gray-500">
           <p className="flex items-center">
@@ -348,6 +571,15 @@ export default function TaskDetailPage() {
             Last modified: {new Date(task.updatedAt).toLocaleString()}
           </p>
         </div>
+        <TimeTracker taskId={task.id} estimatedTime={task.estimatedTime} />
+        <ChecklistEditor taskId={task.id} />
+        <DependenciesEditor taskId={task.id} onBlockedChange={setIsBlocked} />
+        <CommentsThread taskId={task.id} />
+        <RevisionHistory
+          taskId={task.id}
+          updatedAt={task.updatedAt}
+          onRestored={fetchTask}
+        />
         {isEditing && (
           <div className="mt-4">
             <button
@@ -360,6 +592,7 @@ export default function TaskDetailPage() {
               onClick={() => {
                 setIsEditing(false);
                 setEditedTask(task);
+                setFieldErrors({});
               }}
               className="bg-gray-300 hover:bg-gray-400 text-gray-800 font-bold py-2 px-4 rounded"
             >
@@ -369,7 +602,9 @@ export default function TaskDetailPage() {
         )}
         <div className="absolute bottom-4 right-4 flex space-x-2">
           <button
-            onClick={() => setIsEditing(!isEditing)}
+            onClick={() =>
+              isEditing ? setIsEditing(false) : startEditing(task)
+            }
             className="p-2 bg-blue-100 rounded-full hover:bg-blue-200 transition-colors duration-200"
             title="Update task"
           >
@@ -404,8 +639,8 @@ export default function TaskDetailPage() {
               </button>
             </div>
             <p className="mb-4">
-              Are you sure you want to delete this task? This action cannot be
-              undone.
+              Move this task to the trash? You can restore it from the Trash
+              page until it is purged.
             </p>
             <div className="flex justify-end space-x-2">
               <button
@@ -2,38 +2,120 @@
 import React from "react";
 import TasksComponent from "../_components/TasksList";
 import SidebarLayout from "../_components/SidebarLayout";
-import { getServerSession } from "next-auth/next";
-import { authOptions } from "../api/auth/[...nextauth]/route";
+import ProjectHeader from "../_components/ProjectHeader";
 import prisma from "../lib/prisma";
+import { getSessionUser } from "../lib/auth";
+import { projectSelect } from "../lib/projects";
+import { savedViewSelect, toSavedViewSummary } from "../lib/savedViews";
+import {
+  SavedViewSummary,
+  appendFilterParams,
+} from "../lib/savedViewValidation";
+import { findTasksPage, parseTaskQuery } from "../lib/taskQuery";
 
-async function getTasks(userId: string) {
-  const tasks = await prisma.task.findMany({
-    where: { userId: userId },
-    orderBy: { createdAt: "desc" },
-  });
-
-  return tasks.map((task) => ({
-    id: task.id,
-    title: task.title,
-    dueDate: task.dueDate ? task.dueDate.toISOString() : null,
-    priority: task.priority as "Low" | "Medium" | "High" | null,
-    createdAt: task.createdAt.toISOString(),
-    updatedAt: task.updatedAt.toISOString(),
-    description: task.description,
-    completed: task.completed,
-    status: task.status,
-    tags: task.tags,
-    estimatedTime: task.estimatedTime,
-  }));
+async function getTasks(
+  userId: string,
+  projectId?: string,
+  savedView?: SavedViewSummary | null
+) {
+  // Only the first page is rendered on the server; the list loads the rest.
+  // A saved view's first page uses its filters and sort, as the list will.
+  const params = new URLSearchParams();
+  if (savedView) {
+    appendFilterParams(params, savedView.filters);
+    if (savedView.sort) {
+      params.set("sort", savedView.sort);
+      params.set("order", savedView.order);
+    }
+  }
+  if (projectId) params.set("project", projectId);
+  const { tasks, nextCursor } = await findTasksPage(
+    userId,
+    parseTaskQuery(params)
+  );
+
+  return {
+    nextCursor,
+    tasks: tasks.map((task) => ({
+      id: task.id,
+      title: task.title,
+      dueDate: task.dueDate ? task.dueDate.toISOString() : null,
+      hasDueTime: task.hasDueTime,
+      priority: task.priority as "Low" | "Medium" | "High" | null,
+      createdAt: task.createdAt.toISOString(),
+      updatedAt: task.updatedAt.toISOString(),
+      description: task.description,
+      completed: task.completed,
+      status: task.status,
+      tags: task.tags,
+      estimatedTime: task.estimatedTime,
+      checklist: task.checklist,
+      recurrence: task.recurrence,
+      blockedBy: task.blockedBy,
+    })),
+  };
 }
 
-export default async function TasksPage() {
-  const session = await getServerSession(authOptions);
-  const tasks = session?.user?.id ? await getTasks(session.user.id) : [];
+export default async function TasksPage({
+  searchParams,
+}: {
+  searchParams: { project?: string; view?: string };
+}) {
+  const user = await getSessionUser();
+  const projectId = searchParams.project;
+  const viewId = searchParams.view;
+  const project =
+    user && projectId
+      ? await prisma.project.findFirst({
+          where: { id: projectId, userId: user.id },
+          select: projectSelect,
+        })
+      : null;
+
+  if (projectId && !project) {
+    return (
+      <SidebarLayout tasks={[]} isAddTaskPage={false}>
+        <p className="text-center text-gray-500 py-12">Project not found.</p>
+      </SidebarLayout>
+    );
+  }
+
+  const savedView =
+    user && viewId
+      ? await prisma.savedView.findFirst({
+          where: { id: viewId, userId: user.id },
+          select: savedViewSelect,
+        })
+      : null;
+
+  if (viewId && !savedView) {
+    return (
+      <SidebarLayout tasks={[]} isAddTaskPage={false}>
+        <p className="text-center text-gray-500 py-12">View not found.</p>
+      </SidebarLayout>
+    );
+  }
+
+  const view = savedView && toSavedViewSummary(savedView);
+  const { tasks, nextCursor } = user
+    ? await getTasks(user.id, project?.id, view)
+    : { tasks: [], nextCursor: null };
 
   return (
-    <SidebarLayout tasks={tasks} isAddTaskPage={false}>
-      <TasksComponent initialTasks={tasks} />
+    <SidebarLayout
+      tasks={tasks}
+      isAddTaskPage={false}
+      activeProjectId={project?.id}
+      activeViewId={savedView?.id}
+    >
+      {project && <ProjectHeader key={project.id} project={project} />}
+      <TasksComponent
+        key={`${project?.id ?? "all"}-${savedView?.id ?? "none"}`}
+        initialTasks={tasks}
+        initialNextCursor={nextCursor}
+        project={project}
+        savedView={view}
+      />
     </SidebarLayout>
   );
 }
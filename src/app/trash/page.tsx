@@ -0,0 +1,227 @@
+"use client";
+import { useCallback, useEffect, useState } from "react";
+import Link from "next/link";
+import { formatDistanceToNow } from "date-fns";
+import { ArrowUturnLeftIcon, TrashIcon } from "@heroicons/react/24/outline";
+import { ToastContainer, toast } from "react-toastify";
+import "react-toastify/dist/ReactToastify.css";
+import PulseLoader from "react-spinners/PulseLoader";
+import SidebarLayout from "../_components/SidebarLayout";
+
+interface Task {
+  id: string;
+  title: string;
+}
+
+interface TrashedTask {
+  id: string;
+  title: string;
+  status: string;
+  priority: string | null;
+  dueDate: string | null;
+  deletedAt: string;
+  purgeAt: string;
+  project: { id: string; name: string; color: string } | null;
+}
+
+export default function TrashPage() {
+  const [tasks, setTasks] = useState<Task[]>([]);
+  const [trashedTasks, setTrashedTasks] = useState<TrashedTask[] | null>(null);
+  const [retentionDays, setRetentionDays] = useState<number | null>(null);
+
+  const fetchTasks = async () => {
+    try {
+      const response = await fetch("/api/tasks?limit=8");
+      if (response.ok) {
+        const data = await response.json();
+        setTasks(data.tasks);
+      } else {
+        console.error("Failed to fetch tasks");
+      }
+    } catch (error) {
+      console.error("Error fetching tasks:", error);
+    }
+  };
+
+  const fetchTrash = useCallback(async () => {
+    try {
+      const response = await fetch("/api/trash");
+      if (response.ok) {
+        const data = await response.json();
+        setTrashedTasks(data.tasks);
+        setRetentionDays(data.retentionDays);
+      } else {
+        console.error("Failed to fetch trash");
+      }
+    } catch (error) {
+      console.error("Error fetching trash:", error);
+    }
+  }, []);
+
+  useEffect(() => {
+    fetchTasks();
+    fetchTrash();
+  }, [fetchTrash]);
+
+  const removeFromList = (taskId: string) =>
+    setTrashedTasks(
+      (prevTasks) => prevTasks?.filter((task) => task.id !== taskId) ?? null
+    );
+
+  const restoreTask = async (task: TrashedTask) => {
+    try {
+      const response = await fetch(`/api/trash/${task.id}/restore`, {
+        method: "POST",
+      });
+      if (response.ok) {
+        removeFromList(task.id);
+        fetchTasks();
+        toast.info(`Restored "${task.title}"`);
+      } else {
+        const errorData = await response.json();
+        toast.error(errorData.error || "Failed to restore task");
+      }
+    } catch (error) {
+      console.error("Error restoring task:", error);
+      toast.error("Error restoring task");
+    }
+  };
+
+  const deleteTask = async (task: TrashedTask) => {
+    if (
+      !window.confirm(
+        `Permanently delete "${task.title}"? This can't be undone.`
+      )
+    ) {
+      return;
+    }
+
+    try {
+      const response = await fetch(`/api/trash/${task.id}`, {
+        method: "DELETE",
+      });
+      if (response.ok) {
+        removeFromList(task.id);
+      } else {
+        const errorData = await response.json();
+        toast.error(errorData.error || "Failed to delete task");
+      }
+    } catch (error) {
+      console.error("Error deleting task:", error);
+      toast.error("Error deleting task");
+    }
+  };
+
+  const emptyTrash = async () => {
+    if (
+      !window.confirm(
+        `Permanently delete all ${trashedTasks?.length} task(s) in the trash? This can't be undone.`
+      )
+    ) {
+      return;
+    }
+
+    try {
+      const response = await fetch("/api/trash", { method: "DELETE" });
+      if (response.ok) {
+        setTrashedTasks([]);
+      } else {
+        const errorData = await response.json();
+        toast.error(errorData.error || "Failed to empty trash");
+      }
+    } catch (error) {
+      console.error("Error emptying trash:", error);
+      toast.error("Error emptying trash");
+    }
+  };
+
+  return (
+    <SidebarLayout tasks={tasks} isAddTaskPage={false}>
+      <ToastContainer />
+      <div className="max-w-3xl mx-auto px-4">
+        <div className="flex items-center justify-between mb-2">
+          <h1 className="text-3xl font-bold text-gray-800">Trash</h1>
+          {trashedTasks && trashedTasks.length > 0 && (
+            <button
+              onClick={emptyTrash}
+              className="px-4 py-2 text-sm bg-red-500 text-white rounded hover:bg-red-600"
+            >
+              Empty trash
+            </button>
+          )}
+        </div>
+        {retentionDays !== null && (
+          <p className="text-sm text-gray-500 mb-6">
+            Deleted tasks are kept for {retentionDays} day(s), then removed for
+            good. You can change this in{" "}
+            <Link href="/settings" className="underline hover:text-gray-700">
+              Settings
+            </Link>
+            .
+          </p>
+        )}
+
+        {trashedTasks === null ? (
+          <div className="flex justify-center items-center gap-2 py-12">
+            <span className="text-gray-600">Loading trash</span>
+            <PulseLoader
+              color="#4B5563"
+              loading={true}
+              size={4}
+              speedMultiplier={0.8}
+              aria-label="Loading Trash"
+            />
+          </div>
+        ) : trashedTasks.length === 0 ? (
+          <p className="text-center text-gray-500 py-12">The trash is empty.</p>
+        ) : (
+          <ul className="bg-white shadow-sm rounded-lg divide-y">
+            {trashedTasks.map((task) => (
+              <li key={task.id} className="flex items-center gap-4 p-4">
+                <div className="flex-grow min-w-0">
+                  <p className="font-medium text-gray-800 truncate">
+                    {task.title}
+                  </p>
+                  <p className="flex flex-wrap items-center gap-x-3 text-xs text-gray-500 mt-1">
+                    {task.project && (
+                      <span className="flex items-center">
+                        <span
+                          className="w-2 h-2 rounded-full mr-1"
+                          style={{ backgroundColor: task.project.color }}
+                        />
+                        {task.project.name}
+                      </span>
+                    )}
+                    <span title={new Date(task.deletedAt).toLocaleString()}>
+                      Deleted{" "}
+                      {formatDistanceToNow(new Date(task.deletedAt), {
+                        addSuffix: true,
+                      })}
+                    </span>
+                    <span>
+                      Purged on {new Date(task.purgeAt).toLocaleDateString()}
+                    </span>
+                  </p>
+                </div>
+                <button
+                  onClick={() => restoreTask(task)}
+                  className="flex items-center px-3 py-1 text-sm bg-gray-200 rounded hover:bg-gray-300"
+                >
+                  <ArrowUturnLeftIcon className="w-4 h-4 mr-1" />
+                  Restore
+                </button>
+                <button
+                  onClick={() => deleteTask(task)}
+                  className="p-1 text-gray-400 hover:text-red-500"
+                  title="Delete permanently"
+                >
+                  <TrashIcon className="w-5 h-5" />
+                </button>
+              </li>
+            ))}
+          </ul>
+        )}
+      </div>
+    </SidebarLayout>
+  );
+}
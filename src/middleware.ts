@@ -7,5 +7,13 @@ export default withAuth({
 });
 
 export const config = {
-  matcher: ["/new/:path*", "/task/:path*", "/tasks/:path*", "/settings/:path*"],
+  matcher: [
+    "/new/:path*",
+    "/task/:path*",
+    "/tasks/:path*",
+    "/settings/:path*",
+    "/trash/:path*",
+    "/planning/:path*",
+    "/calendar/:path*",
+  ],
 };
@@ -0,0 +1,318 @@
+import { Prisma } from "@prisma/client";
+
+// An in-memory stand-in for the Prisma client, for calling route handlers in
+// tests. It understands the query shapes the routes use: plain and operator
+// conditions, AND/OR, composite keys, relation filters, include/select of
+// relations and the relation writes below. Anything else throws, so a route
+// using a query the fake doesn't know fails its test with a 500 rather than
+// passing by accident.
+//
+// Tests mock "@/app/lib/prisma" with `prisma` and seed `db` directly. `session`
+// holds the id of the user the mocked next-auth session returns.
+
+export type Row = Record<string, unknown>;
+
+export const db: Record<string, Row[]> = {};
+
+export const session = { userId: "" };
+
+type Relation = {
+  table: string;
+  toOne: boolean;
+  // The foreign key on this row, for to-one relations
+  key?: string;
+  related: (row: Row, other: Row) => boolean;
+};
+
+const toOne = (table: string, key: string): Relation => ({
+  table,
+  toOne: true,
+  key,
+  related: (row, other) => other.id === row[key],
+});
+
+const toMany = (table: string, related: Relation["related"]): Relation => ({
+  table,
+  toOne: false,
+  related,
+});
+
+// Many-to-many task tags are stored as `tagIds` on the task
+const tagIdsOf = (task: Row) => (task.tagIds as string[] | undefined) ?? [];
+
+const relations: Record<string, Record<string, Relation>> = {
+  user: { tasks: toMany("task", (user, task) => task.userId === user.id) },
+  task: {
+    project: toOne("project", "projectId"),
+    tags: toMany("tag", (task, tag) =>
+      tagIdsOf(task).includes(tag.id as string)
+    ),
+  },
+  tag: {
+    tasks: toMany("task", (tag, task) =>
+      tagIdsOf(task).includes(tag.id as string)
+    ),
+  },
+  taskDependency: {
+    task: toOne("task", "taskId"),
+    prerequisite: toOne("task", "prerequisiteId"),
+  },
+  taskRevision: { user: toOne("user", "userId") },
+  comment: { user: toOne("user", "userId") },
+  timeEntry: { task: toOne("task", "taskId") },
+};
+
+// Columns a created row gets when the data leaves them out
+const defaults: Record<string, () => Row> = {
+  task: () => ({
+    description: null,
+    completed: false,
+    dueDate: null,
+    priority: null,
+    status: "Not Started",
+    estimatedTime: null,
+    recurrence: null,
+    projectId: null,
+    deletedAt: null,
+    externalUid: null,
+    tagIds: [],
+  }),
+  timeEntry: () => ({ endedAt: null, note: null }),
+  taskRevision: () => ({ restoredFromId: null }),
+  checklistItem: () => ({ completed: false }),
+};
+
+const rowsOf = (table: string) => (db[table] ??= []);
+
+const related = (table: string, row: Row, name: string) => {
+  const relation = relations[table][name];
+  const rows = rowsOf(relation.table).filter((other) =>
+    relation.related(row, other)
+  );
+  return relation.toOne ? rows[0] ?? null : rows;
+};
+
+const comparable = (value: unknown) =>
+  value instanceof Date ? value.getTime() : value;
+
+const matchesValue = (value: unknown, condition: Row): boolean =>
+  Object.entries(condition).every(([operator, operand]) => {
+    const a = comparable(value) as number;
+    const b = comparable(operand) as number;
+    switch (operator) {
+      case "equals":
+        return a === b;
+      case "in":
+        return (operand as unknown[]).map(comparable).includes(a);
+      case "notIn":
+        return !(operand as unknown[]).map(comparable).includes(a);
+      case "not":
+        return operand !== null &&
+          typeof operand === "object" &&
+          !(operand instanceof Date)
+          ? !matchesValue(value, operand as Row)
+          : a !== b;
+      case "gt":
+        return value !== null && a > b;
+      case "gte":
+        return value !== null && a >= b;
+      case "lt":
+        return value !== null && a < b;
+      case "lte":
+        return value !== null && a <= b;
+      case "contains":
+        return (
+          typeof value === "string" &&
+          (condition.mode === "insensitive"
+            ? value.toLowerCase().includes((operand as string).toLowerCase())
+            : value.includes(operand as string))
+        );
+      case "mode":
+        return true;
+      default:
+        throw new Error(`Unsupported operator ${operator}`);
+    }
+  });
+
+export const matches = (table: string, row: Row, where: Row = {}): boolean =>
+  Object.entries(where).every(([key, condition]) => {
+    if (condition === undefined) return true;
+    if (key === "AND") {
+      return (condition as Row[]).every((part) => matches(table, row, part));
+    }
+    if (key === "OR") {
+      return (condition as Row[]).some((part) => matches(table, row, part));
+    }
+    const relation = relations[table]?.[key];
+    if (relation) {
+      const value = related(table, row, key);
+      if (relation.toOne) {
+        return (
+          value !== null &&
+          matches(relation.table, value as Row, condition as Row)
+        );
+      }
+      const { some, none } = condition as { some?: Row; none?: Row };
+      const rows = value as Row[];
+      if (some)
+        return rows.some((other) => matches(relation.table, other, some));
+      if (none)
+        return !rows.some((other) => matches(relation.table, other, none));
+      throw new Error(`Unsupported filter on ${table}.${key}`);
+    }
+    // Compound unique keys like taskId_prerequisiteId
+    if (key.includes("_") && !(key in row)) {
+      return matches(table, row, condition as Row);
+    }
+    const value = row[key] ?? null;
+    if (
+      condition === null ||
+      typeof condition !== "object" ||
+      condition instanceof Date
+    ) {
+      return comparable(value) === comparable(condition);
+    }
+    return matchesValue(value, condition as Row);
+  });
+
+const ids = (value: unknown) =>
+  ([] as Row[]).concat(value as Row[]).map((item) => item.id as string);
+
+// Writes `data` into `row`, including connect/disconnect/set on relations
+const apply = (table: string, row: Row, data: Row) => {
+  for (const [key, value] of Object.entries(data)) {
+    if (value === undefined) continue;
+    const relation = relations[table]?.[key];
+    if (relation?.toOne) {
+      const { connect, disconnect } = value as Row;
+      row[relation.key!] = connect
+        ? (connect as Row).id
+        : disconnect
+        ? null
+        : row[relation.key!];
+    } else if (table === "task" && key === "tags") {
+      const { set, connect, disconnect } = value as Row;
+      let tagIds = set ? ids(set) : tagIdsOf(row);
+      if (connect) tagIds = [...tagIds, ...ids(connect)];
+      if (disconnect) {
+        const removed = ids(disconnect);
+        tagIds = tagIds.filter((id) => !removed.includes(id));
+      }
+      row.tagIds = tagIds;
+    } else if (value === Prisma.DbNull || value === Prisma.JsonNull) {
+      row[key] = null;
+    } else {
+      row[key] = value;
+    }
+  }
+  return row;
+};
+
+// A copy of the row with the relations named in include or select attached
+const read = (table: string, row: Row, args: Row = {}) => {
+  const copy = { ...row };
+  const wanted = { ...(args.include as Row), ...(args.select as Row) };
+  for (const name of Object.keys(wanted)) {
+    if (relations[table]?.[name]) copy[name] = related(table, row, name);
+  }
+  return copy;
+};
+
+const sorted = (rows: Row[], orderBy: unknown) => {
+  const keys = ([] as Row[])
+    .concat((orderBy as Row[]) ?? [])
+    .flatMap((order) => Object.entries(order));
+  return [...rows].sort((a, b) => {
+    for (const [key, direction] of keys) {
+      const x = comparable(a[key]) as number;
+      const y = comparable(b[key]) as number;
+      if (x === y) continue;
+      const ascending = x === null ? -1 : y === null ? 1 : x < y ? -1 : 1;
+      return direction === "desc" ? -ascending : ascending;
+    }
+    return 0;
+  });
+};
+
+let nextId = 0;
+
+const model = (table: string) => {
+  const find = (args: Row) =>
+    sorted(
+      rowsOf(table).filter((row) => matches(table, row, args.where as Row)),
+      args.orderBy
+    ).slice(0, (args.take as number | undefined) ?? undefined);
+  const findOrThrow = (args: Row) => {
+    const [row] = find(args);
+    if (!row) throw new Error(`No ${table} matches`);
+    return row;
+  };
+  const create = (data: Row) => {
+    const now = new Date();
+    const row = apply(
+      table,
+      {
+        ...(table === "taskDependency" ? {} : { id: `${table}-${++nextId}` }),
+        createdAt: now,
+        updatedAt: now,
+        ...defaults[table]?.(),
+      },
+      data
+    );
+    rowsOf(table).push(row);
+    return row;
+  };
+
+  return {
+    findFirst: async (args: Row = {}) => {
+      const [row] = find(args);
+      return row ? read(table, row, args) : null;
+    },
+    findUnique: async (args: Row) => {
+      const [row] = find(args);
+      return row ? read(table, row, args) : null;
+    },
+    findFirstOrThrow: async (args: Row) => read(table, findOrThrow(args), args),
+    findUniqueOrThrow: async (args: Row) =>
+      read(table, findOrThrow(args), args),
+    findMany: async (args: Row = {}) =>
+      find(args).map((row) => read(table, row, args)),
+    count: async (args: Row = {}) => find(args).length,
+    create: async (args: Row) => read(table, create(args.data as Row), args),
+    createMany: async ({ data }: Row) => {
+      (data as Row[]).forEach(create);
+      return { count: (data as Row[]).length };
+    },
+    update: async (args: Row) =>
+      read(table, apply(table, findOrThrow(args), args.data as Row), args),
+    updateMany: async ({ where, data }: Row) => {
+      const found = find({ where });
+      found.forEach((row) => apply(table, row, data as Row));
+      return { count: found.length };
+    },
+    delete: async (args: Row) => {
+      const row = findOrThrow(args);
+      db[table] = rowsOf(table).filter((other) => other !== row);
+      return read(table, row, args);
+    },
+    deleteMany: async ({ where }: Row = {}) => {
+      const found = find({ where });
+      db[table] = rowsOf(table).filter((row) => !found.includes(row));
+      return { count: found.length };
+    },
+  };
+};
+
+export const prisma: Row = {
+  user: model("user"),
+  task: model("task"),
+  tag: model("tag"),
+  project: model("project"),
+  checklistItem: model("checklistItem"),
+  comment: model("comment"),
+  taskDependency: model("taskDependency"),
+  taskRevision: model("taskRevision"),
+  timeEntry: model("timeEntry"),
+  $transaction: async (work: unknown) =>
+    typeof work === "function" ? work(prisma) : Promise.all(work as []),
+};